@@ -12,11 +12,13 @@ import EquipmentRental from './components/EquipmentRental';
 import DigitalWallet from './components/DigitalWallet';
 import AdminDashboard from './components/AdminDashboard';
 import Orders from './components/Orders';
+import BuyerRequests from './components/BuyerRequests';
 import Profile from './components/Profile';
 import { NotificationProvider } from './contexts/NotificationContext';
+import { CurrencyProvider } from './contexts/CurrencyContext';
 import NotificationArea from './components/NotificationArea';
 import GlobalMessageListener from './components/GlobalMessageListener'; // Imported Listener
-import { HomeIcon, CloudIcon, TagIcon, BugIcon, ShoppingCartIcon, SproutIcon, UsersIcon, TractorIcon, WalletIcon, ShieldCheckIcon, UploadIcon, CheckCircleIcon, XIcon, AgroLogoIcon } from './components/common/icons';
+import { HomeIcon, CloudIcon, TagIcon, BugIcon, ShoppingCartIcon, SproutIcon, UsersIcon, TractorIcon, WalletIcon, ShieldCheckIcon, ClipboardListIcon, UploadIcon, CheckCircleIcon, XIcon, AgroLogoIcon } from './components/common/icons';
 import type { View, User } from './types';
 import { supabase } from './services/supabase';
 import { uploadUserFile } from './services/storageService';
@@ -120,6 +122,18 @@ const App: React.FC = () => {
     return () => { subscription.unsubscribe(); };
   }, []);
 
+  // Shared invoice links (?invoice=INV-...) open the invoice in the wallet
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const invoiceNumber = params.get('invoice');
+    if (!invoiceNumber) return;
+
+    sessionStorage.setItem('wallet_invoice', invoiceNumber);
+    params.delete('invoice');
+    window.history.replaceState(null, '', `${window.location.pathname}${params.toString() ? `?${params}` : ''}${window.location.hash}`);
+    setActiveView('WALLET');
+  }, []);
+
   // Listen for Supabase Auth state changes
   useEffect(() => {
     const checkUser = async () => {
@@ -303,7 +317,9 @@ const App: React.FC = () => {
       case 'WALLET':
         return <DigitalWallet user={user} />;
       case 'ORDERS':
-        return <Orders />;
+        return <Orders user={user} />;
+      case 'REQUESTS':
+        return <BuyerRequests user={user} setActiveView={setActiveView} onRequireLogin={handleRequireLogin} />;
       case 'ADMIN':
         return <AdminDashboard user={user} onLogin={handleLogin} />;
       case 'PROFILE':
@@ -318,6 +334,7 @@ const App: React.FC = () => {
 
   return (
     <NotificationProvider>
+    <CurrencyProvider user={user}>
       <GlobalMessageListener user={user} setActiveView={setActiveView} />
       <div className="min-h-screen min-h-[100dvh] bg-gray-900 font-sans text-gray-200 flex flex-col">
          {/* Main Container - Optimized for Mobile & Desktop */}
@@ -450,6 +467,7 @@ const App: React.FC = () => {
                      <NavItem view="DASHBOARD" label="Home" icon={<HomeIcon />} activeView={activeView} setActiveView={handleSetActiveView} />
                      <NavItem view="WEATHER" label="Weather" icon={<CloudIcon />} activeView={activeView} setActiveView={handleSetActiveView} />
                      <NavItem view="MARKETPLACE" label="Marketplace" icon={<ShoppingCartIcon />} activeView={activeView} setActiveView={handleSetActiveView} />
+                     <NavItem view="REQUESTS" label="Requests" icon={<ClipboardListIcon />} activeView={activeView} setActiveView={handleSetActiveView} />
                      <NavItem view="RENTAL" label="Rental" icon={<TractorIcon />} activeView={activeView} setActiveView={handleSetActiveView} />
                      <NavItem view="WALLET" label="Wallet" icon={<WalletIcon />} activeView={activeView} setActiveView={handleSetActiveView} />
                      <NavItem view="FORUM" label="Forum" icon={<UsersIcon />} activeView={activeView} setActiveView={handleSetActiveView} />
@@ -468,6 +486,7 @@ const App: React.FC = () => {
         
         <NotificationArea setActiveView={setActiveView} />
       </div>
+    </CurrencyProvider>
     </NotificationProvider>
   );
 };
@@ -2,14 +2,20 @@
 import React, { useState, useEffect, useRef } from 'react';
 import Card from './common/Card';
 import Button from './common/Button';
-import { ChartBarIcon, ShieldCheckIcon, UserCircleIcon, UploadIcon, TrashIcon, TagIcon, PencilIcon } from './common/icons';
+import { ChartBarIcon, ShieldCheckIcon, UserCircleIcon, UploadIcon, TrashIcon, TagIcon, PencilIcon, BanknotesIcon, MessageSquareIcon, AlertTriangleIcon } from './common/icons';
 import { generateAnalyticsReport } from '../services/geminiService';
 import { getAllTransactions } from '../services/paymentService';
+import { getLoanBook, decideLoan } from '../services/loanService';
+import { getClaimsQueue, adjudicateClaim } from '../services/insuranceService';
+import { getPaymentSmsQueue, reviewPaymentSms } from '../services/smsReconciliationService';
+import { getFraudQueue, reviewFlaggedTransaction, FRAUD_RULE_LABELS } from '../services/fraudService';
+import { setFxRate } from '../services/currencyService';
+import { useCurrency } from '../contexts/CurrencyContext';
 import { supabase } from '../services/supabase';
 import { uploadUserFile } from '../services/storageService';
 import { marked } from 'marked';
 import { fileToDataUri } from '../utils';
-import type { User, UserType, AdBanner } from '../types';
+import type { User, UserType, AdBanner, LoanBookEntry, InsuranceClaim, PaymentSms, FlaggedTransaction, FraudFlag } from '../types';
 
 interface AdminDashboardProps {
   user: User | null;
@@ -40,12 +46,176 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogin }) => {
   const [isUploadingAd, setIsUploadingAd] = useState(false);
   const adFileInputRef = useRef<HTMLInputElement>(null);
 
+  // Loan Book State
+  const [loanBook, setLoanBook] = useState<LoanBookEntry[]>([]);
+  const [loanFilter, setLoanFilter] = useState<'all' | 'pending' | 'active' | 'overdue' | 'defaulted'>('all');
+  const [decidingLoanId, setDecidingLoanId] = useState<string | null>(null);
+
+  // Insurance Claims State
+  const [claimsQueue, setClaimsQueue] = useState<InsuranceClaim[]>([]);
+  const [claimFilter, setClaimFilter] = useState<'open' | 'paid' | 'rejected' | 'all'>('open');
+  const [expandedClaimId, setExpandedClaimId] = useState<string | null>(null);
+  const [adjudicatingClaimId, setAdjudicatingClaimId] = useState<string | null>(null);
+
+  // Payment SMS Review State
+  const [smsQueue, setSmsQueue] = useState<PaymentSms[]>([]);
+  const [reviewingSmsId, setReviewingSmsId] = useState<string | null>(null);
+
+  // Fraud Review State
+  const [fraudQueue, setFraudQueue] = useState<FlaggedTransaction[]>([]);
+  const [fraudFilter, setFraudFilter] = useState<FraudFlag['status'] | 'all'>('open');
+  const [reviewingTxId, setReviewingTxId] = useState<string | null>(null);
+
+  // Exchange Rates (shared with the rest of the app through CurrencyContext)
+  const { rates, refreshRates } = useCurrency();
+  const [savingRate, setSavingRate] = useState(false);
+
   useEffect(() => {
       if (user && (user.type === 'admin' || user.type === 'agent')) {
           fetchAdBanners();
+          fetchLoanBook();
+          fetchClaimsQueue();
+          fetchSmsQueue();
       }
   }, [user]);
 
+  useEffect(() => {
+      if (user && (user.type === 'admin' || user.type === 'agent')) {
+          fetchFraudQueue();
+      }
+  }, [user, fraudFilter]);
+
+  const fetchLoanBook = async () => {
+      try {
+          setLoanBook(await getLoanBook());
+      } catch (error) {
+          console.error("Error fetching loan book:", JSON.stringify(error));
+      }
+  };
+
+  const handleDecideLoan = async (loan: LoanBookEntry, approve: boolean) => {
+      const reason = window.prompt(approve ? `Approve GHS ${loan.principal} for ${loan.borrower_name}? Note (optional):` : `Reason for rejecting ${loan.borrower_name}'s application:`);
+      if (reason === null) return;
+
+      setDecidingLoanId(loan.id);
+      try {
+          await decideLoan(loan.id, approve, reason);
+          await fetchLoanBook();
+      } catch (error: any) {
+          console.error(error);
+          alert(error.message || "Failed to update loan.");
+      } finally {
+          setDecidingLoanId(null);
+      }
+  };
+
+  const fetchClaimsQueue = async () => {
+      try {
+          setClaimsQueue(await getClaimsQueue());
+      } catch (error) {
+          console.error("Error fetching claims:", JSON.stringify(error));
+      }
+  };
+
+  const handleAdjudicateClaim = async (claim: InsuranceClaim, decision: 'under_review' | 'approved' | 'rejected') => {
+      let amount: number | null = null;
+      if (decision === 'approved') {
+          const cover = (claim.insurance_policies?.coverage_amount || 0) - (claim.insurance_policies?.claimed_amount || 0);
+          const input = window.prompt(`Amount to pay ${claim.users?.name} (claimed GHS ${claim.amount_claimed}, cover left GHS ${cover}):`, String(Math.min(claim.amount_claimed, cover)));
+          if (input === null) return;
+          amount = parseFloat(input);
+      }
+      const notes = window.prompt(decision === 'rejected' ? `Reason for rejecting claim ${claim.claim_number}:` : 'Note (optional):');
+      if (notes === null) return;
+
+      setAdjudicatingClaimId(claim.id);
+      try {
+          await adjudicateClaim(claim.id, decision, amount, notes);
+          await fetchClaimsQueue();
+      } catch (error: any) {
+          console.error(error);
+          alert(error.message || "Failed to update claim.");
+      } finally {
+          setAdjudicatingClaimId(null);
+      }
+  };
+
+  const fetchSmsQueue = async () => {
+      try {
+          setSmsQueue(await getPaymentSmsQueue());
+      } catch (error) {
+          console.error("Error fetching payment SMS:", JSON.stringify(error));
+      }
+  };
+
+  const handleReviewSms = async (sms: PaymentSms, approve: boolean) => {
+      const notes = window.prompt(approve ? `Credit ${sms.users?.name} GHS ${Number(sms.transactions?.amount).toFixed(2)} (the deposit amount)? Only approve once you have found this payment in the provider statement. Note (optional):` : `Reason for rejecting ${sms.users?.name}'s SMS:`);
+      if (notes === null) return;
+
+      setReviewingSmsId(sms.id);
+      try {
+          await reviewPaymentSms(sms.id, approve, notes);
+          await fetchSmsQueue();
+      } catch (error: any) {
+          console.error(error);
+          alert(error.message || "Failed to review payment.");
+      } finally {
+          setReviewingSmsId(null);
+      }
+  };
+
+  const handleSetRate = async (base?: string, quote?: string) => {
+      if (!base || !quote) {
+          const pair = window.prompt("Currency pair, e.g. GHS/XOF:");
+          if (!pair) return;
+          [base, quote] = pair.toUpperCase().split('/').map(c => c.trim());
+          if (!base || !quote) return alert("Enter the pair as BASE/QUOTE.");
+      }
+      const current = rates.find(r => r.base === base && r.quote === quote);
+      const input = window.prompt(`1 ${base} = ? ${quote}`, current ? String(current.rate) : '');
+      if (input === null) return;
+      const rate = parseFloat(input);
+      if (!(rate > 0)) return alert("Enter a rate above zero.");
+
+      setSavingRate(true);
+      try {
+          await setFxRate(base, quote, rate);
+          await refreshRates();
+      } catch (error: any) {
+          console.error(error);
+          alert(error.message || "Failed to save rate.");
+      } finally {
+          setSavingRate(false);
+      }
+  };
+
+  const fetchFraudQueue = async () => {
+      try {
+          setFraudQueue(await getFraudQueue(fraudFilter));
+      } catch (error) {
+          console.error("Error fetching fraud flags:", JSON.stringify(error));
+      }
+  };
+
+  const handleReviewFlagged = async (entry: FlaggedTransaction, action: 'approve' | 'reverse') => {
+      const tx = entry.transaction;
+      const notes = window.prompt(action === 'approve'
+          ? `Approve ${tx.type.toLowerCase()} of GHS ${tx.amount} by ${entry.holder?.name}? Note (optional):`
+          : `Reason for reversing ${entry.holder?.name}'s ${tx.type.toLowerCase()} of GHS ${tx.amount}:`);
+      if (notes === null) return;
+
+      setReviewingTxId(tx.id);
+      try {
+          await reviewFlaggedTransaction(tx.id, action, notes);
+      } catch (error: any) {
+          console.error(error);
+          alert(error.message || "Failed to review transaction.");
+      } finally {
+          setReviewingTxId(null);
+          await fetchFraudQueue();
+      }
+  };
+
   const fetchAdBanners = async () => {
       const { data } = await supabase.from('settings').select('value').eq('id', 'ad_banners').single();
       if (data?.value?.banners) {
@@ -476,6 +646,311 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogin }) => {
             </div>
         </Card>
       </div>
+
+      {/* Loan Book */}
+      <Card className="border-t-4 border-indigo-500">
+          <div className="flex items-start gap-4 mb-4">
+              <div className="p-3 bg-indigo-100 rounded-full text-indigo-700">
+                  <BanknotesIcon className="w-6 h-6" />
+              </div>
+              <div className="flex-1">
+                  <h3 className="text-xl font-bold text-gray-800">Loan Book</h3>
+                  <p className="text-gray-600">Applications awaiting review, balances and arrears.</p>
+              </div>
+              <button onClick={fetchLoanBook} className="text-xs text-blue-600 hover:underline font-bold">Refresh</button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+              {[
+                  { label: 'Outstanding', value: `GHS ${loanBook.filter(l => l.status === 'active' || l.status === 'defaulted').reduce((sum, l) => sum + Number(l.outstanding), 0).toFixed(2)}` },
+                  { label: 'Active Loans', value: loanBook.filter(l => l.status === 'active').length },
+                  { label: 'In Arrears', value: loanBook.filter(l => l.days_overdue > 0).length },
+                  { label: 'Awaiting Review', value: loanBook.filter(l => l.status === 'pending').length },
+              ].map(stat => (
+                  <div key={stat.label} className="bg-gray-50 border rounded-lg p-3">
+                      <p className="text-[10px] font-bold text-gray-500 uppercase">{stat.label}</p>
+                      <p className="text-lg font-bold text-gray-900">{stat.value}</p>
+                  </div>
+              ))}
+          </div>
+
+          <div className="flex gap-2 mb-3 text-xs">
+              {(['all', 'pending', 'active', 'overdue', 'defaulted'] as const).map(f => (
+                  <button key={f} onClick={() => setLoanFilter(f)} className={`px-3 py-1 rounded-full border capitalize ${loanFilter === f ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-600'}`}>{f}</button>
+              ))}
+          </div>
+
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                  <thead className="text-xs text-gray-500 uppercase text-left border-b">
+                      <tr>
+                          <th className="py-2 pr-3">Borrower</th>
+                          <th className="py-2 pr-3">Product</th>
+                          <th className="py-2 pr-3 text-right">Principal</th>
+                          <th className="py-2 pr-3 text-right">Outstanding</th>
+                          <th className="py-2 pr-3">Score</th>
+                          <th className="py-2 pr-3">Status</th>
+                          <th className="py-2"></th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                      {loanBook
+                          .filter(l => loanFilter === 'all' || (loanFilter === 'overdue' ? l.days_overdue > 0 : l.status === loanFilter))
+                          .map(loan => (
+                          <tr key={loan.id} className="text-gray-800">
+                              <td className="py-2 pr-3">
+                                  <p className="font-bold">{loan.borrower_name}</p>
+                                  <p className="text-xs text-gray-500">{loan.borrower_phone}</p>
+                              </td>
+                              <td className="py-2 pr-3">
+                                  <p>{loan.product_name}</p>
+                                  <p className="text-xs text-gray-500">{loan.term_months} mo · {(loan.monthly_rate * 100).toFixed(1)}%</p>
+                              </td>
+                              <td className="py-2 pr-3 text-right">{Number(loan.principal).toFixed(2)}</td>
+                              <td className="py-2 pr-3 text-right">{Number(loan.outstanding).toFixed(2)}</td>
+                              <td className="py-2 pr-3">
+                                  <p>{loan.credit_score ?? '--'}</p>
+                                  <p className="text-xs text-gray-500">Limit {Number(loan.credit_limit || 0).toFixed(0)}</p>
+                              </td>
+                              <td className="py-2 pr-3">
+                                  <span className={`text-[10px] font-bold px-2 py-1 rounded-full uppercase ${loan.status === 'defaulted' || loan.days_overdue > 0 ? 'bg-red-100 text-red-700' : loan.status === 'pending' ? 'bg-yellow-100 text-yellow-700' : loan.status === 'active' ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-600'}`}>
+                                      {loan.days_overdue > 0 ? `${loan.days_overdue}d overdue` : loan.status}
+                                  </span>
+                              </td>
+                              <td className="py-2 text-right whitespace-nowrap">
+                                  {loan.status === 'pending' && user.type === 'admin' && (
+                                      <>
+                                          <button onClick={() => handleDecideLoan(loan, true)} disabled={decidingLoanId === loan.id} className="text-xs text-green-600 hover:underline font-bold mr-3">Approve</button>
+                                          <button onClick={() => handleDecideLoan(loan, false)} disabled={decidingLoanId === loan.id} className="text-xs text-red-600 hover:underline font-bold">Reject</button>
+                                      </>
+                                  )}
+                              </td>
+                          </tr>
+                      ))}
+                  </tbody>
+              </table>
+              {loanBook.length === 0 && <p className="text-sm text-gray-400 italic py-4 text-center">No loans yet.</p>}
+          </div>
+      </Card>
+
+      {/* Fraud Review */}
+      <Card className="border-t-4 border-red-500">
+          <div className="flex items-start gap-4 mb-4">
+              <div className="p-3 bg-red-100 rounded-full text-red-700">
+                  <AlertTriangleIcon className="w-6 h-6" />
+              </div>
+              <div className="flex-1">
+                  <h3 className="text-xl font-bold text-gray-800">Fraud Review</h3>
+                  <p className="text-gray-600">Transfers and withdrawals flagged by the anomaly rules, and mismatched deposits.</p>
+              </div>
+              <button onClick={fetchFraudQueue} className="text-xs text-blue-600 hover:underline font-bold">Refresh</button>
+          </div>
+
+          <div className="flex gap-2 mb-3 text-xs">
+              {(['open', 'approved', 'reversed', 'all'] as const).map(f => (
+                  <button key={f} onClick={() => setFraudFilter(f)} className={`px-3 py-1 rounded-full border capitalize ${fraudFilter === f ? 'bg-red-600 text-white border-red-600' : 'bg-white text-gray-600'}`}>
+                      {f}{f === 'open' && fraudFilter === 'open' && ` (${fraudQueue.length})`}
+                  </button>
+              ))}
+          </div>
+
+          <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {fraudQueue.map(({ transaction: tx, holder, flags }) => (
+                  <div key={tx.id} className="border rounded-lg p-3 text-sm space-y-2">
+                      <div className="flex justify-between items-start gap-3">
+                          <div>
+                              <p className="font-bold text-gray-800">{holder?.name} · {tx.type.replace('_', ' ')} · GHS {Number(tx.amount).toFixed(2)}</p>
+                              <p className="text-xs text-gray-500">{tx.description} · {tx.provider_reference} · {new Date(tx.created_at).toLocaleString()}</p>
+                          </div>
+                          <span className={`text-[10px] font-bold px-2 py-1 rounded-full uppercase ${tx.status === 'flagged' ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-600'}`}>{tx.status}</span>
+                      </div>
+                      {flags.map(flag => (
+                          <div key={flag.id} className="text-xs bg-red-50 border border-red-100 rounded p-2">
+                              <p className="font-bold text-red-900">{FRAUD_RULE_LABELS[flag.rule_id] || flag.rule_id} · <span className="uppercase">{flag.severity}</span></p>
+                              <p className="text-red-800 break-words">
+                                  {Object.entries(flag.details).filter(([, value]) => value !== null).map(([key, value]) => `${key.replace(/_/g, ' ')}: ${value}`).join(' · ')}
+                              </p>
+                              {flag.review_notes && <p className="text-gray-600 mt-1">Notes: {flag.review_notes}</p>}
+                          </div>
+                      ))}
+                      {tx.status === 'flagged' && user.type === 'admin' && (
+                          <div className="flex gap-3">
+                              <button onClick={() => handleReviewFlagged({ transaction: tx, holder, flags }, 'approve')} disabled={reviewingTxId === tx.id} className="text-xs text-green-600 hover:underline font-bold">Approve</button>
+                              {['TRANSFER', 'FX_OUT', 'DEPOSIT', 'WITHDRAWAL'].includes(tx.type) && (
+                                  <button onClick={() => handleReviewFlagged({ transaction: tx, holder, flags }, 'reverse')} disabled={reviewingTxId === tx.id} className="text-xs text-red-600 hover:underline font-bold">
+                                      {['TRANSFER', 'FX_OUT'].includes(tx.type) ? 'Reverse' : tx.type === 'WITHDRAWAL' ? 'Refund' : 'Reject'}
+                                  </button>
+                              )}
+                          </div>
+                      )}
+                  </div>
+              ))}
+              {fraudQueue.length === 0 && <p className="text-sm text-gray-400 italic py-4 text-center">No flagged transactions.</p>}
+          </div>
+      </Card>
+
+      {/* Exchange Rates */}
+      <Card className="border-t-4 border-teal-500">
+          <div className="flex items-start gap-4 mb-4">
+              <div className="p-3 bg-teal-100 rounded-full text-teal-700">
+                  <BanknotesIcon className="w-6 h-6" />
+              </div>
+              <div className="flex-1">
+                  <h3 className="text-xl font-bold text-gray-800">Exchange Rates</h3>
+                  <p className="text-gray-600">Rates used for wallet conversions and for showing prices in each user's currency.</p>
+              </div>
+              {user.type === 'admin' && (
+                  <button onClick={() => handleSetRate()} disabled={savingRate} className="text-xs text-blue-600 hover:underline font-bold">Add Pair</button>
+              )}
+          </div>
+
+          <div className="divide-y text-sm">
+              {rates.map(rate => (
+                  <div key={`${rate.base}-${rate.quote}`} className="flex justify-between items-center py-2">
+                      <div>
+                          <p className="font-bold text-gray-800">1 {rate.base} = {rate.rate} {rate.quote}</p>
+                          <p className="text-xs text-gray-500">Updated {new Date(rate.updated_at).toLocaleString()}</p>
+                      </div>
+                      {user.type === 'admin' && (
+                          <button onClick={() => handleSetRate(rate.base, rate.quote)} disabled={savingRate} className="text-xs text-blue-600 hover:underline font-bold">Edit</button>
+                      )}
+                  </div>
+              ))}
+              {rates.length === 0 && <p className="text-sm text-gray-400 italic py-4 text-center">No rates set.</p>}
+          </div>
+      </Card>
+
+      {/* Payment SMS Review */}
+      <Card className="border-t-4 border-orange-500">
+          <div className="flex items-start gap-4 mb-4">
+              <div className="p-3 bg-orange-100 rounded-full text-orange-700">
+                  <MessageSquareIcon className="w-6 h-6" />
+              </div>
+              <div className="flex-1">
+                  <h3 className="text-xl font-bold text-gray-800">Payment SMS Review</h3>
+                  <p className="text-gray-600">Deposits whose pasted confirmation SMS only partly matched.</p>
+              </div>
+              <button onClick={fetchSmsQueue} className="text-xs text-blue-600 hover:underline font-bold">Refresh</button>
+          </div>
+
+          <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {smsQueue.map(sms => (
+                  <div key={sms.id} className="border rounded-lg p-3 text-sm space-y-2">
+                      <div className="flex justify-between items-start gap-3">
+                          <div>
+                              <p className="font-bold text-gray-800">{sms.users?.name} · SMS says GHS {Number(sms.amount).toFixed(2)}</p>
+                              <p className="text-xs text-gray-500">
+                                  Deposit {sms.transactions?.provider_reference} for GHS {Number(sms.transactions?.amount).toFixed(2)} from {sms.transactions?.phone_number} · {new Date(sms.created_at).toLocaleString()}
+                              </p>
+                          </div>
+                          <span className="text-[10px] font-bold px-2 py-1 rounded-full uppercase bg-orange-100 text-orange-700">{sms.network}</span>
+                      </div>
+                      <p className="text-xs text-orange-800">{sms.detail}</p>
+                      <p className="text-xs text-gray-600 bg-gray-50 border rounded p-2 whitespace-pre-wrap">{sms.raw_text}</p>
+                      {user.type === 'admin' && (
+                          <div className="flex gap-3">
+                              <button onClick={() => handleReviewSms(sms, true)} disabled={reviewingSmsId === sms.id} className="text-xs text-green-600 hover:underline font-bold">Approve & Credit</button>
+                              <button onClick={() => handleReviewSms(sms, false)} disabled={reviewingSmsId === sms.id} className="text-xs text-red-600 hover:underline font-bold">Reject</button>
+                          </div>
+                      )}
+                  </div>
+              ))}
+              {smsQueue.length === 0 && <p className="text-sm text-gray-400 italic py-4 text-center">Nothing to review.</p>}
+          </div>
+      </Card>
+
+      {/* Insurance Claims */}
+      <Card className="border-t-4 border-green-500">
+          <div className="flex items-start gap-4 mb-4">
+              <div className="p-3 bg-green-100 rounded-full text-green-700">
+                  <ShieldCheckIcon className="w-6 h-6" />
+              </div>
+              <div className="flex-1">
+                  <h3 className="text-xl font-bold text-gray-800">Insurance Claims</h3>
+                  <p className="text-gray-600">Review evidence and adjudicate crop and health claims.</p>
+              </div>
+              <button onClick={fetchClaimsQueue} className="text-xs text-blue-600 hover:underline font-bold">Refresh</button>
+          </div>
+
+          <div className="flex gap-2 mb-3 text-xs">
+              {(['open', 'paid', 'rejected', 'all'] as const).map(f => (
+                  <button key={f} onClick={() => setClaimFilter(f)} className={`px-3 py-1 rounded-full border capitalize ${claimFilter === f ? 'bg-green-600 text-white border-green-600' : 'bg-white text-gray-600'}`}>
+                      {f}{f === 'open' && ` (${claimsQueue.filter(c => c.status === 'submitted' || c.status === 'under_review').length})`}
+                  </button>
+              ))}
+          </div>
+
+          <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {claimsQueue
+                  .filter(c => claimFilter === 'all' || (claimFilter === 'open' ? c.status === 'submitted' || c.status === 'under_review' : c.status === claimFilter))
+                  .map(claim => (
+                  <div key={claim.id} className="border rounded-lg p-3 text-sm">
+                      <div className="flex justify-between items-start gap-3">
+                          <button onClick={() => setExpandedClaimId(expandedClaimId === claim.id ? null : claim.id)} className="text-left flex-1">
+                              <p className="font-bold text-gray-800">{claim.claim_number} · <span className="capitalize">{claim.peril}</span> · GHS {Number(claim.amount_claimed).toFixed(2)}</p>
+                              <p className="text-xs text-gray-500">
+                                  {claim.users?.name} · {claim.insurance_policies?.insurance_products?.name} ({claim.insurance_policies?.policy_number}) · Incident {new Date(claim.incident_date).toLocaleDateString()}
+                              </p>
+                          </button>
+                          <span className={`text-[10px] font-bold px-2 py-1 rounded-full uppercase ${claim.status === 'paid' ? 'bg-green-100 text-green-700' : claim.status === 'rejected' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'}`}>
+                              {claim.status.replace('_', ' ')}
+                          </span>
+                      </div>
+
+                      {expandedClaimId === claim.id && (
+                          <div className="mt-3 space-y-2 border-t pt-3">
+                              <p className="text-gray-700">{claim.description}</p>
+                              {claim.insurance_policies?.insured_crop && (
+                                  <p className="text-xs text-gray-500">Insured: {claim.insurance_policies.insured_crop}, {claim.insurance_policies.farm_size_acres ?? '?'} acres at {claim.insurance_policies.farm_location}</p>
+                              )}
+                              {claim.parametric_trigger_evaluations && (() => {
+                                  const evaluation = claim.parametric_trigger_evaluations;
+                                  return (
+                                      <div className="text-xs bg-blue-50 border border-blue-100 rounded p-2 space-y-1">
+                                          <p className="font-bold text-blue-900">
+                                              Index trigger: {evaluation.details.rule} · grid {evaluation.details.grid?.lat}, {evaluation.details.grid?.lon}
+                                          </p>
+                                          <p className="text-blue-800">
+                                              {evaluation.index_value ?? '-'}mm from {new Date(evaluation.window_start).toLocaleDateString()} to {new Date(evaluation.evaluated_on).toLocaleDateString()} ({evaluation.observed_days} day(s) observed) · evaluated {new Date(evaluation.created_at).toLocaleString()}
+                                          </p>
+                                          <p className="text-blue-700 break-words">
+                                              {(evaluation.details.readings || []).map(r => `${r.date}: ${r.rainfall_mm}mm`).join(' · ')}
+                                          </p>
+                                      </div>
+                                  );
+                              })()}
+                              <div className="space-y-1">
+                                  {(claim.insurance_claim_evidence || []).map(ev => ev.kind === 'file' ? (
+                                      <a key={ev.id} href={ev.file_url || '#'} target="_blank" rel="noreferrer" className="block text-xs text-blue-600 hover:underline">
+                                          {ev.file_name}{ev.note && ` - ${ev.note}`}
+                                      </a>
+                                  ) : (
+                                      <div key={ev.id} className="text-xs bg-blue-50 border border-blue-100 rounded p-2">
+                                          <p className="font-bold text-blue-900">{ev.note || 'Weather report'} · captured {new Date(ev.created_at).toLocaleDateString()}</p>
+                                          <p className="text-blue-800">{ev.weather_report?.current.condition}, {ev.weather_report?.current.temp}°C, humidity {ev.weather_report?.current.humidity}</p>
+                                          <p className="text-blue-700">{ev.weather_report?.advisory}</p>
+                                      </div>
+                                  ))}
+                                  {!claim.insurance_claim_evidence?.length && claim.source === 'manual' && <p className="text-xs text-gray-400 italic">No evidence attached.</p>}
+                              </div>
+                              {claim.decision_notes && <p className="text-xs text-gray-600">Notes: {claim.decision_notes}</p>}
+
+                              {(claim.status === 'submitted' || claim.status === 'under_review') && claim.source === 'manual' && user.type === 'admin' && (
+                                  <div className="flex gap-3 pt-1">
+                                      {claim.status === 'submitted' && (
+                                          <button onClick={() => handleAdjudicateClaim(claim, 'under_review')} disabled={adjudicatingClaimId === claim.id} className="text-xs text-blue-600 hover:underline font-bold">Start Review</button>
+                                      )}
+                                      <button onClick={() => handleAdjudicateClaim(claim, 'approved')} disabled={adjudicatingClaimId === claim.id} className="text-xs text-green-600 hover:underline font-bold">Approve & Pay</button>
+                                      <button onClick={() => handleAdjudicateClaim(claim, 'rejected')} disabled={adjudicatingClaimId === claim.id} className="text-xs text-red-600 hover:underline font-bold">Reject</button>
+                                  </div>
+                              )}
+                          </div>
+                      )}
+                  </div>
+              ))}
+              {claimsQueue.length === 0 && <p className="text-sm text-gray-400 italic py-4 text-center">No claims yet.</p>}
+          </div>
+      </Card>
     </div>
   );
 };
@@ -7,6 +7,7 @@ import { UserCircleIcon, XIcon, UploadIcon, MailIcon, AlertTriangleIcon } from '
 import { useNotifications } from '../contexts/NotificationContext';
 import { supabase } from '../services/supabase';
 import { uploadUserFile } from '../services/storageService';
+import { resetWalletPin, getPinProblem } from '../services/walletPinService';
 
 export type AuthModalState = 'CLOSED' | 'LOGIN' | 'REGISTER' | 'FORGOT_PASSWORD' | 'VERIFICATION' | 'UPDATE_PASSWORD';
 
@@ -33,6 +34,7 @@ const Auth: React.FC<AuthProps> = ({ user, onLogin, onLogout, setActiveView, mod
 
   // Password Update State
   const [newPassword, setNewPassword] = useState('');
+  const [newWalletPin, setNewWalletPin] = useState('');
 
   // Register Form State
   const [regName, setRegName] = useState('');
@@ -57,6 +59,7 @@ const Auth: React.FC<AuthProps> = ({ user, onLogin, onLogout, setActiveView, mod
     setRegPhoto(null);
     setRegNetwork('MTN');
     setNewPassword('');
+    setNewWalletPin('');
     setAuthError('');
     setIsLoading(false);
     setResetLinkSent(false);
@@ -250,10 +253,19 @@ const Auth: React.FC<AuthProps> = ({ user, onLogin, onLogout, setActiveView, mod
     setIsLoading(true);
 
     try {
-      const { error } = await supabase.auth.updateUser({ password: newPassword });
-      if (error) throw error;
+      if (newWalletPin) {
+          const problem = getPinProblem(newWalletPin);
+          if (problem) throw new Error(problem);
+          // Must run before updateUser while the session is still the recovery session
+          await resetWalletPin(newWalletPin);
+      }
+      if (newPassword) {
+          const { error } = await supabase.auth.updateUser({ password: newPassword });
+          if (error) throw error;
+      }
       
-      addNotification({ type: 'auth', title: 'Success', message: 'Password updated successfully! You are now logged in.', view: 'DASHBOARD' });
+      const updated = [newPassword && 'Password', newWalletPin && 'Wallet PIN'].filter(Boolean).join(' and ');
+      addNotification({ type: 'auth', title: 'Success', message: `${updated} updated successfully! You are now logged in.`, view: 'DASHBOARD' });
       closeModal();
     } catch (error: any) {
       console.error("Password update error", error);
@@ -428,11 +440,23 @@ const Auth: React.FC<AuthProps> = ({ user, onLogin, onLogout, setActiveView, mod
                   type="password"
                   value={newPassword}
                   onChange={(e) => setNewPassword(e.target.value)}
-                  required
+                  required={!newWalletPin}
                   placeholder="Enter new password"
                   className="w-full px-3 py-2 text-gray-900 bg-gray-50 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
                 />
               </div>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-900 bg-white mb-1">New Wallet PIN <span className="text-gray-400 font-normal">(optional)</span></label>
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  maxLength={4}
+                  value={newWalletPin}
+                  onChange={(e) => setNewWalletPin(e.target.value.replace(/\D/g, ''))}
+                  placeholder="4 digits — only if you forgot your PIN"
+                  className="w-full px-3 py-2 text-gray-900 bg-gray-50 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
               <Button type="submit" isLoading={isLoading} className="w-full bg-green-700 hover:bg-green-800 mb-4">Update Password</Button>
             </form>
           </Card>
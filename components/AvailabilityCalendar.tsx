@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { ArrowLeftIcon, ArrowRightIcon } from './common/icons';
+import type { BookedRange } from '../types';
+import { toDateKey, isDateBooked, rangesOverlap } from '../services/bookingService';
+
+interface AvailabilityCalendarProps {
+  bookedRanges: BookedRange[];
+  startDate: string | null;
+  endDate: string | null;
+  onChange: (start: string | null, end: string | null) => void;
+  readOnly?: boolean;
+}
+
+const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+const AvailabilityCalendar: React.FC<AvailabilityCalendarProps> = ({ bookedRanges, startDate, endDate, onChange, readOnly = false }) => {
+  const [month, setMonth] = useState(() => {
+      const now = new Date();
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+
+  const todayKey = toDateKey(new Date());
+  const firstWeekday = month.getDay();
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cells: (Date | null)[] = [
+      ...Array(firstWeekday).fill(null),
+      ...Array.from({ length: daysInMonth }, (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1))
+  ];
+
+  const canGoBack = month > new Date(new Date().getFullYear(), new Date().getMonth(), 1);
+
+  const handleDayClick = (key: string) => {
+      if (readOnly || key < todayKey || isDateBooked(key, bookedRanges)) return;
+
+      // First click (or restart) picks the start; second click closes the range
+      if (!startDate || endDate || key < startDate) {
+          onChange(key, null);
+          return;
+      }
+      if (bookedRanges.some(r => rangesOverlap(startDate, key, r.start_date, r.end_date))) {
+          onChange(key, null);
+          return;
+      }
+      onChange(startDate, key);
+  };
+
+  const getDayClass = (key: string) => {
+      if (key < todayKey) return 'text-gray-300 cursor-not-allowed';
+      if (isDateBooked(key, bookedRanges)) return 'bg-red-100 text-red-400 line-through cursor-not-allowed';
+      const inRange = startDate && (key === startDate || (endDate && key >= startDate && key <= endDate));
+      if (inRange) return 'bg-indigo-600 text-white font-bold';
+      return `bg-green-50 text-green-800 ${readOnly ? '' : 'hover:bg-green-200 cursor-pointer'}`;
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 bg-white">
+        <div className="flex justify-between items-center mb-2">
+            <button
+                type="button"
+                disabled={!canGoBack}
+                onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+            >
+                <ArrowLeftIcon className="w-4 h-4 text-gray-600" />
+            </button>
+            <span className="text-sm font-bold text-gray-800">
+                {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+            </span>
+            <button
+                type="button"
+                onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}
+                className="p-1 rounded hover:bg-gray-100"
+            >
+                <ArrowRightIcon className="w-4 h-4 text-gray-600" />
+            </button>
+        </div>
+        <div className="grid grid-cols-7 gap-1 text-center text-[10px] font-bold text-gray-400 mb-1">
+            {WEEKDAYS.map(d => <span key={d}>{d}</span>)}
+        </div>
+        <div className="grid grid-cols-7 gap-1">
+            {cells.map((date, idx) => {
+                if (!date) return <span key={`empty-${idx}`} />;
+                const key = toDateKey(date);
+                return (
+                    <button
+                        key={key}
+                        type="button"
+                        onClick={() => handleDayClick(key)}
+                        className={`h-8 rounded text-xs transition-colors ${getDayClass(key)}`}
+                    >
+                        {date.getDate()}
+                    </button>
+                );
+            })}
+        </div>
+        <div className="flex gap-3 mt-2 text-[10px] text-gray-500">
+            <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded bg-green-100 border border-green-200" /> Available</span>
+            <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded bg-red-100 border border-red-200" /> Booked</span>
+            {!readOnly && <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded bg-indigo-600" /> Selected</span>}
+        </div>
+    </div>
+  );
+};
+
+export default AvailabilityCalendar;
@@ -0,0 +1,716 @@
+import React, { useState, useEffect } from 'react';
+import Card from './common/Card';
+import Button from './common/Button';
+import { ClipboardListIcon, PlusIcon, XIcon, GridIcon, StarIcon, ClockIcon, TruckIcon } from './common/icons';
+import WalletPinModal from './WalletPinModal';
+import { supabase } from '../services/supabase';
+import {
+    getOpenBuyRequests, getMyBuyRequests, getMyQuotes, getQuotesForRequest, createBuyRequest, closeBuyRequest,
+    submitQuote, withdrawQuote, acceptQuote, NewBuyRequest
+} from '../services/buyRequestService';
+import { getWalletBalance, payOrderFromWallet } from '../services/paymentService';
+import { formatDateKey } from '../services/bookingService';
+import { COMMODITY_STANDARDS, GHANA_REGIONS, LISTING_UNITS } from '../services/marketplaceService';
+import { useNotifications } from '../contexts/NotificationContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useGeolocation } from '../hooks/useGeolocation';
+import { Crop } from '../types';
+import type { User, View, BuyRequest, BuyRequestQuote, QuoteStatus } from '../types';
+
+interface BuyerRequestsProps {
+    user: User | null;
+    setActiveView: (view: View) => void;
+    onRequireLogin: () => void;
+}
+
+type Tab = 'BOARD' | 'MINE' | 'QUOTES';
+
+const CROPS = Object.values(Crop);
+
+const QUOTE_BADGES: Record<QuoteStatus, string> = {
+    pending: 'bg-yellow-50 text-yellow-800 border-yellow-200',
+    accepted: 'bg-green-50 text-green-800 border-green-200',
+    declined: 'bg-gray-100 text-gray-600 border-gray-200',
+    withdrawn: 'bg-gray-100 text-gray-500 border-gray-200'
+};
+
+const emptyRequest = (): NewBuyRequest => ({
+    crop: Crop.Maize,
+    quantity: 1,
+    unit: COMMODITY_STANDARDS[Crop.Maize].unit,
+    target_price: null,
+    needed_by: null,
+    location_name: '',
+    region: null,
+    location_lat: null,
+    location_lng: null,
+    notes: ''
+});
+
+// needed_by and delivery_date are calendar days (YYYY-MM-DD)
+const formatDate = (key?: string | null) => key ? formatDateKey(key) : null;
+
+const BuyerRequests: React.FC<BuyerRequestsProps> = ({ user, setActiveView, onRequireLogin }) => {
+  const [tab, setTab] = useState<Tab>('BOARD');
+  const [cropFilter, setCropFilter] = useState<Crop | null>(null);
+  const [requests, setRequests] = useState<BuyRequest[]>([]);
+  const [myRequests, setMyRequests] = useState<BuyRequest[]>([]);
+  const [myQuotes, setMyQuotes] = useState<BuyRequestQuote[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Posting a request
+  const [showPostModal, setShowPostModal] = useState(false);
+  const [newRequest, setNewRequest] = useState<NewBuyRequest>(emptyRequest);
+  const [isPosting, setIsPosting] = useState(false);
+
+  // Quoting on a request
+  const [quoteTarget, setQuoteTarget] = useState<BuyRequest | null>(null);
+  const [quoteForm, setQuoteForm] = useState({ unit_price: 0, quantity: 1, delivery_date: '', note: '' });
+  const [isQuoting, setIsQuoting] = useState(false);
+
+  // Comparing and accepting quotes
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [quotes, setQuotes] = useState<BuyRequestQuote[]>([]);
+  const [loadingQuotes, setLoadingQuotes] = useState(false);
+  const [acceptTarget, setAcceptTarget] = useState<{ request: BuyRequest; quote: BuyRequestQuote } | null>(null);
+  const [acceptPayment, setAcceptPayment] = useState<'WALLET' | 'ON_DELIVERY'>('WALLET');
+  const [walletBalance, setWalletBalance] = useState<number | null>(null);
+  const [showAcceptPin, setShowAcceptPin] = useState(false);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { addNotification } = useNotifications();
+  const { formatPrice } = useCurrency();
+  const { location } = useGeolocation();
+
+  const fetchTab = async () => {
+      setLoading(true);
+      try {
+          if (tab === 'BOARD') setRequests(await getOpenBuyRequests(cropFilter));
+          else if (tab === 'MINE' && user?.uid) setMyRequests(await getMyBuyRequests(user.uid));
+          else if (tab === 'QUOTES' && user?.uid) setMyQuotes(await getMyQuotes(user.uid));
+      } finally {
+          setLoading(false);
+      }
+  };
+
+  useEffect(() => {
+      fetchTab();
+  }, [tab, cropFilter, user?.uid]);
+
+  const fetchQuotes = async (requestId: string) => {
+      setLoadingQuotes(true);
+      try {
+          setQuotes(await getQuotesForRequest(requestId));
+      } finally {
+          setLoadingQuotes(false);
+      }
+  };
+
+  // New quotes on the request being compared arrive in realtime
+  useEffect(() => {
+      if (!expandedId) return;
+      fetchQuotes(expandedId);
+
+      const channel = supabase
+        .channel(`buy_request_quotes_${expandedId}`)
+        .on(
+            'postgres_changes',
+            { event: '*', schema: 'public', table: 'buy_request_quotes', filter: `request_id=eq.${expandedId}` },
+            () => { fetchQuotes(expandedId); }
+        )
+        .subscribe();
+
+      return () => { supabase.removeChannel(channel); };
+  }, [expandedId]);
+
+  const requireLogin = () => {
+      if (user?.uid) return false;
+      onRequireLogin();
+      return true;
+  };
+
+  const handleOpenPost = () => {
+      if (requireLogin()) return;
+      setNewRequest(emptyRequest());
+      setShowPostModal(true);
+  };
+
+  const handleUseMyLocation = () => {
+      if (!location) {
+          addNotification({ type: 'market', title: 'Location Error', message: 'GPS location not available.', view: 'REQUESTS' });
+          return;
+      }
+      setNewRequest(prev => ({
+          ...prev,
+          location_lat: location.latitude,
+          location_lng: location.longitude,
+          location_name: prev.location_name || location.address || 'My location'
+      }));
+  };
+
+  const handlePostRequest = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!user) return;
+      setIsPosting(true);
+      try {
+          await createBuyRequest(user, {
+              ...newRequest,
+              location_name: newRequest.location_name?.trim() || null,
+              notes: newRequest.notes?.trim() || null
+          });
+          addNotification({ type: 'market', title: 'Request Posted', message: `Sellers near you can now quote on your ${newRequest.crop} request.`, view: 'REQUESTS' });
+          setShowPostModal(false);
+          setTab('MINE');
+          if (tab === 'MINE') fetchTab();
+      } catch (err: any) {
+          console.error("Post request error:", err);
+          addNotification({ type: 'market', title: 'Error', message: err.message || 'Could not post request.', view: 'REQUESTS' });
+      } finally {
+          setIsPosting(false);
+      }
+  };
+
+  const handleOpenQuote = (request: BuyRequest) => {
+      if (requireLogin()) return;
+      if (request.buyer_id === user!.uid) {
+          addNotification({ type: 'market', title: 'Oops', message: 'This is your own request.', view: 'REQUESTS' });
+          return;
+      }
+      setQuoteForm({ unit_price: request.target_price || 0, quantity: request.quantity, delivery_date: request.needed_by || '', note: '' });
+      setQuoteTarget(request);
+  };
+
+  const handleSubmitQuote = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!user || !quoteTarget) return;
+      setIsQuoting(true);
+      try {
+          await submitQuote(user, quoteTarget, {
+              unit_price: quoteForm.unit_price,
+              quantity: quoteForm.quantity,
+              delivery_date: quoteForm.delivery_date || null,
+              note: quoteForm.note.trim() || null
+          });
+          addNotification({ type: 'market', title: 'Quote Sent', message: `Your quote for ${quoteTarget.crop} was sent to ${quoteTarget.buyer_name}.`, view: 'REQUESTS' });
+          setQuoteTarget(null);
+      } catch (err: any) {
+          console.error("Quote error:", err);
+          addNotification({ type: 'market', title: 'Error', message: err.message || 'Could not send quote.', view: 'REQUESTS' });
+      } finally {
+          setIsQuoting(false);
+      }
+  };
+
+  const handleWithdraw = async (quote: BuyRequestQuote) => {
+      if (!window.confirm('Withdraw this quote?')) return;
+      setBusyId(quote.id);
+      try {
+          await withdrawQuote(quote.id);
+          setMyQuotes(prev => prev.map(q => q.id === quote.id ? { ...q, status: 'withdrawn' } : q));
+      } catch (err: any) {
+          addNotification({ type: 'market', title: 'Error', message: err.message || 'Could not withdraw quote.', view: 'REQUESTS' });
+      } finally {
+          setBusyId(null);
+      }
+  };
+
+  const handleCloseRequest = async (request: BuyRequest) => {
+      if (!window.confirm('Close this request? Sellers will no longer be able to quote.')) return;
+      setBusyId(request.id);
+      try {
+          await closeBuyRequest(request.id);
+          setMyRequests(prev => prev.map(r => r.id === request.id ? { ...r, status: 'closed' } : r));
+          if (expandedId === request.id) setExpandedId(null);
+      } catch (err: any) {
+          addNotification({ type: 'market', title: 'Error', message: err.message || 'Could not close request.', view: 'REQUESTS' });
+      } finally {
+          setBusyId(null);
+      }
+  };
+
+  const handleOpenAccept = (request: BuyRequest, quote: BuyRequestQuote) => {
+      setAcceptPayment('WALLET');
+      setWalletBalance(null);
+      setAcceptTarget({ request, quote });
+      if (user?.uid) getWalletBalance(user.uid).then(setWalletBalance);
+  };
+
+  const acceptTotal = acceptTarget ? acceptTarget.quote.unit_price * acceptTarget.quote.quantity : 0;
+
+  const handleConfirmAccept = () => {
+      if (acceptPayment === 'WALLET' && walletBalance !== null && walletBalance < acceptTotal) {
+          addNotification({ type: 'wallet', title: 'Insufficient Funds', message: 'Top up your wallet or choose pay on delivery.', view: 'WALLET' });
+          return;
+      }
+      // Wallet payments are authorised with the wallet PIN first
+      if (acceptPayment === 'WALLET') {
+          setShowAcceptPin(true);
+          return;
+      }
+      placeAcceptedOrder();
+  };
+
+  const placeAcceptedOrder = async () => {
+      if (!acceptTarget) return;
+      const { request, quote } = acceptTarget;
+      setIsAccepting(true);
+      try {
+          const order = await acceptQuote(quote.id);
+
+          let message = `Your order for ${quote.quantity} ${request.unit} ${request.crop} has been sent to ${quote.seller_name}.`;
+          if (acceptPayment === 'WALLET') {
+              try {
+                  await payOrderFromWallet(order.id);
+                  message = `GHS ${order.total.toFixed(2)} is held in escrow until you confirm delivery of ${request.crop}.`;
+              } catch (payErr: any) {
+                  // The quote is already accepted, so keep the order and let the buyer settle on delivery
+                  console.error("Escrow payment failed:", JSON.stringify(payErr));
+                  message = `Your order was placed but the wallet payment failed (${payErr.message || 'unknown error'}). Settle with the seller on delivery.`;
+              }
+          }
+
+          addNotification({ type: 'market', title: 'Quote Accepted', message, view: 'ORDERS' });
+          setAcceptTarget(null);
+          setExpandedId(null);
+          setActiveView('ORDERS');
+      } catch (err: any) {
+          console.error("Accept quote error:", err);
+          addNotification({ type: 'market', title: 'Error', message: err.message || 'Could not accept quote.', view: 'REQUESTS' });
+          fetchTab();
+      } finally {
+          setIsAccepting(false);
+      }
+  };
+
+  const requestSummary = (request: BuyRequest) => (
+      <>
+          <p className="font-bold text-gray-900 text-lg">{request.quantity} {request.unit} · {request.crop}</p>
+          <p className="text-sm text-gray-600">
+              {request.location_name || request.region || 'Ghana'}
+              {request.region && request.location_name ? `, ${request.region}` : ''}
+          </p>
+          <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-500">
+              {request.needed_by && <span className="flex items-center gap-1"><ClockIcon className="w-3 h-3" /> Needed by {formatDate(request.needed_by)}</span>}
+              {request.target_price != null && <span>Target {formatPrice(request.target_price)} / {request.unit}</span>}
+          </div>
+          {request.notes && <p className="text-xs text-gray-500 mt-2 italic">{request.notes}</p>}
+      </>
+  );
+
+  const renderBoard = () => (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {requests.map(request => (
+              <Card key={request.id} className="flex flex-col">
+                  <div className="flex-grow">
+                      {requestSummary(request)}
+                      <p className="text-xs text-gray-400 mt-3">Posted by {request.buyer_name} · {new Date(request.created_at).toLocaleDateString()}</p>
+                  </div>
+                  {request.buyer_id !== user?.uid && (
+                      <Button onClick={() => handleOpenQuote(request)} className="mt-4 w-full py-2 text-sm">
+                          Send Quote
+                      </Button>
+                  )}
+              </Card>
+          ))}
+          {!loading && requests.length === 0 && (
+              <p className="col-span-full text-center py-10 text-gray-500">No open requests{cropFilter ? ` for ${cropFilter}` : ''}.</p>
+          )}
+      </div>
+  );
+
+  const renderMyRequests = () => (
+      <div className="space-y-4">
+          {myRequests.map(request => (
+              <Card key={request.id}>
+                  <div className="flex flex-col md:flex-row justify-between gap-4">
+                      <div>{requestSummary(request)}</div>
+                      <div className="flex md:flex-col items-end gap-2">
+                          <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded border ${request.status === 'open' ? 'bg-blue-50 text-blue-800 border-blue-200' : request.status === 'awarded' ? 'bg-green-50 text-green-800 border-green-200' : 'bg-gray-100 text-gray-600 border-gray-200'}`}>
+                              {request.status}
+                          </span>
+                          <button onClick={() => setExpandedId(expandedId === request.id ? null : request.id)} className="text-sm font-bold text-blue-600 hover:underline">
+                              {expandedId === request.id ? 'Hide quotes' : 'Compare quotes'}
+                          </button>
+                          {request.status === 'open' && (
+                              <button onClick={() => handleCloseRequest(request)} disabled={busyId === request.id} className="text-xs text-gray-500 hover:text-red-600">
+                                  Close request
+                              </button>
+                          )}
+                          {request.order_id && (
+                              <button onClick={() => setActiveView('ORDERS')} className="text-xs text-green-700 hover:underline">View order</button>
+                          )}
+                      </div>
+                  </div>
+
+                  {expandedId === request.id && (
+                      <div className="mt-4 border-t pt-4">
+                          {loadingQuotes && quotes.length === 0 ? (
+                              <p className="text-sm text-gray-400">Loading quotes...</p>
+                          ) : quotes.length === 0 ? (
+                              <p className="text-sm text-gray-500">No quotes yet. Sellers with matching listings nearby have been notified.</p>
+                          ) : (
+                              <div className="overflow-x-auto">
+                                  <table className="w-full text-sm text-left text-gray-700">
+                                      <thead className="text-xs text-gray-500 uppercase">
+                                          <tr>
+                                              <th className="py-2 pr-3">Seller</th>
+                                              <th className="py-2 pr-3">Price / {request.unit}</th>
+                                              <th className="py-2 pr-3">Quantity</th>
+                                              <th className="py-2 pr-3">Total</th>
+                                              <th className="py-2 pr-3">Delivery</th>
+                                              <th className="py-2"></th>
+                                          </tr>
+                                      </thead>
+                                      <tbody>
+                                          {quotes.map((quote, index) => (
+                                              <tr key={quote.id} className={`border-t border-gray-100 ${quote.status !== 'pending' && quote.status !== 'accepted' ? 'opacity-50' : ''}`}>
+                                                  <td className="py-2 pr-3">
+                                                      <span className="font-medium">{quote.seller_name}</span>
+                                                      {quote.seller_rating != null && (
+                                                          <span className="ml-1 inline-flex items-center text-xs text-yellow-600"><StarIcon className="w-3 h-3" /> {quote.seller_rating.toFixed(1)}</span>
+                                                      )}
+                                                      {quote.note && <span className="block text-xs text-gray-500 italic">{quote.note}</span>}
+                                                  </td>
+                                                  <td className="py-2 pr-3 font-bold text-green-700 whitespace-nowrap">
+                                                      {formatPrice(quote.unit_price)}
+                                                      {index === 0 && quote.status === 'pending' && <span className="ml-1 text-[10px] font-bold uppercase text-green-600">Lowest</span>}
+                                                  </td>
+                                                  <td className={`py-2 pr-3 ${quote.quantity < request.quantity ? 'text-orange-600' : ''}`}>
+                                                      {quote.quantity} {quote.quantity < request.quantity && <span className="text-xs">(of {request.quantity})</span>}
+                                                  </td>
+                                                  <td className="py-2 pr-3 whitespace-nowrap">{formatPrice(quote.unit_price * quote.quantity)}</td>
+                                                  <td className="py-2 pr-3 whitespace-nowrap">{formatDate(quote.delivery_date) || '—'}</td>
+                                                  <td className="py-2 text-right">
+                                                      {request.status === 'open' && quote.status === 'pending' ? (
+                                                          <Button onClick={() => handleOpenAccept(request, quote)} className="py-1 px-3 text-xs">Accept</Button>
+                                                      ) : (
+                                                          <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded border ${QUOTE_BADGES[quote.status]}`}>{quote.status}</span>
+                                                      )}
+                                                  </td>
+                                              </tr>
+                                          ))}
+                                      </tbody>
+                                  </table>
+                              </div>
+                          )}
+                      </div>
+                  )}
+              </Card>
+          ))}
+          {!loading && myRequests.length === 0 && (
+              <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200">
+                  <p className="text-gray-500">You haven't posted any requests yet.</p>
+              </div>
+          )}
+      </div>
+  );
+
+  const renderMyQuotes = () => (
+      <div className="space-y-4">
+          {myQuotes.map(quote => (
+              <Card key={quote.id}>
+                  <div className="flex flex-col md:flex-row justify-between gap-4">
+                      <div>
+                          {quote.request && requestSummary(quote.request)}
+                          <p className="text-sm text-gray-700 mt-3">
+                              Your quote: <span className="font-bold text-green-700">{formatPrice(quote.unit_price)}</span> × {quote.quantity}
+                              {quote.delivery_date && <span className="text-gray-500"> · <TruckIcon className="w-3 h-3 inline" /> {formatDate(quote.delivery_date)}</span>}
+                          </p>
+                      </div>
+                      <div className="flex md:flex-col items-end gap-2">
+                          <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded border ${QUOTE_BADGES[quote.status]}`}>{quote.status}</span>
+                          {quote.status === 'pending' && (
+                              <button onClick={() => handleWithdraw(quote)} disabled={busyId === quote.id} className="text-xs text-gray-500 hover:text-red-600">Withdraw</button>
+                          )}
+                          {quote.status === 'accepted' && (
+                              <button onClick={() => setActiveView('PROFILE')} className="text-xs text-green-700 hover:underline">View sale</button>
+                          )}
+                      </div>
+                  </div>
+              </Card>
+          ))}
+          {!loading && myQuotes.length === 0 && (
+              <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200">
+                  <p className="text-gray-500">You haven't sent any quotes yet.</p>
+              </div>
+          )}
+      </div>
+  );
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-3 bg-green-100 rounded-full text-green-700">
+            <ClipboardListIcon className="w-8 h-8" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800">Buyer Requests</h2>
+            <p className="text-gray-600">Post what you need in bulk and let farmers quote for it.</p>
+          </div>
+        </div>
+        <Button onClick={handleOpenPost} className="bg-green-700 hover:bg-green-800">
+          <PlusIcon className="w-5 h-5 mr-2" /> Post Request
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {([['BOARD', 'Open Requests'], ['MINE', 'My Requests'], ['QUOTES', 'My Quotes']] as [Tab, string][]).map(([value, label]) => (
+            <button
+                key={value}
+                onClick={() => { if (value !== 'BOARD' && requireLogin()) return; setTab(value); setExpandedId(null); }}
+                className={`px-4 py-2 rounded-full text-sm font-medium border ${tab === value ? 'bg-green-700 text-white border-green-700' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'}`}
+            >
+                {label}
+            </button>
+        ))}
+        {tab === 'BOARD' && (
+            <select
+                value={cropFilter || ''}
+                onChange={e => setCropFilter((e.target.value || null) as Crop | null)}
+                className="ml-auto p-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white"
+            >
+                <option value="">All crops</option>
+                {CROPS.map(crop => <option key={crop} value={crop}>{crop}</option>)}
+            </select>
+        )}
+      </div>
+
+      {loading && <p className="text-center py-6 text-gray-400">Loading...</p>}
+      {tab === 'BOARD' && renderBoard()}
+      {tab === 'MINE' && renderMyRequests()}
+      {tab === 'QUOTES' && renderMyQuotes()}
+
+      {/* Post Request Modal */}
+      {showPostModal && (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in">
+            <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-bold text-gray-800">Post a Buyer Request</h3>
+                    <button onClick={() => setShowPostModal(false)} className="text-gray-500 hover:text-gray-800"><XIcon className="w-6 h-6" /></button>
+                </div>
+                <form onSubmit={handlePostRequest} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Crop / Livestock</label>
+                        <select
+                            value={newRequest.crop}
+                            onChange={e => {
+                                const crop = e.target.value as Crop;
+                                setNewRequest({ ...newRequest, crop, unit: COMMODITY_STANDARDS[crop]?.unit || newRequest.unit });
+                            }}
+                            className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                        >
+                            {CROPS.map(crop => <option key={crop} value={crop}>{crop}</option>)}
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Quantity</label>
+                            <input
+                                type="number"
+                                min={1}
+                                step={1}
+                                required
+                                value={newRequest.quantity}
+                                onChange={e => setNewRequest({ ...newRequest, quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                                className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+                            <select
+                                value={newRequest.unit}
+                                onChange={e => setNewRequest({ ...newRequest, unit: e.target.value })}
+                                className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                            >
+                                {LISTING_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Target Price / Unit (GHS)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                step="0.01"
+                                value={newRequest.target_price ?? ''}
+                                onChange={e => setNewRequest({ ...newRequest, target_price: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                                className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                                placeholder="Optional"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Needed By</label>
+                            <input
+                                type="date"
+                                value={newRequest.needed_by || ''}
+                                onChange={e => setNewRequest({ ...newRequest, needed_by: e.target.value || null })}
+                                className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Delivery Location</label>
+                        <div className="flex gap-2">
+                            <input
+                                value={newRequest.location_name || ''}
+                                onChange={e => setNewRequest({ ...newRequest, location_name: e.target.value })}
+                                className="flex-grow p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                                placeholder="e.g. Tamale"
+                            />
+                            <button type="button" onClick={handleUseMyLocation} className={`px-3 border rounded ${newRequest.location_lat != null ? 'bg-green-50 border-green-300 text-green-700' : 'bg-gray-100 border-gray-300 text-gray-600 hover:bg-gray-200'}`} title="Use GPS">
+                                <GridIcon className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <select
+                            value={newRequest.region || ''}
+                            onChange={e => setNewRequest({ ...newRequest, region: e.target.value || null })}
+                            className="w-full mt-2 p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                        >
+                            <option value="">Region</option>
+                            {GHANA_REGIONS.map(region => <option key={region} value={region}>{region}</option>)}
+                        </select>
+                        <p className="text-[11px] text-gray-500 mt-1">Sellers with matching listings within 50 km (or in the same region, without GPS) are notified.</p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                        <textarea
+                            value={newRequest.notes || ''}
+                            onChange={e => setNewRequest({ ...newRequest, notes: e.target.value })}
+                            className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                            rows={2}
+                            placeholder="Quality, moisture content, packaging..."
+                        />
+                    </div>
+                    <Button type="submit" isLoading={isPosting} className="w-full">Post Request</Button>
+                </form>
+            </Card>
+        </div>
+      )}
+
+      {/* Send Quote Modal */}
+      {quoteTarget && (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in">
+            <Card className="w-full max-w-md">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-bold text-gray-800">Send Quote</h3>
+                    <button onClick={() => setQuoteTarget(null)} className="text-gray-500 hover:text-gray-800"><XIcon className="w-6 h-6" /></button>
+                </div>
+                <div className="bg-gray-50 p-3 rounded border border-gray-100 mb-4">{requestSummary(quoteTarget)}</div>
+                <form onSubmit={handleSubmitQuote} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Price / {quoteTarget.unit} (GHS)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                step="0.01"
+                                required
+                                value={quoteForm.unit_price || ''}
+                                onChange={e => setQuoteForm({ ...quoteForm, unit_price: parseFloat(e.target.value) || 0 })}
+                                className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Quantity You Can Supply</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={quoteTarget.quantity}
+                                step={1}
+                                required
+                                value={quoteForm.quantity}
+                                onChange={e => setQuoteForm({ ...quoteForm, quantity: Math.min(quoteTarget.quantity, Math.max(1, parseInt(e.target.value) || 1)) })}
+                                className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Delivery Date</label>
+                        <input
+                            type="date"
+                            value={quoteForm.delivery_date}
+                            onChange={e => setQuoteForm({ ...quoteForm, delivery_date: e.target.value })}
+                            className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Note (optional)</label>
+                        <textarea
+                            value={quoteForm.note}
+                            onChange={e => setQuoteForm({ ...quoteForm, note: e.target.value })}
+                            className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                            rows={2}
+                            placeholder="Quality, transport, payment terms..."
+                        />
+                    </div>
+                    <div className="flex justify-between items-center border-t pt-3">
+                        <span className="text-sm text-gray-500">Quote total</span>
+                        <span className="text-xl font-bold text-green-700">GHS {(quoteForm.unit_price * quoteForm.quantity).toFixed(2)}</span>
+                    </div>
+                    <Button type="submit" isLoading={isQuoting} className="w-full">Send Quote</Button>
+                </form>
+            </Card>
+        </div>
+      )}
+
+      {/* Accept Quote Modal */}
+      {acceptTarget && (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in">
+            <Card className="w-full max-w-md">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-bold text-gray-800">Accept Quote</h3>
+                    <button onClick={() => setAcceptTarget(null)} className="text-gray-500 hover:text-gray-800"><XIcon className="w-6 h-6" /></button>
+                </div>
+                <div className="space-y-4">
+                    <div className="bg-gray-50 p-3 rounded border border-gray-100 text-sm text-gray-700">
+                        <p className="font-bold text-gray-900">{acceptTarget.quote.quantity} {acceptTarget.request.unit} · {acceptTarget.request.crop}</p>
+                        <p>From {acceptTarget.quote.seller_name} at {formatPrice(acceptTarget.quote.unit_price)} / {acceptTarget.request.unit}</p>
+                        <p className="text-xs text-gray-500 mt-1">The other quotes on this request will be declined.</p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Payment</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            <button
+                                type="button"
+                                onClick={() => setAcceptPayment('WALLET')}
+                                className={`p-2 rounded border text-xs font-medium text-left ${acceptPayment === 'WALLET' ? 'border-green-500 bg-green-50 text-green-800' : 'border-gray-200 text-gray-600'}`}
+                            >
+                                AgroWallet (Escrow)
+                                <span className="block text-[10px] text-gray-500">
+                                    Balance: {walletBalance === null ? '...' : `GHS ${walletBalance.toFixed(2)}`}
+                                </span>
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => setAcceptPayment('ON_DELIVERY')}
+                                className={`p-2 rounded border text-xs font-medium text-left ${acceptPayment === 'ON_DELIVERY' ? 'border-green-500 bg-green-50 text-green-800' : 'border-gray-200 text-gray-600'}`}
+                            >
+                                Pay on Delivery
+                                <span className="block text-[10px] text-gray-500">Settle directly with seller</span>
+                            </button>
+                        </div>
+                    </div>
+                    <div className="flex justify-between items-center border-t pt-3">
+                        <span className="text-sm text-gray-500">Total</span>
+                        <span className="text-xl font-bold text-green-700">GHS {acceptTotal.toFixed(2)}</span>
+                    </div>
+                    <Button onClick={handleConfirmAccept} isLoading={isAccepting} className="w-full">Accept & Place Order</Button>
+                </div>
+            </Card>
+            {showAcceptPin && (
+                <WalletPinModal
+                    subtitle={`Pay GHS ${acceptTotal.toFixed(2)} into escrow`}
+                    onVerified={() => { setShowAcceptPin(false); placeAcceptedOrder(); }}
+                    onCancel={() => setShowAcceptPin(false)}
+                />
+            )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BuyerRequests;
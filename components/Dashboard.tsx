@@ -1,7 +1,7 @@
 
 import React, { useEffect, useState, useMemo, useRef } from 'react';
 import Card from './common/Card';
-import { CloudIcon, TagIcon, BugIcon, ShoppingCartIcon, SproutIcon, UsersIcon, AlertTriangleIcon, HarvesterIcon, WalletIcon, TractorIcon, Spinner, UploadIcon, BanknotesIcon, SearchIcon, GridIcon } from './common/icons';
+import { CloudIcon, TagIcon, BugIcon, ShoppingCartIcon, SproutIcon, UsersIcon, AlertTriangleIcon, HarvesterIcon, WalletIcon, TractorIcon, Spinner, UploadIcon, BanknotesIcon, SearchIcon, GridIcon, ClipboardListIcon } from './common/icons';
 import { useNotifications } from '../contexts/NotificationContext';
 import { useGeolocation } from '../hooks/useGeolocation';
 import { checkWeatherAlerts, getFarmingTip } from '../services/geminiService';
@@ -231,6 +231,7 @@ const Dashboard: React.FC<DashboardProps> = ({ setActiveView, user }) => {
   const features = [
     { title: 'Marketplace', description: 'Find certified seeds, fertilizers, and tools.', icon: <ShoppingCartIcon />, view: 'MARKETPLACE', color: 'purple' },
     { title: 'Market Prices', description: 'Check daily prices for your crops.', icon: <TagIcon />, view: 'PRICES', color: 'yellow' },
+    { title: 'Buyer Requests', description: 'Quote on bulk orders from buyers nearby.', icon: <ClipboardListIcon />, view: 'REQUESTS', color: 'green' },
     { title: 'Equipment Rental', description: 'Rent tractors, plows, and more.', icon: <TractorIcon />, view: 'RENTAL', color: 'indigo' },
     { title: 'Community Forum', description: 'Connect with fellow farmers.', icon: <UsersIcon />, view: 'FORUM', color: 'teal' },
     { title: 'Mobile Money & Wallet', description: 'P2P transfers, loans, bills & insurance.', icon: <WalletIcon />, view: 'WALLET', color: 'cyan' },
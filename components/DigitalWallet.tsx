@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import Card from './common/Card';
 import Button from './common/Button';
 import { 
@@ -18,45 +18,59 @@ import {
     ClockIcon,
     ArrowRightIcon,
     UserCircleIcon,
-    CameraIcon,
-    CheckCircleIcon
+    CheckCircleIcon,
+    TrashIcon,
+    XIcon,
+    PaperClipIcon,
+    SunIcon,
+    RainIcon,
+    ClipboardListIcon,
+    DownloadIcon
 } from './common/icons';
 import { useNotifications } from '../contexts/NotificationContext';
-import type { User, Transaction } from '../types';
-import { initiatePayment, getWalletBalance, getTransactionHistory } from '../services/paymentService';
-import { parsePaymentSMS } from '../services/geminiService';
+import { useCurrency } from '../contexts/CurrencyContext';
+import type { User, Transaction, WalletRecipient, WithdrawalQuote, LinkedAccount, Loan, LoanProduct, CreditScore, BillAccount, BillQuote, BillPayment, SavedBiller, InsuranceProduct, InsurancePolicy, InsuranceClaim, ClaimEvidenceInput, UserFile, WeatherReport, GeoLocation, ParametricTrigger, TriggerEvaluation, PaymentQrDetails, Invoice, WalletStatement, SmsReconciliationResult, WalletBalance, FxQuote } from '../types';
+import { Crop } from '../types';
+import { initiatePayment, getWalletBalance, getTransactionHistory, isCreditTransaction, debitWallet, transferFunds, resolveWalletRecipient, getWithdrawalQuote, requestWithdrawal } from '../services/paymentService';
+import { getLocalWeather } from '../services/geminiService';
+import { reconcilePaymentSms } from '../services/smsReconciliationService';
+import { getWalletBalances, getFxQuote, convertCurrency } from '../services/currencyService';
 import { supabase } from '../services/supabase';
+import { verifyWalletPin, setWalletPin, getPinProblem, sendWalletPinResetLink } from '../services/walletPinService';
+import { getLoanProducts, getCreditScore, getMyLoans, applyForLoan, repayLoan, getMonthlyPayment, getLoanOutstanding } from '../services/loanService';
+import { getLinkedAccounts, linkAccount, resendLinkedAccountCode, confirmLinkedAccount, setDefaultLinkedAccount, removeLinkedAccount } from '../services/linkedAccountService';
+import { lookupBill, quoteBill, payBill, getSavedBillers, removeSavedBiller, stopRecurringBill } from '../services/billService';
+import { getInsuranceProducts, getMyPolicies, buyInsurancePolicy, cancelInsurancePolicy, getMyClaims, fileInsuranceClaim, openPolicyDocument, getPolicyTriggers, getTriggerEvaluations } from '../services/insuranceService';
+import { uploadUserFile, getUserFiles } from '../services/storageService';
+import { createPaymentQr, readPaymentQr, payPaymentQr, renderQrDataUrl, isPaymentQr } from '../services/qrService';
+import WalletPinModal from './WalletPinModal';
+import { getReceivedInvoices, getInvoice, payInvoice, parseInvoiceLink } from '../services/invoiceService';
+import QrScanner from './QrScanner';
+import { getWalletStatement, monthPeriod, openStatementDocument, downloadStatementCsv, openTransactionReceipt, downloadTransactionsCsv } from '../services/statementService';
 
 // --- Constants & Mock Data ---
 
 const NETWORKS = ["MTN", "Telecel", "AirtelTigo"];
 const BANKS = ["GCB Bank", "Ecobank", "Fidelity", "Stanbic", "Zenith", "Absa"];
 
+// Ids match the biller adapters in supabase/functions/_shared/billers
 const BILL_PROVIDERS = [
-    { id: 'ecg', name: 'ECG Prepaid', category: 'Utilities', icon: <LightningIcon className="w-5 h-5 text-yellow-600"/> },
-    { id: 'gwcl', name: 'Ghana Water', category: 'Utilities', icon: <div className="w-5 h-5 bg-blue-500 rounded-full text-white flex items-center justify-center text-xs font-bold">W</div> },
-    { id: 'dstv', name: 'DSTV', category: 'TV', icon: <div className="w-5 h-5 bg-blue-800 rounded-full text-white flex items-center justify-center text-xs font-bold">TV</div> },
-    { id: 'gotv', name: 'GOtv', category: 'TV', icon: <div className="w-5 h-5 bg-green-600 rounded-full text-white flex items-center justify-center text-xs font-bold">GO</div> },
-    { id: 'school', name: 'School Fees', category: 'Fees', icon: <div className="w-5 h-5 bg-orange-500 rounded-full text-white flex items-center justify-center text-xs font-bold">Sch</div> },
+    { id: 'ecg', name: 'ECG Prepaid', category: 'Utilities', accountLabel: 'Meter Number', placeholder: 'e.g. 01234567890', icon: <LightningIcon className="w-5 h-5 text-yellow-600"/> },
+    { id: 'gwcl', name: 'Ghana Water', category: 'Utilities', accountLabel: 'Account Number', placeholder: 'e.g. 0123456789', icon: <div className="w-5 h-5 bg-blue-500 rounded-full text-white flex items-center justify-center text-xs font-bold">W</div> },
+    { id: 'dstv', name: 'DSTV', category: 'TV', accountLabel: 'Smartcard Number', placeholder: 'e.g. 7012345678', icon: <div className="w-5 h-5 bg-blue-800 rounded-full text-white flex items-center justify-center text-xs font-bold">TV</div> },
+    { id: 'gotv', name: 'GOtv', category: 'TV', accountLabel: 'IUC Number', placeholder: 'e.g. 2012345678', icon: <div className="w-5 h-5 bg-green-600 rounded-full text-white flex items-center justify-center text-xs font-bold">GO</div> },
+    { id: 'school', name: 'School Fees', category: 'Fees', accountLabel: 'Student ID', placeholder: 'e.g. ACH-20231', icon: <div className="w-5 h-5 bg-orange-500 rounded-full text-white flex items-center justify-center text-xs font-bold">Sch</div> },
 ];
 
-const INSURANCE_PLANS = [
-    { id: 'crop_basic', name: 'Crop Shield Basic', premium: 15, coverage: 2000, desc: 'Covers drought & pests' },
-    { id: 'crop_pro', name: 'Crop Shield Pro', premium: 45, coverage: 8000, desc: 'Full harvest protection' },
-    { id: 'health_fam', name: 'Farmer Health', premium: 30, coverage: 5000, desc: 'Medical & accident cover' },
-];
+const SMS_OUTCOMES: Record<SmsReconciliationResult['outcome'], string> = {
+    flagged: 'Matched: our team will confirm the payment and credit your wallet',
+    unmatched: 'No pending deposit matches this SMS',
+    duplicate: 'This SMS was already used'
+};
 
 // --- Types ---
 
-interface LinkedAccount {
-  id: string;
-  type: 'BANK' | 'MOMO';
-  provider: string;
-  accountNumber: string;
-  accountName: string;
-}
-
-type WalletView = 'HOME' | 'DEPOSIT' | 'WITHDRAW' | 'TRANSFER' | 'BILLS' | 'LOANS' | 'INSURANCE' | 'QR' | 'HISTORY' | 'LINK_ACCOUNT' | 'VERIFY_SMS' | 'SETTINGS';
+type WalletView = 'HOME' | 'DEPOSIT' | 'WITHDRAW' | 'TRANSFER' | 'BILLS' | 'LOANS' | 'INSURANCE' | 'QR' | 'HISTORY' | 'LINK_ACCOUNT' | 'VERIFY_SMS' | 'SETTINGS' | 'INVOICES' | 'CONVERT';
 
 interface DigitalWalletProps {
     user: User | null;
@@ -66,16 +80,21 @@ interface DigitalWalletProps {
 
 const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
   const { addNotification } = useNotifications();
+  const { currencies, formatMoney } = useCurrency();
   
   // State
   const [balance, setBalance] = useState(0.00);
+  const [balances, setBalances] = useState<WalletBalance[]>([]); // Every currency, GHS included
   const [activeView, setActiveView] = useState<WalletView>('HOME');
   const [loadingBalance, setLoadingBalance] = useState(false);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   
-  // Linked Accounts - Initialized as empty, populated via useEffect based on user record
+  // Linked Accounts (verified server-side, see account-verify)
   const [linkedAccounts, setLinkedAccounts] = useState<LinkedAccount[]>([]);
+  const [linkingAccount, setLinkingAccount] = useState(false);
+  const [accountCode, setAccountCode] = useState('');
+  const [confirmingAccountId, setConfirmingAccountId] = useState<string | null>(null);
 
   // Inputs
   const [amount, setAmount] = useState('');
@@ -84,12 +103,59 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
   const [selectedProvider, setSelectedProvider] = useState('');
   const [reference, setReference] = useState('');
   
+  // Transfer confirmation
+  const [transferRecipient, setTransferRecipient] = useState<WalletRecipient | null>(null);
+  const [resolvingRecipient, setResolvingRecipient] = useState(false);
+
+  // Withdrawal review (fees and limits before the PIN step)
+  const [withdrawalQuote, setWithdrawalQuote] = useState<WithdrawalQuote | null>(null);
+  const [quotingWithdrawal, setQuotingWithdrawal] = useState(false);
+
+  // Bill payment (customer lookup, then quote, then PIN)
+  const [savedBillers, setSavedBillers] = useState<SavedBiller[]>([]);
+  const [billAccount, setBillAccount] = useState<BillAccount | null>(null);
+  const [lookingUpBill, setLookingUpBill] = useState(false);
+  const [billPlan, setBillPlan] = useState('');
+  const [billQuote, setBillQuote] = useState<BillQuote | null>(null);
+  const [quotingBill, setQuotingBill] = useState(false);
+  const [saveBiller, setSaveBiller] = useState(false);
+  const [billNickname, setBillNickname] = useState('');
+  const [billRecurring, setBillRecurring] = useState<'' | 'weekly' | 'monthly'>('');
+  const [billReceipt, setBillReceipt] = useState<BillPayment | null>(null);
+
   // QR State
   const [qrMode, setQrMode] = useState<'MY_CODE' | 'SCAN'>('MY_CODE');
+  const [myQrCode, setMyQrCode] = useState<{ code: string; amount: number | null; reference: string; expiresAt: number | null } | null>(null);
+  const [myQrImage, setMyQrImage] = useState('');
+  const [qrRequestAmount, setQrRequestAmount] = useState('');
+  const [qrRequestReference, setQrRequestReference] = useState('');
+  const [generatingQr, setGeneratingQr] = useState(false);
+  const [scannedQr, setScannedQr] = useState<{ code: string | null; details: PaymentQrDetails } | null>(null); // code is null for plain phone/merchant ID codes
+  const [checkingQr, setCheckingQr] = useState(false);
+  const rejectedQrRef = useRef('');
+
+  // Invoices
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [openInvoice, setOpenInvoice] = useState<Invoice | null>(null); // Opened from a link or QR
+
+  // Statements
+  const [statementMonth, setStatementMonth] = useState(() => new Date().toISOString().slice(0, 7)); // YYYY-MM
+  const [statement, setStatement] = useState<WalletStatement | null>(null);
+  const [statementCurrency, setStatementCurrency] = useState('GHS');
+  const [loadingStatement, setLoadingStatement] = useState(false);
+
+  // Currency conversion (quote at the admin rate, then PIN)
+  const [fxFrom, setFxFrom] = useState('GHS');
+  const [fxTo, setFxTo] = useState('');
+  const [fxQuote, setFxQuote] = useState<FxQuote | null>(null);
+  const [quotingFx, setQuotingFx] = useState(false);
   
   // PIN Verification
   const [showPinModal, setShowPinModal] = useState(false);
-  const [pin, setPin] = useState('');
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmNewPin, setConfirmNewPin] = useState('');
+  const [savingPin, setSavingPin] = useState(false);
   const [pendingTransaction, setPendingTransaction] = useState<{
       type: Transaction['type']; 
       amount: number; 
@@ -98,40 +164,59 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
   } | null>(null);
 
   // Feature Specific
-  const [creditLimit, setCreditLimit] = useState(0);
-  const [loanTerm, setLoanTerm] = useState('1');
+  const [creditScore, setCreditScore] = useState<CreditScore | null>(null);
+  const [loanProducts, setLoanProducts] = useState<LoanProduct[]>([]);
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [loanProductId, setLoanProductId] = useState('');
+  const [loanTerm, setLoanTerm] = useState(0);
+  const [loanPurpose, setLoanPurpose] = useState('');
+  const [insuranceProducts, setInsuranceProducts] = useState<InsuranceProduct[]>([]);
+  const [policies, setPolicies] = useState<InsurancePolicy[]>([]);
+  const [claims, setClaims] = useState<InsuranceClaim[]>([]);
+  const [subscribingProductId, setSubscribingProductId] = useState<string | null>(null);
+  const [farmLocation, setFarmLocation] = useState('');
+  const [insuredCrop, setInsuredCrop] = useState('');
+  const [farmAcres, setFarmAcres] = useState('');
+  const [farmGps, setFarmGps] = useState<GeoLocation | null>(null);
+  const [locatingFarm, setLocatingFarm] = useState(false);
+  const [policyTriggers, setPolicyTriggers] = useState<(ParametricTrigger & { latest: TriggerEvaluation | null })[]>([]);
+  const [triggerHistory, setTriggerHistory] = useState<{ policyId: string; evaluations: TriggerEvaluation[] } | null>(null);
+  const [claimPolicyId, setClaimPolicyId] = useState<string | null>(null);
+  const [claimPeril, setClaimPeril] = useState('');
+  const [claimDate, setClaimDate] = useState('');
+  const [claimDescription, setClaimDescription] = useState('');
+  const [claimFiles, setClaimFiles] = useState<File[]>([]);
+  const [diagnosisFiles, setDiagnosisFiles] = useState<UserFile[]>([]);
+  const [claimFileIds, setClaimFileIds] = useState<string[]>([]);
+  const [claimWeather, setClaimWeather] = useState<WeatherReport | null>(null);
+  const [fetchingWeather, setFetchingWeather] = useState(false);
+  const [submittingClaim, setSubmittingClaim] = useState(false);
   const [smsText, setSmsText] = useState('');
-  const [verificationResult, setVerificationResult] = useState<any>(null);
+  const [verificationResult, setVerificationResult] = useState<SmsReconciliationResult | null>(null);
+  const [verifyingSms, setVerifyingSms] = useState(false);
 
   // --- Effects ---
 
-  // Autofill Linked Accounts from User Profile
+  const refreshLinkedAccounts = async () => {
+      const accounts = await getLinkedAccounts();
+      setLinkedAccounts(accounts);
+      return accounts;
+  };
+
+  // Preselect the default account for deposits and withdrawals
   useEffect(() => {
-    if (user?.phone && user?.network) {
-        setLinkedAccounts(prev => {
-            // Only add if not already present (avoid duplicates on re-renders)
-            if (prev.find(a => a.accountNumber === user.phone)) return prev;
-            return [{
-                id: 'auto-linked-1',
-                type: 'MOMO',
-                provider: user.network || 'MTN',
-                accountNumber: user.phone || '',
-                accountName: user.name
-            }, ...prev];
-        });
-        // Default to the auto-linked account if none selected
-        if (!selectedAccount) setSelectedAccount('auto-linked-1');
-    }
-  }, [user?.phone, user?.network, user?.name]);
+      if (!user?.uid) return;
+      refreshLinkedAccounts().then(accounts => {
+          const preferred = accounts.find(a => a.is_default);
+          if (preferred) setSelectedAccount(current => current || preferred.id);
+      });
+  }, [user?.uid]);
 
   useEffect(() => {
       if (user?.uid) {
           setLoadingBalance(true);
-          getWalletBalance(user.uid).then(bal => {
-              setBalance(bal);
-              // Simple credit score logic: 3.5x balance or min 500
-              setCreditLimit(Math.max(500, Math.floor(bal * 3.5)));
-          });
+          getWalletBalance(user.uid).then(setBalance);
+          getWalletBalances().then(setBalances);
           getTransactionHistory(user.uid).then((txs: any) => setTransactions(txs || []));
           setLoadingBalance(false);
 
@@ -142,6 +227,30 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
                 setTransactions(prev => [newTx, ...prev]);
                 // Re-fetch balance to ensure sync (though optimistic UI handles visuals)
                 getWalletBalance(user.uid!).then(setBalance);
+                getWalletBalances().then(setBalances);
+                if (newTx.type === 'INSURANCE_CLAIM') {
+                    addNotification({ type: 'wallet', title: 'Claim Paid', message: `${formatMoney(newTx.amount)} for claim ${newTx.provider_reference} has been added to your wallet.`, view: 'WALLET' });
+                }
+            })
+            .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'transactions', filter: `user_id=eq.${user.uid}` },
+            (payload) => {
+                // Deposits settle here once the provider webhook arrives
+                const updated = payload.new as Transaction;
+                setTransactions(prev => prev.map(tx => tx.id === updated.id ? updated : tx));
+                getWalletBalance(user.uid!).then(setBalance);
+                if (updated.type === 'DEPOSIT' && updated.status === 'completed') {
+                    addNotification({ type: 'wallet', title: 'Deposit Received', message: `${formatMoney(updated.amount)} added to your wallet.`, view: 'WALLET' });
+                } else if (updated.type === 'DEPOSIT' && (updated.status === 'failed' || updated.status === 'flagged')) {
+                    addNotification({ type: 'wallet', title: 'Deposit Not Completed', message: updated.status === 'flagged' ? 'The payment details did not match. Our team will review it.' : 'The mobile money payment was not approved.', view: 'WALLET' });
+                } else if (updated.type === 'WITHDRAWAL' && updated.status === 'completed') {
+                    addNotification({ type: 'wallet', title: 'Withdrawal Sent', message: `${formatMoney(updated.amount)} sent to ${updated.provider} ${updated.phone_number}.`, view: 'WALLET' });
+                } else if ((updated.type === 'TRANSFER' || updated.type === 'WITHDRAWAL') && updated.status === 'flagged') {
+                    addNotification({ type: 'wallet', title: 'Held for Review', message: `Your ${updated.type === 'TRANSFER' ? 'transfer' : 'withdrawal'} of ${formatMoney(updated.amount)} is being checked by our team.`, view: 'WALLET' });
+                } else if (updated.type === 'TRANSFER' && updated.status === 'refunded') {
+                    addNotification({ type: 'wallet', title: 'Transfer Reversed', message: `${formatMoney(updated.amount)} (${updated.description}) was reversed after review and returned to your wallet.`, view: 'WALLET' });
+                } else if (updated.type === 'WITHDRAWAL' && updated.status === 'failed') {
+                    addNotification({ type: 'wallet', title: 'Withdrawal Failed', message: `The payout was rejected. ${formatMoney(updated.amount + (updated.fee || 0))} has been returned to your wallet.`, view: 'WALLET' });
+                }
             })
             .subscribe();
 
@@ -149,35 +258,139 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
       }
   }, [user]);
 
+  const refreshInvoices = () => {
+      if (!user?.uid) return;
+      getReceivedInvoices(user.uid).then(setInvoices);
+  };
+
+  // Invoices addressed to me, kept current as merchants issue or cancel them
+  useEffect(() => {
+      if (!user?.uid) return;
+      refreshInvoices();
+
+      const channel = supabase.channel('wallet_invoices')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'invoices', filter: `payer_id=eq.${user.uid}` },
+        (payload) => {
+            refreshInvoices();
+            const invoice = payload.new as Invoice;
+            setOpenInvoice(current => current?.id === invoice.id ? { ...current, status: invoice.status, paid_at: invoice.paid_at } : current);
+            if (payload.eventType === 'INSERT') {
+                addNotification({ type: 'wallet', title: 'New Invoice', message: `${invoice.invoice_number}: ${formatMoney(Number(invoice.amount))} for ${invoice.description}`, view: 'WALLET' });
+            }
+        })
+        .subscribe();
+
+      return () => { supabase.removeChannel(channel); };
+  }, [user?.uid]);
+
+  // An invoice link opened the app (see App.tsx)
+  useEffect(() => {
+      const invoiceNumber = sessionStorage.getItem('wallet_invoice');
+      if (!invoiceNumber || !user?.uid) return;
+      sessionStorage.removeItem('wallet_invoice');
+      handleOpenInvoice(invoiceNumber);
+  }, [user?.uid]);
+
+  const refreshLoans = () => {
+      if (!user?.uid) return;
+      getMyLoans(user.uid).then(setLoans);
+      getCreditScore().then(setCreditScore);
+  };
+
+  useEffect(() => {
+      if (activeView !== 'LOANS') return;
+      refreshLoans();
+      getLoanProducts().then(products => {
+          setLoanProducts(products);
+          if (products.length && !loanProductId) {
+              setLoanProductId(products[0].id);
+              setLoanTerm(products[0].terms[0]);
+          }
+      });
+  }, [activeView, user?.uid]);
+
+  useEffect(() => {
+      if (activeView === 'BILLS' && user?.uid) getSavedBillers().then(setSavedBillers);
+  }, [activeView, user?.uid]);
+
+  // A looked-up customer only applies to the number it was fetched for
+  useEffect(() => {
+      setBillAccount(null);
+  }, [selectedProvider, reference]);
+
+  useEffect(() => {
+      setBillQuote(null);
+  }, [billAccount, amount, billPlan]);
+
+  const refreshInsurance = () => {
+      if (!user?.uid) return;
+      getMyPolicies(user.uid).then(list => {
+          setPolicies(list);
+          getPolicyTriggers(list.filter(p => p.insurance_products?.parametric).map(p => p.id)).then(setPolicyTriggers);
+      });
+      getMyClaims(user.uid).then(setClaims);
+  };
+
+  useEffect(() => {
+      if (activeView !== 'INSURANCE' || !user?.uid) return;
+      refreshInsurance();
+      getInsuranceProducts().then(setInsuranceProducts);
+      getUserFiles(user.uid).then(files => setDiagnosisFiles(files.filter(f => f.context === 'pest-diagnosis')));
+  }, [activeView, user?.uid]);
+
+  // A confirmed recipient only applies to the transfer in progress
+  useEffect(() => {
+      if (activeView !== 'TRANSFER') {
+          setTransferRecipient(null);
+          setScannedQr(null);
+      }
+  }, [activeView]);
+
+  // The static code is signed once per visit; a requested amount replaces it until reset
+  useEffect(() => {
+      if (activeView !== 'QR' || qrMode !== 'MY_CODE' || myQrCode || !user?.uid) return;
+      createPaymentQr()
+        .then(code => setMyQrCode({ code, amount: null, reference: '', expiresAt: null }))
+        .catch(error => addNotification({ type: 'wallet', title: 'QR Unavailable', message: error.message, view: 'WALLET' }));
+  }, [activeView, qrMode, myQrCode, user?.uid]);
+
+  useEffect(() => {
+      if (!myQrCode) {
+          setMyQrImage('');
+          return;
+      }
+      renderQrDataUrl(myQrCode.code).then(setMyQrImage).catch(err => console.error("QR render failed:", err));
+  }, [myQrCode]);
+
+  // A quote is only valid for the details it was fetched for
+  useEffect(() => {
+      setWithdrawalQuote(null);
+  }, [activeView, amount, selectedAccount, selectedProvider, recipient]);
+
+  useEffect(() => {
+      setFxQuote(null);
+  }, [activeView, amount, fxFrom, fxTo]);
+
   // --- Helpers ---
 
-  const formatMoney = (amount: number) => `GHS ${amount.toFixed(2)}`;
+  const balanceIn = (currency: string) => currency === 'GHS' ? balance : (balances.find(b => b.currency === currency)?.balance || 0);
 
   const handleTransactionStart = (type: Transaction['type'], amountVal: number, desc: string, meta?: any) => {
       if (amountVal <= 0) {
           addNotification({ type: 'wallet', title: 'Invalid Amount', message: 'Please enter a valid amount.', view: 'WALLET' });
           return;
       }
-      if (type !== 'DEPOSIT' && type !== 'LOAN' && amountVal > balance) {
+      if (type !== 'DEPOSIT' && type !== 'LOAN' && amountVal > balanceIn(meta?.currency || 'GHS')) {
           addNotification({ type: 'wallet', title: 'Insufficient Funds', message: 'Top up your wallet first.', view: 'WALLET' });
           return;
       }
       
       setPendingTransaction({ type, amount: amountVal, desc, meta });
-      setPin('');
       setShowPinModal(true);
   };
 
-  const handlePinSubmit = async (e: React.FormEvent) => {
-      e.preventDefault();
-      if (pin.length !== 4) return;
-      
-      // Simulate PIN check
-      if (pin === '0000') {
-          addNotification({ type: 'wallet', title: 'Invalid PIN', message: 'Default PIN 0000 is not allowed. Try 1234.', view: 'WALLET' });
-          return;
-      }
-
+  // Runs once the PIN has been verified server-side
+  const handlePinVerified = async () => {
       setShowPinModal(false);
       setIsProcessing(true);
 
@@ -185,16 +398,18 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
 
       const { type, amount: txAmount, desc, meta } = pendingTransaction;
 
-      // 1. Optimistic Update (Instant feedback)
+      // 1. Optimistic Update (Instant feedback). Deposits and loans only land once confirmed,
+      //    and conversions wait for the ledger since they touch two currencies.
       const oldBalance = balance;
-      if (type === 'DEPOSIT' || type === 'LOAN') {
-          setBalance(prev => prev + txAmount);
-      } else {
-          setBalance(prev => prev - txAmount);
+      if (type !== 'DEPOSIT' && type !== 'LOAN' && type !== 'FX_OUT') {
+          setBalance(prev => prev - txAmount - (meta?.fee || 0));
       }
 
       // 2. Persist to DB
       try {
+          let title = 'Success';
+          let message = desc;
+
           // If it's a deposit, we use the service to simulate external flow (USSD trigger)
           if (type === 'DEPOSIT') {
               let provider = 'MTN';
@@ -206,59 +421,580 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
               } else {
                   const account = linkedAccounts.find(a => a.id === selectedAccount);
                   provider = account?.provider || 'MTN';
-                  phoneNumber = account?.accountNumber || user.phone || '0240000000';
+                  phoneNumber = account?.account_number || user.phone || '0240000000';
               }
 
               await initiatePayment(user, txAmount, provider, phoneNumber);
-          } else {
-              // Direct DB insert for other types
-              const { error } = await supabase.from('transactions').insert([{
-                  user_id: user.uid,
-                  amount: txAmount,
-                  currency: 'GHS',
-                  type: type, // Matches DB enum
-                  status: 'completed',
-                  provider: 'Wallet',
-                  provider_reference: `TRX-${Date.now()}`,
-                  phone_number: user.phone || 'N/A',
-                  description: desc,
-                  created_at: new Date().toISOString()
-              }]);
-              if (error) throw error;
+              message = 'Approve the payment prompt on your phone to complete the top-up.';
+          } else if (type === 'LOAN') {
+              const loan = await applyForLoan(meta.productId, txAmount, meta.term, meta.purpose);
+              if (loan.status === 'rejected') {
+                  title = 'Loan Declined';
+                  message = loan.decision_reason || 'Your application was not approved.';
+              } else {
+                  message = loan.status === 'active' ? `${formatMoney(loan.principal)} has been added to your wallet.` : 'Your application is being reviewed. We will notify you once it is decided.';
+              }
+          } else if (type === 'LOAN_REPAYMENT') {
+              const applied = await repayLoan(meta.loanId, txAmount);
+              message = `Paid ${formatMoney(applied)} towards your loan.`;
+          } else if (type === 'TRANSFER' && meta?.invoiceId) {
+              const invoice = await payInvoice(meta.invoiceId);
+              setOpenInvoice(current => current ? { ...current, status: invoice.status, paid_at: invoice.paid_at, paid_by: invoice.paid_by } : null);
+              refreshInvoices();
+              message = `Invoice ${invoice.invoice_number} paid.`;
+          } else if (type === 'TRANSFER' && meta?.qrCode) {
+              await payPaymentQr(meta.qrCode, txAmount);
+          } else if (type === 'TRANSFER') {
+              await transferFunds(meta.recipientId, txAmount, desc);
+          } else if (type === 'WITHDRAWAL') {
+              const withdrawal = await requestWithdrawal(txAmount, meta.linkedAccountId);
+              message = withdrawal.status === 'flagged'
+                  ? 'Withdrawal is held for a routine security review. The amount stays reserved until it is approved or refunded.'
+                  : 'Withdrawal submitted. We will notify you once the provider confirms it.';
+          } else if (type === 'PAYMENT' && meta?.insurance) {
+              const policy = await buyInsurancePolicy(meta.insurance.productId, meta.insurance.farmLocation, meta.insurance.crop, meta.insurance.acres, meta.insurance.gps);
+              message = `Policy ${policy.policy_number} is active. The premium will be debited monthly.`;
+              setSubscribingProductId(null);
+              refreshInsurance();
+          } else if (type === 'PAYMENT' && meta?.bill) {
+              const payment = await payBill(meta.bill.billerId, meta.bill.accountNumber, txAmount, meta.bill);
+              if (payment.status === 'failed') {
+                  title = 'Bill Payment Failed';
+                  message = `${payment.failure_reason || 'The biller refused the payment'}. ${formatMoney(payment.amount + payment.fee)} has been returned to your wallet.`;
+              } else if (payment.status === 'pending') {
+                  title = 'Bill Payment Pending';
+                  message = `${desc} is waiting for the biller to confirm. If it doesn't go through, ${formatMoney(payment.amount + payment.fee)} will be returned to your wallet.`;
+              } else {
+                  setBillReceipt(payment);
+                  message = payment.token ? `Your token is ${payment.token}.` : `${desc} paid.`;
+              }
+              if (meta.bill.save) getSavedBillers().then(setSavedBillers);
+          } else if (type === 'PAYMENT') {
+              await debitWallet(type, txAmount, desc);
+          } else if (type === 'FX_OUT') {
+              const quote: FxQuote = meta.fxQuote;
+              await convertCurrency(quote);
+              message = `Converted ${formatMoney(quote.amount, quote.from_currency)} to ${formatMoney(quote.converted, quote.to_currency)}.`;
+              setFxQuote(null);
           }
 
-          addNotification({ type: 'wallet', title: 'Success', message: desc, view: 'WALLET' });
+          // Ledger is the source of truth for the balance
+          getWalletBalance(user.uid).then(setBalance);
+          getWalletBalances().then(setBalances);
+          addNotification({ type: 'wallet', title, message, view: 'WALLET' });
           
           // Reset Form State
           setAmount('');
           setRecipient('');
           setReference('');
           setSelectedProvider('');
+          setTransferRecipient(null);
+          setScannedQr(null);
+          setLoanPurpose('');
+          setBillPlan('');
+          setSaveBiller(false);
+          setBillNickname('');
+          setBillRecurring('');
           setActiveView('HOME'); // Return home on success
 
-      } catch (error) {
+      } catch (error: any) {
           console.error(error);
           setBalance(oldBalance); // Rollback on error
-          addNotification({ type: 'wallet', title: 'Transaction Failed', message: 'Network error. Please try again.', view: 'WALLET' });
+          addNotification({ type: 'wallet', title: 'Transaction Failed', message: error?.message || 'Network error. Please try again.', view: 'WALLET' });
       } finally {
           setIsProcessing(false);
           setPendingTransaction(null);
       }
   };
 
-  const handleLinkAccount = (e: React.FormEvent) => {
+  // Where a withdrawal goes: always one of the user's verified linked accounts
+  const getPayoutDestination = () => {
+      const account = linkedAccounts.find(a => a.id === selectedAccount && a.status === 'verified');
+      return account ? { linkedAccountId: account.id, provider: account.provider, accountNumber: account.account_number } : null;
+  };
+
+  const handleReviewWithdrawal = async () => {
+      const destination = getPayoutDestination();
+      const amountVal = parseFloat(amount);
+      if (!destination) {
+          addNotification({ type: 'wallet', title: 'Missing Details', message: 'Choose the linked account to withdraw to.', view: 'WALLET' });
+          return;
+      }
+      if (!(amountVal > 0)) {
+          addNotification({ type: 'wallet', title: 'Invalid Amount', message: 'Please enter a valid amount.', view: 'WALLET' });
+          return;
+      }
+
+      setQuotingWithdrawal(true);
+      try {
+          setWithdrawalQuote(await getWithdrawalQuote(amountVal, destination.provider));
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Withdrawal Unavailable', message: error.message || 'Could not calculate fees.', view: 'WALLET' });
+      } finally {
+          setQuotingWithdrawal(false);
+      }
+  };
+
+  const handleConfirmWithdrawal = () => {
+      const destination = getPayoutDestination();
+      if (!withdrawalQuote || !destination) return;
+      if (withdrawalQuote.amount > withdrawalQuote.remaining_today) {
+          addNotification({ type: 'wallet', title: 'Daily Limit Reached', message: `You can withdraw up to ${formatMoney(withdrawalQuote.remaining_today)} more today.`, view: 'WALLET' });
+          return;
+      }
+      if (withdrawalQuote.total > withdrawalQuote.balance) {
+          addNotification({ type: 'wallet', title: 'Insufficient Funds', message: `You need ${formatMoney(withdrawalQuote.total)} including the fee.`, view: 'WALLET' });
+          return;
+      }
+      handleTransactionStart('WITHDRAWAL', withdrawalQuote.amount, `Withdrawal to ${destination.provider} - ${destination.accountNumber}`, { ...destination, fee: withdrawalQuote.fee });
+  };
+
+  const handleLookupBill = async (billerId = selectedProvider, accountNumber = reference, planCode = '') => {
+      if (!billerId || !accountNumber.trim()) {
+          addNotification({ type: 'wallet', title: 'Missing Details', message: 'Enter the account number on your bill.', view: 'WALLET' });
+          return;
+      }
+      setLookingUpBill(true);
+      try {
+          const account = await lookupBill(billerId, accountNumber.trim());
+          setBillAccount(account);
+          setBillPlan(planCode || account.currentPlan || '');
+          if (account.amountDue) setAmount(String(account.amountDue));
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Account Not Found', message: error.message || 'The biller could not find this account.', view: 'WALLET' });
+      } finally {
+          setLookingUpBill(false);
+      }
+  };
+
+  // Saved billers fill in the form and look the account up again for a fresh balance
+  const handleSelectSavedBiller = (saved: SavedBiller) => {
+      setSelectedProvider(saved.biller_id);
+      setReference(saved.account_number);
+      setAmount(saved.recurring_amount ? String(saved.recurring_amount) : '');
+      handleLookupBill(saved.biller_id, saved.account_number, saved.plan_code || '');
+  };
+
+  const handleReviewBill = async () => {
+      if (!billAccount) return;
+      setQuotingBill(true);
+      try {
+          setBillQuote(await quoteBill(selectedProvider, billAccount.accountNumber, parseFloat(amount) || 0, billPlan || null));
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Check Amount', message: error.message || 'Could not calculate the fee.', view: 'WALLET' });
+      } finally {
+          setQuotingBill(false);
+      }
+  };
+
+  const handleConfirmBill = () => {
+      if (!billQuote || !billAccount) return;
+      if (billQuote.amount + billQuote.fee > balance) {
+          addNotification({ type: 'wallet', title: 'Insufficient Funds', message: `You need ${formatMoney(billQuote.amount + billQuote.fee)} including the fee.`, view: 'WALLET' });
+          return;
+      }
+      const biller = BILL_PROVIDERS.find(p => p.id === selectedProvider);
+      handleTransactionStart('PAYMENT', billQuote.amount, `${biller?.name} - ${billAccount.accountNumber}`, {
+          fee: billQuote.fee,
+          bill: {
+              billerId: selectedProvider,
+              accountNumber: billAccount.accountNumber,
+              planCode: billQuote.planCode,
+              save: saveBiller,
+              nickname: billNickname.trim(),
+              recurring: saveBiller && billRecurring ? billRecurring : null
+          }
+      });
+  };
+
+  const handleRemoveSavedBiller = async (saved: SavedBiller) => {
+      if (!window.confirm(`Remove ${saved.nickname || saved.account_number}?${saved.recurring_frequency ? ' Its recurring payment will stop.' : ''}`)) return;
+      try {
+          await removeSavedBiller(saved.id);
+          setSavedBillers(prev => prev.filter(s => s.id !== saved.id));
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Could Not Remove', message: error.message, view: 'WALLET' });
+      }
+  };
+
+  const handleStopRecurringBill = async (saved: SavedBiller) => {
+      try {
+          await stopRecurringBill(saved.id);
+          setSavedBillers(await getSavedBillers());
+          addNotification({ type: 'wallet', title: 'Recurring Payment Stopped', message: `${saved.nickname || saved.account_number} will no longer be paid automatically.`, view: 'WALLET' });
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Could Not Update', message: error.message, view: 'WALLET' });
+      }
+  };
+
+  const handleSubscribeInsurance = (product: InsuranceProduct) => {
+      if (product.category === 'crop' && (!farmLocation.trim() || !insuredCrop)) {
+          addNotification({ type: 'wallet', title: 'Missing Details', message: 'Enter the farm location and the crop to insure.', view: 'WALLET' });
+          return;
+      }
+      if (product.parametric && !farmGps) {
+          addNotification({ type: 'wallet', title: 'Missing Details', message: 'Index cover needs the GPS location of the farm.', view: 'WALLET' });
+          return;
+      }
+      if (product.parametric && !(parseFloat(farmAcres) > 0)) {
+          addNotification({ type: 'wallet', title: 'Missing Details', message: 'Index cover needs the farm size in acres.', view: 'WALLET' });
+          return;
+      }
+      handleTransactionStart('PAYMENT', product.monthly_premium, `Insurance: ${product.name}`, {
+          insurance: { productId: product.id, farmLocation: farmLocation.trim(), crop: insuredCrop, acres: parseFloat(farmAcres) || null, gps: product.parametric ? farmGps : null }
+      });
+  };
+
+  // Asked only when needed, rather than via useGeolocation on mount
+  const handleLocateFarm = () => {
+      if (!navigator.geolocation) {
+          addNotification({ type: 'wallet', title: 'Location Unavailable', message: 'This device cannot share its location.', view: 'WALLET' });
+          return;
+      }
+      setLocatingFarm(true);
+      navigator.geolocation.getCurrentPosition(
+          position => {
+              setFarmGps({ latitude: Number(position.coords.latitude.toFixed(5)), longitude: Number(position.coords.longitude.toFixed(5)) });
+              setLocatingFarm(false);
+          },
+          error => {
+              addNotification({ type: 'wallet', title: 'Location Unavailable', message: error.message || 'Allow location access while at the farm.', view: 'WALLET' });
+              setLocatingFarm(false);
+          },
+          { enableHighAccuracy: true, timeout: 15000 }
+      );
+  };
+
+  const toggleTriggerHistory = async (policy: InsurancePolicy) => {
+      if (triggerHistory?.policyId === policy.id) {
+          setTriggerHistory(null);
+          return;
+      }
+      try {
+          setTriggerHistory({ policyId: policy.id, evaluations: await getTriggerEvaluations(policy.id) });
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Could Not Load', message: error.message, view: 'WALLET' });
+      }
+  };
+
+  const handleCancelPolicy = async (policy: InsurancePolicy) => {
+      if (!window.confirm(`Cancel policy ${policy.policy_number}? Cover stops immediately and premiums paid are not refunded.`)) return;
+      try {
+          await cancelInsurancePolicy(policy.id);
+          refreshInsurance();
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Could Not Cancel', message: error.message, view: 'WALLET' });
+      }
+  };
+
+  const openClaimForm = (policy: InsurancePolicy) => {
+      setClaimPolicyId(policy.id);
+      setClaimPeril(policy.insurance_products?.perils[0] || '');
+      setClaimDate('');
+      setClaimDescription('');
+      setAmount('');
+      setClaimFiles([]);
+      setClaimFileIds([]);
+      setClaimWeather(null);
+  };
+
+  // Snapshot of the weather at the insured farm, kept with the claim
+  const handleAttachWeather = async (policy: InsurancePolicy) => {
+      setFetchingWeather(true);
+      try {
+          const response = await getLocalWeather(policy.farm_location || '');
+          setClaimWeather(response.data);
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Weather Unavailable', message: 'Could not fetch the weather report for the farm.', view: 'WALLET' });
+      } finally {
+          setFetchingWeather(false);
+      }
+  };
+
+  const handleSubmitClaim = async (policy: InsurancePolicy) => {
+      if (!user?.uid) return;
+      setSubmittingClaim(true);
+      try {
+          const uploads = await Promise.all(claimFiles.map(file => uploadUserFile(user.uid!, file, 'insurance-claim', '', `Claim: ${policy.policy_number}`)));
+          if (uploads.some(f => f.id.startsWith('temp-'))) throw new Error('Evidence could not be saved. Please try again.');
+
+          const evidence: ClaimEvidenceInput[] = [
+              ...[...uploads.map(f => f.id), ...claimFileIds].map(id => ({ kind: 'file' as const, user_file_id: id })),
+              ...(claimWeather ? [{ kind: 'weather' as const, weather_report: claimWeather, note: `Weather at ${policy.farm_location}` }] : [])
+          ];
+          const claim = await fileInsuranceClaim(policy.id, claimPeril, claimDate, claimDescription, parseFloat(amount), evidence);
+
+          addNotification({ type: 'wallet', title: 'Claim Submitted', message: `Claim ${claim.claim_number} is with our assessors. We will notify you of the decision.`, view: 'WALLET' });
+          setClaimPolicyId(null);
+          setAmount('');
+          refreshInsurance();
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Claim Not Submitted', message: error.message || 'Please check the details and try again.', view: 'WALLET' });
+      } finally {
+          setSubmittingClaim(false);
+      }
+  };
+
+  const handleForgotPin = async () => {
+      if (!user?.email) return;
+      try {
+          await sendWalletPinResetLink(user.email);
+          setShowPinModal(false);
+          setPendingTransaction(null);
+          addNotification({ type: 'wallet', title: 'Check Your Email', message: 'Open the recovery link to set a new password and wallet PIN.', view: 'WALLET' });
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Reset Failed', message: error.message || 'Could not send reset link.', view: 'WALLET' });
+      }
+  };
+
+  const handleChangePin = async (e: React.FormEvent) => {
       e.preventDefault();
-      const newAcc: LinkedAccount = {
-          id: Date.now().toString(),
-          type: 'MOMO', // simplified for demo
-          provider: selectedProvider || 'MTN',
-          accountNumber: recipient,
-          accountName: user?.name || 'User'
-      };
-      setLinkedAccounts([...linkedAccounts, newAcc]);
-      addNotification({ type: 'wallet', title: 'Account Linked', message: 'Account verified successfully.', view: 'WALLET' });
-      setActiveView('HOME');
-      setRecipient('');
+      const problem = getPinProblem(newPin);
+      if (problem || newPin !== confirmNewPin) {
+          addNotification({ type: 'wallet', title: 'Invalid PIN', message: problem || 'New PINs do not match.', view: 'WALLET' });
+          return;
+      }
+
+      setSavingPin(true);
+      try {
+          const check = await verifyWalletPin(currentPin);
+          if (!check.ok) {
+              const message = check.locked_until
+                  ? `Wallet locked until ${new Date(check.locked_until).toLocaleTimeString()}.`
+                  : `Current PIN is incorrect. ${check.attempts_left} attempts left.`;
+              addNotification({ type: 'wallet', title: 'PIN Not Changed', message, view: 'WALLET' });
+              return;
+          }
+          await setWalletPin(newPin);
+          setCurrentPin('');
+          setNewPin('');
+          setConfirmNewPin('');
+          addNotification({ type: 'wallet', title: 'PIN Updated', message: 'Your wallet PIN has been changed.', view: 'WALLET' });
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'PIN Not Changed', message: error.message || 'Please try again.', view: 'WALLET' });
+      } finally {
+          setSavingPin(false);
+      }
+  };
+
+  const handleFindRecipient = async () => {
+      if (!recipient.trim() || !(parseFloat(amount) > 0)) {
+          addNotification({ type: 'wallet', title: 'Missing Details', message: 'Enter a recipient and amount.', view: 'WALLET' });
+          return;
+      }
+      setResolvingRecipient(true);
+      const found = await resolveWalletRecipient(recipient);
+      setResolvingRecipient(false);
+
+      if (!found) {
+          addNotification({ type: 'wallet', title: 'Recipient Not Found', message: 'No wallet matches that phone number, merchant ID or wallet ID.', view: 'WALLET' });
+          return;
+      }
+      if (found.id === user?.uid) {
+          addNotification({ type: 'wallet', title: 'Invalid Recipient', message: 'You cannot send money to yourself.', view: 'WALLET' });
+          return;
+      }
+      setTransferRecipient(found);
+  };
+
+  const handleOpenInvoice = async (invoiceNumber: string) => {
+      const invoice = await getInvoice(invoiceNumber);
+      if (!invoice) {
+          addNotification({ type: 'wallet', title: 'Invoice Not Found', message: `${invoiceNumber} does not exist or was sent to someone else.`, view: 'WALLET' });
+          return false;
+      }
+      setOpenInvoice(invoice);
+      setActiveView('INVOICES');
+      return true;
+  };
+
+  const handlePayInvoice = (invoice: Invoice) => {
+      handleTransactionStart('TRANSFER', Number(invoice.amount), `Invoice ${invoice.invoice_number}`, { invoiceId: invoice.id });
+  };
+
+  const handleStatement = async (format: 'pdf' | 'csv') => {
+      if (!statementMonth) return;
+      const { from, to } = monthPeriod(statementMonth);
+      setLoadingStatement(true);
+      try {
+          const result = await getWalletStatement(from, to, statementCurrency);
+          setStatement(result);
+          if (format === 'pdf') openStatementDocument(result);
+          else downloadStatementCsv(result);
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Statement Unavailable', message: error.message, view: 'WALLET' });
+      } finally {
+          setLoadingStatement(false);
+      }
+  };
+
+  const handleFxQuote = async () => {
+      const amountVal = parseFloat(amount);
+      if (!fxTo || fxTo === fxFrom) {
+          addNotification({ type: 'wallet', title: 'Choose Currencies', message: 'Pick two different currencies to convert between.', view: 'WALLET' });
+          return;
+      }
+      if (!(amountVal > 0)) {
+          addNotification({ type: 'wallet', title: 'Invalid Amount', message: 'Please enter a valid amount.', view: 'WALLET' });
+          return;
+      }
+      setQuotingFx(true);
+      try {
+          setFxQuote(await getFxQuote(fxFrom, fxTo, amountVal));
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'No Quote', message: error.message, view: 'WALLET' });
+      } finally {
+          setQuotingFx(false);
+      }
+  };
+
+  const handleVerifySms = async () => {
+      setVerifyingSms(true);
+      setVerificationResult(null);
+      try {
+          const result = await reconcilePaymentSms(smsText);
+          setVerificationResult(result);
+          // The deposit's status change arrives through the realtime channel
+          if (result.outcome === 'flagged') setSmsText('');
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'SMS Not Verified', message: error.message, view: 'WALLET' });
+      } finally {
+          setVerifyingSms(false);
+      }
+  };
+
+  const handleTransactionReceipt = (tx: Transaction) => {
+      if (!user) return;
+      try {
+          openTransactionReceipt(tx, user);
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Receipt Unavailable', message: error.message, view: 'WALLET' });
+      }
+  };
+
+  const handleRequestAmountQr = async () => {
+      const requested = parseFloat(qrRequestAmount);
+      if (!(requested > 0)) {
+          addNotification({ type: 'wallet', title: 'Invalid Amount', message: 'Enter the amount to request.', view: 'WALLET' });
+          return;
+      }
+      setGeneratingQr(true);
+      try {
+          const code = await createPaymentQr({ amount: requested, reference: qrRequestReference.trim() });
+          setMyQrCode({ code, amount: requested, reference: qrRequestReference.trim(), expiresAt: Date.now() + 30 * 60 * 1000 });
+          setQrRequestAmount('');
+          setQrRequestReference('');
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'QR Unavailable', message: error.message, view: 'WALLET' });
+      } finally {
+          setGeneratingQr(false);
+      }
+  };
+
+  // Signed codes fix the payee (and amount, if any); plain codes from older app versions
+  // hold just a phone number or merchant ID and are resolved like a typed recipient
+  const handleQrDetected = async (text: string) => {
+      if (checkingQr || text === rejectedQrRef.current) return;
+      setCheckingQr(true);
+      try {
+          const invoiceNumber = parseInvoiceLink(text);
+          if (invoiceNumber) {
+              if (!(await handleOpenInvoice(invoiceNumber))) rejectedQrRef.current = text;
+              return;
+          }
+
+          let scanned: { code: string | null; details: PaymentQrDetails };
+          if (isPaymentQr(text)) {
+              scanned = { code: text, details: await readPaymentQr(text) };
+          } else {
+              const found = await resolveWalletRecipient(text);
+              if (!found) throw new Error('This QR code is not an AgroWallet payment code.');
+              scanned = { code: null, details: { ...found, amount: null, reference: null, expires_at: null } };
+          }
+          if (scanned.details.id === user?.uid) throw new Error('This is your own payment code.');
+
+          setScannedQr(scanned);
+          setTransferRecipient(scanned.details);
+          setAmount(scanned.details.amount ? String(scanned.details.amount) : '');
+          setActiveView('TRANSFER');
+      } catch (error: any) {
+          rejectedQrRef.current = text; // Don't re-report the same code while it stays in view
+          addNotification({ type: 'wallet', title: 'Invalid Code', message: error.message, view: 'WALLET' });
+      } finally {
+          setCheckingQr(false);
+      }
+  };
+
+  const handleLinkAccount = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!selectedProvider || !recipient.trim()) {
+          addNotification({ type: 'wallet', title: 'Missing Details', message: 'Choose a provider and enter the account or phone number.', view: 'WALLET' });
+          return;
+      }
+
+      setLinkingAccount(true);
+      try {
+          const { account, needs_code } = await linkAccount(selectedProvider, recipient.trim());
+          await refreshLinkedAccounts();
+          if (needs_code) {
+              setConfirmingAccountId(account.id);
+              addNotification({ type: 'wallet', title: 'Confirm Your Account', message: `We sent GHS 0.10 to ${account.account_number}. Enter the 6-digit code from the payment reference.`, view: 'WALLET' });
+          } else {
+              addNotification({ type: 'wallet', title: 'Account Linked', message: `${account.provider} account verified as ${account.account_name}.`, view: 'WALLET' });
+          }
+          setRecipient('');
+          setSelectedProvider('');
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Account Not Linked', message: error.message || 'Could not verify this account.', view: 'WALLET' });
+      } finally {
+          setLinkingAccount(false);
+      }
+  };
+
+  const handleConfirmAccount = async (accountId: string) => {
+      try {
+          const result = await confirmLinkedAccount(accountId, accountCode.trim());
+          if (!result.ok) {
+              addNotification({ type: 'wallet', title: 'Incorrect Code', message: `${result.attempts_left} attempts left.`, view: 'WALLET' });
+              return;
+          }
+          setConfirmingAccountId(null);
+          setAccountCode('');
+          await refreshLinkedAccounts();
+          addNotification({ type: 'wallet', title: 'Account Linked', message: 'Account verified successfully.', view: 'WALLET' });
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Verification Failed', message: error.message || 'Please try again.', view: 'WALLET' });
+      }
+  };
+
+  const handleResendAccountCode = async (accountId: string) => {
+      try {
+          await resendLinkedAccountCode(accountId);
+          addNotification({ type: 'wallet', title: 'Code Sent', message: 'A new test deposit with your code is on its way.', view: 'WALLET' });
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Code Not Sent', message: error.message || 'Please try again.', view: 'WALLET' });
+      }
+  };
+
+  const handleSetDefaultAccount = async (accountId: string) => {
+      try {
+          await setDefaultLinkedAccount(accountId);
+          await refreshLinkedAccounts();
+          setSelectedAccount(accountId);
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Update Failed', message: error.message || 'Please try again.', view: 'WALLET' });
+      }
+  };
+
+  const handleRemoveAccount = async (account: LinkedAccount) => {
+      if (!window.confirm(`Remove ${account.provider} ${account.account_number}?`)) return;
+      try {
+          await removeLinkedAccount(account.id);
+          const accounts = await refreshLinkedAccounts();
+          if (selectedAccount === account.id) setSelectedAccount(accounts.find(a => a.is_default)?.id || '');
+      } catch (error: any) {
+          addNotification({ type: 'wallet', title: 'Remove Failed', message: error.message || 'Please try again.', view: 'WALLET' });
+      }
   };
 
   // --- Sub-Components ---
@@ -283,32 +1019,6 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
       );
   };
 
-  const PinModal = () => (
-      <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 animate-fade-in">
-          <div className="bg-white rounded-2xl p-6 w-full max-w-xs text-center shadow-2xl">
-              <ShieldCheckIcon className="w-12 h-12 text-green-600 mx-auto mb-3" />
-              <h3 className="text-xl font-bold text-gray-900 mb-1">Enter Security PIN</h3>
-              <p className="text-sm text-gray-500 mb-6">Confirm {pendingTransaction?.type.toLowerCase()} of {formatMoney(pendingTransaction?.amount || 0)}</p>
-              
-              <form onSubmit={handlePinSubmit}>
-                  <input 
-                      type="password" 
-                      value={pin}
-                      onChange={(e) => setPin(e.target.value)}
-                      maxLength={4}
-                      autoFocus
-                      className="w-32 text-center text-3xl tracking-[0.5em] font-bold border-b-2 border-gray-300 focus:border-green-500 outline-none mb-8 text-gray-800 bg-transparent"
-                      placeholder="••••"
-                  />
-                  <div className="grid grid-cols-2 gap-3">
-                      <Button type="button" onClick={() => setShowPinModal(false)} className="bg-gray-200 !text-gray-800">Cancel</Button>
-                      <Button type="submit" disabled={pin.length !== 4}>Confirm</Button>
-                  </div>
-              </form>
-          </div>
-      </div>
-  );
-
   // --- Views ---
 
   const renderHome = () => (
@@ -327,6 +1037,15 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
                       {balance.toFixed(2)} <span className="text-lg font-normal text-gray-400">GHS</span>
                       {loadingBalance && <Spinner className="w-4 h-4" />}
                   </h2>
+                  {balances.some(b => b.currency !== 'GHS' && b.balance > 0) && (
+                      <div className="flex flex-wrap gap-2 -mt-3">
+                          {balances.filter(b => b.currency !== 'GHS' && b.balance > 0).map(b => (
+                              <button key={b.currency} onClick={() => { setFxFrom(b.currency); setFxTo('GHS'); setActiveView('CONVERT'); }} className="text-xs bg-white/10 hover:bg-white/20 px-2 py-1 rounded-lg">
+                                  {formatMoney(b.balance, b.currency)}
+                              </button>
+                          ))}
+                      </div>
+                  )}
               </div>
           </div>
 
@@ -371,6 +1090,25 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
                       </div>
                       <ArrowRightIcon className="w-5 h-5 text-gray-400" />
                   </div>
+                  <div onClick={() => setActiveView('INVOICES')} className="p-4 flex items-center justify-between cursor-pointer hover:bg-gray-50">
+                      <div className="flex items-center gap-3">
+                          <div className="p-2 bg-gray-100 rounded-full text-gray-600"><ClipboardListIcon className="w-5 h-5"/></div>
+                          <span className="font-medium text-gray-700">Invoices</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                          {invoices.some(i => i.status === 'open') && (
+                              <span className="text-xs font-bold bg-red-100 text-red-700 px-2 py-0.5 rounded-full">{invoices.filter(i => i.status === 'open').length} to pay</span>
+                          )}
+                          <ArrowRightIcon className="w-5 h-5 text-gray-400" />
+                      </div>
+                  </div>
+                  <div onClick={() => setActiveView('CONVERT')} className="p-4 flex items-center justify-between cursor-pointer hover:bg-gray-50">
+                      <div className="flex items-center gap-3">
+                          <div className="p-2 bg-gray-100 rounded-full text-gray-600"><BanknotesIcon className="w-5 h-5"/></div>
+                          <span className="font-medium text-gray-700">Convert Currency</span>
+                      </div>
+                      <ArrowRightIcon className="w-5 h-5 text-gray-400" />
+                  </div>
                   <div onClick={() => setActiveView('VERIFY_SMS')} className="p-4 flex items-center justify-between cursor-pointer hover:bg-gray-50">
                       <div className="flex items-center gap-3">
                           <div className="p-2 bg-gray-100 rounded-full text-gray-600"><CheckCircleIcon className="w-5 h-5"/></div>
@@ -390,9 +1128,109 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
       </div>
   );
 
-  const renderBills = () => (
+  const renderInvoices = () => {
+      const statusColor = (status: string) =>
+          status === 'paid' ? 'bg-green-100 text-green-700' : status === 'cancelled' ? 'bg-gray-100 text-gray-600' : 'bg-yellow-100 text-yellow-700';
+      const others = invoices.filter(i => i.id !== openInvoice?.id);
+
+      return (
+      <div className="animate-fade-in max-w-md mx-auto space-y-4">
+          <h3 className="text-lg font-bold text-gray-800">Invoices</h3>
+
+          {openInvoice && (
+              <div className="bg-white p-5 rounded-xl border-2 border-blue-100 shadow-sm space-y-3">
+                  <div className="flex justify-between items-start">
+                      <div>
+                          <p className="text-xs text-gray-500 font-mono">{openInvoice.invoice_number}</p>
+                          <p className="font-bold text-gray-900 flex items-center gap-1">
+                              {openInvoice.merchant_name}
+                              {openInvoice.merchant_code && <ShieldCheckIcon className="w-4 h-4 text-blue-500" />}
+                          </p>
+                      </div>
+                      <span className={`text-[10px] font-bold px-2 py-1 rounded-full uppercase ${statusColor(openInvoice.status)}`}>{openInvoice.status}</span>
+                  </div>
+                  <p className="text-sm text-gray-700">{openInvoice.description}</p>
+                  {openInvoice.item_title && <p className="text-xs text-gray-500">For: {openInvoice.item_title}</p>}
+                  <div className="flex justify-between text-sm border-t pt-3">
+                      <span className="text-gray-500">{openInvoice.due_date ? `Due ${new Date(openInvoice.due_date).toLocaleDateString()}` : 'Amount'}</span>
+                      <span className="text-xl font-bold text-gray-900">{formatMoney(Number(openInvoice.amount))}</span>
+                  </div>
+                  {openInvoice.status === 'open' && openInvoice.merchant_id !== user?.uid && (
+                      <Button onClick={() => handlePayInvoice(openInvoice)} className="w-full bg-blue-600 hover:bg-blue-700">Pay {formatMoney(Number(openInvoice.amount))}</Button>
+                  )}
+                  {openInvoice.status === 'paid' && openInvoice.paid_at && (
+                      <p className="text-xs text-green-700 font-medium">Paid {new Date(openInvoice.paid_at).toLocaleString()}</p>
+                  )}
+              </div>
+          )}
+
+          {others.length === 0 && !openInvoice ? (
+              <p className="text-sm text-gray-500 italic text-center py-8">No invoices. Sellers can send you one by link, QR code or chat.</p>
+          ) : others.length > 0 && (
+              <div className="bg-white rounded-xl border divide-y">
+                  {others.map(invoice => (
+                      <div key={invoice.id} className="p-3 flex justify-between items-center gap-3 text-sm">
+                          <button onClick={() => setOpenInvoice(invoice)} className="text-left min-w-0">
+                              <p className="font-bold text-gray-800 truncate">{invoice.merchant_name} · {formatMoney(Number(invoice.amount))}</p>
+                              <p className="text-xs text-gray-500 truncate">{invoice.invoice_number} · {invoice.description}</p>
+                          </button>
+                          {invoice.status === 'open' ? (
+                              <Button onClick={() => handlePayInvoice(invoice)} className="text-xs px-3 py-1.5 bg-blue-600 hover:bg-blue-700 flex-shrink-0">Pay</Button>
+                          ) : (
+                              <span className={`text-[10px] font-bold px-2 py-1 rounded-full uppercase flex-shrink-0 ${statusColor(invoice.status)}`}>{invoice.status}</span>
+                          )}
+                      </div>
+                  ))}
+              </div>
+          )}
+      </div>
+      );
+  };
+
+  const renderBills = () => {
+      const biller = BILL_PROVIDERS.find(p => p.id === selectedProvider);
+
+      return (
       <div className="animate-fade-in max-w-md mx-auto">
           <h3 className="text-lg font-bold text-gray-800 mb-4">Pay Bills</h3>
+
+          {savedBillers.length > 0 && (
+              <div className="mb-6">
+                  <h4 className="text-xs font-bold text-gray-500 uppercase mb-2">Saved Billers</h4>
+                  <div className="bg-white rounded-xl border divide-y">
+                      {savedBillers.map(saved => {
+                          const prov = BILL_PROVIDERS.find(p => p.id === saved.biller_id);
+                          return (
+                              <div key={saved.id} className="flex items-center gap-3 p-3">
+                                  <button onClick={() => handleSelectSavedBiller(saved)} className="flex-1 flex items-center gap-3 text-left">
+                                      {prov?.icon}
+                                      <div>
+                                          <p className="text-sm font-bold text-gray-800">{saved.nickname || saved.customer_name || prov?.name}</p>
+                                          <p className="text-xs text-gray-500">{prov?.name} · {saved.account_number}</p>
+                                          {saved.recurring_frequency && (
+                                              <p className="text-[10px] text-yellow-700">
+                                                  {formatMoney(saved.recurring_amount || 0)} {saved.recurring_frequency} · next {new Date(saved.next_payment_on!).toLocaleDateString()}
+                                              </p>
+                                          )}
+                                          {saved.last_payment_status === 'failed' && (
+                                              <p className="text-[10px] text-red-600">Last payment failed: {saved.last_payment_error}</p>
+                                          )}
+                                          {saved.last_payment_status === 'pending' && (
+                                              <p className="text-[10px] text-gray-500">Last payment awaiting the biller's confirmation</p>
+                                          )}
+                                      </div>
+                                  </button>
+                                  {saved.recurring_frequency && (
+                                      <button onClick={() => handleStopRecurringBill(saved)} className="text-xs text-gray-500 hover:text-red-600">Stop</button>
+                                  )}
+                                  <button onClick={() => handleRemoveSavedBiller(saved)} className="text-gray-400 hover:text-red-600"><TrashIcon className="w-4 h-4" /></button>
+                              </div>
+                          );
+                      })}
+                  </div>
+              </div>
+          )}
+
           <div className="grid grid-cols-2 gap-3 mb-6">
               {BILL_PROVIDERS.map(prov => (
                   <div 
@@ -406,90 +1244,437 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
               ))}
           </div>
 
-          {selectedProvider && (
+          {biller && (
               <div className="space-y-4 bg-white p-4 rounded-xl border border-gray-200 shadow-sm">
                   <div>
-                      <label className="text-xs font-bold text-gray-500 uppercase mb-1 block">Account / Meter Number</label>
-                      <input value={reference} onChange={e => setReference(e.target.value)} className="w-full p-3 bg-gray-50 border rounded-lg focus:ring-2 focus:ring-yellow-500 outline-none text-gray-900" placeholder="e.g. 123456789" />
-                  </div>
-                  <div>
-                      <label className="text-xs font-bold text-gray-500 uppercase mb-1 block">Amount</label>
-                      <input type="number" value={amount} onChange={e => setAmount(e.target.value)} className="w-full p-3 bg-gray-50 border rounded-lg focus:ring-2 focus:ring-yellow-500 outline-none text-gray-900" placeholder="0.00" />
+                      <label className="text-xs font-bold text-gray-500 uppercase mb-1 block">{biller.accountLabel}</label>
+                      <div className="flex gap-2">
+                          <input value={reference} onChange={e => setReference(e.target.value)} className="flex-1 p-3 bg-gray-50 border rounded-lg focus:ring-2 focus:ring-yellow-500 outline-none text-gray-900" placeholder={biller.placeholder} />
+                          {!billAccount && (
+                              <Button onClick={() => handleLookupBill()} isLoading={lookingUpBill} className="bg-yellow-600 hover:bg-yellow-700">Verify</Button>
+                          )}
+                      </div>
                   </div>
-                  <Button onClick={() => handleTransactionStart('PAYMENT', parseFloat(amount), `Bill: ${BILL_PROVIDERS.find(p => p.id === selectedProvider)?.name}`)} className="w-full bg-yellow-600 hover:bg-yellow-700">
-                      Pay Bill
-                  </Button>
+
+                  {billAccount && (
+                      <>
+                          <div className="bg-yellow-50 border border-yellow-100 p-3 rounded-lg text-sm space-y-1">
+                              <div className="flex items-center gap-2 font-bold text-gray-900">
+                                  <CheckCircleIcon className="w-4 h-4 text-green-600" /> {billAccount.customerName}
+                              </div>
+                              {Object.entries(billAccount.details).filter(([, value]) => value).map(([label, value]) => (
+                                  <div key={label} className="flex justify-between text-xs text-gray-600"><span>{label}</span><span>{value}</span></div>
+                              ))}
+                              {billAccount.amountDue !== null && (
+                                  <div className="flex justify-between text-xs font-bold text-gray-800"><span>Amount Due</span><span>{formatMoney(billAccount.amountDue)}</span></div>
+                              )}
+                          </div>
+
+                          {billAccount.plans.length > 0 ? (
+                              <div>
+                                  <label className="text-xs font-bold text-gray-500 uppercase mb-1 block">Bouquet</label>
+                                  <div className="grid grid-cols-2 gap-2">
+                                      {billAccount.plans.map(plan => (
+                                          <button key={plan.code} onClick={() => setBillPlan(plan.code)} className={`p-3 rounded-lg border text-left ${billPlan === plan.code ? 'bg-yellow-50 border-yellow-500' : 'bg-white border-gray-200'}`}>
+                                              <p className="text-sm font-bold text-gray-900">{plan.name}</p>
+                                              <p className="text-[10px] text-gray-500">{formatMoney(plan.amount)}{plan.code === billAccount.currentPlan && ' · current'}</p>
+                                          </button>
+                                      ))}
+                                  </div>
+                              </div>
+                          ) : (
+                              <div>
+                                  <label className="text-xs font-bold text-gray-500 uppercase mb-1 block">Amount</label>
+                                  <input type="number" min={billAccount.minAmount} max={billAccount.maxAmount} value={amount} onChange={e => setAmount(e.target.value)} className="w-full p-3 bg-gray-50 border rounded-lg focus:ring-2 focus:ring-yellow-500 outline-none text-gray-900" placeholder="0.00" />
+                                  <div className="flex justify-between mt-1 text-xs text-gray-400">
+                                      <span>Min: GHS {billAccount.minAmount}</span>
+                                      <span>Max: GHS {billAccount.maxAmount}</span>
+                                  </div>
+                              </div>
+                          )}
+
+                          <div className="space-y-2">
+                              <label className="flex items-center gap-2 text-sm text-gray-700">
+                                  <input type="checkbox" checked={saveBiller} onChange={e => setSaveBiller(e.target.checked)} /> Save this biller
+                              </label>
+                              {saveBiller && (
+                                  <div className="flex gap-2">
+                                      <input value={billNickname} onChange={e => setBillNickname(e.target.value)} placeholder="Nickname (optional)" className="flex-1 p-2 bg-gray-50 border rounded-lg outline-none text-sm text-gray-900" />
+                                      <select value={billRecurring} onChange={e => setBillRecurring(e.target.value as '' | 'weekly' | 'monthly')} className="p-2 bg-gray-50 border rounded-lg text-sm text-gray-900">
+                                          <option value="">Pay once</option>
+                                          <option value="weekly">Repeat weekly</option>
+                                          <option value="monthly">Repeat monthly</option>
+                                      </select>
+                                  </div>
+                              )}
+                          </div>
+
+                          {billQuote ? (
+                              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-2 text-sm animate-fade-in">
+                                  <div className="flex justify-between text-gray-600"><span>Amount</span><span>{formatMoney(billQuote.amount)}</span></div>
+                                  <div className="flex justify-between text-gray-600"><span>Fee</span><span>{formatMoney(billQuote.fee)}</span></div>
+                                  <div className="flex justify-between font-bold text-gray-900 border-t pt-2"><span>Total debit</span><span>{formatMoney(billQuote.amount + billQuote.fee)}</span></div>
+                                  {saveBiller && billRecurring && (
+                                      <p className="text-xs text-gray-500">{formatMoney(billQuote.amount)} plus fee will be paid from your wallet every {billRecurring === 'weekly' ? 'week' : 'month'}.</p>
+                                  )}
+                                  <div className="flex gap-2 pt-2">
+                                      <Button onClick={() => setBillQuote(null)} className="flex-1 bg-gray-200 !text-gray-800 hover:bg-gray-300">Edit</Button>
+                                      <Button onClick={handleConfirmBill} className="flex-1 bg-yellow-600 hover:bg-yellow-700">Pay Bill</Button>
+                                  </div>
+                              </div>
+                          ) : (
+                              <Button onClick={handleReviewBill} isLoading={quotingBill} className="w-full bg-yellow-600 hover:bg-yellow-700">
+                                  Review Payment
+                              </Button>
+                          )}
+                      </>
+                  )}
               </div>
           )}
       </div>
-  );
+      );
+  };
+
+  const renderLoans = () => {
+      const openLoan = loans.find(l => l.status === 'pending' || l.status === 'active' || l.status === 'defaulted');
+      const pastLoans = loans.filter(l => l !== openLoan);
+      const product = loanProducts.find(p => p.id === loanProductId);
+      const loanAmount = parseFloat(amount);
+      const monthlyPayment = product && loanAmount > 0 && loanTerm ? getMonthlyPayment(loanAmount, product.monthly_rate, loanTerm) : 0;
+      const installments = openLoan?.loan_installments || [];
+      const nextInstallment = installments.find(i => i.status !== 'paid');
+      const outstanding = getLoanOutstanding(installments);
+
+      const installmentColor = (status: string) =>
+          status === 'paid' ? 'text-green-600' : status === 'overdue' ? 'text-red-600' : status === 'due' ? 'text-orange-600' : 'text-gray-400';
 
-  const renderLoans = () => (
+      return (
       <div className="animate-fade-in max-w-md mx-auto">
-          <div className="bg-blue-600 text-white p-6 rounded-2xl shadow-lg mb-6 text-center">
-              <p className="text-blue-100 text-sm font-medium mb-1">Pre-Approved Limit</p>
-              <h3 className="text-3xl font-bold">{formatMoney(creditLimit)}</h3>
-              <p className="text-xs text-blue-200 mt-2">Interest Rate: 5% / month</p>
+          <div className="bg-blue-600 text-white p-6 rounded-2xl shadow-lg mb-6 grid grid-cols-2 text-center">
+              <div>
+                  <p className="text-blue-100 text-sm font-medium mb-1">Credit Score</p>
+                  <h3 className="text-3xl font-bold">{creditScore ? creditScore.score : '--'}</h3>
+                  <p className="text-xs text-blue-200 mt-1">out of 850</p>
+              </div>
+              <div>
+                  <p className="text-blue-100 text-sm font-medium mb-1">Pre-Approved Limit</p>
+                  <h3 className="text-3xl font-bold">{formatMoney(creditScore?.credit_limit || 0)}</h3>
+                  <p className="text-xs text-blue-200 mt-1">Sales, wallet activity & reviews</p>
+              </div>
           </div>
 
-          <div className="space-y-4 bg-white p-5 rounded-xl border border-gray-200 shadow-sm">
-              <div>
-                  <label className="text-xs font-bold text-gray-500 uppercase mb-1 block">Loan Amount</label>
-                  <input type="number" max={creditLimit} value={amount} onChange={e => setAmount(e.target.value)} className="w-full p-3 bg-gray-50 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-gray-900" placeholder="0.00" />
-                  <div className="flex justify-between mt-1 text-xs text-gray-400">
-                      <span>Min: GHS 50</span>
-                      <span>Max: GHS {creditLimit}</span>
+          {openLoan ? (
+              <div className="bg-white p-5 rounded-xl border border-gray-200 shadow-sm space-y-4">
+                  <div className="flex justify-between items-start">
+                      <div>
+                          <p className="text-xs font-bold text-gray-500 uppercase">Current Loan</p>
+                          <p className="text-lg font-bold text-gray-900">{formatMoney(openLoan.principal)}</p>
+                          <p className="text-xs text-gray-500">{openLoan.term_months} months at {(openLoan.monthly_rate * 100).toFixed(1)}% / month</p>
+                      </div>
+                      <span className={`text-[10px] font-bold px-2 py-1 rounded-full uppercase ${openLoan.status === 'defaulted' ? 'bg-red-100 text-red-700' : openLoan.status === 'pending' ? 'bg-yellow-100 text-yellow-700' : 'bg-blue-100 text-blue-700'}`}>
+                          {openLoan.status === 'pending' ? 'Under Review' : openLoan.status}
+                      </span>
                   </div>
+
+                  {openLoan.status === 'pending' ? (
+                      <p className="text-sm text-gray-600">{openLoan.decision_reason || 'Your application is being reviewed.'}</p>
+                  ) : (
+                      <>
+                          <div className="bg-blue-50 p-3 rounded-lg space-y-1 text-sm">
+                              <div className="flex justify-between"><span className="text-blue-800">Outstanding</span><span className="font-bold text-blue-900">{formatMoney(outstanding)}</span></div>
+                              {nextInstallment && (
+                                  <div className="flex justify-between"><span className="text-blue-800">Next payment</span><span className="text-blue-900">{new Date(nextInstallment.due_date).toLocaleDateString()}</span></div>
+                              )}
+                          </div>
+                          <p className="text-xs text-gray-500">Due payments are collected from your wallet automatically. Late installments attract a one-off penalty.</p>
+
+                          <div className="flex gap-2">
+                              <input type="number" value={amount} onChange={e => setAmount(e.target.value)} placeholder={outstanding.toFixed(2)} className="flex-1 p-3 bg-gray-50 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-gray-900" />
+                              <Button onClick={() => handleTransactionStart('LOAN_REPAYMENT', parseFloat(amount) || outstanding, 'Loan repayment', { loanId: openLoan.id })} className="bg-blue-600 hover:bg-blue-700">
+                                  Repay
+                              </Button>
+                          </div>
+
+                          <div className="divide-y border rounded-lg">
+                              {installments.map(i => (
+                                  <div key={i.id} className="flex justify-between items-center p-2 text-xs">
+                                      <span className="text-gray-600">#{i.seq} · {new Date(i.due_date).toLocaleDateString()}</span>
+                                      <span className="text-gray-900">{formatMoney(i.principal_due + i.interest_due + i.penalty_due)}</span>
+                                      <span className={`font-bold uppercase ${installmentColor(i.status)}`}>{i.status}</span>
+                                  </div>
+                              ))}
+                          </div>
+                      </>
+                  )}
               </div>
-              <div>
-                  <label className="text-xs font-bold text-gray-500 uppercase mb-1 block">Duration</label>
-                  <div className="flex gap-2">
-                      {['1', '3', '6'].map(m => (
-                          <button key={m} onClick={() => setLoanTerm(m)} className={`flex-1 py-2 rounded-lg border text-sm font-medium ${loanTerm === m ? 'bg-blue-50 border-blue-500 text-blue-700' : 'bg-white border-gray-200 text-gray-600'}`}>
-                              {m} Month{m !== '1' && 's'}
-                          </button>
-                      ))}
+          ) : (
+              <div className="space-y-4 bg-white p-5 rounded-xl border border-gray-200 shadow-sm">
+                  <div>
+                      <label className="text-xs font-bold text-gray-500 uppercase mb-1 block">Loan Type</label>
+                      <div className="grid grid-cols-2 gap-2">
+                          {loanProducts.map(p => (
+                              <button key={p.id} onClick={() => { setLoanProductId(p.id); setLoanTerm(p.terms[0]); }} className={`p-3 rounded-lg border text-left ${loanProductId === p.id ? 'bg-blue-50 border-blue-500' : 'bg-white border-gray-200'}`}>
+                                  <p className="text-sm font-bold text-gray-900">{p.name}</p>
+                                  <p className="text-[10px] text-gray-500">{(p.monthly_rate * 100).toFixed(1)}% / month</p>
+                              </button>
+                          ))}
+                      </div>
+                      {product?.description && <p className="text-xs text-gray-500 mt-1">{product.description}</p>}
                   </div>
+                  <div>
+                      <label className="text-xs font-bold text-gray-500 uppercase mb-1 block">Loan Amount</label>
+                      <input type="number" min={product?.min_amount} max={product?.max_amount} value={amount} onChange={e => setAmount(e.target.value)} className="w-full p-3 bg-gray-50 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-gray-900" placeholder="0.00" />
+                      <div className="flex justify-between mt-1 text-xs text-gray-400">
+                          <span>Min: GHS {product?.min_amount ?? '--'}</span>
+                          <span>Max: GHS {product?.max_amount ?? '--'}</span>
+                      </div>
+                  </div>
+                  <div>
+                      <label className="text-xs font-bold text-gray-500 uppercase mb-1 block">Duration</label>
+                      <div className="flex gap-2">
+                          {(product?.terms || []).map(m => (
+                              <button key={m} onClick={() => setLoanTerm(m)} className={`flex-1 py-2 rounded-lg border text-sm font-medium ${loanTerm === m ? 'bg-blue-50 border-blue-500 text-blue-700' : 'bg-white border-gray-200 text-gray-600'}`}>
+                                  {m} Month{m !== 1 && 's'}
+                              </button>
+                          ))}
+                      </div>
+                  </div>
+                  <input value={loanPurpose} onChange={e => setLoanPurpose(e.target.value)} placeholder="What is the loan for? (optional)" className="w-full p-3 bg-gray-50 border rounded-lg outline-none text-gray-900" />
+
+                  {monthlyPayment > 0 && (
+                      <div className="bg-blue-50 p-3 rounded-lg space-y-1 text-sm">
+                          <div className="flex justify-between"><span className="text-blue-800">Monthly Payment:</span><span className="font-bold text-blue-900">{formatMoney(monthlyPayment)}</span></div>
+                          <div className="flex justify-between"><span className="text-blue-800">Repayment Total:</span><span className="text-blue-900">{formatMoney(monthlyPayment * loanTerm)}</span></div>
+                          {creditScore && loanAmount > creditScore.credit_limit && (
+                              <p className="text-xs text-orange-700 pt-1">Above your pre-approved limit, so this will be reviewed before disbursement.</p>
+                          )}
+                      </div>
+                  )}
+
+                  <Button onClick={() => handleTransactionStart('LOAN', loanAmount, `${product?.name} loan (${loanTerm} mo)`, { productId: loanProductId, term: loanTerm, purpose: loanPurpose })} disabled={!product} className="w-full bg-blue-600 hover:bg-blue-700">
+                      Apply for Loan
+                  </Button>
               </div>
+          )}
 
-              {amount && (
-                  <div className="bg-blue-50 p-3 rounded-lg flex justify-between items-center text-sm">
-                      <span className="text-blue-800">Repayment Total:</span>
-                      <span className="font-bold text-blue-900">{formatMoney(parseFloat(amount) * (1 + (parseInt(loanTerm) * 0.05)))}</span>
+          {pastLoans.length > 0 && (
+              <div className="mt-6">
+                  <h4 className="text-xs font-bold text-gray-500 uppercase mb-2">Past Loans</h4>
+                  <div className="bg-white rounded-xl border divide-y">
+                      {pastLoans.map(l => (
+                          <div key={l.id} className="flex justify-between items-center p-3 text-sm">
+                              <span className="text-gray-700">{formatMoney(l.principal)} · {new Date(l.created_at).toLocaleDateString()}</span>
+                              <span className={`text-xs font-bold uppercase ${l.status === 'repaid' ? 'text-green-600' : 'text-gray-400'}`}>{l.status}</span>
+                          </div>
+                      ))}
                   </div>
-              )}
-
-              <Button onClick={() => handleTransactionStart('LOAN', parseFloat(amount), `Loan Disbursement (${loanTerm} mo)`)} className="w-full bg-blue-600 hover:bg-blue-700">
-                  Request Loan
-              </Button>
-          </div>
+              </div>
+          )}
       </div>
-  );
+      );
+  };
 
-  const renderInsurance = () => (
+  const renderInsurance = () => {
+      const policyColor = (status: string) =>
+          status === 'active' ? 'bg-green-100 text-green-700' : status === 'lapsed' ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-600';
+      const claimColor = (status: string) =>
+          status === 'paid' ? 'text-green-600' : status === 'rejected' ? 'text-red-600' : 'text-orange-600';
+
+      return (
       <div className="animate-fade-in space-y-4 max-w-md mx-auto">
-          {INSURANCE_PLANS.map(plan => (
-              <div key={plan.id} className="bg-white p-5 rounded-xl border border-gray-200 shadow-sm hover:border-green-400 transition-colors">
+          {policies.length > 0 && (
+              <div>
+                  <h4 className="text-xs font-bold text-gray-500 uppercase mb-2">My Policies</h4>
+                  <div className="space-y-3">
+                      {policies.map(policy => (
+                          <div key={policy.id} className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm space-y-3">
+                              <div className="flex justify-between items-start">
+                                  <div>
+                                      <p className="font-bold text-gray-900">{policy.insurance_products?.name}</p>
+                                      <p className="text-xs text-gray-500">{policy.policy_number}{policy.insured_crop && ` · ${policy.insured_crop}, ${policy.farm_location}`}</p>
+                                  </div>
+                                  <span className={`text-[10px] font-bold px-2 py-1 rounded-full uppercase ${policyColor(policy.status)}`}>{policy.status}</span>
+                              </div>
+                              <div className="grid grid-cols-2 gap-2 text-xs">
+                                  <div><p className="text-gray-500">Cover left</p><p className="font-bold text-gray-900">{formatMoney(policy.coverage_amount - policy.claimed_amount)}</p></div>
+                                  <div><p className="text-gray-500">{policy.next_premium_due ? 'Next premium' : 'Cover ends'}</p><p className="font-bold text-gray-900">{new Date(policy.next_premium_due || policy.end_date).toLocaleDateString()}</p></div>
+                              </div>
+                              {policy.insurance_products?.parametric && (
+                                  <div className="space-y-1">
+                                      {policyTriggers.filter(t => t.policy_id === policy.id).map(trigger => (
+                                          <div key={trigger.id} className="flex items-start gap-2 text-xs bg-blue-50 rounded-lg p-2">
+                                              {trigger.index === 'drought' ? <SunIcon className="w-4 h-4 text-yellow-500 shrink-0" /> : <RainIcon className="w-4 h-4 text-blue-500 shrink-0" />}
+                                              <div>
+                                                  <p className="font-bold text-gray-800">
+                                                      Pays {formatMoney(trigger.payout_amount)} if rain is {trigger.index === 'drought' ? 'under' : 'over'} {trigger.threshold_mm}mm in {trigger.window_days} days
+                                                  </p>
+                                                  <p className="text-gray-500">
+                                                      {trigger.latest
+                                                          ? `${trigger.latest.index_value ?? '-'}mm to ${new Date(trigger.latest.evaluated_on).toLocaleDateString()} · ${trigger.latest.outcome.replace('_', ' ')}`
+                                                          : 'Not checked yet'}
+                                                  </p>
+                                              </div>
+                                          </div>
+                                      ))}
+                                  </div>
+                              )}
+                              <div className="flex gap-3 text-xs font-bold">
+                                  <button onClick={() => openPolicyDocument(policy)} className="text-blue-600 hover:underline">Policy Document</button>
+                                  {policy.insurance_products?.parametric ? (
+                                      <button onClick={() => toggleTriggerHistory(policy)} className="text-green-700 hover:underline">
+                                          {triggerHistory?.policyId === policy.id ? 'Hide Checks' : 'Index Checks'}
+                                      </button>
+                                  ) : (policy.status === 'active' || policy.status === 'expired') && (
+                                      <button onClick={() => openClaimForm(policy)} className="text-green-700 hover:underline">File Claim</button>
+                                  )}
+                                  {(policy.status === 'active' || policy.status === 'lapsed') && (
+                                      <button onClick={() => handleCancelPolicy(policy)} className="text-red-600 hover:underline ml-auto">Cancel</button>
+                                  )}
+                              </div>
+
+                              {triggerHistory?.policyId === policy.id && (
+                                  <div className="border-t pt-3 max-h-60 overflow-y-auto divide-y text-xs animate-fade-in">
+                                      {triggerHistory.evaluations.length === 0 && <p className="text-gray-500">No checks yet. Rainfall is checked every morning.</p>}
+                                      {triggerHistory.evaluations.map(evaluation => (
+                                          <div key={evaluation.id} className="py-1.5 flex justify-between gap-2">
+                                              <span className="text-gray-700">
+                                                  {new Date(evaluation.evaluated_on).toLocaleDateString()} · {evaluation.details.rule}
+                                                  <span className="block text-gray-400">{evaluation.index_value ?? '-'}mm from {evaluation.observed_days} day(s) of readings</span>
+                                              </span>
+                                              <span className={`font-bold uppercase shrink-0 ${evaluation.outcome === 'fired' ? 'text-green-600' : evaluation.outcome === 'error' ? 'text-red-600' : 'text-gray-500'}`}>{evaluation.outcome.replace('_', ' ')}</span>
+                                          </div>
+                                      ))}
+                                  </div>
+                              )}
+
+                              {claimPolicyId === policy.id && (
+                                  <div className="border-t pt-3 space-y-3 animate-fade-in">
+                                      <div className="grid grid-cols-2 gap-2">
+                                          <select value={claimPeril} onChange={e => setClaimPeril(e.target.value)} className="p-2 bg-gray-50 border rounded-lg text-sm text-gray-900 capitalize">
+                                              {policy.insurance_products?.perils.map(peril => <option key={peril} value={peril}>{peril}</option>)}
+                                          </select>
+                                          <input type="date" value={claimDate} max={new Date().toISOString().slice(0, 10)} onChange={e => setClaimDate(e.target.value)} className="p-2 bg-gray-50 border rounded-lg text-sm text-gray-900" />
+                                      </div>
+                                      <textarea value={claimDescription} onChange={e => setClaimDescription(e.target.value)} rows={3} placeholder="What happened and what was lost?" className="w-full p-2 bg-gray-50 border rounded-lg text-sm text-gray-900" />
+                                      <input type="number" value={amount} onChange={e => setAmount(e.target.value)} placeholder={`Amount claimed (up to ${formatMoney(policy.coverage_amount - policy.claimed_amount)})`} className="w-full p-2 bg-gray-50 border rounded-lg text-sm text-gray-900" />
+
+                                      <div className="space-y-2">
+                                          <p className="text-xs font-bold text-gray-500 uppercase">Evidence</p>
+                                          <label className="flex items-center gap-2 text-sm text-blue-600 cursor-pointer">
+                                              <PaperClipIcon className="w-4 h-4" /> Attach photos or documents
+                                              <input type="file" multiple accept="image/*,application/pdf" className="hidden" onChange={e => setClaimFiles(Array.from(e.target.files || []))} />
+                                          </label>
+                                          {claimFiles.map(file => <p key={file.name} className="text-xs text-gray-600 pl-6">{file.name}</p>)}
+
+                                          {policy.insured_crop && diagnosisFiles.length > 0 && (
+                                              <div className="pl-6 space-y-1">
+                                                  <p className="text-xs text-gray-500">Pest diagnoses</p>
+                                                  {diagnosisFiles.map(file => (
+                                                      <label key={file.id} className="flex items-center gap-2 text-xs text-gray-700">
+                                                          <input type="checkbox" checked={claimFileIds.includes(file.id)} onChange={e => setClaimFileIds(prev => e.target.checked ? [...prev, file.id] : prev.filter(id => id !== file.id))} />
+                                                          {file.ai_summary || file.file_name} · {new Date(file.created_at).toLocaleDateString()}
+                                                      </label>
+                                                  ))}
+                                              </div>
+                                          )}
+
+                                          {policy.insured_crop && (
+                                              claimWeather ? (
+                                                  <p className="flex items-center gap-2 text-xs text-gray-700"><SunIcon className="w-4 h-4 text-yellow-500" /> Weather report attached: {claimWeather.current.condition}, {claimWeather.current.temp}°C in {claimWeather.current.region}</p>
+                                              ) : (
+                                                  <button onClick={() => handleAttachWeather(policy)} disabled={fetchingWeather} className="flex items-center gap-2 text-sm text-blue-600">
+                                                      <SunIcon className="w-4 h-4" /> {fetchingWeather ? 'Fetching weather report...' : 'Attach weather report for the farm'}
+                                                  </button>
+                                              )
+                                          )}
+                                      </div>
+
+                                      <div className="flex gap-2">
+                                          <Button onClick={() => setClaimPolicyId(null)} className="flex-1 bg-gray-200 !text-gray-800 hover:bg-gray-300">Cancel</Button>
+                                          <Button onClick={() => handleSubmitClaim(policy)} isLoading={submittingClaim} disabled={!claimDate || !claimDescription.trim() || !(parseFloat(amount) > 0)} className="flex-1 bg-green-600 hover:bg-green-700">Submit Claim</Button>
+                                      </div>
+                                  </div>
+                              )}
+                          </div>
+                      ))}
+                  </div>
+              </div>
+          )}
+
+          {claims.length > 0 && (
+              <div>
+                  <h4 className="text-xs font-bold text-gray-500 uppercase mb-2">My Claims</h4>
+                  <div className="bg-white rounded-xl border divide-y">
+                      {claims.map(claim => (
+                          <div key={claim.id} className="p-3 text-sm">
+                              <div className="flex justify-between items-center">
+                                  <span className="text-gray-700">{claim.claim_number} · <span className="capitalize">{claim.peril}</span>{claim.source === 'parametric' && ' · automatic'}</span>
+                                  <span className={`text-xs font-bold uppercase ${claimColor(claim.status)}`}>{claim.status.replace('_', ' ')}</span>
+                              </div>
+                              <p className="text-xs text-gray-500">
+                                  Claimed {formatMoney(claim.amount_claimed)}{claim.amount_paid !== null && ` · Paid ${formatMoney(claim.amount_paid)}`} · {claim.insurance_claim_evidence?.length || 0} evidence item(s)
+                              </p>
+                              {claim.decision_notes && <p className="text-xs text-gray-600 mt-1">{claim.decision_notes}</p>}
+                          </div>
+                      ))}
+                  </div>
+              </div>
+          )}
+
+          {policies.length > 0 && <h4 className="text-xs font-bold text-gray-500 uppercase">Get Covered</h4>}
+          {insuranceProducts.map(product => (
+              <div key={product.id} className="bg-white p-5 rounded-xl border border-gray-200 shadow-sm hover:border-green-400 transition-colors">
                   <div className="flex justify-between items-start mb-2">
                       <div className="flex items-center gap-3">
                           <div className="p-2 bg-green-100 text-green-700 rounded-lg"><ShieldCheckIcon className="w-6 h-6" /></div>
                           <div>
-                              <h4 className="font-bold text-gray-900">{plan.name}</h4>
-                              <p className="text-xs text-gray-500">{plan.desc}</p>
+                              <h4 className="font-bold text-gray-900">{product.name}</h4>
+                              <p className="text-xs text-gray-500">{product.description}</p>
                           </div>
                       </div>
-                      <span className="text-lg font-bold text-green-700">GHS {plan.premium}<span className="text-xs font-normal text-gray-400">/mo</span></span>
+                      <span className="text-lg font-bold text-green-700">GHS {product.monthly_premium}<span className="text-xs font-normal text-gray-400">/mo</span></span>
                   </div>
                   <div className="flex items-center justify-between mt-4 pt-3 border-t border-gray-50">
-                      <span className="text-xs font-medium text-gray-500">Coverage: GHS {plan.coverage}</span>
-                      <Button onClick={() => handleTransactionStart('PAYMENT', plan.premium, `Insurance: ${plan.name}`)} className="text-xs px-4 py-2 bg-green-600 hover:bg-green-700">
-                          Subscribe
-                      </Button>
+                      <span className="text-xs font-medium text-gray-500">Coverage: GHS {product.coverage_amount} · {product.term_months} months</span>
+                      {subscribingProductId !== product.id && (
+                          <Button onClick={() => product.category === 'crop' ? setSubscribingProductId(product.id) : handleSubscribeInsurance(product)} className="text-xs px-4 py-2 bg-green-600 hover:bg-green-700">
+                              Subscribe
+                          </Button>
+                      )}
                   </div>
+
+                  {subscribingProductId === product.id && (
+                      <div className="mt-3 space-y-2 animate-fade-in">
+                          <input value={farmLocation} onChange={e => setFarmLocation(e.target.value)} placeholder="Farm location, e.g. Ejura, Ashanti" className="w-full p-2 bg-gray-50 border rounded-lg text-sm text-gray-900" />
+                          <div className="grid grid-cols-2 gap-2">
+                              <select value={insuredCrop} onChange={e => setInsuredCrop(e.target.value)} className="p-2 bg-gray-50 border rounded-lg text-sm text-gray-900">
+                                  <option value="">Crop to insure</option>
+                                  {Object.values(Crop).map(crop => <option key={crop} value={crop}>{crop}</option>)}
+                              </select>
+                              <input type="number" value={farmAcres} onChange={e => setFarmAcres(e.target.value)} placeholder="Farm size (acres)" className="p-2 bg-gray-50 border rounded-lg text-sm text-gray-900" />
+                          </div>
+                          {product.parametric && (
+                              <button onClick={handleLocateFarm} disabled={locatingFarm} className="flex items-center gap-2 text-sm text-blue-600">
+                                  {locatingFarm ? <Spinner className="w-4 h-4" /> : <CheckCircleIcon className={`w-4 h-4 ${farmGps ? 'text-green-600' : 'text-gray-300'}`} />}
+                                  {farmGps ? `Farm GPS: ${farmGps.latitude}, ${farmGps.longitude}` : 'Use my current location (stand on the farm)'}
+                              </button>
+                          )}
+                          <p className="text-xs text-gray-500">
+                              {product.parametric
+                                  ? `Pays automatically when measured rainfall at the farm crosses the index, after a ${product.waiting_days}-day waiting period.`
+                                  : `Covers ${product.perils.join(', ')} after a ${product.waiting_days}-day waiting period.`}
+                          </p>
+                          <div className="flex gap-2">
+                              <Button onClick={() => setSubscribingProductId(null)} className="flex-1 bg-gray-200 !text-gray-800 hover:bg-gray-300">Cancel</Button>
+                              <Button onClick={() => handleSubscribeInsurance(product)} className="flex-1 bg-green-600 hover:bg-green-700">Pay {formatMoney(product.monthly_premium)}</Button>
+                          </div>
+                      </div>
+                  )}
               </div>
           ))}
       </div>
-  );
+      );
+  };
 
   const renderDepositWithdraw = (mode: 'DEPOSIT' | 'WITHDRAW') => (
     <div className="animate-fade-in max-w-md mx-auto">
@@ -501,13 +1686,16 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
                 </label>
                 <select value={selectedAccount} onChange={e => setSelectedAccount(e.target.value)} className="w-full p-3 bg-gray-50 border rounded-lg focus:ring-2 focus:ring-green-500 outline-none text-gray-900">
                     <option value="">Select Linked Account</option>
-                    {linkedAccounts.map(acc => <option key={acc.id} value={acc.id}>{acc.provider} - {acc.accountNumber}</option>)}
-                    <option value="MANUAL">Manual Entry</option>
+                    {linkedAccounts
+                        .filter(acc => acc.status === 'verified' && (mode === 'WITHDRAW' || acc.type === 'MOMO'))
+                        .map(acc => <option key={acc.id} value={acc.id}>{acc.provider} - {acc.account_number}{acc.is_default ? ' (Default)' : ''}</option>)}
+                    {mode === 'DEPOSIT' && <option value="MANUAL">Manual Entry</option>}
                 </select>
-                {linkedAccounts.length === 0 && selectedAccount !== 'MANUAL' && <p className="text-xs text-red-500 mt-1">Please link an account or select manual entry.</p>}
+                {mode === 'DEPOSIT' && linkedAccounts.length === 0 && selectedAccount !== 'MANUAL' && <p className="text-xs text-red-500 mt-1">Please link an account or select manual entry.</p>}
+                {mode === 'WITHDRAW' && !linkedAccounts.some(acc => acc.status === 'verified') && <p className="text-xs text-red-500 mt-1">Withdrawals go to a verified linked account. Link one first.</p>}
             </div>
 
-            {selectedAccount === 'MANUAL' && (
+            {mode === 'DEPOSIT' && selectedAccount === 'MANUAL' && (
                 <div className="grid grid-cols-2 gap-3 animate-fade-in">
                     <div>
                         <label className="text-xs font-bold text-gray-500 uppercase mb-1 block">Provider</label>
@@ -537,15 +1725,34 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
                 <input type="number" value={amount} onChange={e => setAmount(e.target.value)} className="w-full p-3 bg-gray-50 border rounded-lg focus:ring-2 focus:ring-green-500 outline-none text-gray-900" placeholder="0.00" />
             </div>
             
-            <Button onClick={() => {
-                const desc = selectedAccount === 'MANUAL' 
-                    ? `${mode === 'DEPOSIT' ? 'Deposit from' : 'Withdrawal to'} ${selectedProvider} - ${recipient}`
-                    : `${mode === 'DEPOSIT' ? 'Deposit from' : 'Withdrawal to'} Linked Account`;
-                
-                handleTransactionStart(mode === 'WITHDRAW' ? 'WITHDRAWAL' : mode, parseFloat(amount), desc);
-            }} className={`w-full ${mode === 'DEPOSIT' ? 'bg-green-600' : 'bg-red-600'}`}>
-                Confirm {mode === 'DEPOSIT' ? 'Deposit' : 'Withdrawal'}
-            </Button>
+            {mode === 'DEPOSIT' ? (
+                <Button onClick={() => {
+                    const desc = selectedAccount === 'MANUAL' 
+                        ? `Deposit from ${selectedProvider} - ${recipient}`
+                        : `Deposit from Linked Account`;
+                    
+                    handleTransactionStart('DEPOSIT', parseFloat(amount), desc);
+                }} className="w-full bg-green-600">
+                    Confirm Deposit
+                </Button>
+            ) : withdrawalQuote ? (
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-2 text-sm animate-fade-in">
+                    <div className="flex justify-between text-gray-600"><span>Amount</span><span>{formatMoney(withdrawalQuote.amount)}</span></div>
+                    <div className="flex justify-between text-gray-600"><span>Fee</span><span>{formatMoney(withdrawalQuote.fee)}</span></div>
+                    <div className="flex justify-between font-bold text-gray-900 border-t pt-2"><span>Total debit</span><span>{formatMoney(withdrawalQuote.total)}</span></div>
+                    <p className={`text-xs ${withdrawalQuote.amount > withdrawalQuote.remaining_today ? 'text-red-500' : 'text-gray-500'}`}>
+                        Daily limit {formatMoney(withdrawalQuote.daily_limit)} · {formatMoney(withdrawalQuote.remaining_today)} left today
+                    </p>
+                    <div className="flex gap-2 pt-2">
+                        <Button onClick={() => setWithdrawalQuote(null)} className="flex-1 bg-gray-200 !text-gray-800 hover:bg-gray-300">Edit</Button>
+                        <Button onClick={handleConfirmWithdrawal} className="flex-1 bg-red-600">Confirm Withdrawal</Button>
+                    </div>
+                </div>
+            ) : (
+                <Button onClick={handleReviewWithdrawal} isLoading={quotingWithdrawal} className="w-full bg-red-600">
+                    Review Withdrawal
+                </Button>
+            )}
         </div>
     </div>
   );
@@ -560,7 +1767,7 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
                   My Code
               </button>
               <button 
-                onClick={() => setQrMode('SCAN')}
+                onClick={() => { setQrMode('SCAN'); rejectedQrRef.current = ''; }}
                 className={`flex-1 py-2 text-sm font-medium rounded-md ${qrMode === 'SCAN' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500'}`}
               >
                   Scan Code
@@ -577,11 +1784,11 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
                       <div className="relative bg-white p-6 rounded-2xl shadow-xl border border-gray-100 flex flex-col items-center">
                           {/* QR Code Image */}
                           <div className="bg-white p-1 rounded-lg">
-                             <img 
-                                src={`https://api.qrserver.com/v1/create-qr-code/?size=250x250&data=${encodeURIComponent(user?.phone || user?.uid || 'AGRO_USER')}&margin=2`}
-                                alt="Payment QR" 
-                                className="w-56 h-56 object-contain"
-                             />
+                             {myQrImage ? (
+                                 <img src={myQrImage} alt="Payment QR" className="w-56 h-56 object-contain" />
+                             ) : (
+                                 <div className="w-56 h-56 flex items-center justify-center"><Spinner className="w-8 h-8 text-gray-400" /></div>
+                             )}
                           </div>
                           
                           {/* User Info */}
@@ -590,7 +1797,12 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
                                   {user?.name}
                                   {user?.merchant_id && <ShieldCheckIcon className="w-4 h-4 text-blue-500" title="Verified Merchant" />}
                               </h3>
-                              <p className="text-sm text-gray-500 font-mono tracking-wider mt-1">{user?.phone || 'No Phone Linked'}</p>
+                              <p className="text-sm text-gray-500 font-mono tracking-wider mt-1">{user?.merchant_id || user?.phone || 'No Phone Linked'}</p>
+                              {myQrCode?.amount && (
+                                  <p className="text-sm font-bold text-green-700 mt-2">
+                                      {formatMoney(myQrCode.amount)}{myQrCode.reference && ` · ${myQrCode.reference}`}
+                                  </p>
+                              )}
                           </div>
                       </div>
                       
@@ -601,19 +1813,27 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
                           </div>
                       </div>
                   </div>
-                  <p className="text-sm text-gray-500 mt-6">Scan to pay instantly</p>
+                  {myQrCode?.amount ? (
+                      <div className="mt-6 space-y-2">
+                          <p className="text-sm text-gray-500">Single use · expires at {new Date(myQrCode.expiresAt!).toLocaleTimeString()}</p>
+                          <button onClick={() => setMyQrCode(null)} className="text-sm font-bold text-blue-600 hover:underline">Show my reusable code</button>
+                      </div>
+                  ) : (
+                      <>
+                          <p className="text-sm text-gray-500 mt-6">Scan to pay instantly</p>
+                          <div className="w-full mt-6 bg-white p-4 rounded-xl border space-y-2 text-left">
+                              <p className="text-xs font-bold text-gray-500 uppercase">Request an Amount</p>
+                              <div className="grid grid-cols-2 gap-2">
+                                  <input type="number" value={qrRequestAmount} onChange={e => setQrRequestAmount(e.target.value)} placeholder="Amount (GHS)" className="p-2 bg-gray-50 border rounded-lg text-sm text-gray-900" />
+                                  <input value={qrRequestReference} onChange={e => setQrRequestReference(e.target.value)} maxLength={64} placeholder="Reference (optional)" className="p-2 bg-gray-50 border rounded-lg text-sm text-gray-900" />
+                              </div>
+                              <Button onClick={handleRequestAmountQr} isLoading={generatingQr} className="w-full text-sm py-2">Create Payment Code</Button>
+                          </div>
+                      </>
+                  )}
               </div>
           ) : (
-              <div className="bg-black rounded-2xl aspect-square flex flex-col items-center justify-center relative overflow-hidden">
-                  <div className="absolute inset-0 border-2 border-green-500/50 rounded-2xl animate-pulse"></div>
-                  <CameraIcon className="w-16 h-16 text-gray-600 mb-4 opacity-50" />
-                  <p className="text-gray-400 text-sm mb-4">Point camera at QR code</p>
-                  <Button onClick={() => {
-                      addNotification({ type: 'wallet', title: 'Code Scanned', message: 'Found: Kofi (0244123456). Redirecting...', view: 'WALLET' });
-                      setRecipient('0244123456');
-                      setActiveView('TRANSFER');
-                  }} className="bg-white/20 hover:bg-white/30 text-white backdrop-blur-sm">Simulate Scan</Button>
-              </div>
+              <QrScanner onDetected={handleQrDetected} paused={checkingQr} />
           )}
       </div>
   );
@@ -651,18 +1871,62 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
           {activeView === 'DEPOSIT' && renderDepositWithdraw('DEPOSIT')}
           {activeView === 'WITHDRAW' && renderDepositWithdraw('WITHDRAW')}
           {activeView === 'QR' && renderQr()}
+          {activeView === 'INVOICES' && renderInvoices()}
           
           {/* Reuse logic for simple views */}
           {activeView === 'LINK_ACCOUNT' && (
                <div className="max-w-md mx-auto animate-fade-in">
-                   <h3 className="text-lg font-bold mb-4">Link New Account</h3>
+                   <h3 className="text-lg font-bold mb-4">Linked Accounts</h3>
+                   {linkedAccounts.length > 0 && (
+                       <div className="bg-white rounded-xl border divide-y mb-4">
+                           {linkedAccounts.map(acc => (
+                               <div key={acc.id} className="p-4">
+                                   <div className="flex items-center justify-between gap-3">
+                                       <div className="min-w-0">
+                                           <p className="font-bold text-gray-900 text-sm">{acc.provider} - {acc.account_number}</p>
+                                           <p className="text-xs text-gray-500 truncate">
+                                               {acc.status === 'verified' ? (acc.account_name || 'Verified') : 'Awaiting code from test deposit'}
+                                           </p>
+                                       </div>
+                                       <div className="flex items-center gap-2 flex-shrink-0">
+                                           {acc.is_default ? (
+                                               <span className="text-[10px] font-bold px-2 py-1 rounded-full bg-green-100 text-green-700 uppercase">Default</span>
+                                           ) : acc.status === 'verified' ? (
+                                               <button onClick={() => handleSetDefaultAccount(acc.id)} className="text-xs text-blue-600 hover:underline">Make default</button>
+                                           ) : (
+                                               <span className="text-[10px] font-bold px-2 py-1 rounded-full bg-yellow-100 text-yellow-700 uppercase">Pending</span>
+                                           )}
+                                           <button onClick={() => handleRemoveAccount(acc)} className="p-1 text-gray-400 hover:text-red-500" title="Remove account">
+                                               <TrashIcon className="w-4 h-4" />
+                                           </button>
+                                       </div>
+                                   </div>
+                                   {acc.status === 'pending' && (
+                                       confirmingAccountId === acc.id ? (
+                                           <div className="flex gap-2 mt-3">
+                                               <input value={accountCode} onChange={e => setAccountCode(e.target.value.replace(/\D/g, '').slice(0, 6))} placeholder="6-digit code" inputMode="numeric" className="flex-1 p-2 border rounded-lg bg-gray-50 text-gray-900 text-sm" />
+                                               <Button onClick={() => handleConfirmAccount(acc.id)} disabled={accountCode.length !== 6} className="text-xs px-4 py-2">Confirm</Button>
+                                           </div>
+                                       ) : (
+                                           <div className="flex gap-3 mt-2 text-xs">
+                                               <button onClick={() => { setConfirmingAccountId(acc.id); setAccountCode(''); }} className="text-blue-600 hover:underline">Enter code</button>
+                                               <button onClick={() => handleResendAccountCode(acc.id)} className="text-gray-500 hover:underline">Resend code</button>
+                                           </div>
+                                       )
+                                   )}
+                               </div>
+                           ))}
+                       </div>
+                   )}
                    <div className="bg-white p-5 rounded-xl border space-y-4">
+                       <p className="text-xs font-bold text-gray-500 uppercase">Link New Account</p>
                        <select value={selectedProvider} onChange={e => setSelectedProvider(e.target.value)} className="w-full p-3 border rounded-lg bg-gray-50 text-gray-900">
                            <option value="">Select Provider</option>
                            {[...NETWORKS, ...BANKS].map(p => <option key={p} value={p}>{p}</option>)}
                        </select>
-                       <input value={recipient} onChange={e => setRecipient(e.target.value)} placeholder="Account/Phone Number" className="w-full p-3 border rounded-lg bg-gray-50 text-gray-900" />
-                       <Button onClick={handleLinkAccount} className="w-full">Link Account</Button>
+                       <input value={recipient} onChange={e => setRecipient(e.target.value)} placeholder={BANKS.includes(selectedProvider) ? 'Account Number' : 'Phone Number (024...)'} className="w-full p-3 border rounded-lg bg-gray-50 text-gray-900" />
+                       <p className="text-xs text-gray-500">We check the account holder's name with the provider. Some networks instead get a GHS 0.10 test deposit with a code.</p>
+                       <Button onClick={handleLinkAccount} isLoading={linkingAccount} className="w-full">Verify & Link</Button>
                    </div>
                </div>
           )}
@@ -670,17 +1934,97 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
           {activeView === 'TRANSFER' && (
               <div className="max-w-md mx-auto animate-fade-in">
                   <h3 className="text-lg font-bold mb-4">Send Money</h3>
-                  <div className="bg-white p-5 rounded-xl border space-y-4">
-                       <input type="tel" value={recipient} onChange={e => setRecipient(e.target.value)} placeholder="Recipient Phone (024...)" className="w-full p-3 border rounded-lg bg-gray-50 text-gray-900" />
-                       <input type="number" value={amount} onChange={e => setAmount(e.target.value)} placeholder="Amount (GHS)" className="w-full p-3 border rounded-lg bg-gray-50 text-gray-900" />
-                       <Button onClick={() => handleTransactionStart('TRANSFER', parseFloat(amount), `Transfer to ${recipient}`)} className="w-full bg-blue-600 hover:bg-blue-700">Next</Button>
-                  </div>
+                  {!transferRecipient ? (
+                      <div className="bg-white p-5 rounded-xl border space-y-4">
+                           <input value={recipient} onChange={e => setRecipient(e.target.value)} placeholder="Phone (024...), Merchant ID or Wallet ID" className="w-full p-3 border rounded-lg bg-gray-50 text-gray-900" />
+                           <input type="number" value={amount} onChange={e => setAmount(e.target.value)} placeholder="Amount (GHS)" className="w-full p-3 border rounded-lg bg-gray-50 text-gray-900" />
+                           <Button onClick={handleFindRecipient} isLoading={resolvingRecipient} className="w-full bg-blue-600 hover:bg-blue-700">Next</Button>
+                      </div>
+                  ) : (
+                      <div className="bg-white p-5 rounded-xl border space-y-4">
+                           <p className="text-xs text-gray-500 uppercase font-bold">Confirm Recipient</p>
+                           <div className="flex items-center gap-3 p-3 bg-blue-50 rounded-lg border border-blue-100">
+                               <UserCircleIcon className="w-10 h-10 text-blue-600" />
+                               <div>
+                                   <p className="font-bold text-gray-900 flex items-center gap-1">
+                                       {transferRecipient.name}
+                                       {transferRecipient.merchant_id && <ShieldCheckIcon className="w-4 h-4 text-blue-500" />}
+                                   </p>
+                                   <p className="text-xs text-gray-500 font-mono">{transferRecipient.merchant_id || transferRecipient.phone || 'Wallet user'}</p>
+                               </div>
+                           </div>
+                           {scannedQr?.details.reference && (
+                               <div className="flex justify-between text-sm">
+                                   <span className="text-gray-500">Reference</span>
+                                   <span className="font-bold text-gray-900">{scannedQr.details.reference}</span>
+                               </div>
+                           )}
+                           {scannedQr && !scannedQr.details.amount ? (
+                               <input type="number" value={amount} onChange={e => setAmount(e.target.value)} placeholder="Amount (GHS)" className="w-full p-3 border rounded-lg bg-gray-50 text-gray-900" autoFocus />
+                           ) : (
+                               <div className="flex justify-between text-sm">
+                                   <span className="text-gray-500">Amount</span>
+                                   <span className="font-bold text-gray-900">{formatMoney(parseFloat(amount) || 0)}</span>
+                               </div>
+                           )}
+                           {scannedQr?.details.expires_at && (
+                               <p className="text-xs text-gray-500">Amount set by the payee. This code expires at {new Date(scannedQr.details.expires_at).toLocaleTimeString()}.</p>
+                           )}
+                           <div className="grid grid-cols-2 gap-3">
+                               <Button onClick={() => { setTransferRecipient(null); setScannedQr(null); }} className="bg-gray-200 !text-gray-800 hover:bg-gray-300">Edit</Button>
+                               <Button
+                                 onClick={() => handleTransactionStart('TRANSFER', parseFloat(amount), scannedQr?.code ? `QR payment to ${transferRecipient.name}` : `Transfer to ${transferRecipient.name}`, { recipientId: transferRecipient.id, qrCode: scannedQr?.code })}
+                                 disabled={!(parseFloat(amount) > 0)}
+                                 className="bg-blue-600 hover:bg-blue-700"
+                               >
+                                   {scannedQr?.code ? 'Pay' : 'Send'}
+                               </Button>
+                           </div>
+                      </div>
+                  )}
               </div>
           )}
 
           {activeView === 'HISTORY' && (
                <div className="animate-fade-in">
-                   <h3 className="font-bold text-lg mb-4">All Transactions</h3>
+                   <div className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm mb-6">
+                       <h4 className="font-bold text-gray-800 mb-1">Monthly Statement</h4>
+                       <p className="text-xs text-gray-500 mb-3">Opening and closing balance with every movement, for cooperative books or a loan application.</p>
+                       <div className="flex flex-wrap gap-2 items-center">
+                           <input
+                               type="month"
+                               value={statementMonth}
+                               max={new Date().toISOString().slice(0, 7)}
+                               onChange={e => { setStatementMonth(e.target.value); setStatement(null); }}
+                               className="p-2 border rounded-lg bg-gray-50 text-gray-900 text-sm"
+                           />
+                           {balances.length > 1 && (
+                               <select value={statementCurrency} onChange={e => { setStatementCurrency(e.target.value); setStatement(null); }} className="p-2 border rounded-lg bg-gray-50 text-gray-900 text-sm">
+                                   {balances.map(b => <option key={b.currency} value={b.currency}>{b.currency}</option>)}
+                               </select>
+                           )}
+                           <Button onClick={() => handleStatement('pdf')} isLoading={loadingStatement} className="text-sm py-2">Statement PDF</Button>
+                           <button onClick={() => handleStatement('csv')} disabled={loadingStatement} className="flex items-center gap-1 text-sm font-medium text-green-700 hover:underline disabled:opacity-50">
+                               <DownloadIcon className="w-4 h-4" /> CSV
+                           </button>
+                       </div>
+                       {statement && (
+                           <div className="grid grid-cols-2 gap-2 mt-3 text-xs text-gray-600">
+                               <span>Opening: <strong className="text-gray-800">{formatMoney(Number(statement.opening_balance), statement.currency)}</strong></span>
+                               <span>Closing: <strong className="text-gray-800">{formatMoney(Number(statement.closing_balance), statement.currency)}</strong></span>
+                               <span>In: <strong className="text-green-600">{formatMoney(Number(statement.total_in), statement.currency)}</strong></span>
+                               <span>Out: <strong className="text-gray-800">{formatMoney(Number(statement.total_out), statement.currency)}</strong></span>
+                           </div>
+                       )}
+                   </div>
+                   <div className="flex justify-between items-center mb-4">
+                       <h3 className="font-bold text-lg">All Transactions</h3>
+                       {transactions.length > 0 && (
+                           <button onClick={() => downloadTransactionsCsv(transactions)} className="flex items-center gap-1 text-xs font-bold text-green-700 hover:underline">
+                               <DownloadIcon className="w-3 h-3" /> Export CSV
+                           </button>
+                       )}
+                   </div>
                    <div className="space-y-3">
                        {transactions.map(tx => (
                           <div key={tx.id} className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm flex justify-between items-center">
@@ -688,41 +2032,144 @@ const DigitalWallet: React.FC<DigitalWalletProps> = ({ user }) => {
                                   <p className="font-bold text-gray-800">{tx.description}</p>
                                   <p className="text-xs text-gray-500">{new Date(tx.created_at).toLocaleString()}</p>
                               </div>
-                              <span className={`font-bold ${['DEPOSIT', 'LOAN'].includes(tx.type) ? 'text-green-600' : 'text-gray-800'}`}>
-                                  {['DEPOSIT', 'LOAN'].includes(tx.type) ? '+' : '-'} {tx.amount.toFixed(2)}
-                              </span>
+                              <div className="text-right">
+                                  <span className={`font-bold ${isCreditTransaction(tx) ? 'text-green-600' : 'text-gray-800'}`}>
+                                      {isCreditTransaction(tx) ? '+' : '-'} {tx.currency && tx.currency !== 'GHS' ? formatMoney(tx.amount, tx.currency) : tx.amount.toFixed(2)}
+                                  </span>
+                                  <button onClick={() => handleTransactionReceipt(tx)} className="block ml-auto text-xs text-blue-600 hover:underline">Receipt</button>
+                              </div>
                           </div>
                        ))}
                    </div>
                </div>
           )}
           
+          {activeView === 'CONVERT' && (
+            <div className="max-w-md mx-auto animate-fade-in">
+                <h3 className="text-lg font-bold mb-4">Convert Currency</h3>
+                <div className="grid grid-cols-2 gap-3 mb-3">
+                    <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">From</label>
+                        <select value={fxFrom} onChange={e => setFxFrom(e.target.value)} className="w-full p-3 border rounded-lg bg-gray-50 text-gray-900">
+                            {currencies.map(c => <option key={c.code} value={c.code}>{c.code} · {formatMoney(balanceIn(c.code), c.code)}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">To</label>
+                        <select value={fxTo} onChange={e => setFxTo(e.target.value)} className="w-full p-3 border rounded-lg bg-gray-50 text-gray-900">
+                            <option value="">Select...</option>
+                            {currencies.filter(c => c.code !== fxFrom).map(c => <option key={c.code} value={c.code}>{c.code} · {c.name}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <input type="number" value={amount} onChange={e => setAmount(e.target.value)} placeholder={`Amount in ${fxFrom}`} className="w-full p-3 border rounded-lg mb-1 bg-gray-50 text-gray-900" />
+                <p className="text-xs text-gray-500 mb-4">
+                    Minimum {formatMoney(currencies.find(c => c.code === fxFrom)?.min_conversion || 1, fxFrom)}. The amount you receive is rounded down.
+                </p>
+                {fxQuote ? (
+                    <div className="bg-gray-50 p-4 rounded-xl border space-y-2 text-sm">
+                        <div className="flex justify-between text-gray-600"><span>You convert</span><span>{formatMoney(fxQuote.amount, fxQuote.from_currency)}</span></div>
+                        <div className="flex justify-between text-gray-600"><span>Rate</span><span>1 {fxQuote.from_currency} = {fxQuote.rate} {fxQuote.to_currency}</span></div>
+                        <div className="flex justify-between font-bold text-gray-900 border-t pt-2"><span>You receive</span><span>{formatMoney(fxQuote.converted, fxQuote.to_currency)}</span></div>
+                        <p className="text-xs text-gray-500">Rate set {new Date(fxQuote.rate_updated_at).toLocaleString()}. If it changes before you confirm, request a new quote.</p>
+                        <Button
+                            onClick={() => handleTransactionStart('FX_OUT', fxQuote.amount, `Convert ${fxQuote.from_currency} to ${fxQuote.to_currency}`, { fxQuote, currency: fxQuote.from_currency })}
+                            isLoading={isProcessing}
+                            className="w-full"
+                        >
+                            Convert
+                        </Button>
+                    </div>
+                ) : (
+                    <Button onClick={handleFxQuote} isLoading={quotingFx} disabled={!amount || !fxTo} className="w-full">Get Quote</Button>
+                )}
+            </div>
+          )}
+
           {activeView === 'VERIFY_SMS' && (
             <div className="max-w-md mx-auto animate-fade-in">
                 <h3 className="text-lg font-bold mb-4">Verify Payment SMS</h3>
                 <textarea value={smsText} onChange={e => setSmsText(e.target.value)} rows={4} className="w-full p-3 border rounded-lg mb-4 bg-gray-50 text-gray-900" placeholder="Paste SMS..." />
-                <Button onClick={async () => {
-                    const res = await parsePaymentSMS(smsText);
-                    setVerificationResult(res);
-                }} className="w-full">Verify</Button>
-                {verificationResult && (
-                    <div className="mt-4 p-4 bg-green-50 rounded border border-green-200">
-                        <p className="font-bold text-green-800">Status: {verificationResult.status}</p>
-                        <p className="text-sm">Amount: {verificationResult.amount}</p>
-                    </div>
-                )}
+                <Button onClick={handleVerifySms} isLoading={verifyingSms} disabled={!smsText.trim()} className="w-full">Verify</Button>
+                {verificationResult && (() => {
+                    const { outcome, detail, parsed } = verificationResult;
+                    const style = outcome === 'flagged' ? 'bg-orange-50 border-orange-200 text-orange-800'
+                        : 'bg-red-50 border-red-200 text-red-800';
+                    return (
+                        <div className={`mt-4 p-4 rounded border ${style}`}>
+                            <p className="font-bold">{SMS_OUTCOMES[outcome]}</p>
+                            {detail && <p className="text-sm mt-1">{detail}</p>}
+                            <div className="text-xs text-gray-600 mt-3 space-y-0.5">
+                                <p>Network: {parsed.network === 'unknown' ? 'Not recognised' : parsed.network} (read by {parsed.parser === 'regex' ? 'format match' : 'AI'})</p>
+                                <p>Amount: {parsed.amount ? formatMoney(parsed.amount) : '-'}</p>
+                                <p>Reference: {parsed.reference || '-'}</p>
+                                <p>Phone: {parsed.phone || '-'}</p>
+                                {parsed.network_txn_id && <p>Network transaction: {parsed.network_txn_id}</p>}
+                            </div>
+                        </div>
+                    );
+                })()}
             </div>
           )}
 
           {activeView === 'SETTINGS' && (
-              <div className="max-w-md mx-auto animate-fade-in bg-white p-6 rounded-xl border text-center text-gray-500">
-                  <ShieldCheckIcon className="w-12 h-12 mx-auto mb-2 text-gray-300"/>
-                  <p>Security Settings and PIN management coming soon.</p>
+              <div className="max-w-md mx-auto animate-fade-in">
+                  <h3 className="text-lg font-bold mb-4">Settings & Security</h3>
+                  <form onSubmit={handleChangePin} className="bg-white p-5 rounded-xl border space-y-4">
+                      <div className="flex items-center gap-2 mb-1">
+                          <ShieldCheckIcon className="w-5 h-5 text-green-600" />
+                          <span className="font-bold text-gray-800">Change Wallet PIN</span>
+                      </div>
+                      <input type="password" inputMode="numeric" maxLength={4} value={currentPin} onChange={e => setCurrentPin(e.target.value.replace(/\D/g, ''))} placeholder="Current PIN" className="w-full p-3 border rounded-lg bg-gray-50 text-gray-900" />
+                      <input type="password" inputMode="numeric" maxLength={4} value={newPin} onChange={e => setNewPin(e.target.value.replace(/\D/g, ''))} placeholder="New PIN" className="w-full p-3 border rounded-lg bg-gray-50 text-gray-900" />
+                      <input type="password" inputMode="numeric" maxLength={4} value={confirmNewPin} onChange={e => setConfirmNewPin(e.target.value.replace(/\D/g, ''))} placeholder="Confirm New PIN" className="w-full p-3 border rounded-lg bg-gray-50 text-gray-900" />
+                      <Button type="submit" isLoading={savingPin} disabled={currentPin.length !== 4 || newPin.length !== 4} className="w-full">Update PIN</Button>
+                      <p className="text-xs text-gray-500 text-center">
+                          Forgot your PIN? <button type="button" onClick={handleForgotPin} className="text-green-700 font-medium hover:underline">Reset it by email</button>
+                      </p>
+                  </form>
               </div>
           )}
       </div>
 
-      {showPinModal && <PinModal />}
+      {showPinModal && (
+          <WalletPinModal
+              subtitle={`Confirm ${pendingTransaction?.type === 'FX_OUT' ? 'conversion' : pendingTransaction?.type.toLowerCase().replace('_', ' ')} of ${formatMoney(pendingTransaction?.amount || 0, pendingTransaction?.meta?.currency)}`}
+              onVerified={handlePinVerified}
+              onCancel={() => { setShowPinModal(false); setPendingTransaction(null); }}
+              onForgotPin={handleForgotPin}
+          />
+      )}
+      {billReceipt && (
+          <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in">
+              <Card className="w-full max-w-sm">
+                  <div className="flex justify-between items-center mb-4">
+                      <h3 className="text-lg font-bold text-gray-800">Payment Receipt</h3>
+                      <button onClick={() => setBillReceipt(null)} className="text-gray-500 hover:text-gray-800"><XIcon className="w-6 h-6" /></button>
+                  </div>
+                  <div className="text-center mb-4">
+                      <CheckCircleIcon className="w-10 h-10 text-green-600 mx-auto mb-2" />
+                      <p className="text-2xl font-bold text-gray-900">{formatMoney(billReceipt.amount)}</p>
+                      <p className="text-sm text-gray-500">{BILL_PROVIDERS.find(p => p.id === billReceipt.biller_id)?.name} · {billReceipt.account_number}</p>
+                  </div>
+                  {billReceipt.token && (
+                      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4 text-center">
+                          <p className="text-xs font-bold text-yellow-800 uppercase mb-1">Token</p>
+                          <p className="font-mono text-lg font-bold text-gray-900 tracking-wider select-all">{billReceipt.token}</p>
+                      </div>
+                  )}
+                  <div className="space-y-1 text-sm">
+                      {billReceipt.customer_name && <div className="flex justify-between text-gray-600"><span>Customer</span><span>{billReceipt.customer_name}</span></div>}
+                      {Object.entries(billReceipt.details).map(([label, value]) => (
+                          <div key={label} className="flex justify-between text-gray-600"><span>{label}</span><span>{value}</span></div>
+                      ))}
+                      <div className="flex justify-between text-gray-600"><span>Fee</span><span>{formatMoney(billReceipt.fee)}</span></div>
+                      <div className="flex justify-between text-gray-600"><span>Reference</span><span className="font-mono text-xs">{billReceipt.biller_reference}</span></div>
+                      <div className="flex justify-between text-gray-600"><span>Date</span><span>{new Date(billReceipt.completed_at || billReceipt.created_at).toLocaleString()}</span></div>
+                  </div>
+              </Card>
+          </div>
+      )}
     </Card>
   );
 };
@@ -1,14 +1,19 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { EquipmentType, EquipmentItem, Message, User, Inquiry, View } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { EquipmentType, EquipmentItem, Message, User, Inquiry, View, BookedRange, MapBounds, MapListing } from '../types';
 import Card from './common/Card';
 import Button from './common/Button';
 import { TractorIcon, SearchIcon, MessageSquareIcon, XIcon, PlusIcon, PencilIcon, TrashIcon, Spinner, UploadIcon, MailIcon, GridIcon, ShieldCheckIcon, StarIcon, DoubleCheckIcon } from './common/icons';
 import { useNotifications } from '../contexts/NotificationContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 import { fileToDataUri } from '../utils';
 import { supabase } from '../services/supabase';
 import { uploadUserFile } from '../services/storageService';
 import { useGeolocation } from '../hooks/useGeolocation';
+import { getBookedRanges, createBooking, computeBookingTotal, countBookingDays, formatDateKey } from '../services/bookingService';
+import AvailabilityCalendar from './AvailabilityCalendar';
+import ListingMap from './ListingMap';
+import { getEquipmentInBounds } from '../services/mapService';
 
 interface ChatContext {
     id: string;
@@ -30,7 +35,11 @@ const EquipmentRental: React.FC<EquipmentRentalProps> = ({ user, setActiveView,
 
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedType, setSelectedType] = useState<EquipmentType | 'All'>('All');
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  const [mapItems, setMapItems] = useState<EquipmentItem[]>([]); // Equipment inside the visible map area
+  const [loadingMap, setLoadingMap] = useState(false);
   const { addNotification } = useNotifications();
+  const { formatPrice } = useCurrency();
   const { location } = useGeolocation();
 
   // Modal State for Details
@@ -44,6 +53,14 @@ const EquipmentRental: React.FC<EquipmentRentalProps> = ({ user, setActiveView,
   const [ratingComment, setRatingComment] = useState('');
   const [isSubmittingRating, setIsSubmittingRating] = useState(false);
 
+  // Booking State
+  const [bookedRanges, setBookedRanges] = useState<BookedRange[]>([]);
+  const [loadingAvailability, setLoadingAvailability] = useState(false);
+  const [bookingStart, setBookingStart] = useState<string | null>(null);
+  const [bookingEnd, setBookingEnd] = useState<string | null>(null);
+  const [bookingNote, setBookingNote] = useState('');
+  const [isBooking, setIsBooking] = useState(false);
+
   // Form State
   const [isFormVisible, setIsFormVisible] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
@@ -133,9 +150,14 @@ const EquipmentRental: React.FC<EquipmentRentalProps> = ({ user, setActiveView,
       if (selectedItem) {
           setCurrentImageIndex(0);
           fetchOwnerRating(selectedItem.user_id);
+          fetchAvailability(selectedItem.id);
       } else {
           setOwnerStats(null);
+          setBookedRanges([]);
       }
+      setBookingStart(null);
+      setBookingEnd(null);
+      setBookingNote('');
   }, [selectedItem]);
 
   // Convert single image to array for slideshow consistency (future-proof)
@@ -244,12 +266,41 @@ const EquipmentRental: React.FC<EquipmentRentalProps> = ({ user, setActiveView,
   }, [chatContext, isChatVisible, user?.uid]);
 
 
-  const filteredItems = items.filter(item => {
+  const matchesFilters = (item: EquipmentItem) => {
     const matchesSearch = item.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
                           item.location.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesType = selectedType === 'All' || item.type === selectedType;
     return matchesSearch && matchesType;
-  });
+  };
+
+  const filteredItems = items.filter(matchesFilters);
+
+  const handleMapSearch = async (bounds: MapBounds) => {
+      setLoadingMap(true);
+      try {
+          const found = await getEquipmentInBounds(bounds);
+          setMapItems(found.map(item => ({ ...item, user_id: item.user_id || (item as any).owner_id })));
+      } catch (err) {
+          console.error("Error fetching map equipment:", JSON.stringify(err));
+      } finally {
+          setLoadingMap(false);
+      }
+  };
+
+  // Memoised so the map only redraws its pins when the results or filters change
+  const mapListings = useMemo<MapListing[]>(() => mapItems.filter(matchesFilters).map(item => ({
+      id: item.id,
+      lat: item.location_lat!,
+      lng: item.location_lng!,
+      title: item.name,
+      subtitle: `${formatPrice(item.price_per_day)}/day · ${item.location}`,
+      imageUrl: item.image_urls?.[0] || item.image_url
+  })), [mapItems, searchTerm, selectedType, formatPrice]);
+
+  const handleOpenFromMap = (id: string) => {
+      const item = items.find(i => i.id === id) || mapItems.find(i => i.id === id);
+      if (item) setSelectedItem(item);
+  };
 
   const fetchOwnerRating = async (ownerId: string) => {
       try {
@@ -266,6 +317,40 @@ const EquipmentRental: React.FC<EquipmentRentalProps> = ({ user, setActiveView,
       }
   };
 
+  const fetchAvailability = async (equipmentId: string) => {
+      setLoadingAvailability(true);
+      try {
+          setBookedRanges(await getBookedRanges(equipmentId));
+      } finally {
+          setLoadingAvailability(false);
+      }
+  };
+
+  const handleRequestBooking = async () => {
+      if (!selectedItem || !bookingStart) return;
+      if (!user?.uid) {
+          onRequireLogin();
+          return;
+      }
+      const endDate = bookingEnd || bookingStart;
+
+      setIsBooking(true);
+      try {
+          await createBooking(user, selectedItem, bookingStart, endDate, bookingNote.trim());
+          addNotification({ type: 'rental', title: 'Booking Requested', message: `${selectedItem.owner} will confirm your booking of ${selectedItem.name}.`, view: 'PROFILE' });
+          setBookingStart(null);
+          setBookingEnd(null);
+          setBookingNote('');
+          fetchAvailability(selectedItem.id);
+      } catch (err: any) {
+          console.error("Booking error:", err);
+          addNotification({ type: 'rental', title: 'Booking Failed', message: err.message || 'Could not request booking.', view: 'RENTAL' });
+          fetchAvailability(selectedItem.id);
+      } finally {
+          setIsBooking(false);
+      }
+  };
+
   const submitRating = async (e: React.FormEvent) => {
       e.preventDefault();
       if (!selectedItem || !user) return;
@@ -605,9 +690,30 @@ const EquipmentRental: React.FC<EquipmentRentalProps> = ({ user, setActiveView,
                     <option key={type} value={type}>{type}</option>
                 ))}
             </select>
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm shrink-0">
+                {(['list', 'map'] as const).map(mode => (
+                    <button
+                        key={mode}
+                        onClick={() => setViewMode(mode)}
+                        className={`px-3 py-2 capitalize ${viewMode === mode ? 'bg-indigo-100 text-indigo-800 font-medium' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                    >
+                        {mode}
+                    </button>
+                ))}
+            </div>
         </div>
 
-        {/* Grid - Optimized for Laptop/Desktop (XL screens) */}
+        {viewMode === 'map' ? (
+            <ListingMap
+                listings={mapListings}
+                center={location}
+                loading={loadingMap}
+                accent="indigo"
+                onSearch={handleMapSearch}
+                onOpen={handleOpenFromMap}
+            />
+        ) : (
+        /* Grid - Optimized for Laptop/Desktop (XL screens) */
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
             {/* Item Cards */}
             {loading ? <div className="col-span-full text-center"><Spinner className="w-8 h-8"/></div> : filteredItems.map(item => (
@@ -630,7 +736,7 @@ const EquipmentRental: React.FC<EquipmentRentalProps> = ({ user, setActiveView,
                     <div className="mb-4">
                         <h3 className="text-lg font-bold text-gray-900 leading-tight mb-1 truncate">{item.name}</h3>
                         <div className="flex justify-between items-center">
-                            <span className="text-indigo-700 font-bold">GHS {item.price_per_day}<span className="text-xs text-gray-500 font-normal">/day</span></span>
+                            <span className="text-indigo-700 font-bold">{formatPrice(item.price_per_day)}<span className="text-xs text-gray-500 font-normal">/day</span></span>
                             <div className="text-xs text-gray-500 flex items-center gap-1 truncate max-w-[50%]">
                                 <GridIcon className="w-3 h-3"/> {item.location}
                             </div>
@@ -648,6 +754,7 @@ const EquipmentRental: React.FC<EquipmentRentalProps> = ({ user, setActiveView,
                 </Card>
             ))}
         </div>
+        )}
 
         {/* Add/Edit Modal */}
         {isFormVisible && (
@@ -802,7 +909,7 @@ const EquipmentRental: React.FC<EquipmentRentalProps> = ({ user, setActiveView,
 
                    <div className="space-y-4 mb-6">
                         <div className="flex justify-between items-center border-b pb-3 border-gray-100">
-                            <span className="text-2xl font-bold text-indigo-700">GHS {selectedItem.price_per_day.toFixed(2)}<span className="text-sm text-gray-500 font-normal">/day</span></span>
+                            <span className="text-2xl font-bold text-indigo-700">{formatPrice(selectedItem.price_per_day)}<span className="text-sm text-gray-500 font-normal">/day</span></span>
                             <span className="bg-indigo-50 text-indigo-800 px-2 py-1 rounded text-xs font-bold uppercase">{selectedItem.type}</span>
                         </div>
 
@@ -811,6 +918,43 @@ const EquipmentRental: React.FC<EquipmentRentalProps> = ({ user, setActiveView,
                             <p className="text-gray-600 text-sm leading-relaxed whitespace-pre-wrap">{selectedItem.description || "No description provided."}</p>
                         </div>
 
+                        <div>
+                            <h4 className="text-sm font-bold text-gray-700 mb-1 flex items-center gap-2">
+                                Availability {loadingAvailability && <Spinner className="w-3 h-3" />}
+                            </h4>
+                            <AvailabilityCalendar
+                                bookedRanges={bookedRanges}
+                                startDate={bookingStart}
+                                endDate={bookingEnd}
+                                onChange={(start, end) => { setBookingStart(start); setBookingEnd(end); }}
+                                readOnly={canManage(selectedItem)}
+                            />
+                            {!canManage(selectedItem) && (
+                                bookingStart ? (
+                                    <div className="mt-3 bg-indigo-50 p-3 rounded-lg space-y-2">
+                                        <div className="flex justify-between text-sm text-indigo-900">
+                                            <span>
+                                                {formatDateKey(bookingStart)} – {formatDateKey(bookingEnd || bookingStart)}
+                                                {' '}({countBookingDays(bookingStart, bookingEnd || bookingStart)} day{countBookingDays(bookingStart, bookingEnd || bookingStart) > 1 ? 's' : ''})
+                                            </span>
+                                            <span className="font-bold">{formatPrice(computeBookingTotal(selectedItem.price_per_day, bookingStart, bookingEnd || bookingStart))}</span>
+                                        </div>
+                                        <input
+                                            value={bookingNote}
+                                            onChange={e => setBookingNote(e.target.value)}
+                                            placeholder="Note to owner (optional)"
+                                            className="w-full p-2 border border-indigo-200 rounded text-sm text-gray-900 bg-white"
+                                        />
+                                        <Button onClick={handleRequestBooking} isLoading={isBooking} className="w-full bg-indigo-600 hover:bg-indigo-700 py-2 text-sm">
+                                            Request Booking
+                                        </Button>
+                                    </div>
+                                ) : (
+                                    <p className="text-xs text-gray-500 mt-2">Tap a start and end date to request a booking.</p>
+                                )
+                            )}
+                        </div>
+
                         {ownerStats ? (
                             <div className="flex items-center gap-1 bg-yellow-50 p-2 rounded text-yellow-800 text-sm">
                                 <StarIcon className="w-4 h-4 text-yellow-500" />
@@ -2,7 +2,8 @@
 import React, { useEffect, useRef } from 'react';
 import { supabase } from '../services/supabase';
 import { useNotifications } from '../contexts/NotificationContext';
-import type { User, View } from '../types';
+import { getBuyRequest } from '../services/buyRequestService';
+import type { User, View, Transaction } from '../types';
 
 interface Props {
   user: User | null;
@@ -67,6 +68,83 @@ const GlobalMessageListener: React.FC<Props> = ({ user, setActiveView }) => {
     };
   }, [user?.uid, addNotification]);
 
+  useEffect(() => {
+    if (!user?.uid) return;
+
+    // Incoming wallet transfers
+    const channel = supabase
+      .channel('global_wallet_listener')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'transactions',
+          filter: `user_id=eq.${user.uid}`
+        },
+        (payload) => {
+           const tx = payload.new as Transaction;
+           if (tx.type !== 'TRANSFER_IN' || tx.status !== 'completed') return;
+
+           if (audioRef.current) {
+               audioRef.current.currentTime = 0;
+               audioRef.current.play()?.catch(error => console.warn('Audio blocked by browser policy:', error));
+           }
+
+           addNotification({
+             type: 'wallet',
+             title: 'Money Received',
+             message: `${tx.currency || 'GHS'} ${Number(tx.amount).toFixed(2)} — ${tx.description || 'Wallet transfer'}`,
+             view: 'WALLET'
+           });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.uid, addNotification]);
+
+  useEffect(() => {
+    if (!user?.uid) return;
+
+    // Buyer requests matched to this seller's nearby listings
+    const channel = supabase
+      .channel('global_buy_request_listener')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'buy_request_matches',
+          filter: `seller_id=eq.${user.uid}`
+        },
+        async (payload) => {
+           const request = await getBuyRequest(payload.new.request_id);
+           if (!request || request.status !== 'open') return;
+
+           if (audioRef.current) {
+               audioRef.current.currentTime = 0;
+               audioRef.current.play()?.catch(error => console.warn('Audio blocked by browser policy:', error));
+           }
+
+           const distance = payload.new.distance_km != null ? ` (${Math.round(payload.new.distance_km)} km away)` : '';
+           addNotification({
+             type: 'market',
+             title: 'Buyer Request Near You',
+             message: `${request.quantity} ${request.unit} ${request.crop} wanted in ${request.location_name || request.region || 'your area'}${distance}`,
+             view: 'REQUESTS'
+           });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.uid, addNotification]);
+
   return null; // Invisible component
 };
 
@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type * as Leaflet from 'leaflet';
+import Button from './common/Button';
+import { Spinner, XIcon, SearchIcon } from './common/icons';
+import { TILE_PROVIDER, DEFAULT_MAP_CENTER, clusterPoints } from '../services/mapService';
+import type { GeoLocation, MapBounds, MapListing } from '../types';
+
+interface ListingMapProps {
+  listings: MapListing[];
+  center?: GeoLocation | null; // The user's position; the map starts over Ghana until it is known
+  loading?: boolean;
+  accent?: 'green' | 'indigo';
+  onSearch: (bounds: MapBounds) => void; // Load the listings inside this area
+  onOpen: (id: string) => void;
+}
+
+// Leaflet is loaded as a script in index.html
+const getLeaflet = () => (window as any).L as typeof Leaflet | undefined;
+
+const ACCENTS = {
+  green: { pin: 'bg-green-700', cluster: 'bg-green-600/90', button: 'bg-green-700 hover:bg-green-800' },
+  indigo: { pin: 'bg-indigo-700', cluster: 'bg-indigo-600/90', button: 'bg-indigo-600 hover:bg-indigo-700' }
+};
+
+const toBounds = (map: Leaflet.Map): MapBounds => {
+  const b = map.getBounds();
+  return { south: b.getSouth(), west: b.getWest(), north: b.getNorth(), east: b.getEast() };
+};
+
+// Pins cluster as they crowd together; tapping a pin previews the listing, tapping a cluster zooms in.
+const ListingMap: React.FC<ListingMapProps> = ({ listings, center, loading = false, accent = 'green', onSearch, onOpen }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<Leaflet.Map | null>(null);
+  const layerRef = useRef<Leaflet.LayerGroup | null>(null);
+  const centeredRef = useRef(false);
+  const onSearchRef = useRef(onSearch);
+  const autoSearchRef = useRef(true);
+  const [autoSearch, setAutoSearch] = useState(true);
+  const [areaChanged, setAreaChanged] = useState(false);
+  const [viewVersion, setViewVersion] = useState(0); // Bumped on every pan/zoom to re-cluster
+  const [preview, setPreview] = useState<{ items: MapListing[]; index: number } | null>(null);
+  const [mapError, setMapError] = useState('');
+  const colors = ACCENTS[accent];
+
+  onSearchRef.current = onSearch;
+  autoSearchRef.current = autoSearch;
+
+  useEffect(() => {
+      const L = getLeaflet();
+      if (!L || !containerRef.current) {
+          setMapError('The map could not be loaded. Check your connection and try again.');
+          return;
+      }
+
+      const start = center || DEFAULT_MAP_CENTER;
+      centeredRef.current = !!center;
+      const map = L.map(containerRef.current).setView([start.latitude, start.longitude], center ? 12 : 7);
+      L.tileLayer(TILE_PROVIDER.url, { attribution: TILE_PROVIDER.attribution, maxZoom: TILE_PROVIDER.maxZoom }).addTo(map);
+      layerRef.current = L.layerGroup().addTo(map);
+      mapRef.current = map;
+
+      // Panning fires moveend many times in a row; only query once the map settles
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      map.on('moveend', () => {
+          setViewVersion(v => v + 1);
+          if (!autoSearchRef.current) {
+              setAreaChanged(true);
+              return;
+          }
+          clearTimeout(timer);
+          timer = setTimeout(() => onSearchRef.current(toBounds(map)), 400);
+      });
+      onSearchRef.current(toBounds(map));
+
+      return () => {
+          clearTimeout(timer);
+          map.remove();
+          mapRef.current = null;
+          layerRef.current = null;
+      };
+  }, []);
+
+  // Move to the user once their position arrives, unless they have already been placed there
+  useEffect(() => {
+      if (center && mapRef.current && !centeredRef.current) {
+          centeredRef.current = true;
+          mapRef.current.setView([center.latitude, center.longitude], 12);
+      }
+  }, [center]);
+
+  useEffect(() => {
+      const L = getLeaflet();
+      const map = mapRef.current;
+      const layer = layerRef.current;
+      if (!L || !map || !layer) return;
+
+      layer.clearLayers();
+      const clusters = clusterPoints<MapListing>(listings, (lat, lng) => map.latLngToContainerPoint([lat, lng]));
+      for (const cluster of clusters) {
+          const single = cluster.items.length === 1;
+          const icon = L.divIcon({
+              className: '',
+              html: single
+                  ? `<div class="w-4 h-4 rounded-full border-2 border-white shadow ${colors.pin}"></div>`
+                  : `<div class="w-9 h-9 rounded-full border-2 border-white shadow flex items-center justify-center text-white text-xs font-bold ${colors.cluster}">${cluster.items.length}</div>`,
+              iconSize: single ? [16, 16] : [36, 36],
+              iconAnchor: single ? [8, 8] : [18, 18]
+          });
+          const marker = L.marker([cluster.lat, cluster.lng], { icon, title: single ? cluster.items[0].title : `${cluster.items.length} listings` });
+          marker.on('click', () => {
+              const bounds = L.latLngBounds(cluster.items.map(i => [i.lat, i.lng] as [number, number]));
+              // Listings at the same spot never split apart, so preview them in turn instead
+              if (single || map.getZoom() >= map.getMaxZoom() || bounds.getNorthEast().equals(bounds.getSouthWest())) {
+                  setPreview({ items: cluster.items, index: 0 });
+              } else {
+                  map.fitBounds(bounds, { padding: [40, 40] });
+              }
+          });
+          layer.addLayer(marker);
+      }
+  }, [listings, viewVersion, accent]);
+
+  // A preview whose listing has left the result set is stale
+  useEffect(() => {
+      setPreview(current => current && current.items.every(item => listings.some(l => l.id === item.id)) ? current : null);
+  }, [listings]);
+
+  const handleSearchArea = () => {
+      if (!mapRef.current) return;
+      setAreaChanged(false);
+      onSearch(toBounds(mapRef.current));
+  };
+
+  const previewItem = preview ? preview.items[preview.index] : null;
+
+  return (
+      // isolate keeps Leaflet's high z-index panes underneath the app's modals
+      <div className="relative isolate h-[32rem] rounded-lg overflow-hidden border border-gray-200 bg-gray-100">
+          <div ref={containerRef} className="absolute inset-0" />
+          {mapError && <p className="absolute inset-0 flex items-center justify-center text-sm text-gray-500 p-6 text-center">{mapError}</p>}
+
+          <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000] flex flex-col items-center gap-2">
+              {!autoSearch && areaChanged && (
+                  <Button onClick={handleSearchArea} className={`text-xs py-2 px-4 shadow-lg ${colors.button}`}>
+                      <SearchIcon className="w-4 h-4 mr-1" /> Search this area
+                  </Button>
+              )}
+              {loading && <span className="bg-white rounded-full p-2 shadow"><Spinner className="w-4 h-4 text-gray-600" /></span>}
+          </div>
+
+          <label className="absolute top-3 right-3 z-[1000] bg-white/95 rounded-lg shadow px-3 py-2 text-xs text-gray-700 flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={autoSearch} onChange={e => { setAutoSearch(e.target.checked); if (e.target.checked && areaChanged) handleSearchArea(); }} />
+              Search as I move the map
+          </label>
+
+          {previewItem && (
+              <div className="absolute bottom-3 left-3 right-3 md:left-auto md:w-80 z-[1000] bg-white rounded-xl shadow-xl border border-gray-200 flex overflow-hidden animate-fade-in">
+                  <img src={previewItem.imageUrl || 'https://placehold.co/200x200?text=No+Image'} alt={previewItem.title} className="w-24 h-24 object-cover shrink-0" />
+                  <div className="p-3 flex-1 min-w-0">
+                      <div className="flex justify-between items-start gap-2">
+                          <p className="font-bold text-gray-900 text-sm truncate">{previewItem.title}</p>
+                          <button onClick={() => setPreview(null)} className="text-gray-400 hover:text-gray-700"><XIcon className="w-4 h-4" /></button>
+                      </div>
+                      <p className="text-xs text-gray-600 truncate">{previewItem.subtitle}</p>
+                      <div className="flex items-center justify-between mt-2">
+                          <button onClick={() => onOpen(previewItem.id)} className="text-xs font-bold text-blue-600 hover:underline">View details</button>
+                          {preview!.items.length > 1 && (
+                              <button onClick={() => setPreview({ ...preview!, index: (preview!.index + 1) % preview!.items.length })} className="text-xs text-gray-500 hover:text-gray-800">
+                                  {preview!.index + 1} of {preview!.items.length} ›
+                              </button>
+                          )}
+                      </div>
+                  </div>
+              </div>
+          )}
+      </div>
+  );
+};
+
+export default ListingMap;
@@ -1,14 +1,21 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import Card from './common/Card';
 import Button from './common/Button';
-import { ShoppingCartIcon, SearchIcon, PlusIcon, MessageSquareIcon, XIcon, UploadIcon, PhoneIcon, MailIcon, HeartIcon, TagIcon, PencilIcon, TrashIcon, GridIcon, ShieldCheckIcon, StarIcon, DoubleCheckIcon, UserCircleIcon } from './common/icons';
+import { ShoppingCartIcon, SearchIcon, PlusIcon, MessageSquareIcon, XIcon, UploadIcon, PhoneIcon, MailIcon, HeartIcon, TagIcon, PencilIcon, TrashIcon, GridIcon, ShieldCheckIcon, StarIcon, DoubleCheckIcon, UserCircleIcon, ClipboardListIcon } from './common/icons';
 import { supabase } from '../services/supabase';
 import { uploadUserFile } from '../services/storageService';
+import { createOrder, updateOrderStatus } from '../services/orderService';
+import { getWalletBalance, payOrderFromWallet } from '../services/paymentService';
+import { searchMarketplace, formatDistance, getUnitPrice, SEARCH_RADII_KM, GHANA_REGIONS, PRICE_BUCKETS, LISTING_UNITS } from '../services/marketplaceService';
+import { getMarketplaceInBounds } from '../services/mapService';
+import ListingMap from './ListingMap';
+import WalletPinModal from './WalletPinModal';
 import { fileToDataUri } from '../utils';
 import { useNotifications } from '../contexts/NotificationContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 import { useGeolocation } from '../hooks/useGeolocation';
-import type { User, MarketplaceItem, Message, View } from '../types';
+import type { User, MarketplaceItem, Message, View, MapBounds, MapListing, MarketplaceSort, MarketplaceSearchFilters, MarketplaceSearchResult } from '../types';
 
 interface MarketplaceProps {
   user: User | null;
@@ -28,7 +35,23 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
   const [items, setItems] = useState<MarketplaceItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('All');
+  const [priceBucket, setPriceBucket] = useState<string | null>(null);
+  const [selectedRegion, setSelectedRegion] = useState<string | null>(null);
+  const [minRating, setMinRating] = useState<number | null>(null);
+  const [sortBy, setSortBy] = useState<MarketplaceSort>('relevance');
+  const [radiusKm, setRadiusKm] = useState<number | null>(null);
+
+  // Search results are paged; more load as the user scrolls to the end of the grid
+  const [totalItems, setTotalItems] = useState(0);
+  const [facets, setFacets] = useState<MarketplaceSearchResult['facets'] | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const searchRequestRef = useRef(0); // Drops responses to searches that have been superseded
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  const [mapItems, setMapItems] = useState<MarketplaceItem[]>([]); // Listings inside the visible map area
+  const [loadingMap, setLoadingMap] = useState(false);
   
   // Modals
   const [showAddModal, setShowAddModal] = useState(false);
@@ -43,6 +66,15 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
   const [ratingValue, setRatingValue] = useState(0);
   const [ratingComment, setRatingComment] = useState('');
   const [isSubmittingRating, setIsSubmittingRating] = useState(false);
+
+  // Checkout State
+  const [checkoutItem, setCheckoutItem] = useState<MarketplaceItem | null>(null);
+  const [checkoutQty, setCheckoutQty] = useState(1);
+  const [checkoutNote, setCheckoutNote] = useState('');
+  const [checkoutPayment, setCheckoutPayment] = useState<'WALLET' | 'ON_DELIVERY'>('WALLET');
+  const [walletBalance, setWalletBalance] = useState<number | null>(null);
+  const [isPlacingOrder, setIsPlacingOrder] = useState(false);
+  const [showCheckoutPin, setShowCheckoutPin] = useState(false);
   
   // Add Item Form State
   const [newItem, setNewItem] = useState<Partial<MarketplaceItem>>({
@@ -52,8 +84,13 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
       usage_instructions: '', // Description/Details
       storage_recommendations: '',
       location_name: '',
+      region: null,
       location_lat: undefined,
-      location_lng: undefined
+      location_lng: undefined,
+      unit: '',
+      stock_quantity: null,
+      min_order_quantity: 1,
+      price_tiers: []
   });
   
   // Multiple Image State
@@ -70,20 +107,38 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   const { addNotification } = useNotifications();
+  const { currency, formatPrice } = useCurrency();
   const { location, error: geoError } = useGeolocation();
 
   const categories = ['All', 'Seeds', 'Fertilizers', 'Livestock Feed', 'Livestock', 'Tools', 'Produce'];
 
+  // Query the server once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const searchFilters = useMemo<MarketplaceSearchFilters>(() => ({
+    query: debouncedSearch,
+    category: selectedCategory === 'All' ? null : selectedCategory,
+    priceBucket,
+    region: selectedRegion,
+    minRating,
+    origin: location,
+    radiusKm,
+    sort: sortBy === 'nearest' && !location ? 'relevance' : sortBy
+  }), [debouncedSearch, selectedCategory, priceBucket, selectedRegion, minRating, location, radiusKm, sortBy]);
+
   useEffect(() => {
     fetchItems();
     
     const subscription = supabase
         .channel('public:marketplace')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'marketplace' }, fetchItems)
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'marketplace' }, () => fetchItems())
         .subscribe();
 
     return () => { subscription.unsubscribe(); };
-  }, []);
+  }, [searchFilters]);
 
   // Slideshow Logic for Details Modal
   useEffect(() => {
@@ -106,18 +161,17 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
       return () => clearInterval(interval);
   }, [detailsItem]);
 
-  const fetchItems = async () => {
-      setLoading(true);
+  // offset 0 starts a new search; anything else appends the next page
+  const fetchItems = async (offset = 0) => {
+      const request = ++searchRequestRef.current;
+      if (offset) setLoadingMore(true);
+      else setLoading(true);
       try {
-          const { data, error } = await supabase
-              .from('marketplace')
-              .select('*')
-              .order('created_at', { ascending: false });
-          
-          if (error) throw error;
+          const result = await searchMarketplace(searchFilters, offset);
+          if (request !== searchRequestRef.current) return;
           
           // Data normalization: Ensure user_id is present by checking owner_id fallback
-          let itemsList = (data || []).map((item: any) => ({
+          let itemsList = (result.items || []).map((item: any) => ({
               ...item,
               user_id: item.user_id || item.owner_id
           })) as MarketplaceItem[];
@@ -131,14 +185,33 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
                }));
           }
 
-          setItems(itemsList);
+          if (request !== searchRequestRef.current) return;
+          setItems(prev => offset ? [...prev, ...itemsList] : itemsList);
+          setTotalItems(result.total);
+          setFacets(result.facets);
       } catch (err) {
           console.error("Error fetching marketplace items:", err);
       } finally {
-          setLoading(false);
+          if (request === searchRequestRef.current) {
+              setLoading(false);
+              setLoadingMore(false);
+          }
       }
   };
 
+  const hasMore = items.length < totalItems;
+
+  // Infinite scroll: fetch the next page when the end of the grid comes into view
+  useEffect(() => {
+      const sentinel = loadMoreRef.current;
+      if (!sentinel || !hasMore || loading || loadingMore || viewMode !== 'list') return;
+      const observer = new IntersectionObserver(entries => {
+          if (entries[0].isIntersecting) fetchItems(items.length);
+      }, { rootMargin: '400px' });
+      observer.observe(sentinel);
+      return () => observer.disconnect();
+  }, [hasMore, loading, loadingMore, items.length, viewMode, searchFilters]);
+
   const fetchSellerRating = async (sellerId: string) => {
       if (!sellerId) return;
       try {
@@ -347,12 +420,150 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
       setIsChatVisible(true);
   };
 
-  const filteredItems = items.filter(item => {
+  const handleOpenCheckout = (item: MarketplaceItem) => {
+      if (!user?.uid) {
+          onRequireLogin();
+          return;
+      }
+      if (item.user_id === user.uid) {
+          addNotification({ type: 'market', title: 'Oops', message: 'This is your own item.', view: 'MARKETPLACE' });
+          return;
+      }
+      if (item.sold_out) {
+          addNotification({ type: 'market', title: 'Sold Out', message: `${item.title} is out of stock.`, view: 'MARKETPLACE' });
+          return;
+      }
+      setCheckoutQty(item.min_order_quantity || 1);
+      setCheckoutNote('');
+      setCheckoutPayment('WALLET');
+      setWalletBalance(null);
+      setCheckoutItem(item);
+      getWalletBalance(user.uid).then(setWalletBalance);
+  };
+
+  const handlePlaceOrder = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!checkoutItem || !user) return;
+
+      if (checkoutPayment === 'WALLET' && walletBalance !== null && walletBalance < checkoutTotal) {
+          addNotification({ type: 'wallet', title: 'Insufficient Funds', message: 'Top up your wallet or choose pay on delivery.', view: 'WALLET' });
+          return;
+      }
+
+      // Wallet payments are authorised with the wallet PIN first
+      if (checkoutPayment === 'WALLET') {
+          setShowCheckoutPin(true);
+          return;
+      }
+      placeOrder();
+  };
+
+  const placeOrder = async () => {
+      if (!checkoutItem || !user) return;
+
+      setIsPlacingOrder(true);
+      try {
+          const order = await createOrder(user, checkoutItem, checkoutQty, checkoutNote.trim());
+
+          if (checkoutPayment === 'WALLET') {
+              try {
+                  await payOrderFromWallet(order.id);
+              } catch (payErr: any) {
+                  // Don't leave an unpaid order behind when the buyer chose to prepay
+                  await updateOrderStatus(order.id, 'Cancelled').catch(() => {});
+                  throw new Error(payErr.message || 'Wallet payment failed.');
+              }
+          }
+
+          addNotification({
+              type: 'market',
+              title: 'Order Placed',
+              message: checkoutPayment === 'WALLET'
+                  ? `GHS ${order.total.toFixed(2)} is held in escrow until you confirm delivery of ${checkoutItem.title}.`
+                  : `Your order for ${checkoutItem.title} has been sent to the seller.`,
+              view: 'ORDERS'
+          });
+          const ordered = checkoutItem;
+          setItems(prev => prev.map(i => i.id === ordered.id ? takeFromStock(i, checkoutQty) : i));
+          setCheckoutItem(null);
+          setDetailsItem(null);
+          setActiveView('ORDERS');
+      } catch (err: any) {
+          console.error("Checkout error:", err);
+          addNotification({ type: 'market', title: 'Error', message: err.message || 'Could not place order.', view: 'MARKETPLACE' });
+      } finally {
+          setIsPlacingOrder(false);
+      }
+  };
+
+  const checkoutUnitPrice = checkoutItem ? getUnitPrice(checkoutItem, checkoutQty) : 0;
+  const checkoutTotal = checkoutUnitPrice * checkoutQty;
+  const checkoutMinQty = checkoutItem?.min_order_quantity || 1;
+  const checkoutMaxQty = checkoutItem?.stock_quantity ?? undefined;
+
+  // Mirrors the stock the order took in the database, so the grid doesn't wait for a refetch
+  const takeFromStock = (item: MarketplaceItem, quantity: number): MarketplaceItem => {
+      if (item.stock_quantity == null) return item;
+      const stock = Math.max(0, item.stock_quantity - quantity);
+      return { ...item, stock_quantity: stock, sold_out: stock === 0 };
+  };
+
+  const unitLabel = (item: MarketplaceItem) => item.unit ? ` / ${item.unit}` : '';
+
+  // Map pins are filtered locally with the same facets (seller rating is only known to search)
+  const matchesFilters = (item: MarketplaceItem) => {
       const matchesSearch = item.title.toLowerCase().includes(searchTerm.toLowerCase());
       const matchesCategory = selectedCategory === 'All' || item.category === selectedCategory;
-      return matchesSearch && matchesCategory;
-  });
+      const bucket = PRICE_BUCKETS.find(b => b.value === priceBucket);
+      const matchesPrice = !bucket || ((bucket.min === null || item.price >= bucket.min) && (bucket.max === null || item.price < bucket.max));
+      const matchesRegion = !selectedRegion || item.region === selectedRegion;
+      return matchesSearch && matchesCategory && matchesPrice && matchesRegion;
+  };
+
+  const facetCount = (facet: keyof MarketplaceSearchResult['facets'], value: string) =>
+      facets?.[facet].find(b => b.value === value)?.count ?? 0;
+
+  const priceBucketLabel = (bucket: typeof PRICE_BUCKETS[number]) =>
+      bucket.min === null ? `Under ${formatPrice(bucket.max!)}`
+          : bucket.max === null ? `${formatPrice(bucket.min)}+`
+          : `${formatPrice(bucket.min)} – ${formatPrice(bucket.max)}`;
+
+  const hasFacetFilters = priceBucket !== null || selectedRegion !== null || minRating !== null;
+
+  const clearFacetFilters = () => {
+      setPriceBucket(null);
+      setSelectedRegion(null);
+      setMinRating(null);
+  };
   
+  const handleMapSearch = async (bounds: MapBounds) => {
+      setLoadingMap(true);
+      try {
+          const found = await getMarketplaceInBounds(bounds);
+          setMapItems(found.map(item => ({ ...item, user_id: item.user_id || (item as any).owner_id })));
+      } catch (err) {
+          console.error("Error fetching map listings:", JSON.stringify(err));
+      } finally {
+          setLoadingMap(false);
+      }
+  };
+
+  // Memoised so the map only redraws its pins when the results or filters change
+  const mapListings = useMemo<MapListing[]>(() => mapItems.filter(matchesFilters).map(item => ({
+      id: item.id,
+      lat: item.location_lat!,
+      lng: item.location_lng!,
+      title: item.title,
+      subtitle: `${formatPrice(item.price)}${unitLabel(item)} · ${item.category}${item.sold_out ? ' · Sold out' : ''}`,
+      imageUrl: item.image_urls?.[0]
+  })), [mapItems, searchTerm, selectedCategory, priceBucket, selectedRegion, formatPrice]);
+
+  // Prefer the list copy, which carries the user's like state
+  const handleOpenFromMap = (id: string) => {
+      const item = items.find(i => i.id === id) || mapItems.find(i => i.id === id);
+      if (item) setDetailsItem(item);
+  };
+
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       if (e.target.files && e.target.files.length > 0) {
           const file = e.target.files[0];
@@ -389,6 +600,11 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
           price: 0,
           usage_instructions: '',
           location_name: '',
+          region: null,
+          unit: '',
+          stock_quantity: null,
+          min_order_quantity: 1,
+          price_tiers: []
       });
       setItemImages([]);
       setImagePreviews([]);
@@ -404,6 +620,13 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
           addNotification({ type: 'market', title: 'Validation', message: 'Please fill in required fields.', view: 'MARKETPLACE' });
           return;
       }
+      const priceTiers = (newItem.price_tiers || [])
+          .filter(t => t.min_quantity > 0 && t.unit_price > 0)
+          .sort((a, b) => a.min_quantity - b.min_quantity);
+      if (priceTiers.some((t, i) => t.min_quantity <= (i === 0 ? 1 : priceTiers[i - 1].min_quantity) || t.unit_price >= (i === 0 ? newItem.price! : priceTiers[i - 1].unit_price))) {
+          addNotification({ type: 'market', title: 'Validation', message: 'Each bulk price needs a larger quantity and a lower price than the one before it.', view: 'MARKETPLACE' });
+          return;
+      }
 
       setIsSubmitting(true);
       try {
@@ -423,6 +646,11 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
               price: newItem.price,
               usage_instructions: newItem.usage_instructions,
               location_name: newItem.location_name || 'Ghana',
+              region: newItem.region || null,
+              unit: newItem.unit || null,
+              stock_quantity: newItem.stock_quantity ?? null,
+              min_order_quantity: newItem.min_order_quantity || 1,
+              price_tiers: priceTiers,
               location_lat: newItem.location_lat,
               location_lng: newItem.location_lng,
               image_url: imageUrl,
@@ -461,9 +689,14 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
            </div>
            <div className="flex gap-2">
                {user && (
-                   <Button onClick={goToMyStore} className="bg-white !text-purple-700 border border-purple-200 hover:bg-purple-50 shadow-sm">
-                       <ShoppingCartIcon className="w-5 h-5 mr-2" /> My Store
-                   </Button>
+                   <>
+                       <Button onClick={() => setActiveView('ORDERS')} className="bg-white !text-green-700 border border-green-200 hover:bg-green-50 shadow-sm">
+                           <ClipboardListIcon className="w-5 h-5 mr-2" /> My Orders
+                       </Button>
+                       <Button onClick={goToMyStore} className="bg-white !text-purple-700 border border-purple-200 hover:bg-purple-50 shadow-sm">
+                           <ShoppingCartIcon className="w-5 h-5 mr-2" /> My Store
+                       </Button>
+                   </>
                )}
                <Button onClick={() => { 
                    if(!user) { onRequireLogin(); return; }
@@ -486,6 +719,41 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
                />
                <SearchIcon className="absolute left-3 top-2.5 text-gray-400 w-5 h-5" />
            </div>
+           <div className="flex gap-2 shrink-0">
+               <select
+                   value={sortBy}
+                   onChange={e => setSortBy(e.target.value as MarketplaceSort)}
+                   title="Sort listings"
+                   className="px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 text-gray-900 text-sm"
+               >
+                   <option value="relevance">Best match</option>
+                   <option value="newest">Newest</option>
+                   <option value="nearest" disabled={!location}>{location ? 'Nearest' : `Nearest (${geoError || 'locating...'})`}</option>
+                   <option value="price_asc">Price: low to high</option>
+                   <option value="price_desc">Price: high to low</option>
+               </select>
+               <select
+                   value={radiusKm ?? ''}
+                   onChange={e => setRadiusKm(e.target.value ? Number(e.target.value) : null)}
+                   disabled={!location}
+                   title={location ? 'Only show listings within' : geoError || 'Waiting for your location...'}
+                   className="px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 text-gray-900 text-sm disabled:opacity-50"
+               >
+                   <option value="">Any distance</option>
+                   {SEARCH_RADII_KM.map(km => <option key={km} value={km}>Within {km} km</option>)}
+               </select>
+               <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+                   {(['list', 'map'] as const).map(mode => (
+                       <button
+                           key={mode}
+                           onClick={() => setViewMode(mode)}
+                           className={`px-3 py-2 capitalize ${viewMode === mode ? 'bg-purple-100 text-purple-800 font-medium' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                       >
+                           {mode}
+                       </button>
+                   ))}
+               </div>
+           </div>
            <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1 md:pb-0">
                {categories.map(cat => (
                    <button 
@@ -494,15 +762,64 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
                        className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap border transition-colors ${selectedCategory === cat ? 'bg-purple-100 text-purple-800 border-purple-200' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'}`}
                    >
                        {cat}
+                       {cat !== 'All' && facets && <span className="ml-1 text-xs opacity-60">{facetCount('category', cat)}</span>}
                    </button>
                ))}
            </div>
        </div>
 
-       {/* Items Grid - Optimized for Laptop/Desktop (XL screens) */}
+       {/* Facets */}
+       <div className="flex flex-wrap items-center gap-2 text-sm">
+           {PRICE_BUCKETS.map(bucket => (
+               <button
+                   key={bucket.value}
+                   onClick={() => setPriceBucket(priceBucket === bucket.value ? null : bucket.value)}
+                   className={`px-3 py-1.5 rounded-full border whitespace-nowrap ${priceBucket === bucket.value ? 'bg-purple-100 text-purple-800 border-purple-200' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'}`}
+               >
+                   {priceBucketLabel(bucket)} <span className="text-xs opacity-60">{facetCount('price', bucket.value)}</span>
+               </button>
+           ))}
+           <select
+               value={selectedRegion ?? ''}
+               onChange={e => setSelectedRegion(e.target.value || null)}
+               className="px-3 py-1.5 border border-gray-200 rounded-full bg-white text-gray-700"
+           >
+               <option value="">All regions</option>
+               {GHANA_REGIONS.map(region => (
+                   <option key={region} value={region}>{region} ({facetCount('region', region)})</option>
+               ))}
+           </select>
+           <select
+               value={minRating ?? ''}
+               onChange={e => setMinRating(e.target.value ? Number(e.target.value) : null)}
+               className="px-3 py-1.5 border border-gray-200 rounded-full bg-white text-gray-700"
+           >
+               <option value="">Any seller rating</option>
+               {['4', '3'].map(value => (
+                   <option key={value} value={value}>{value}★ & up ({facetCount('rating', value)})</option>
+               ))}
+           </select>
+           {hasFacetFilters && (
+               <button onClick={clearFacetFilters} className="text-xs font-bold text-purple-700 hover:underline">Clear filters</button>
+           )}
+           {viewMode === 'list' && !loading && (
+               <span className="ml-auto text-xs text-gray-500">{totalItems} listing{totalItems === 1 ? '' : 's'}</span>
+           )}
+       </div>
+
+       {viewMode === 'map' ? (
+           <ListingMap
+               listings={mapListings}
+               center={location}
+               loading={loadingMap}
+               onSearch={handleMapSearch}
+               onOpen={handleOpenFromMap}
+           />
+       ) : (
+       /* Items Grid - Optimized for Laptop/Desktop (XL screens) */
        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
            {loading ? <p className="col-span-full text-center py-10">Loading marketplace...</p> : 
-            filteredItems.map(item => (
+            items.map(item => (
                 <Card key={item.id} className="flex flex-col h-full hover:shadow-lg transition-shadow overflow-hidden group">
                     <div className="relative h-48 -mx-4 -mt-4 sm:-mx-6 sm:-mt-6 mb-4 bg-gray-100 overflow-hidden cursor-pointer" onClick={() => setDetailsItem(item)}>
                         <img 
@@ -513,6 +830,14 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
                         <span className="absolute bottom-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded">
                             {item.category}
                         </span>
+                        {item.distance_km != null && (
+                            <span className="absolute bottom-2 right-2 bg-black/60 text-white text-xs px-2 py-1 rounded">
+                                {formatDistance(item.distance_km)} away
+                            </span>
+                        )}
+                        {item.sold_out && (
+                            <span className="absolute top-2 left-2 bg-red-600 text-white text-xs font-bold px-2 py-1 rounded uppercase">Sold out</span>
+                        )}
                     </div>
                     
                     {/* Item Details in Card */}
@@ -521,11 +846,19 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
                             <h3 className="text-lg font-bold text-gray-900 leading-tight truncate w-full mb-1">{item.title}</h3>
                         </div>
                         <div className="flex justify-between items-center">
-                            <span className="text-green-700 font-bold">GHS {item.price.toFixed(2)}</span>
+                            <span className="text-green-700 font-bold">
+                                {formatPrice(item.price)}<span className="text-xs font-normal text-gray-500">{unitLabel(item)}</span>
+                            </span>
                             <div className="text-xs text-gray-500 flex items-center gap-1">
                                 <UserCircleIcon className="w-3 h-3"/> {item.seller_name}
                             </div>
                         </div>
+                        {item.stock_quantity != null && !item.sold_out && (
+                            <p className="text-xs text-gray-500 mt-1">
+                                {item.stock_quantity} {item.unit || 'units'} available
+                                {(item.min_order_quantity || 1) > 1 && ` · min. order ${item.min_order_quantity}`}
+                            </p>
+                        )}
                     </div>
 
                     <div className="mt-auto grid grid-cols-2 gap-3 pt-3 border-t border-gray-100">
@@ -536,16 +869,28 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
                             Details
                         </Button>
                         <Button 
-                            onClick={() => handleOpenChat(item)} 
+                            onClick={() => handleOpenCheckout(item)} 
+                            disabled={item.sold_out}
                             className="bg-green-700 hover:bg-green-800 py-2 text-sm flex items-center justify-center gap-1 shadow-md"
                         >
-                            <ShoppingCartIcon className="w-4 h-4" /> Buy Now
+                            <ShoppingCartIcon className="w-4 h-4" /> {item.sold_out ? 'Sold Out' : 'Buy Now'}
                         </Button>
                     </div>
                 </Card>
             ))
            }
+           {!loading && items.length === 0 && (
+               <p className="col-span-full text-center py-10 text-gray-500">No listings found{location && radiusKm ? ` within ${radiusKm} km of you` : ''}.</p>
+           )}
+           {!loading && hasMore && (
+               <div ref={loadMoreRef} className="col-span-full flex justify-center py-4">
+                   <Button onClick={() => fetchItems(items.length)} isLoading={loadingMore} className="bg-gray-200 !text-gray-900 hover:bg-gray-300 py-2 text-sm shadow-none">
+                       Load more
+                   </Button>
+               </div>
+           )}
        </div>
+       )}
 
         {/* Sell Item Modal */}
         {showAddModal && (
@@ -580,7 +925,7 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
                                 </select>
                             </div>
                             <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-1">Price (GHS)</label>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Price per Unit (GHS)</label>
                                 <input 
                                     type="number" 
                                     required
@@ -592,6 +937,83 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
                             </div>
                         </div>
 
+                        <div className="grid grid-cols-3 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+                                <select
+                                    value={newItem.unit || ''}
+                                    onChange={e => setNewItem({...newItem, unit: e.target.value})}
+                                    className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                                >
+                                    <option value="">Each</option>
+                                    {LISTING_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">In Stock</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={1}
+                                    value={newItem.stock_quantity ?? ''}
+                                    onChange={e => setNewItem({...newItem, stock_quantity: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value) || 0)})}
+                                    className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                                    placeholder="Not tracked"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Min. Order</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    step={1}
+                                    value={newItem.min_order_quantity || 1}
+                                    onChange={e => setNewItem({...newItem, min_order_quantity: Math.max(1, parseInt(e.target.value) || 1)})}
+                                    className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <label className="block text-sm font-medium text-gray-700">Bulk Prices (optional)</label>
+                                <button
+                                    type="button"
+                                    onClick={() => setNewItem({...newItem, price_tiers: [...(newItem.price_tiers || []), { min_quantity: 0, unit_price: 0 }]})}
+                                    className="text-xs font-bold text-green-700 hover:underline flex items-center gap-1"
+                                >
+                                    <PlusIcon className="w-3 h-3" /> Add tier
+                                </button>
+                            </div>
+                            {(newItem.price_tiers || []).map((tier, index) => (
+                                <div key={index} className="flex items-center gap-2 mb-2 text-sm text-gray-600">
+                                    <span>From</span>
+                                    <input
+                                        type="number"
+                                        min={2}
+                                        step={1}
+                                        value={tier.min_quantity || ''}
+                                        onChange={e => setNewItem({...newItem, price_tiers: newItem.price_tiers!.map((t, i) => i === index ? { ...t, min_quantity: parseInt(e.target.value) || 0 } : t)})}
+                                        className="w-20 p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                                        placeholder="Qty"
+                                    />
+                                    <span>at GHS</span>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step="0.01"
+                                        value={tier.unit_price || ''}
+                                        onChange={e => setNewItem({...newItem, price_tiers: newItem.price_tiers!.map((t, i) => i === index ? { ...t, unit_price: parseFloat(e.target.value) || 0 } : t)})}
+                                        className="flex-grow p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                                        placeholder="Price each"
+                                    />
+                                    <button type="button" onClick={() => setNewItem({...newItem, price_tiers: newItem.price_tiers!.filter((_, i) => i !== index)})} className="text-gray-400 hover:text-red-600">
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+
                         <div>
                             <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
                             <div className="flex gap-2">
@@ -605,6 +1027,14 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
                                     <GridIcon className="w-5 h-5" />
                                 </button>
                             </div>
+                            <select
+                                value={newItem.region || ''}
+                                onChange={e => setNewItem({...newItem, region: e.target.value || null})}
+                                className="w-full mt-2 p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                            >
+                                <option value="">Region (helps buyers find you)</option>
+                                {GHANA_REGIONS.map(region => <option key={region} value={region}>{region}</option>)}
+                            </select>
                         </div>
 
                         <div>
@@ -614,7 +1044,7 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
                                 onChange={e => setNewItem({...newItem, usage_instructions: e.target.value})} 
                                 className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
                                 rows={3}
-                                placeholder="Quantity, quality, delivery options..."
+                                placeholder="Quality, variety, delivery options..."
                             />
                         </div>
 
@@ -687,13 +1117,35 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
 
                    <div className="space-y-4 text-gray-800">
                        <div className="flex justify-between items-center border-b pb-3">
-                           <span className="text-2xl font-bold text-green-700">GHS {detailsItem.price.toFixed(2)}</span>
+                           <div>
+                               <span className="text-2xl font-bold text-green-700">{formatPrice(detailsItem.price)}</span>
+                               <span className="text-sm text-gray-500">{unitLabel(detailsItem)}</span>
+                               {currency !== 'GHS' && <span className="block text-xs text-gray-500">Listed at GHS {detailsItem.price.toFixed(2)}</span>}
+                           </div>
                            <div className="flex flex-col items-end">
                                <span className="text-xs text-gray-500">Category</span>
                                <span className="font-medium bg-gray-100 px-2 py-0.5 rounded">{detailsItem.category}</span>
                            </div>
                        </div>
 
+                       {(detailsItem.stock_quantity != null || (detailsItem.min_order_quantity || 1) > 1 || !!detailsItem.price_tiers?.length) && (
+                           <div className="bg-green-50 p-3 rounded border border-green-100 text-sm space-y-1">
+                               {detailsItem.stock_quantity != null && (
+                                   <p className={detailsItem.sold_out ? 'font-bold text-red-600' : 'text-gray-700'}>
+                                       {detailsItem.sold_out ? 'Sold out' : `${detailsItem.stock_quantity} ${detailsItem.unit || 'units'} in stock`}
+                                   </p>
+                               )}
+                               {(detailsItem.min_order_quantity || 1) > 1 && (
+                                   <p className="text-gray-700">Minimum order: {detailsItem.min_order_quantity} {detailsItem.unit || 'units'}</p>
+                               )}
+                               {detailsItem.price_tiers?.map(tier => (
+                                   <p key={tier.min_quantity} className="text-green-800">
+                                       {formatPrice(tier.unit_price)}{unitLabel(detailsItem)} when you buy {tier.min_quantity} or more
+                                   </p>
+                               ))}
+                           </div>
+                       )}
+
                        <div>
                            <h4 className="font-bold text-sm text-gray-700 mb-1">Description</h4>
                            <div className="bg-gray-50 p-3 rounded border border-gray-100 text-sm text-gray-600 space-y-2">
@@ -723,12 +1175,15 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
 
                        {user?.uid !== detailsItem.user_id ? (
                            <div className="space-y-2">
+                               <Button onClick={() => handleOpenCheckout(detailsItem)} disabled={detailsItem.sold_out} className="w-full bg-green-700 hover:bg-green-800 py-3 text-base shadow-lg">
+                                   <ShoppingCartIcon className="w-5 h-5 mr-2" /> {detailsItem.sold_out ? 'Sold Out' : 'Buy Now'}
+                               </Button>
                                <Button onClick={() => { 
                                    const itemToChat = detailsItem;
                                    setDetailsItem(null); 
                                    handleOpenChat(itemToChat); 
-                               }} className="w-full bg-green-700 hover:bg-green-800 py-3 text-base shadow-lg">
-                                   <MessageSquareIcon className="w-5 h-5 mr-2" /> Chat with Seller to Buy
+                               }} className="w-full bg-white !text-green-800 border border-green-300 hover:bg-green-50 py-2 text-sm shadow-none">
+                                   <MessageSquareIcon className="w-5 h-5 mr-2" /> Chat with Seller
                                </Button>
                                <button 
                                    onClick={() => {
@@ -752,6 +1207,102 @@ const Marketplace: React.FC<MarketplaceProps> = ({ user, setActiveView, onRequir
            </div>
        )}
 
+       {/* Checkout Modal */}
+       {checkoutItem && (
+           <div className="fixed inset-0 bg-black/60 z-[60] flex items-center justify-center p-4 animate-fade-in">
+               <Card className="w-full max-w-sm">
+                   <div className="flex justify-between items-center mb-4">
+                       <h3 className="text-lg font-bold text-gray-800">Checkout</h3>
+                       <button onClick={() => setCheckoutItem(null)} className="text-gray-500 hover:text-gray-800"><XIcon className="w-6 h-6" /></button>
+                   </div>
+                   <form onSubmit={handlePlaceOrder} className="space-y-4">
+                       <div className="flex items-center gap-3 bg-gray-50 p-3 rounded border border-gray-100">
+                           <img src={checkoutItem.image_urls?.[0] || 'https://placehold.co/100'} alt={checkoutItem.title} className="w-14 h-14 rounded object-cover" />
+                           <div className="min-w-0">
+                               <p className="font-bold text-gray-900 truncate">{checkoutItem.title}</p>
+                               <p className="text-xs text-gray-500">Sold by {checkoutItem.seller_name}</p>
+                               <p className="text-sm font-bold text-green-700">
+                                   {formatPrice(checkoutUnitPrice)}{checkoutItem.unit ? ` per ${checkoutItem.unit}` : ' each'}
+                                   {checkoutUnitPrice < checkoutItem.price && <span className="ml-1 text-xs font-normal text-gray-500 line-through">{formatPrice(checkoutItem.price)}</span>}
+                               </p>
+                           </div>
+                       </div>
+                       <div>
+                           <label className="block text-sm font-medium text-gray-700 mb-1">Quantity{checkoutItem.unit ? ` (${checkoutItem.unit})` : ''}</label>
+                           <input 
+                               type="number"
+                               min={checkoutMinQty}
+                               max={checkoutMaxQty}
+                               step={1}
+                               required
+                               value={checkoutQty}
+                               onChange={e => setCheckoutQty(Math.max(1, parseInt(e.target.value) || 1))}
+                               className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                           />
+                           <p className="text-[11px] text-gray-500 mt-1">
+                               {checkoutMinQty > 1 && `Minimum ${checkoutMinQty}. `}
+                               {checkoutMaxQty !== undefined && `${checkoutMaxQty} available. `}
+                               {checkoutItem.price_tiers?.filter(t => t.min_quantity > checkoutQty).slice(0, 1).map(t => `Buy ${t.min_quantity}+ for ${formatPrice(t.unit_price)} each.`)}
+                           </p>
+                       </div>
+                       <div>
+                           <label className="block text-sm font-medium text-gray-700 mb-1">Delivery Note (optional)</label>
+                           <textarea 
+                               value={checkoutNote}
+                               onChange={e => setCheckoutNote(e.target.value)}
+                               className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                               rows={2}
+                               placeholder="Pickup point, preferred delivery day..."
+                           />
+                       </div>
+                       <div>
+                           <label className="block text-sm font-medium text-gray-700 mb-1">Payment</label>
+                           <div className="grid grid-cols-2 gap-2">
+                               <button 
+                                   type="button"
+                                   onClick={() => setCheckoutPayment('WALLET')}
+                                   className={`p-2 rounded border text-xs font-medium text-left ${checkoutPayment === 'WALLET' ? 'border-green-500 bg-green-50 text-green-800' : 'border-gray-200 text-gray-600'}`}
+                               >
+                                   AgroWallet (Escrow)
+                                   <span className="block text-[10px] text-gray-500">
+                                       Balance: {walletBalance === null ? '...' : `GHS ${walletBalance.toFixed(2)}`}
+                                   </span>
+                               </button>
+                               <button 
+                                   type="button"
+                                   onClick={() => setCheckoutPayment('ON_DELIVERY')}
+                                   className={`p-2 rounded border text-xs font-medium text-left ${checkoutPayment === 'ON_DELIVERY' ? 'border-green-500 bg-green-50 text-green-800' : 'border-gray-200 text-gray-600'}`}
+                               >
+                                   Pay on Delivery
+                                   <span className="block text-[10px] text-gray-500">Settle directly with seller</span>
+                               </button>
+                           </div>
+                           {checkoutPayment === 'WALLET' && (
+                               <p className="text-[11px] text-gray-500 mt-1">Funds are released to the seller only after you confirm delivery, and refunded if the order is cancelled.</p>
+                           )}
+                       </div>
+                       <div className="flex justify-between items-center border-t pt-3">
+                           <span className="text-sm text-gray-500">Total</span>
+                           <div className="text-right">
+                               <span className="text-xl font-bold text-green-700">GHS {checkoutTotal.toFixed(2)}</span>
+                               {currency !== 'GHS' && <span className="block text-xs text-gray-500">≈ {formatPrice(checkoutTotal)}</span>}
+                           </div>
+                       </div>
+                       <Button type="submit" isLoading={isPlacingOrder} className="w-full">
+                           Place Order
+                       </Button>
+                   </form>
+               </Card>
+               {showCheckoutPin && (
+                   <WalletPinModal
+                       subtitle={`Pay GHS ${checkoutTotal.toFixed(2)} into escrow`}
+                       onVerified={() => { setShowCheckoutPin(false); placeOrder(); }}
+                       onCancel={() => setShowCheckoutPin(false)}
+                   />
+               )}
+           </div>
+       )}
+
        {/* Rating Modal */}
        {showRatingModal && detailsItem && (
            <div className="fixed inset-0 bg-black/60 z-[60] flex items-center justify-center p-4 animate-fade-in">
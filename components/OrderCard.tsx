@@ -0,0 +1,110 @@
+import React from 'react';
+import Card from './common/Card';
+import Button from './common/Button';
+import { ClockIcon, TruckIcon, CheckCircleIcon, XIcon, AlertTriangleIcon, DownloadIcon } from './common/icons';
+import type { Order, OrderStatus, OrderPaymentStatus } from '../types';
+import { getAvailableTransitions, OrderRole } from '../services/orderService';
+import { openOrderReceipt } from '../services/statementService';
+
+interface OrderCardProps {
+  order: Order;
+  role: OrderRole;
+  busy?: boolean;
+  viewerName?: string; // Named on the receipt as buyer or seller
+  onTransition: (order: Order, status: OrderStatus) => void;
+}
+
+export const getStatusIcon = (status: OrderStatus) => {
+  switch (status) {
+    case 'Processing': return <ClockIcon className="w-5 h-5 text-yellow-600" />;
+    case 'Shipped': return <TruckIcon className="w-5 h-5 text-blue-600" />;
+    case 'Delivered': return <CheckCircleIcon className="w-5 h-5 text-green-600" />;
+    case 'Cancelled': return <XIcon className="w-5 h-5 text-gray-500" />;
+    case 'Disputed': return <AlertTriangleIcon className="w-5 h-5 text-red-600" />;
+    default: return <ClockIcon className="w-5 h-5 text-gray-400" />;
+  }
+};
+
+export const getStatusColor = (status: OrderStatus) => {
+  switch (status) {
+    case 'Processing': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    case 'Shipped': return 'bg-blue-100 text-blue-800 border-blue-200';
+    case 'Delivered': return 'bg-green-100 text-green-800 border-green-200';
+    case 'Cancelled': return 'bg-gray-100 text-gray-600 border-gray-200';
+    case 'Disputed': return 'bg-red-100 text-red-800 border-red-200';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+const PAYMENT_LABELS: Record<OrderPaymentStatus, { text: string; className: string }> = {
+  unpaid: { text: 'Pay on delivery', className: 'bg-gray-50 text-gray-600 border-gray-200' },
+  held: { text: 'Paid • held in escrow', className: 'bg-purple-50 text-purple-700 border-purple-200' },
+  released: { text: 'Paid • released to seller', className: 'bg-green-50 text-green-700 border-green-200' },
+  refunded: { text: 'Refunded to buyer', className: 'bg-orange-50 text-orange-700 border-orange-200' },
+};
+
+const OrderCard: React.FC<OrderCardProps> = ({ order, role, busy, viewerName, onTransition }) => {
+  const actions = getAvailableTransitions(order.status, role);
+
+  return (
+    <Card className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div className="flex-grow min-w-0">
+            <div className="flex items-center gap-3 mb-2">
+                <h3 className="font-bold text-lg text-gray-900 font-mono">#{order.id.slice(0, 8).toUpperCase()}</h3>
+                <span className={`px-3 py-1 rounded-full text-xs font-medium border flex items-center gap-1 ${getStatusColor(order.status)}`}>
+                    {getStatusIcon(order.status)}
+                    {order.status}
+                </span>
+            </div>
+            <p className="text-sm text-gray-500 mb-2">
+                Placed on {new Date(order.created_at).toLocaleDateString()} • {role === 'buyer' ? 'Seller' : 'Buyer'}: {order.counterparty_name}
+            </p>
+            <div className="flex flex-wrap gap-2">
+                {order.items.map((item, idx) => (
+                    <span key={idx} className="bg-gray-100 text-gray-700 text-xs px-2 py-1 rounded border border-gray-200">
+                        {item.quantity} x {item.title}{item.unit ? ` (${item.unit})` : ''}
+                    </span>
+                ))}
+            </div>
+            {order.delivery_note && <p className="text-xs text-gray-500 mt-2 italic">Note: {order.delivery_note}</p>}
+        </div>
+        <div className="text-right min-w-[140px] w-full md:w-auto">
+            <p className="text-sm text-gray-500">Total Amount</p>
+            <p className="text-xl font-bold text-green-700">{order.currency} {order.total.toFixed(2)}</p>
+            {order.payment_status && (
+                <span className={`inline-block mt-1 text-[10px] font-bold uppercase px-2 py-0.5 rounded border ${PAYMENT_LABELS[order.payment_status].className}`}>
+                    {PAYMENT_LABELS[order.payment_status].text}
+                </span>
+            )}
+            <button
+                onClick={() => {
+                    try {
+                        openOrderReceipt(order, role, viewerName);
+                    } catch (err: any) {
+                        alert(err.message);
+                    }
+                }}
+                className="inline-flex items-center gap-1 mt-2 text-xs font-medium text-green-700 hover:underline"
+            >
+                <DownloadIcon className="w-3 h-3" /> Receipt
+            </button>
+            {actions.length > 0 && (
+                <div className="flex flex-col gap-2 mt-2">
+                    {actions.map(action => (
+                        <Button
+                            key={action.to}
+                            isLoading={busy}
+                            onClick={() => onTransition(order, action.to)}
+                            className={`text-xs py-1.5 ${action.to === 'Cancelled' || action.to === 'Disputed' ? 'bg-red-600 hover:bg-red-700' : ''}`}
+                        >
+                            {action.label}
+                        </Button>
+                    ))}
+                </div>
+            )}
+        </div>
+    </Card>
+  );
+};
+
+export default OrderCard;
@@ -1,29 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import OrderCard from './OrderCard';
+import { ClipboardListIcon } from './common/icons';
+import { supabase } from '../services/supabase';
+import { getBuyerOrders, updateOrderStatus } from '../services/orderService';
+import { useNotifications } from '../contexts/NotificationContext';
+import type { User, Order, OrderStatus } from '../types';
 
-import React from 'react';
-import Card from './common/Card';
-import { ClipboardListIcon, ClockIcon, TruckIcon, CheckCircleIcon } from './common/icons';
-import type { Order } from '../types';
+interface OrdersProps {
+  user: User | null;
+}
 
-const Orders: React.FC = () => {
-  // Orders logic to be implemented with real backend data
-  const orders: Order[] = [];
+const Orders: React.FC<OrdersProps> = ({ user }) => {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const { addNotification } = useNotifications();
 
-  const getStatusIcon = (status: Order['status']) => {
-    switch (status) {
-      case 'Processing': return <ClockIcon className="w-5 h-5 text-yellow-600" />;
-      case 'Shipped': return <TruckIcon className="w-5 h-5 text-blue-600" />;
-      case 'Delivered': return <CheckCircleIcon className="w-5 h-5 text-green-600" />;
-      default: return <ClockIcon className="w-5 h-5 text-gray-400" />;
-    }
+  const fetchOrders = async () => {
+      if (!user?.uid) return;
+      setLoading(true);
+      try {
+          setOrders(await getBuyerOrders(user.uid));
+      } finally {
+          setLoading(false);
+      }
   };
 
-  const getStatusColor = (status: Order['status']) => {
-    switch (status) {
-      case 'Processing': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
-      case 'Shipped': return 'bg-blue-100 text-blue-800 border-blue-200';
-      case 'Delivered': return 'bg-green-100 text-green-800 border-green-200';
-      default: return 'bg-gray-100 text-gray-800';
-    }
+  useEffect(() => {
+      if (!user?.uid) return;
+      fetchOrders();
+
+      // Seller actions (e.g. Shipped) arrive in realtime
+      const channel = supabase
+        .channel('buyer_orders')
+        .on(
+            'postgres_changes',
+            { event: 'UPDATE', schema: 'public', table: 'orders', filter: `buyer_id=eq.${user.uid}` },
+            (payload) => {
+                const updated = payload.new as Order;
+                setOrders(prev => prev.map(o => o.id === updated.id ? { ...o, status: updated.status, payment_status: updated.payment_status, updated_at: updated.updated_at } : o));
+            }
+        )
+        .on(
+            'postgres_changes',
+            { event: 'INSERT', schema: 'public', table: 'orders', filter: `buyer_id=eq.${user.uid}` },
+            () => { fetchOrders(); }
+        )
+        .subscribe();
+
+      return () => { supabase.removeChannel(channel); };
+  }, [user?.uid]);
+
+  const handleTransition = async (order: Order, status: OrderStatus) => {
+      if ((status === 'Cancelled' || status === 'Disputed') && !window.confirm(`Are you sure you want to mark this order as ${status}?`)) return;
+      setUpdatingId(order.id);
+      try {
+          await updateOrderStatus(order.id, status);
+          setOrders(prev => prev.map(o => o.id === order.id ? { ...o, status } : o));
+          addNotification({ type: 'market', title: 'Order Updated', message: `Order marked as ${status}.`, view: 'ORDERS' });
+      } catch (err: any) {
+          console.error("Order update failed:", err);
+          addNotification({ type: 'market', title: 'Error', message: err.message || 'Could not update order.', view: 'ORDERS' });
+      } finally {
+          setUpdatingId(null);
+      }
   };
 
   return (
@@ -39,36 +79,26 @@ const Orders: React.FC = () => {
       </div>
 
       <div className="space-y-4">
-        {orders.length === 0 ? (
+        {!user ? (
+            <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200">
+                <p className="text-gray-500">Please log in to view your orders.</p>
+            </div>
+        ) : loading && orders.length === 0 ? (
+            <p className="text-center py-10 text-gray-400">Loading orders...</p>
+        ) : orders.length === 0 ? (
             <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200">
                 <p className="text-gray-500">No orders found.</p>
             </div>
         ) : (
             orders.map((order) => (
-            <Card key={order.id} className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
-                <div className="flex-grow">
-                    <div className="flex items-center gap-3 mb-2">
-                        <h3 className="font-bold text-lg text-gray-900">{order.id}</h3>
-                        <span className={`px-3 py-1 rounded-full text-xs font-medium border flex items-center gap-1 ${getStatusColor(order.status)}`}>
-                            {getStatusIcon(order.status)}
-                            {order.status}
-                        </span>
-                    </div>
-                    <p className="text-sm text-gray-500 mb-2">Placed on {order.date}</p>
-                    <div className="flex flex-wrap gap-2">
-                        {order.items.map((item, idx) => (
-                            <span key={idx} className="bg-gray-100 text-gray-700 text-xs px-2 py-1 rounded border border-gray-200">
-                                {item}
-                            </span>
-                        ))}
-                    </div>
-                </div>
-                <div className="text-right min-w-[100px]">
-                    <p className="text-sm text-gray-500">Total Amount</p>
-                    <p className="text-xl font-bold text-green-700">GHS {order.total.toFixed(2)}</p>
-                    <button className="mt-2 text-sm text-green-600 hover:underline font-medium">View Receipt</button>
-                </div>
-            </Card>
+                <OrderCard
+                    key={order.id}
+                    order={order}
+                    role="buyer"
+                    viewerName={user?.name}
+                    busy={updatingId === order.id}
+                    onTransition={handleTransition}
+                />
             ))
         )}
       </div>
@@ -5,47 +5,13 @@ import Card from './common/Card';
 import { useNotifications } from '../contexts/NotificationContext';
 import { getMarketPrices } from '../services/geminiService';
 import { Spinner, TagIcon, ArrowUpIcon, ArrowDownIcon, SearchIcon, TractorIcon } from './common/icons';
+import { COMMODITY_STANDARDS } from '../services/marketplaceService';
 
 // Livestock definition consistent with Advisory
 const LIVESTOCK_GROUPS = [
   'Cow', 'Goat', 'Sheep', 'Chicken', 'Guinea Fowl', 'Turkey', 'Pig', 'Snail', 'Rabbit', 'Tilapia/Catfish', 'Eggs'
 ];
 
-// Configuration for Standard Units and Baselines (2025/2026 Market Context)
-const commodityStandards: Record<Crop, { baselinePrice: number, unit: string }> = {
-    [Crop.Maize]: { baselinePrice: 750, unit: "100kg bag" },
-    [Crop.Cassava]: { baselinePrice: 280, unit: "Maxi bag (90kg+)" },
-    [Crop.Yam]: { baselinePrice: 2200, unit: "100 tubers (Medium/Large)" },
-    [Crop.Cocoa]: { baselinePrice: 2587, unit: "64kg bag" },
-    [Crop.Rice]: { baselinePrice: 950, unit: "50kg bag (Standard)" },
-    [Crop.Tomato]: { baselinePrice: 3500, unit: "Crate (Large)" },
-    [Crop.Pepper]: { baselinePrice: 1200, unit: "Maxi bag" },
-    [Crop.Okro]: { baselinePrice: 450, unit: "Basket (Standard)" },
-    [Crop.Eggplant]: { baselinePrice: 350, unit: "Bag" },
-    [Crop.Plantain]: { baselinePrice: 120, unit: "Bunch (Large)" },
-    [Crop.Banana]: { baselinePrice: 150, unit: "Carton" },
-    [Crop.KpakpoShito]: { baselinePrice: 800, unit: "Bucket/Small Bag" },
-    [Crop.Onion]: { baselinePrice: 1500, unit: "Maxi bag" },
-    [Crop.Orange]: { baselinePrice: 300, unit: "100 fruits" },
-    [Crop.Ginger]: { baselinePrice: 1100, unit: "Bag" },
-    [Crop.Sorghum]: { baselinePrice: 800, unit: "100kg bag" },
-    [Crop.Soyabean]: { baselinePrice: 900, unit: "100kg bag" },
-    [Crop.Millet]: { baselinePrice: 800, unit: "100kg bag" },
-    
-    // Livestock
-    [Crop.Cow]: { baselinePrice: 9000, unit: "Live Animal (Medium/Large)" },
-    [Crop.Goat]: { baselinePrice: 1100, unit: "Live Animal (Adult)" },
-    [Crop.Sheep]: { baselinePrice: 1800, unit: "Live Animal (Adult)" },
-    [Crop.Chicken]: { baselinePrice: 150, unit: "Live Bird (Layer/Broiler)" },
-    [Crop.GuineaFowl]: { baselinePrice: 180, unit: "Live Bird" },
-    [Crop.Turkey]: { baselinePrice: 650, unit: "Live Bird" },
-    [Crop.Pig]: { baselinePrice: 2200, unit: "Live Animal (Adult)" },
-    [Crop.Snail]: { baselinePrice: 400, unit: "Crate/Pack (Large)" },
-    [Crop.Rabbit]: { baselinePrice: 250, unit: "Live Animal" },
-    [Crop.Fish]: { baselinePrice: 70, unit: "Kg (Fresh Tilapia)" },
-    [Crop.Eggs]: { baselinePrice: 85, unit: "Crate (Large 30pcs)" },
-};
-
 const PriceAlerts: React.FC = () => {
   const [selectedCommodity, setSelectedCommodity] = useState<Crop>(Crop.Maize);
   const [priceData, setPriceData] = useState<PriceData[]>([]);
@@ -55,7 +21,7 @@ const PriceAlerts: React.FC = () => {
   const { addNotification } = useNotifications();
 
   const isLivestock = LIVESTOCK_GROUPS.includes(selectedCommodity);
-  const standardInfo = commodityStandards[selectedCommodity] || { baselinePrice: 0, unit: 'Standard Unit' };
+  const standardInfo = COMMODITY_STANDARDS[selectedCommodity] || { baselinePrice: 0, unit: 'Standard Unit' };
 
   useEffect(() => {
     const fetchPrices = async () => {
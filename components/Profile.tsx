@@ -3,11 +3,17 @@ import React, { useState, useEffect, useRef } from 'react';
 import Card from './common/Card';
 import Button from './common/Button';
 import { UserCircleIcon, PencilIcon, TrashIcon, UserCircleIcon as UserIcon, PaperClipIcon, EyeIcon, UploadIcon, XIcon, DownloadIcon, ShoppingCartIcon, HeartIcon, ArrowRightIcon, TractorIcon, ShieldCheckIcon, BanknotesIcon, MessageSquareIcon, PhoneIcon, MailIcon, ClockIcon, CheckCircleIcon, AlertTriangleIcon, GridIcon, CheckIcon, DoubleCheckIcon, CameraIcon, StarIcon } from './common/icons';
-import type { User, UserFile, MarketplaceItem, EquipmentItem, View, Transaction, Inquiry, Message, EquipmentType } from '../types';
+import type { User, UserFile, MarketplaceItem, EquipmentItem, View, Transaction, Inquiry, Message, EquipmentType, Order, OrderStatus, EquipmentBooking, BookingStatus, Invoice } from '../types';
 import { supabase } from '../services/supabase';
 import { getUserFiles, deleteUserFile, uploadUserFile, getFreshDownloadUrl } from '../services/storageService';
-import { getTransactionHistory } from '../services/paymentService';
+import { getTransactionHistory, isCreditTransaction, resolveWalletRecipient } from '../services/paymentService';
+import { getSellerOrders, updateOrderStatus } from '../services/orderService';
+import { getOwnerBookings, getRenterBookings, updateBookingStatus, formatDateKey } from '../services/bookingService';
+import { createInvoice, getIssuedInvoices, cancelInvoice, sendInvoiceInChat, getInvoiceLink } from '../services/invoiceService';
+import { renderQrDataUrl } from '../services/qrService';
+import OrderCard from './OrderCard';
 import { useNotifications } from '../contexts/NotificationContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 import { marked } from 'marked';
 import { fileToDataUri } from '../utils';
 
@@ -28,10 +34,11 @@ interface ChatSession {
 }
 
 const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveView }) => {
-  const [activeTab, setActiveTab] = useState<'DETAILS' | 'LISTINGS' | 'LIKES' | 'FILES' | 'TRANSACTIONS' | 'INBOX'>('DETAILS');
+  const [activeTab, setActiveTab] = useState<'DETAILS' | 'LISTINGS' | 'SALES' | 'INVOICES' | 'BOOKINGS' | 'LIKES' | 'FILES' | 'TRANSACTIONS' | 'INBOX'>('DETAILS');
   const [isEditing, setIsEditing] = useState(false);
   const [loading, setLoading] = useState(false);
   const { addNotification } = useNotifications();
+  const { currencies } = useCurrency();
   
   const [files, setFiles] = useState<UserFile[]>([]);
   const [loadingFiles, setLoadingFiles] = useState(false);
@@ -40,6 +47,15 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
   const [myEquipment, setMyEquipment] = useState<EquipmentItem[]>([]);
   const [likedItems, setLikedItems] = useState<(MarketplaceItem & { image_url?: string })[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [salesOrders, setSalesOrders] = useState<Order[]>([]);
+  const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
+  const [ownerBookings, setOwnerBookings] = useState<EquipmentBooking[]>([]);
+  const [renterBookings, setRenterBookings] = useState<EquipmentBooking[]>([]);
+  const [updatingBookingId, setUpdatingBookingId] = useState<string | null>(null);
+  const [issuedInvoices, setIssuedInvoices] = useState<Invoice[]>([]);
+  const [invoiceForm, setInvoiceForm] = useState({ amount: '', description: '', payer: '', link: '', dueDate: '' }); // link: 'item:<id>' or 'booking:<id>'
+  const [creatingInvoice, setCreatingInvoice] = useState(false);
+  const [invoiceQr, setInvoiceQr] = useState<{ invoice: Invoice; image: string } | null>(null);
   
   // Rating State
   const [myStats, setMyStats] = useState<{ avg: number, count: number } | null>(null);
@@ -51,7 +67,7 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
   // Edit Item State
   const [editingItem, setEditingItem] = useState<MarketplaceItem | EquipmentItem | null>(null);
   const [editType, setEditType] = useState<'market' | 'equipment' | null>(null);
-  const [editFormData, setEditFormData] = useState({
+  const [editFormData, setEditFormData] = useState<{ title: string; price: number; description: string; stock?: number | null }>({
       title: '',
       price: 0,
       description: '',
@@ -74,6 +90,8 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
   const [loadingListings, setLoadingListings] = useState(false);
   const [loadingLikes, setLoadingLikes] = useState(false);
   const [loadingTransactions, setLoadingTransactions] = useState(false);
+  const [loadingSales, setLoadingSales] = useState(false);
+  const [loadingBookings, setLoadingBookings] = useState(false);
 
   // Edit Profile Form
   const [formData, setFormData] = useState<Partial<User>>({
@@ -81,7 +99,8 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
     phone: user?.phone || '',
     merchant_id: user?.merchant_id || '',
     photo_url: user?.photo_url || '',
-    messaging_enabled: user?.messaging_enabled ?? true
+    messaging_enabled: user?.messaging_enabled ?? true,
+    preferred_currency: user?.preferred_currency || 'GHS'
   });
   
   const [newPhoto, setNewPhoto] = useState<File | null>(null);
@@ -92,7 +111,7 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
   useEffect(() => {
     const requestedTab = sessionStorage.getItem('profile_tab');
     if (requestedTab) {
-        if (['DETAILS', 'LISTINGS', 'LIKES', 'FILES', 'TRANSACTIONS', 'INBOX'].includes(requestedTab)) {
+        if (['DETAILS', 'LISTINGS', 'SALES', 'INVOICES', 'BOOKINGS', 'LIKES', 'FILES', 'TRANSACTIONS', 'INBOX'].includes(requestedTab)) {
             setActiveTab(requestedTab as any);
         }
         sessionStorage.removeItem('profile_tab');
@@ -110,6 +129,9 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
       fetchMyProperties();
       fetchLikedItems();
       fetchTransactions();
+      fetchSalesOrders();
+      fetchInvoices();
+      fetchBookings();
       fetchInbox();
       fetchMyRating();
     }
@@ -176,6 +198,82 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
       return () => { supabase.removeChannel(channel); };
   }, [user?.uid, activeTab]);
 
+  // Realtime subscription for orders received as a seller
+  useEffect(() => {
+      if (!user?.uid) return;
+
+      const channel = supabase
+        .channel('profile_seller_orders')
+        .on(
+            'postgres_changes',
+            { event: 'INSERT', schema: 'public', table: 'orders', filter: `seller_id=eq.${user.uid}` },
+            () => {
+                fetchSalesOrders();
+                addNotification({ type: 'market', title: 'New Order', message: 'A buyer just placed an order on your store.', view: 'PROFILE' });
+            }
+        )
+        .on(
+            'postgres_changes',
+            { event: 'UPDATE', schema: 'public', table: 'orders', filter: `seller_id=eq.${user.uid}` },
+            (payload) => {
+                const updated = payload.new as Order;
+                setSalesOrders(prev => prev.map(o => o.id === updated.id ? { ...o, status: updated.status, payment_status: updated.payment_status, updated_at: updated.updated_at } : o));
+            }
+        )
+        .subscribe();
+
+      return () => { supabase.removeChannel(channel); };
+  }, [user?.uid]);
+
+  // Realtime subscription for invoices I issued being paid
+  useEffect(() => {
+      if (!user?.uid) return;
+
+      const channel = supabase
+        .channel('profile_invoices')
+        .on(
+            'postgres_changes',
+            { event: 'UPDATE', schema: 'public', table: 'invoices', filter: `merchant_id=eq.${user.uid}` },
+            (payload) => {
+                const updated = payload.new as Invoice;
+                setIssuedInvoices(prev => prev.map(i => i.id === updated.id ? { ...i, status: updated.status, paid_by: updated.paid_by, paid_at: updated.paid_at } : i));
+                if (updated.status === 'paid') {
+                    addNotification({ type: 'wallet', title: 'Invoice Paid', message: `${updated.invoice_number}: GHS ${Number(updated.amount).toFixed(2)} is in your wallet.`, view: 'PROFILE' });
+                }
+            }
+        )
+        .subscribe();
+
+      return () => { supabase.removeChannel(channel); };
+  }, [user?.uid]);
+
+  // Realtime subscription for booking requests on my equipment
+  useEffect(() => {
+      if (!user?.uid) return;
+
+      const channel = supabase
+        .channel('profile_equipment_bookings')
+        .on(
+            'postgres_changes',
+            { event: 'INSERT', schema: 'public', table: 'equipment_bookings', filter: `owner_id=eq.${user.uid}` },
+            () => {
+                fetchBookings();
+                addNotification({ type: 'rental', title: 'New Booking Request', message: 'Someone wants to rent your equipment.', view: 'PROFILE' });
+            }
+        )
+        .on(
+            'postgres_changes',
+            { event: 'UPDATE', schema: 'public', table: 'equipment_bookings', filter: `renter_id=eq.${user.uid}` },
+            (payload) => {
+                const updated = payload.new as EquipmentBooking;
+                setRenterBookings(prev => prev.map(b => b.id === updated.id ? { ...b, status: updated.status } : b));
+            }
+        )
+        .subscribe();
+
+      return () => { supabase.removeChannel(channel); };
+  }, [user?.uid]);
+
   // Slideshow Logic
   useEffect(() => {
       if (selectedItem) {
@@ -224,6 +322,31 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
       finally { setLoadingTransactions(false); }
   };
 
+  const fetchSalesOrders = async () => {
+      if (!user || !user.uid) return;
+      setLoadingSales(true);
+      try {
+          setSalesOrders(await getSellerOrders(user.uid));
+      } catch (error) { console.error(error); } 
+      finally { setLoadingSales(false); }
+  };
+
+  const fetchInvoices = async () => {
+      if (!user || !user.uid) return;
+      setIssuedInvoices(await getIssuedInvoices(user.uid));
+  };
+
+  const fetchBookings = async () => {
+      if (!user || !user.uid) return;
+      setLoadingBookings(true);
+      try {
+          const [owned, rented] = await Promise.all([getOwnerBookings(user.uid), getRenterBookings(user.uid)]);
+          setOwnerBookings(owned);
+          setRenterBookings(rented);
+      } catch (error) { console.error(error); } 
+      finally { setLoadingBookings(false); }
+  };
+
   const fetchMyProperties = async () => {
       if (!user || !user.uid) return;
       setLoadingListings(true);
@@ -297,7 +420,7 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
               const enrichedSessions = sessions.map(s => ({
                   ...s,
                   sender_name: userMap.get(s.sender_id) || 'Unknown User',
-                  item_title: itemMap.get(s.item_id) || 'Unknown Item'
+                  item_title: itemMap.get(s.item_id) || (s.item_id?.startsWith('INV-') ? `Invoice ${s.item_id}` : 'Unknown Item')
               }));
               setChatSessions(enrichedSessions);
           }
@@ -322,6 +445,7 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
               name: formData.name,
               phone: formData.phone,
               photo_url: photoUrl,
+              preferred_currency: formData.preferred_currency,
           };
 
           const { error } = await supabase.from('users').update(updates).eq('id', user?.uid);
@@ -397,6 +521,131 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
       finally { setSendingChat(false); }
   };
 
+  const handleSalesTransition = async (order: Order, status: OrderStatus) => {
+      if (status === 'Cancelled' && !window.confirm("Cancel this order? The buyer will be notified.")) return;
+      setUpdatingOrderId(order.id);
+      try {
+          await updateOrderStatus(order.id, status);
+          setSalesOrders(prev => prev.map(o => o.id === order.id ? { ...o, status } : o));
+          addNotification({ type: 'market', title: 'Order Updated', message: `Order marked as ${status}.`, view: 'PROFILE' });
+      } catch (err: any) {
+          console.error("Order update failed", err);
+          addNotification({ type: 'market', title: 'Error', message: err.message || 'Could not update order.', view: 'PROFILE' });
+      } finally {
+          setUpdatingOrderId(null);
+      }
+  };
+
+  const handleBookingStatus = async (booking: EquipmentBooking, status: BookingStatus) => {
+      if (status === 'cancelled' && !window.confirm("Cancel this booking?")) return;
+      setUpdatingBookingId(booking.id);
+      try {
+          await updateBookingStatus(booking.id, status);
+          setOwnerBookings(prev => prev.map(b => b.id === booking.id ? { ...b, status } : b));
+          setRenterBookings(prev => prev.map(b => b.id === booking.id ? { ...b, status } : b));
+          addNotification({ type: 'rental', title: 'Booking Updated', message: `Booking ${status}.`, view: 'PROFILE' });
+      } catch (err: any) {
+          console.error("Booking update failed", err);
+          addNotification({ type: 'rental', title: 'Error', message: err.message || 'Could not update booking.', view: 'PROFILE' });
+      } finally {
+          setUpdatingBookingId(null);
+      }
+  };
+
+  // Linking a listing or booking fills in its price and description
+  const handleInvoiceLinkChange = (link: string) => {
+      const [kind, id] = link.split(':');
+      const item = kind === 'item' ? myListings.find(i => i.id === id) : undefined;
+      const booking = kind === 'booking' ? ownerBookings.find(b => b.id === id) : undefined;
+      setInvoiceForm(prev => ({
+          ...prev,
+          link,
+          amount: item ? String(item.price) : booking ? String(booking.total) : prev.amount,
+          description: item ? item.title : booking ? `Rental: ${booking.equipment_name}, ${formatDateKey(booking.start_date)} – ${formatDateKey(booking.end_date)}` : prev.description,
+          payer: booking ? '' : prev.payer
+      }));
+  };
+
+  const handleCreateInvoice = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const amount = parseFloat(invoiceForm.amount);
+      if (!(amount > 0) || !invoiceForm.description.trim()) {
+          addNotification({ type: 'wallet', title: 'Missing Details', message: 'Enter the amount and what the invoice is for.', view: 'PROFILE' });
+          return;
+      }
+      setCreatingInvoice(true);
+      try {
+          let payerId: string | null = null;
+          if (invoiceForm.payer.trim()) {
+              const payer = await resolveWalletRecipient(invoiceForm.payer);
+              if (!payer) throw new Error('No wallet matches that phone number, merchant ID or wallet ID.');
+              payerId = payer.id;
+          }
+          const [kind, id] = invoiceForm.link.split(':');
+          const invoice = await createInvoice(amount, invoiceForm.description.trim(), {
+              payerId,
+              itemId: kind === 'item' ? id : null,
+              bookingId: kind === 'booking' ? id : null,
+              dueDate: invoiceForm.dueDate || null
+          });
+          setInvoiceForm({ amount: '', description: '', payer: '', link: '', dueDate: '' });
+          fetchInvoices();
+          addNotification({ type: 'wallet', title: 'Invoice Created', message: `${invoice.invoice_number} is ready to share.`, view: 'PROFILE' });
+      } catch (err: any) {
+          addNotification({ type: 'wallet', title: 'Invoice Not Created', message: err.message, view: 'PROFILE' });
+      } finally {
+          setCreatingInvoice(false);
+      }
+  };
+
+  const handleShareInvoice = async (invoice: Invoice) => {
+      const link = getInvoiceLink(invoice.invoice_number);
+      try {
+          if (navigator.share) {
+              await navigator.share({ title: `Invoice ${invoice.invoice_number}`, text: `${invoice.description}: GHS ${Number(invoice.amount).toFixed(2)}`, url: link });
+          } else {
+              await navigator.clipboard.writeText(link);
+              addNotification({ type: 'wallet', title: 'Link Copied', message: 'Paste it to the buyer in any app.', view: 'PROFILE' });
+          }
+      } catch (err: any) {
+          if (err?.name !== 'AbortError') window.prompt('Copy the invoice link:', link);
+      }
+  };
+
+  const handleShowInvoiceQr = async (invoice: Invoice) => {
+      setInvoiceQr({ invoice, image: await renderQrDataUrl(getInvoiceLink(invoice.invoice_number), 320) });
+  };
+
+  const handleSendInvoiceInChat = async (invoice: Invoice) => {
+      if (!user?.uid) return;
+      try {
+          const booking = ownerBookings.find(b => b.id === invoice.booking_id);
+          await sendInvoiceInChat(invoice, user.uid, booking?.equipment_id);
+          addNotification({ type: 'wallet', title: 'Invoice Sent', message: `${invoice.payer_name || 'The buyer'} can pay it from the chat.`, view: 'PROFILE' });
+      } catch (err: any) {
+          addNotification({ type: 'wallet', title: 'Not Sent', message: err.message, view: 'PROFILE' });
+      }
+  };
+
+  const handleCancelInvoice = async (invoice: Invoice) => {
+      if (!window.confirm(`Cancel invoice ${invoice.invoice_number}?`)) return;
+      try {
+          const updated = await cancelInvoice(invoice.id);
+          setIssuedInvoices(prev => prev.map(i => i.id === updated.id ? { ...i, status: updated.status } : i));
+      } catch (err: any) {
+          addNotification({ type: 'wallet', title: 'Error', message: err.message, view: 'PROFILE' });
+      }
+  };
+
+  const getBookingStatusColor = (status: BookingStatus) => {
+      switch (status) {
+          case 'accepted': return 'bg-green-100 text-green-800';
+          case 'pending': return 'bg-yellow-100 text-yellow-800';
+          case 'declined': return 'bg-red-100 text-red-800';
+          default: return 'bg-gray-100 text-gray-600';
+      }
+  };
+
   const handleFileDelete = async (file: UserFile) => {
       if (!window.confirm("Are you sure you want to delete this file?")) return;
       if (!user?.uid) return;
@@ -439,6 +688,7 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
               title: mItem.title,
               price: mItem.price,
               description: mItem.usage_instructions || '',
+              stock: mItem.stock_quantity ?? null,
           });
       } else {
           const eItem = item as EquipmentItem;
@@ -461,12 +711,13 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
                   title: editFormData.title,
                   price: parseFloat(editFormData.price.toString()),
                   usage_instructions: editFormData.description,
+                  stock_quantity: editFormData.stock ?? null,
               };
               const { error } = await supabase.from('marketplace').update(updates).eq('id', editingItem.id);
               if (error) throw error;
               
               // Update local state
-              setMyListings(prev => prev.map(i => i.id === editingItem.id ? { ...i, ...updates } : i));
+              setMyListings(prev => prev.map(i => i.id === editingItem.id ? { ...i, ...updates, sold_out: updates.stock_quantity === 0 } : i));
 
           } else {
               const updates = {
@@ -569,6 +820,16 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
                                 className="w-full p-2 border rounded text-sm text-gray-900 bg-gray-50" 
                                 placeholder="Phone Number" 
                            />
+                           <select
+                                value={formData.preferred_currency}
+                                onChange={e => setFormData({...formData, preferred_currency: e.target.value})}
+                                className="w-full p-2 border rounded text-sm text-gray-900 bg-gray-50"
+                                title="Prices are shown in this currency"
+                           >
+                                {(currencies.length ? currencies.map(c => c.code) : ['GHS']).map(code => (
+                                    <option key={code} value={code}>Show prices in {code}</option>
+                                ))}
+                           </select>
                            <div className="flex gap-2">
                                <Button type="submit" isLoading={loading} className="flex-1 text-xs py-2">Save</Button>
                                <Button type="button" onClick={() => { setIsEditing(false); setPhotoPreview(null); }} className="flex-1 text-xs py-2 bg-gray-200 !text-gray-800 hover:bg-gray-300">Cancel</Button>
@@ -581,7 +842,7 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
           <div className="lg:col-span-3">
               <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden text-gray-900 min-h-[500px]">
                   <div className="flex border-b overflow-x-auto no-scrollbar">
-                      {['DETAILS', 'INBOX', 'LISTINGS', 'LIKES', 'FILES', 'TRANSACTIONS'].map((tab) => (
+                      {['DETAILS', 'INBOX', 'LISTINGS', 'SALES', 'INVOICES', 'BOOKINGS', 'LIKES', 'FILES', 'TRANSACTIONS'].map((tab) => (
                           <button 
                             key={tab}
                             onClick={() => setActiveTab(tab as any)} 
@@ -639,7 +900,10 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
                                                    <div className="p-3">
                                                        <h5 className="font-bold text-sm text-gray-900 truncate">{item.title}</h5>
                                                        <div className="flex justify-between items-center mt-1">
-                                                            <p className="text-green-700 font-bold text-sm">GHS {item.price}</p>
+                                                            <p className="text-green-700 font-bold text-sm">GHS {item.price}{item.unit ? ` / ${item.unit}` : ''}</p>
+                                                            {item.sold_out
+                                                                ? <span className="text-[10px] font-bold uppercase text-red-600">Sold out</span>
+                                                                : item.stock_quantity != null && <span className="text-xs text-gray-500">{item.stock_quantity} left</span>}
                                                        </div>
                                                        <div className="flex gap-2 mt-2">
                                                             <button 
@@ -688,6 +952,149 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
                            </div>
                       )}
 
+                      {activeTab === 'SALES' && (
+                          <div className="space-y-4">
+                              <h4 className="font-bold text-gray-800 mb-3 border-b pb-2">Orders Received</h4>
+                              {loadingSales ? <p>Loading...</p> : salesOrders.length === 0 ? <p className="text-sm text-gray-500 italic">No orders yet.</p> : (
+                                  <div className="space-y-3">
+                                      {salesOrders.map(order => (
+                                          <OrderCard
+                                              key={order.id}
+                                              order={order}
+                                              role="seller"
+                                              viewerName={user?.name}
+                                              busy={updatingOrderId === order.id}
+                                              onTransition={handleSalesTransition}
+                                          />
+                                      ))}
+                                  </div>
+                              )}
+                          </div>
+                      )}
+
+                      {activeTab === 'INVOICES' && (
+                          <div className="space-y-6">
+                              <form onSubmit={handleCreateInvoice} className="p-4 border rounded-lg bg-gray-50 space-y-3">
+                                  <h4 className="font-bold text-gray-800">Request a Payment</h4>
+                                  <select value={invoiceForm.link} onChange={e => handleInvoiceLinkChange(e.target.value)} className="w-full p-2 border rounded-lg bg-white text-sm">
+                                      <option value="">Not linked to a listing or booking</option>
+                                      {myListings.length > 0 && (
+                                          <optgroup label="My products">
+                                              {myListings.map(item => <option key={item.id} value={`item:${item.id}`}>{item.title} (GHS {item.price})</option>)}
+                                          </optgroup>
+                                      )}
+                                      {ownerBookings.some(b => b.status === 'pending' || b.status === 'accepted') && (
+                                          <optgroup label="Equipment bookings">
+                                              {ownerBookings.filter(b => b.status === 'pending' || b.status === 'accepted').map(b => (
+                                                  <option key={b.id} value={`booking:${b.id}`}>{b.equipment_name} · {b.counterparty_name} · {formatDateKey(b.start_date)}</option>
+                                              ))}
+                                          </optgroup>
+                                      )}
+                                  </select>
+                                  <input value={invoiceForm.description} onChange={e => setInvoiceForm({ ...invoiceForm, description: e.target.value })} placeholder="What is it for?" className="w-full p-2 border rounded-lg bg-white text-sm" />
+                                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                                      <input type="number" value={invoiceForm.amount} onChange={e => setInvoiceForm({ ...invoiceForm, amount: e.target.value })} placeholder="Amount (GHS)" className="p-2 border rounded-lg bg-white text-sm" />
+                                      <input
+                                        value={invoiceForm.link.startsWith('booking:') ? 'The renter' : invoiceForm.payer}
+                                        disabled={invoiceForm.link.startsWith('booking:')}
+                                        onChange={e => setInvoiceForm({ ...invoiceForm, payer: e.target.value })}
+                                        placeholder="Buyer phone (optional)"
+                                        className="p-2 border rounded-lg bg-white text-sm disabled:bg-gray-100"
+                                      />
+                                      <input type="date" value={invoiceForm.dueDate} min={new Date().toISOString().slice(0, 10)} onChange={e => setInvoiceForm({ ...invoiceForm, dueDate: e.target.value })} className="p-2 border rounded-lg bg-white text-sm" title="Due date (optional)" />
+                                  </div>
+                                  <p className="text-xs text-gray-500">Without a buyer, anyone with the link or QR code can pay it.</p>
+                                  <Button type="submit" isLoading={creatingInvoice} className="text-sm py-2">Create Invoice</Button>
+                              </form>
+
+                              <div>
+                                  <h4 className="font-bold text-gray-800 mb-3 border-b pb-2">Issued Invoices</h4>
+                                  {issuedInvoices.length === 0 ? <p className="text-sm text-gray-500 italic">No invoices yet.</p> : (
+                                      <div className="space-y-2">
+                                          {issuedInvoices.map(invoice => (
+                                              <div key={invoice.id} className="p-4 border rounded-lg bg-white flex flex-col sm:flex-row justify-between gap-3">
+                                                  <div className="min-w-0">
+                                                      <p className="font-bold text-gray-900">
+                                                          {invoice.invoice_number}
+                                                          <span className={`ml-2 px-2 py-0.5 rounded text-xs capitalize ${invoice.status === 'paid' ? 'bg-green-100 text-green-800' : invoice.status === 'open' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-600'}`}>{invoice.status}</span>
+                                                      </p>
+                                                      <p className="text-sm text-gray-600 truncate">{invoice.description}</p>
+                                                      <p className="text-xs text-gray-500">
+                                                          {invoice.payer_name ? `To ${invoice.payer_name}` : 'Anyone with the link'}
+                                                          {invoice.due_date && ` · due ${formatDateKey(invoice.due_date)}`}
+                                                          {invoice.paid_at && ` · paid ${new Date(invoice.paid_at).toLocaleString()}`}
+                                                      </p>
+                                                  </div>
+                                                  <div className="text-right flex-shrink-0">
+                                                      <p className="font-bold text-green-700">GHS {Number(invoice.amount).toFixed(2)}</p>
+                                                      {invoice.status === 'open' && (
+                                                          <div className="flex gap-3 mt-2 text-xs font-bold justify-end">
+                                                              <button onClick={() => handleShareInvoice(invoice)} className="text-blue-600 hover:underline">Link</button>
+                                                              <button onClick={() => handleShowInvoiceQr(invoice)} className="text-blue-600 hover:underline">QR</button>
+                                                              {invoice.payer_id && <button onClick={() => handleSendInvoiceInChat(invoice)} className="text-blue-600 hover:underline">Chat</button>}
+                                                              <button onClick={() => handleCancelInvoice(invoice)} className="text-red-600 hover:underline">Cancel</button>
+                                                          </div>
+                                                      )}
+                                                  </div>
+                                              </div>
+                                          ))}
+                                      </div>
+                                  )}
+                              </div>
+                          </div>
+                      )}
+
+                      {activeTab === 'BOOKINGS' && (
+                          <div className="space-y-8">
+                              <div>
+                                  <h4 className="font-bold text-gray-800 mb-3 border-b pb-2">Requests for My Equipment</h4>
+                                  {loadingBookings ? <p>Loading...</p> : ownerBookings.length === 0 ? <p className="text-sm text-gray-500 italic">No booking requests.</p> : (
+                                      <div className="space-y-2">
+                                          {ownerBookings.map(b => (
+                                              <div key={b.id} className="p-4 border rounded-lg bg-white flex flex-col sm:flex-row justify-between gap-3">
+                                                  <div>
+                                                      <p className="font-bold text-gray-900">{b.equipment_name} <span className={`ml-2 px-2 py-0.5 rounded text-xs capitalize ${getBookingStatusColor(b.status)}`}>{b.status}</span></p>
+                                                      <p className="text-sm text-gray-600">{b.counterparty_name} • {formatDateKey(b.start_date)} – {formatDateKey(b.end_date)} ({b.days} day{b.days > 1 ? 's' : ''})</p>
+                                                      {b.note && <p className="text-xs text-gray-500 italic mt-1">"{b.note}"</p>}
+                                                  </div>
+                                                  <div className="text-right">
+                                                      <p className="font-bold text-indigo-700">GHS {b.total.toFixed(2)}</p>
+                                                      {b.status === 'pending' && (
+                                                          <div className="flex gap-2 mt-2">
+                                                              <Button onClick={() => handleBookingStatus(b, 'accepted')} isLoading={updatingBookingId === b.id} className="text-xs py-1 px-3">Accept</Button>
+                                                              <Button onClick={() => handleBookingStatus(b, 'declined')} isLoading={updatingBookingId === b.id} className="text-xs py-1 px-3 bg-red-600 hover:bg-red-700">Decline</Button>
+                                                          </div>
+                                                      )}
+                                                  </div>
+                                              </div>
+                                          ))}
+                                      </div>
+                                  )}
+                              </div>
+                              <div>
+                                  <h4 className="font-bold text-gray-800 mb-3 border-b pb-2">My Rentals</h4>
+                                  {loadingBookings ? <p>Loading...</p> : renterBookings.length === 0 ? <p className="text-sm text-gray-500 italic">You have not booked any equipment.</p> : (
+                                      <div className="space-y-2">
+                                          {renterBookings.map(b => (
+                                              <div key={b.id} className="p-4 border rounded-lg bg-white flex flex-col sm:flex-row justify-between gap-3">
+                                                  <div>
+                                                      <p className="font-bold text-gray-900">{b.equipment_name} <span className={`ml-2 px-2 py-0.5 rounded text-xs capitalize ${getBookingStatusColor(b.status)}`}>{b.status}</span></p>
+                                                      <p className="text-sm text-gray-600">Owner: {b.counterparty_name} • {formatDateKey(b.start_date)} – {formatDateKey(b.end_date)}</p>
+                                                  </div>
+                                                  <div className="text-right">
+                                                      <p className="font-bold text-indigo-700">GHS {b.total.toFixed(2)}</p>
+                                                      {(b.status === 'pending' || b.status === 'accepted') && (
+                                                          <button onClick={() => handleBookingStatus(b, 'cancelled')} className="mt-2 text-xs text-red-600 hover:underline">Cancel Booking</button>
+                                                      )}
+                                                  </div>
+                                              </div>
+                                          ))}
+                                      </div>
+                                  )}
+                              </div>
+                          </div>
+                      )}
+
                       {activeTab === 'LIKES' && (
                           <div className="space-y-4">
                               <h4 className="font-bold text-gray-800 mb-3 border-b pb-2">Saved Items</h4>
@@ -754,8 +1161,8 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
                                                   <tr key={tx.id}>
                                                       <td className="px-4 py-2 text-gray-600">{new Date(tx.created_at).toLocaleDateString()}</td>
                                                       <td className="px-4 py-2 font-medium text-gray-800">{tx.type}</td>
-                                                      <td className={`px-4 py-2 font-bold ${['DEPOSIT', 'LOAN'].includes(tx.type) ? 'text-green-600' : 'text-red-600'}`}>
-                                                          {['DEPOSIT', 'LOAN'].includes(tx.type) ? '+' : '-'} {tx.amount.toFixed(2)}
+                                                      <td className={`px-4 py-2 font-bold ${isCreditTransaction(tx) ? 'text-green-600' : 'text-red-600'}`}>
+                                                          {isCreditTransaction(tx) ? '+' : '-'} {tx.amount.toFixed(2)}
                                                       </td>
                                                       <td className="px-4 py-2">
                                                           <span className={`px-2 py-0.5 rounded text-xs ${getStatusColor(tx.status)}`}>{tx.status}</span>
@@ -801,6 +1208,20 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
                             required
                         />
                     </div>
+                    {editType === 'market' && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">In Stock{(editingItem as MarketplaceItem).unit ? ` (${(editingItem as MarketplaceItem).unit})` : ''}</label>
+                            <input
+                                type="number"
+                                min={0}
+                                step={1}
+                                value={editFormData.stock ?? ''}
+                                onChange={e => setEditFormData({...editFormData, stock: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value) || 0)})}
+                                className="w-full p-2 border border-gray-300 rounded text-gray-900 bg-gray-50"
+                                placeholder="Not tracked"
+                            />
+                        </div>
+                    )}
                     <div>
                         <label className="block text-sm font-medium text-gray-700 mb-1">Description / Instructions</label>
                         <textarea 
@@ -818,6 +1239,22 @@ const Profile: React.FC<ProfileProps> = ({ user, setUser, onLogout, setActiveVie
         </div>
       )}
 
+      {/* Invoice QR Modal */}
+      {invoiceQr && (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in">
+            <Card className="w-full max-w-sm text-center">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-bold text-gray-800">{invoiceQr.invoice.invoice_number}</h3>
+                    <button onClick={() => setInvoiceQr(null)} className="text-gray-500 hover:text-gray-800"><XIcon className="w-6 h-6" /></button>
+                </div>
+                <img src={invoiceQr.image} alt="Invoice QR" className="w-64 h-64 mx-auto" />
+                <p className="font-bold text-gray-900 mt-3">GHS {Number(invoiceQr.invoice.amount).toFixed(2)}</p>
+                <p className="text-sm text-gray-500">{invoiceQr.invoice.description}</p>
+                <p className="text-xs text-gray-400 mt-3">Scan with the AgroWallet Scan tab or any camera app to pay.</p>
+            </Card>
+        </div>
+      )}
+
       {/* Profile Chat Modal */}
       {isChatOpen && activeChatContext && (
            <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,112 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CameraIcon, UploadIcon } from './common/icons';
+import { decodeQr, decodeQrFromFile } from '../services/qrService';
+
+interface QrScannerProps {
+  onDetected: (text: string) => void;
+  paused?: boolean; // While a scanned code is being looked up
+}
+
+// Scans with the rear camera when the browser allows it; an uploaded photo or screenshot always works.
+const QrScanner: React.FC<QrScannerProps> = ({ onDetected, paused = false }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const pausedRef = useRef(paused);
+  const onDetectedRef = useRef(onDetected);
+  const [cameraError, setCameraError] = useState('');
+  const [fileError, setFileError] = useState('');
+
+  pausedRef.current = paused;
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+          setCameraError('This browser cannot use the camera. Upload a photo of the code instead.');
+          return;
+      }
+
+      let stream: MediaStream | null = null;
+      let frame = 0;
+      let stopped = false;
+      let lastScan = 0;
+
+      const scan = (time: number) => {
+          if (stopped) return;
+          const video = videoRef.current;
+          // A few frames a second is plenty and keeps low-end phones responsive
+          if (video && !pausedRef.current && time - lastScan > 250 && video.readyState >= video.HAVE_ENOUGH_DATA) {
+              lastScan = time;
+              canvasRef.current ??= document.createElement('canvas');
+              const text = decodeQr(video, canvasRef.current);
+              if (text) onDetectedRef.current(text);
+          }
+          frame = requestAnimationFrame(scan);
+      };
+
+      navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+        .then(media => {
+            if (stopped) {
+                media.getTracks().forEach(track => track.stop());
+                return;
+            }
+            stream = media;
+            if (videoRef.current) {
+                videoRef.current.srcObject = media;
+                videoRef.current.play().catch(() => {});
+            }
+            frame = requestAnimationFrame(scan);
+        })
+        .catch(err => {
+            console.error("Camera unavailable:", err);
+            setCameraError(err?.name === 'NotAllowedError'
+                ? 'Camera access was blocked. Allow it in your browser settings, or upload a photo of the code.'
+                : 'No camera found. Upload a photo of the code instead.');
+        });
+
+      return () => {
+          stopped = true;
+          cancelAnimationFrame(frame);
+          stream?.getTracks().forEach(track => track.stop());
+      };
+  }, []);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      setFileError('');
+      try {
+          const text = await decodeQrFromFile(file);
+          if (text) onDetected(text);
+          else setFileError('No QR code found in that image. Try a sharper, closer photo.');
+      } catch (err: any) {
+          setFileError(err.message);
+      }
+  };
+
+  return (
+      <div className="space-y-3">
+          <div className="bg-black rounded-2xl aspect-square flex flex-col items-center justify-center relative overflow-hidden">
+              {cameraError ? (
+                  <>
+                      <CameraIcon className="w-16 h-16 text-gray-600 mb-4 opacity-50" />
+                      <p className="text-gray-400 text-sm px-6">{cameraError}</p>
+                  </>
+              ) : (
+                  <>
+                      <video ref={videoRef} muted playsInline className="absolute inset-0 w-full h-full object-cover" />
+                      <div className="absolute inset-10 border-2 border-green-500/70 rounded-2xl animate-pulse"></div>
+                      <p className="absolute bottom-4 text-white/80 text-sm">{paused ? 'Checking code...' : 'Point camera at QR code'}</p>
+                  </>
+              )}
+          </div>
+          <label className="flex items-center justify-center gap-2 w-full py-3 rounded-lg bg-gray-100 text-gray-800 font-medium hover:bg-gray-200 cursor-pointer">
+              <UploadIcon className="w-4 h-4" /> Upload QR Image
+              <input type="file" accept="image/*" className="hidden" onChange={handleFile} />
+          </label>
+          {fileError && <p className="text-xs text-red-600">{fileError}</p>}
+      </div>
+  );
+};
+
+export default QrScanner;
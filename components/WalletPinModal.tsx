@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import Button from './common/Button';
+import { ShieldCheckIcon, AlertTriangleIcon, Spinner } from './common/icons';
+import { getWalletPinStatus, verifyWalletPin, setWalletPin, getPinProblem } from '../services/walletPinService';
+
+interface WalletPinModalProps {
+  subtitle: string;
+  onVerified: () => void;
+  onCancel: () => void;
+  onForgotPin?: () => void;
+}
+
+type PinStep = 'LOADING' | 'SETUP' | 'VERIFY' | 'LOCKED';
+
+const pinInputClass = "w-32 text-center text-3xl tracking-[0.5em] font-bold border-b-2 border-gray-300 focus:border-green-500 outline-none text-gray-800 bg-transparent";
+
+const WalletPinModal: React.FC<WalletPinModalProps> = ({ subtitle, onVerified, onCancel, onForgotPin }) => {
+  const [step, setStep] = useState<PinStep>('LOADING');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+  const [lockedUntil, setLockedUntil] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+      getWalletPinStatus()
+        .then(status => {
+            if (status.locked_until) {
+                setLockedUntil(status.locked_until);
+                setStep('LOCKED');
+            } else {
+                setStep(status.has_pin ? 'VERIFY' : 'SETUP');
+            }
+        })
+        .catch(err => {
+            console.error("PIN status failed:", err);
+            setError('Could not reach the server. Please try again.');
+            setStep('VERIFY');
+        });
+  }, []);
+
+  const handleVerify = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setBusy(true);
+      setError('');
+      try {
+          const result = await verifyWalletPin(pin);
+          if (result.ok) {
+              onVerified();
+              return;
+          }
+          setPin('');
+          if (result.locked_until) {
+              setLockedUntil(result.locked_until);
+              setStep('LOCKED');
+          } else {
+              setError(`Incorrect PIN. ${result.attempts_left} attempt${result.attempts_left === 1 ? '' : 's'} left.`);
+          }
+      } catch (err: any) {
+          setError(err.message || 'PIN check failed.');
+      } finally {
+          setBusy(false);
+      }
+  };
+
+  const handleSetup = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const problem = getPinProblem(pin);
+      if (problem) { setError(problem); return; }
+      if (pin !== confirmPin) { setError('PINs do not match.'); return; }
+
+      setBusy(true);
+      setError('');
+      try {
+          await setWalletPin(pin);
+          // Setting the PIN doesn't authorise a debit on its own
+          const result = await verifyWalletPin(pin);
+          if (result.ok) onVerified();
+      } catch (err: any) {
+          setError(err.message || 'Could not save PIN.');
+      } finally {
+          setBusy(false);
+      }
+  };
+
+  return (
+      <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 animate-fade-in">
+          <div className="bg-white rounded-2xl p-6 w-full max-w-xs text-center shadow-2xl">
+              {step === 'LOADING' && <Spinner className="w-8 h-8 text-green-600 mx-auto my-10" />}
+
+              {step === 'LOCKED' && (
+                  <>
+                      <AlertTriangleIcon className="w-12 h-12 text-red-600 mx-auto mb-3" />
+                      <h3 className="text-xl font-bold text-gray-900 mb-1">Wallet Locked</h3>
+                      <p className="text-sm text-gray-500 mb-6">
+                          Too many incorrect PIN attempts. Try again after {lockedUntil ? new Date(lockedUntil).toLocaleTimeString() : 'a while'}.
+                      </p>
+                      <Button type="button" onClick={onCancel} className="w-full bg-gray-200 !text-gray-800">Close</Button>
+                  </>
+              )}
+
+              {step === 'VERIFY' && (
+                  <>
+                      <ShieldCheckIcon className="w-12 h-12 text-green-600 mx-auto mb-3" />
+                      <h3 className="text-xl font-bold text-gray-900 mb-1">Enter Security PIN</h3>
+                      <p className="text-sm text-gray-500 mb-6">{subtitle}</p>
+                      <form onSubmit={handleVerify}>
+                          <input
+                              type="password"
+                              inputMode="numeric"
+                              value={pin}
+                              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                              maxLength={4}
+                              autoFocus
+                              className={`${pinInputClass} mb-4`}
+                              placeholder="••••"
+                          />
+                          {error && <p className="text-xs text-red-600 mb-4">{error}</p>}
+                          <div className="grid grid-cols-2 gap-3 mt-4">
+                              <Button type="button" onClick={onCancel} className="bg-gray-200 !text-gray-800">Cancel</Button>
+                              <Button type="submit" disabled={pin.length !== 4} isLoading={busy}>Confirm</Button>
+                          </div>
+                      </form>
+                      {onForgotPin && (
+                          <button type="button" onClick={onForgotPin} className="mt-4 text-xs text-green-700 hover:underline">Forgot PIN?</button>
+                      )}
+                  </>
+              )}
+
+              {step === 'SETUP' && (
+                  <>
+                      <ShieldCheckIcon className="w-12 h-12 text-green-600 mx-auto mb-3" />
+                      <h3 className="text-xl font-bold text-gray-900 mb-1">Create Wallet PIN</h3>
+                      <p className="text-sm text-gray-500 mb-6">Choose a 4-digit PIN to protect payments from your wallet.</p>
+                      <form onSubmit={handleSetup} className="flex flex-col items-center gap-4">
+                          <input
+                              type="password"
+                              inputMode="numeric"
+                              value={pin}
+                              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                              maxLength={4}
+                              autoFocus
+                              className={pinInputClass}
+                              placeholder="••••"
+                          />
+                          <input
+                              type="password"
+                              inputMode="numeric"
+                              value={confirmPin}
+                              onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+                              maxLength={4}
+                              className={pinInputClass}
+                              placeholder="••••"
+                          />
+                          <span className="text-[10px] text-gray-400 uppercase -mt-3">Repeat PIN</span>
+                          {error && <p className="text-xs text-red-600">{error}</p>}
+                          <div className="grid grid-cols-2 gap-3 w-full mt-2">
+                              <Button type="button" onClick={onCancel} className="bg-gray-200 !text-gray-800">Cancel</Button>
+                              <Button type="submit" disabled={pin.length !== 4 || confirmPin.length !== 4} isLoading={busy}>Save PIN</Button>
+                          </div>
+                      </form>
+                  </>
+              )}
+          </div>
+      </div>
+  );
+};
+
+export default WalletPinModal;
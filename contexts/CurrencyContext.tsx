@@ -0,0 +1,54 @@
+import React, { createContext, useState, useContext, useEffect, ReactNode, useCallback } from 'react';
+import { getCurrencies, getFxRates, findFxRate, BASE_CURRENCY } from '../services/currencyService';
+import type { Currency, FxRate, User } from '../types';
+
+interface CurrencyContextType {
+  currency: string; // The user's preferred display currency
+  currencies: Currency[];
+  rates: FxRate[];
+  refreshRates: () => Promise<void>;
+  formatMoney: (amount: number, currency?: string) => string;
+  // Listing prices are stored in GHS; shows them in the preferred currency when a rate exists
+  formatPrice: (amountGhs: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export const CurrencyProvider: React.FC<{ user: User | null; children: ReactNode }> = ({ user, children }) => {
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  const [rates, setRates] = useState<FxRate[]>([]);
+  const currency = user?.preferred_currency || BASE_CURRENCY;
+
+  const refreshRates = useCallback(async () => {
+    setRates(await getFxRates());
+  }, []);
+
+  useEffect(() => {
+    getCurrencies().then(setCurrencies);
+    refreshRates();
+  }, [refreshRates]);
+
+  const formatMoney = useCallback((amount: number, code: string = BASE_CURRENCY) => {
+    const decimals = currencies.find(c => c.code === code)?.decimals ?? 2;
+    return `${code} ${Number(amount).toFixed(decimals)}`;
+  }, [currencies]);
+
+  const formatPrice = useCallback((amountGhs: number) => {
+    const rate = findFxRate(rates, BASE_CURRENCY, currency);
+    return rate === null ? formatMoney(amountGhs) : formatMoney(amountGhs * rate, currency);
+  }, [rates, currency, formatMoney]);
+
+  return (
+    <CurrencyContext.Provider value={{ currency, currencies, rates, refreshRates, formatMoney, formatPrice }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
+
+export const useCurrency = (): CurrencyContextType => {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
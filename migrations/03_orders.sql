@@ -0,0 +1,184 @@
+-- ORDERS (Marketplace checkout)
+create table if not exists public.orders (
+  id uuid default gen_random_uuid() primary key,
+  buyer_id uuid references public.users(id) not null,
+  seller_id uuid references public.users(id) not null,
+  status text not null default 'Processing' check (status in ('Processing', 'Shipped', 'Delivered', 'Cancelled', 'Disputed')),
+  total numeric not null check (total >= 0),
+  currency text default 'GHS',
+  delivery_note text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists public.order_items (
+  id bigint generated by default as identity primary key,
+  order_id uuid references public.orders(id) on delete cascade not null,
+  item_id uuid references public.marketplace(id) on delete set null,
+  title text, -- Cache title so receipts survive listing deletion
+  quantity integer not null default 1 check (quantity > 0),
+  unit_price numeric not null check (unit_price >= 0),
+  created_at timestamptz default now()
+);
+
+create index if not exists orders_buyer_idx on public.orders(buyer_id);
+create index if not exists orders_seller_idx on public.orders(seller_id);
+create index if not exists order_items_order_idx on public.order_items(order_id);
+
+-- STATUS MACHINE
+-- Processing -> Shipped (seller) | Cancelled (buyer or seller)
+-- Shipped    -> Delivered (buyer) | Disputed (buyer)
+-- Disputed   -> Delivered (buyer withdraws) | Cancelled (seller concedes)
+-- Delivered and Cancelled are terminal.
+create or replace function public.enforce_order_transition()
+returns trigger
+language plpgsql
+as $$
+declare
+  actor text;
+begin
+  -- Participants may only move the status, never rewrite the order
+  if auth.uid() is not null then
+    new.buyer_id := old.buyer_id;
+    new.seller_id := old.seller_id;
+    new.currency := old.currency;
+    new.delivery_note := old.delivery_note;
+    new.created_at := old.created_at;
+    if coalesce(current_setting('app.order_total_sync', true), '') <> 'on' then
+      new.total := old.total;
+    end if;
+  end if;
+  new.updated_at := now();
+
+  if new.status = old.status then
+    return new;
+  end if;
+
+  -- Service role (webhooks, admin jobs) bypasses actor checks
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if auth.uid() = old.buyer_id then
+    actor := 'buyer';
+  elsif auth.uid() = old.seller_id then
+    actor := 'seller';
+  else
+    raise exception 'Not a participant in this order';
+  end if;
+
+  if not (
+       (old.status = 'Processing' and new.status = 'Shipped'   and actor = 'seller')
+    or (old.status = 'Processing' and new.status = 'Cancelled')
+    or (old.status = 'Shipped'    and new.status = 'Delivered' and actor = 'buyer')
+    or (old.status = 'Shipped'    and new.status = 'Disputed'  and actor = 'buyer')
+    or (old.status = 'Disputed'   and new.status = 'Delivered' and actor = 'buyer')
+    or (old.status = 'Disputed'   and new.status = 'Cancelled' and actor = 'seller')
+  ) then
+    raise exception 'Invalid order transition % -> % by %', old.status, new.status, actor;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_status_transition on public.orders;
+create trigger orders_status_transition
+  before update on public.orders
+  for each row execute function public.enforce_order_transition();
+
+-- PRICING
+-- The client never sets what is paid: a new order starts at 0, each line is priced from its
+-- listing, and the total is the sum of the lines. Lines without a listing are only written by
+-- server functions, which set app.trusted_order_line.
+create or replace function public.prepare_order()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is not null then
+    new.total := 0;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_prepare on public.orders;
+create trigger orders_prepare
+  before insert on public.orders
+  for each row execute function public.prepare_order();
+
+create or replace function public.price_order_item()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  listing public.marketplace;
+begin
+  if new.item_id is null then
+    if auth.uid() is not null and coalesce(current_setting('app.trusted_order_line', true), '') <> 'on' then
+      raise exception 'Order items must come from a listing';
+    end if;
+    return new;
+  end if;
+
+  select * into listing from public.marketplace where id = new.item_id;
+  if not found then
+    raise exception 'Listing not found';
+  end if;
+  if listing.user_id is distinct from (select seller_id from public.orders where id = new.order_id) then
+    raise exception 'Listing does not belong to the seller of this order';
+  end if;
+
+  new.title := coalesce(new.title, listing.title);
+  new.unit_price := coalesce(listing.price, 0);
+  return new;
+end;
+$$;
+
+drop trigger if exists order_items_price on public.order_items;
+create trigger order_items_price
+  before insert on public.order_items
+  for each row execute function public.price_order_item();
+
+-- app.order_total_sync lets this past enforce_order_transition, which pins the total otherwise
+create or replace function public.sync_order_total()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform set_config('app.order_total_sync', 'on', true);
+  update public.orders
+     set total = (select coalesce(sum(quantity * unit_price), 0) from public.order_items where order_id = new.order_id)
+   where id = new.order_id;
+  perform set_config('app.order_total_sync', 'off', true);
+  return null;
+end;
+$$;
+
+drop trigger if exists order_items_sync_total on public.order_items;
+create trigger order_items_sync_total
+  after insert on public.order_items
+  for each row execute function public.sync_order_total();
+
+-- RLS
+alter table public.orders enable row level security;
+alter table public.order_items enable row level security;
+
+create policy "Participants view orders" on public.orders for select using (auth.uid() = buyer_id or auth.uid() = seller_id);
+create policy "Buyers place orders" on public.orders for insert with check (auth.uid() = buyer_id and buyer_id <> seller_id and status = 'Processing');
+create policy "Participants update orders" on public.orders for update using (auth.uid() = buyer_id or auth.uid() = seller_id);
+
+create policy "Participants view order items" on public.order_items for select using (
+  exists (select 1 from public.orders o where o.id = order_id and (auth.uid() = o.buyer_id or auth.uid() = o.seller_id))
+);
+create policy "Buyers add order items" on public.order_items for insert with check (
+  exists (select 1 from public.orders o where o.id = order_id and auth.uid() = o.buyer_id and o.status = 'Processing')
+);
+
+-- REALTIME
+alter publication supabase_realtime add table public.orders;
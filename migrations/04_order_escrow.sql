@@ -0,0 +1,206 @@
+-- ESCROW FOR MARKETPLACE ORDERS
+-- Buyer funds move into an ESCROW_HOLD when the order is paid from the wallet,
+-- are released to the seller on delivery, and refunded to the buyer on cancellation.
+
+alter table public.transactions add column if not exists order_id uuid references public.orders(id);
+alter table public.orders add column if not exists payment_status text not null default 'unpaid'
+  check (payment_status in ('unpaid', 'held', 'released', 'refunded'));
+
+create index if not exists transactions_order_idx on public.transactions(order_id);
+
+-- Wallet balance as the client computes it (completed rows only)
+create or replace function public.wallet_balance(p_user uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(
+    case
+      when type in ('DEPOSIT', 'LOAN', 'ESCROW_RELEASE', 'ESCROW_REFUND') then amount
+      when type in ('WITHDRAWAL', 'PAYMENT', 'TRANSFER', 'ESCROW_HOLD') then -amount
+      else 0
+    end
+  ), 0)
+  from public.transactions
+  where user_id = p_user and status = 'completed';
+$$;
+
+-- payment_status may only be written by the escrow functions below
+create or replace function public.enforce_order_transition()
+returns trigger
+language plpgsql
+as $$
+declare
+  actor text;
+begin
+  if auth.uid() is not null then
+    new.buyer_id := old.buyer_id;
+    new.seller_id := old.seller_id;
+    new.currency := old.currency;
+    new.delivery_note := old.delivery_note;
+    new.created_at := old.created_at;
+
+    if new.payment_status is distinct from old.payment_status
+       and coalesce(current_setting('app.escrow_write', true), '') <> 'on' then
+      raise exception 'payment_status is managed by escrow';
+    end if;
+    if coalesce(current_setting('app.order_total_sync', true), '') <> 'on' then
+      new.total := old.total;
+    end if;
+  end if;
+  new.updated_at := now();
+
+  if new.status = old.status then
+    return new;
+  end if;
+
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if auth.uid() = old.buyer_id then
+    actor := 'buyer';
+  elsif auth.uid() = old.seller_id then
+    actor := 'seller';
+  else
+    raise exception 'Not a participant in this order';
+  end if;
+
+  if not (
+       (old.status = 'Processing' and new.status = 'Shipped'   and actor = 'seller')
+    or (old.status = 'Processing' and new.status = 'Cancelled')
+    or (old.status = 'Shipped'    and new.status = 'Delivered' and actor = 'buyer')
+    or (old.status = 'Shipped'    and new.status = 'Disputed'  and actor = 'buyer')
+    or (old.status = 'Disputed'   and new.status = 'Delivered' and actor = 'buyer')
+    or (old.status = 'Disputed'   and new.status = 'Cancelled' and actor = 'seller')
+  ) then
+    raise exception 'Invalid order transition % -> % by %', old.status, new.status, actor;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Once paid, the total is what escrow holds and no longer follows the lines
+create or replace function public.sync_order_total()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform set_config('app.order_total_sync', 'on', true);
+  update public.orders
+     set total = (select coalesce(sum(quantity * unit_price), 0) from public.order_items where order_id = new.order_id)
+   where id = new.order_id and payment_status = 'unpaid';
+  perform set_config('app.order_total_sync', 'off', true);
+  return null;
+end;
+$$;
+
+drop policy if exists "Buyers add order items" on public.order_items;
+create policy "Buyers add order items" on public.order_items for insert with check (
+  exists (select 1 from public.orders o where o.id = order_id and auth.uid() = o.buyer_id and o.status = 'Processing' and o.payment_status = 'unpaid')
+);
+
+-- Buyer pays an order from the wallet: debit into escrow
+create or replace function public.escrow_hold(p_order_id uuid)
+returns public.transactions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  o public.orders;
+  buyer public.users;
+  tx public.transactions;
+begin
+  select * into o from public.orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Order not found';
+  end if;
+  if o.buyer_id <> auth.uid() then
+    raise exception 'Only the buyer can pay for this order';
+  end if;
+  if o.status <> 'Processing' or o.payment_status <> 'unpaid' then
+    raise exception 'Order is not awaiting payment';
+  end if;
+
+  -- Serialise concurrent holds for the same buyer
+  perform pg_advisory_xact_lock(hashtext(o.buyer_id::text));
+  if public.wallet_balance(o.buyer_id) < o.total then
+    raise exception 'Insufficient wallet balance';
+  end if;
+
+  select * into buyer from public.users where id = o.buyer_id;
+
+  insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description, order_id)
+  values (o.buyer_id, o.total, o.currency, 'ESCROW_HOLD', 'completed', 'Wallet', 'ESC-' || o.id, coalesce(buyer.phone, 'N/A'),
+          'Escrow hold for order #' || upper(left(o.id::text, 8)), o.id)
+  returning * into tx;
+
+  perform set_config('app.escrow_write', 'on', true);
+  update public.orders set payment_status = 'held' where id = o.id;
+  perform set_config('app.escrow_write', 'off', true);
+
+  return tx;
+end;
+$$;
+
+-- Release to seller on Delivered, refund buyer on Cancelled. Disputed keeps funds held.
+create or replace function public.settle_order_escrow()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  party public.users;
+  hold public.transactions;
+begin
+  if new.status is not distinct from old.status or new.payment_status <> 'held' then
+    return new;
+  end if;
+
+  -- Settle exactly what was taken from the buyer, whatever the order row says now
+  select * into hold from public.transactions
+   where order_id = new.id and type = 'ESCROW_HOLD' and status = 'completed'
+   order by created_at
+   limit 1;
+  if not found then
+    return new;
+  end if;
+
+  if new.status = 'Delivered' then
+    select * into party from public.users where id = new.seller_id;
+    insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description, order_id)
+    values (new.seller_id, hold.amount, hold.currency, 'ESCROW_RELEASE', 'completed', 'Wallet', 'REL-' || new.id, coalesce(party.phone, 'N/A'),
+            'Payment released for order #' || upper(left(new.id::text, 8)), new.id);
+
+    perform set_config('app.escrow_write', 'on', true);
+    update public.orders set payment_status = 'released' where id = new.id;
+    perform set_config('app.escrow_write', 'off', true);
+
+  elsif new.status = 'Cancelled' then
+    select * into party from public.users where id = new.buyer_id;
+    insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description, order_id)
+    values (new.buyer_id, hold.amount, hold.currency, 'ESCROW_REFUND', 'completed', 'Wallet', 'RFD-' || new.id, coalesce(party.phone, 'N/A'),
+            'Refund for order #' || upper(left(new.id::text, 8)), new.id);
+
+    perform set_config('app.escrow_write', 'on', true);
+    update public.orders set payment_status = 'refunded' where id = new.id;
+    perform set_config('app.escrow_write', 'off', true);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_settle_escrow on public.orders;
+create trigger orders_settle_escrow
+  after update of status on public.orders
+  for each row execute function public.settle_order_escrow();
+
+grant execute on function public.escrow_hold(uuid) to authenticated;
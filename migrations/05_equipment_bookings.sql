@@ -0,0 +1,153 @@
+-- EQUIPMENT BOOKINGS (Date-range reservations)
+create extension if not exists btree_gist;
+
+create table if not exists public.equipment_bookings (
+  id uuid default gen_random_uuid() primary key,
+  equipment_id uuid references public.equipment(id) on delete cascade not null,
+  renter_id uuid references public.users(id) not null,
+  owner_id uuid references public.users(id) not null,
+  start_date date not null,
+  end_date date not null, -- Inclusive
+  days integer not null,
+  price_per_day numeric not null,
+  total numeric not null,
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'declined', 'cancelled', 'expired')),
+  note text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  check (end_date >= start_date),
+  -- Pending requests and accepted bookings both hold their dates
+  constraint equipment_bookings_no_overlap exclude using gist (
+    equipment_id with =,
+    daterange(start_date, end_date, '[]') with &&
+  ) where (status in ('pending', 'accepted'))
+);
+
+create index if not exists equipment_bookings_owner_idx on public.equipment_bookings(owner_id);
+create index if not exists equipment_bookings_renter_idx on public.equipment_bookings(renter_id);
+
+-- A request the owner hasn't answered in 3 days, or whose start date has passed, no longer
+-- holds its dates. It is marked 'expired' the next time someone books the same item.
+create or replace function public.equipment_booking_stale(p_status text, p_created_at timestamptz, p_start_date date)
+returns boolean
+language sql
+stable
+as $$
+  select p_status = 'pending' and (p_created_at < now() - interval '3 days' or p_start_date < current_date);
+$$;
+
+-- Price and owner are always taken from the listing, never from the client.
+-- A request is at most 90 days, starts within a year, and a renter has at most 5 open requests.
+create or replace function public.prepare_equipment_booking()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  eq public.equipment;
+begin
+  select * into eq from public.equipment where id = new.equipment_id;
+  if not found then
+    raise exception 'Equipment not found';
+  end if;
+  if eq.user_id = new.renter_id then
+    raise exception 'You cannot book your own equipment';
+  end if;
+  if new.start_date < current_date then
+    raise exception 'Bookings cannot start in the past';
+  end if;
+  if new.start_date > current_date + 365 then
+    raise exception 'Bookings can start at most a year ahead';
+  end if;
+  if new.end_date - new.start_date + 1 > 90 then
+    raise exception 'Bookings can be at most 90 days';
+  end if;
+
+  perform set_config('app.booking_expiry', 'on', true);
+  update public.equipment_bookings
+     set status = 'expired'
+   where (equipment_id = new.equipment_id or renter_id = new.renter_id)
+     and public.equipment_booking_stale(status, created_at, start_date);
+  perform set_config('app.booking_expiry', 'off', true);
+
+  if (select count(*) from public.equipment_bookings where renter_id = new.renter_id and status = 'pending') >= 5 then
+    raise exception 'You already have 5 booking requests waiting for an answer';
+  end if;
+
+  new.owner_id := eq.user_id;
+  new.status := 'pending';
+  new.days := (new.end_date - new.start_date) + 1;
+  new.price_per_day := eq.price_per_day;
+  new.total := new.days * eq.price_per_day;
+  return new;
+end;
+$$;
+
+drop trigger if exists equipment_bookings_prepare on public.equipment_bookings;
+create trigger equipment_bookings_prepare
+  before insert on public.equipment_bookings
+  for each row execute function public.prepare_equipment_booking();
+
+-- pending -> accepted | declined (owner), pending | accepted -> cancelled (renter),
+-- pending -> expired (prepare_equipment_booking)
+create or replace function public.enforce_booking_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = old.status then
+    return old;
+  end if;
+
+  if new.status = 'accepted' and public.equipment_booking_stale(old.status, old.created_at, old.start_date) then
+    raise exception 'This request has expired';
+  end if;
+
+  if not (
+       (old.status = 'pending'  and new.status in ('accepted', 'declined') and auth.uid() = old.owner_id)
+    or (old.status in ('pending', 'accepted') and new.status = 'cancelled' and auth.uid() = old.renter_id)
+    or (old.status = 'pending' and new.status = 'expired' and coalesce(current_setting('app.booking_expiry', true), '') = 'on')
+  ) then
+    raise exception 'Invalid booking transition % -> %', old.status, new.status;
+  end if;
+
+  -- Only the status may change after creation
+  old.status := new.status;
+  old.updated_at := now();
+  return old;
+end;
+$$;
+
+drop trigger if exists equipment_bookings_transition on public.equipment_bookings;
+create trigger equipment_bookings_transition
+  before update on public.equipment_bookings
+  for each row execute function public.enforce_booking_transition();
+
+-- Public availability without exposing who booked
+create or replace function public.equipment_booked_ranges(p_equipment_id uuid)
+returns table (start_date date, end_date date, status text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select start_date, end_date, status
+  from public.equipment_bookings
+  where equipment_id = p_equipment_id
+    and status in ('pending', 'accepted')
+    and not public.equipment_booking_stale(status, created_at, start_date)
+    and end_date >= current_date
+  order by start_date;
+$$;
+
+grant execute on function public.equipment_booked_ranges(uuid) to anon, authenticated;
+
+-- RLS
+alter table public.equipment_bookings enable row level security;
+
+create policy "Participants view bookings" on public.equipment_bookings for select using (auth.uid() = renter_id or auth.uid() = owner_id);
+create policy "Renters request bookings" on public.equipment_bookings for insert with check (auth.uid() = renter_id);
+create policy "Participants update bookings" on public.equipment_bookings for update using (auth.uid() = renter_id or auth.uid() = owner_id);
+
+alter publication supabase_realtime add table public.equipment_bookings;
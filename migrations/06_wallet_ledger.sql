@@ -0,0 +1,413 @@
+-- DOUBLE-ENTRY WALLET LEDGER
+-- Every movement of money is a journal entry whose postings sum to zero.
+-- Account balances are materialized on ledger_accounts and only change through
+-- post_journal_entry(); the transactions table remains the user-facing history.
+
+-- Accounts: one wallet per user and currency, plus system accounts for money
+-- entering/leaving the platform (clearing), escrow, the loan book and payees.
+create table if not exists public.ledger_accounts (
+  id uuid default gen_random_uuid() primary key,
+  kind text not null check (kind in ('wallet', 'clearing', 'escrow', 'loans', 'payments')),
+  user_id uuid references public.users(id),
+  currency text not null default 'GHS',
+  balance numeric not null default 0,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  check ((kind = 'wallet') = (user_id is not null))
+);
+
+create unique index if not exists ledger_accounts_wallet_idx on public.ledger_accounts(user_id, currency) where kind = 'wallet';
+create unique index if not exists ledger_accounts_system_idx on public.ledger_accounts(kind, currency) where kind <> 'wallet';
+
+create table if not exists public.journal_entries (
+  id uuid default gen_random_uuid() primary key,
+  kind text not null, -- DEPOSIT, TRANSFER, ESCROW_HOLD, OPENING ...
+  description text,
+  order_id uuid references public.orders(id),
+  created_by uuid default auth.uid(),
+  created_at timestamptz default now()
+);
+
+create table if not exists public.ledger_postings (
+  id bigint generated by default as identity primary key,
+  entry_id uuid references public.journal_entries(id) not null,
+  account_id uuid references public.ledger_accounts(id) not null,
+  amount numeric not null check (amount <> 0), -- Positive increases the account balance
+  created_at timestamptz default now()
+);
+
+create index if not exists ledger_postings_entry_idx on public.ledger_postings(entry_id);
+create index if not exists ledger_postings_account_idx on public.ledger_postings(account_id);
+
+alter table public.transactions add column if not exists journal_entry_id uuid references public.journal_entries(id);
+alter table public.transactions add column if not exists counterparty_id uuid references public.users(id);
+
+-- Balanced entries, checked at commit so all postings of an entry are visible
+create or replace function public.check_journal_entry_balanced()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (select coalesce(sum(amount), 0) from public.ledger_postings where entry_id = new.entry_id) <> 0 then
+    raise exception 'Unbalanced journal entry %', new.entry_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists ledger_postings_balanced on public.ledger_postings;
+create constraint trigger ledger_postings_balanced
+  after insert on public.ledger_postings
+  deferrable initially deferred
+  for each row execute function public.check_journal_entry_balanced();
+
+-- The ledger is append-only; corrections are new entries
+create or replace function public.prevent_ledger_mutation()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Ledger is append-only';
+end;
+$$;
+
+drop trigger if exists ledger_postings_immutable on public.ledger_postings;
+create trigger ledger_postings_immutable
+  before update or delete on public.ledger_postings
+  for each row execute function public.prevent_ledger_mutation();
+
+drop trigger if exists journal_entries_immutable on public.journal_entries;
+create trigger journal_entries_immutable
+  before update or delete on public.journal_entries
+  for each row execute function public.prevent_ledger_mutation();
+
+-- Account lookup (created on first use)
+create or replace function public.ledger_wallet_account(p_user uuid, p_currency text default 'GHS')
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  acc uuid;
+begin
+  select id into acc from public.ledger_accounts where kind = 'wallet' and user_id = p_user and currency = p_currency;
+  if acc is null then
+    insert into public.ledger_accounts (kind, user_id, currency) values ('wallet', p_user, p_currency)
+    on conflict do nothing;
+    select id into acc from public.ledger_accounts where kind = 'wallet' and user_id = p_user and currency = p_currency;
+  end if;
+  return acc;
+end;
+$$;
+
+create or replace function public.ledger_system_account(p_kind text, p_currency text default 'GHS')
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  acc uuid;
+begin
+  select id into acc from public.ledger_accounts where kind = p_kind and currency = p_currency;
+  if acc is null then
+    insert into public.ledger_accounts (kind, currency) values (p_kind, p_currency)
+    on conflict do nothing;
+    select id into acc from public.ledger_accounts where kind = p_kind and currency = p_currency;
+  end if;
+  return acc;
+end;
+$$;
+
+-- The only writer of postings and balances.
+-- p_lines: [{"account_id": uuid, "amount": numeric}, ...] summing to zero.
+create or replace function public.post_journal_entry(p_kind text, p_description text, p_lines jsonb, p_order_id uuid default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_entry uuid;
+  line record;
+  acc public.ledger_accounts;
+begin
+  if jsonb_array_length(p_lines) < 2 then
+    raise exception 'A journal entry needs at least two postings';
+  end if;
+  if (select sum((l->>'amount')::numeric) from jsonb_array_elements(p_lines) l) <> 0 then
+    raise exception 'Unbalanced journal entry';
+  end if;
+  if (select count(distinct a.currency) from public.ledger_accounts a
+      where a.id in (select (l->>'account_id')::uuid from jsonb_array_elements(p_lines) l)) <> 1 then
+    raise exception 'All postings of an entry must share one currency';
+  end if;
+
+  insert into public.journal_entries (kind, description, order_id)
+  values (p_kind, p_description, p_order_id)
+  returning id into new_entry;
+
+  -- Lock accounts in a stable order so concurrent entries cannot deadlock
+  for line in
+    select (l->>'account_id')::uuid as account_id, (l->>'amount')::numeric as amount
+    from jsonb_array_elements(p_lines) l
+    order by 1
+  loop
+    update public.ledger_accounts
+    set balance = balance + line.amount, updated_at = now()
+    where id = line.account_id
+    returning * into acc;
+
+    if not found then
+      raise exception 'Ledger account % not found', line.account_id;
+    end if;
+    if acc.kind = 'wallet' and acc.balance < 0 then
+      raise exception 'Insufficient wallet balance';
+    end if;
+
+    insert into public.ledger_postings (entry_id, account_id, amount)
+    values (new_entry, line.account_id, line.amount);
+  end loop;
+
+  return new_entry;
+end;
+$$;
+
+-- Completed transactions are posted against the matching system account.
+-- Rows that already carry a journal entry (e.g. transfers) were posted by their RPC.
+create or replace function public.post_transaction_to_ledger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  wallet uuid;
+  counter uuid;
+  counter_kind text;
+  signed numeric;
+begin
+  if new.status <> 'completed' or new.journal_entry_id is not null then
+    return new;
+  end if;
+  if tg_op = 'UPDATE' and old.status = 'completed' then
+    return new;
+  end if;
+  if new.amount is null or new.amount <= 0 then
+    raise exception 'Transaction amount must be positive';
+  end if;
+
+  new.currency := coalesce(new.currency, 'GHS');
+  wallet := public.ledger_wallet_account(new.user_id, new.currency);
+  counter_kind := case
+    when new.type in ('DEPOSIT', 'WITHDRAWAL') then 'clearing'
+    when new.type = 'LOAN' then 'loans'
+    when new.type = 'PAYMENT' then 'payments'
+    when new.type in ('ESCROW_HOLD', 'ESCROW_RELEASE', 'ESCROW_REFUND') then 'escrow'
+  end;
+  if counter_kind is null then
+    raise exception '% transactions must be posted through their wallet function', new.type;
+  end if;
+  counter := public.ledger_system_account(counter_kind, new.currency);
+
+  signed := case
+    when new.type in ('DEPOSIT', 'LOAN', 'ESCROW_RELEASE', 'ESCROW_REFUND') then new.amount
+    else -new.amount
+  end;
+
+  new.journal_entry_id := public.post_journal_entry(
+    new.type,
+    new.description,
+    jsonb_build_array(
+      jsonb_build_object('account_id', wallet, 'amount', signed),
+      jsonb_build_object('account_id', counter, 'amount', -signed)
+    ),
+    new.order_id
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_post_ledger on public.transactions;
+create trigger transactions_post_ledger
+  before insert or update of status on public.transactions
+  for each row execute function public.post_transaction_to_ledger();
+
+-- Balance now comes from the materialized ledger account
+create or replace function public.wallet_balance(p_user uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select balance from public.ledger_accounts where kind = 'wallet' and user_id = p_user and currency = 'GHS'), 0);
+$$;
+
+-- Wallet debits initiated by the user (bills, premiums, cash-out)
+create or replace function public.wallet_debit(p_type text, p_amount numeric, p_description text)
+returns public.transactions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me public.users;
+  tx public.transactions;
+begin
+  if p_type not in ('PAYMENT', 'WITHDRAWAL') then
+    raise exception 'Unsupported wallet debit %', p_type;
+  end if;
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be positive';
+  end if;
+
+  select * into me from public.users where id = auth.uid();
+  if not found then
+    raise exception 'Not authenticated';
+  end if;
+
+  insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description)
+  values (me.id, p_amount, 'GHS', p_type, 'completed', 'Wallet', 'TRX-' || replace(gen_random_uuid()::text, '-', ''), coalesce(me.phone, 'N/A'), p_description)
+  returning * into tx;
+
+  return tx;
+end;
+$$;
+
+-- Wallet-to-wallet transfer: one entry debits the sender and credits the recipient
+create or replace function public.wallet_transfer(p_recipient uuid, p_amount numeric, p_description text)
+returns public.transactions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  sender public.users;
+  recipient public.users;
+  entry uuid;
+  ref text := 'TRF-' || replace(gen_random_uuid()::text, '-', '');
+  tx public.transactions;
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be positive';
+  end if;
+
+  select * into sender from public.users where id = auth.uid();
+  if not found then
+    raise exception 'Not authenticated';
+  end if;
+  select * into recipient from public.users where id = p_recipient;
+  if not found then
+    raise exception 'Recipient not found';
+  end if;
+  if recipient.id = sender.id then
+    raise exception 'You cannot transfer to yourself';
+  end if;
+
+  entry := public.post_journal_entry(
+    'TRANSFER',
+    p_description,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.ledger_wallet_account(sender.id), 'amount', -p_amount),
+      jsonb_build_object('account_id', public.ledger_wallet_account(recipient.id), 'amount', p_amount)
+    )
+  );
+
+  insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description, journal_entry_id, counterparty_id)
+  values (recipient.id, p_amount, 'GHS', 'TRANSFER_IN', 'completed', 'Wallet', ref, coalesce(recipient.phone, 'N/A'),
+          'Received from ' || sender.name, entry, sender.id);
+
+  insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description, journal_entry_id, counterparty_id)
+  values (sender.id, p_amount, 'GHS', 'TRANSFER', 'completed', 'Wallet', ref, coalesce(sender.phone, 'N/A'), p_description, entry, recipient.id)
+  returning * into tx;
+
+  return tx;
+end;
+$$;
+
+-- Opening balances for wallets that existed before the ledger
+do $$
+declare
+  r record;
+begin
+  for r in
+    select user_id, sum(
+      case
+        when type in ('DEPOSIT', 'LOAN', 'ESCROW_RELEASE', 'ESCROW_REFUND') then amount
+        when type in ('WITHDRAWAL', 'PAYMENT', 'TRANSFER', 'ESCROW_HOLD') then -amount
+        else 0
+      end
+    ) as legacy_balance
+    from public.transactions
+    where status = 'completed' and journal_entry_id is null and user_id is not null
+    group by user_id
+  loop
+    -- Negative legacy balances are left for manual review rather than carried over
+    if r.legacy_balance > 0 and not exists (
+      select 1 from public.ledger_accounts where kind = 'wallet' and user_id = r.user_id and balance <> 0
+    ) then
+      perform public.post_journal_entry(
+        'OPENING',
+        'Opening balance',
+        jsonb_build_array(
+          jsonb_build_object('account_id', public.ledger_wallet_account(r.user_id), 'amount', r.legacy_balance),
+          jsonb_build_object('account_id', public.ledger_system_account('clearing'), 'amount', -r.legacy_balance)
+        )
+      );
+    end if;
+  end loop;
+end;
+$$;
+
+-- Escrow-held orders from before the ledger are backed by the escrow account
+do $$
+declare
+  held numeric;
+begin
+  select coalesce(sum(total), 0) into held from public.orders where payment_status = 'held' and currency = 'GHS';
+  if held > 0 and not exists (select 1 from public.journal_entries where kind = 'OPENING_ESCROW') then
+    perform public.post_journal_entry(
+      'OPENING_ESCROW',
+      'Opening escrow balance',
+      jsonb_build_array(
+        jsonb_build_object('account_id', public.ledger_system_account('escrow'), 'amount', held),
+        jsonb_build_object('account_id', public.ledger_system_account('clearing'), 'amount', -held)
+      )
+    );
+  end if;
+end;
+$$;
+
+-- RLS: users read their own accounts and postings; nothing is writable from the client
+alter table public.ledger_accounts enable row level security;
+alter table public.journal_entries enable row level security;
+alter table public.ledger_postings enable row level security;
+
+create policy "Users view own ledger accounts" on public.ledger_accounts for select using (auth.uid() = user_id);
+create policy "Users view own postings" on public.ledger_postings for select using (
+  exists (select 1 from public.ledger_accounts a where a.id = account_id and a.user_id = auth.uid())
+);
+create policy "Users view own journal entries" on public.journal_entries for select using (
+  exists (
+    select 1 from public.ledger_postings p
+    join public.ledger_accounts a on a.id = p.account_id
+    where p.entry_id = journal_entries.id and a.user_id = auth.uid()
+  )
+);
+
+-- Clients may only open pending deposits and loan requests; completion is server-side
+drop policy if exists "Users create transactions" on public.transactions;
+create policy "Users request deposits and loans" on public.transactions for insert with check (
+  auth.uid() = user_id and status = 'pending' and type in ('DEPOSIT', 'LOAN') and journal_entry_id is null
+);
+
+revoke execute on function public.post_journal_entry(text, text, jsonb, uuid) from public, anon, authenticated;
+revoke execute on function public.ledger_wallet_account(uuid, text) from public, anon, authenticated;
+revoke execute on function public.ledger_system_account(text, text) from public, anon, authenticated;
+revoke execute on function public.wallet_balance(uuid) from public, anon, authenticated;
+grant execute on function public.wallet_debit(text, numeric, text) to authenticated;
+grant execute on function public.wallet_transfer(uuid, numeric, text) to authenticated;
+
+alter publication supabase_realtime add table public.ledger_accounts;
@@ -0,0 +1,58 @@
+-- P2P TRANSFER RECIPIENTS
+-- Resolve a wallet holder from what the sender typed or scanned:
+-- a phone number (024..., +233..., 233...), a merchant ID (AGRO-PAY-...) or a user id.
+
+create index if not exists users_merchant_id_idx on public.users(upper(merchant_id));
+
+-- 0244 123 456 / +233244123456 / 233244123456 -> 0244123456
+create or replace function public.normalize_gh_phone(p_phone text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when d ~ '^233[0-9]{9}$' then '0' || substr(d, 4)
+    when d ~ '^[0-9]{9}$' then '0' || d
+    else d
+  end
+  from (select regexp_replace(coalesce(p_phone, ''), '[^0-9]', '', 'g') as d) s;
+$$;
+
+create or replace function public.resolve_wallet_recipient(p_query text)
+returns table (id uuid, name text, phone text, merchant_id text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  q text := btrim(coalesce(p_query, ''));
+begin
+  if q = '' then
+    return;
+  end if;
+
+  -- Only the last digits of the phone are returned for the confirmation screen
+  if q ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' then
+    return query
+      select u.id, u.name, '•••' || right(u.phone, 4), u.merchant_id
+      from public.users u where u.id = q::uuid;
+  elsif q ~* '^[a-z]+-' then
+    return query
+      select u.id, u.name, '•••' || right(u.phone, 4), u.merchant_id
+      from public.users u where upper(u.merchant_id) = upper(q)
+      limit 1;
+  else
+    return query
+      select u.id, u.name, '•••' || right(u.phone, 4), u.merchant_id
+      from public.users u
+      where u.phone is not null and public.normalize_gh_phone(u.phone) = public.normalize_gh_phone(q)
+      limit 1;
+  end if;
+end;
+$$;
+
+grant execute on function public.resolve_wallet_recipient(text) to authenticated;
+
+-- Recipients are told about incoming transfers in realtime
+alter publication supabase_realtime add table public.transactions;
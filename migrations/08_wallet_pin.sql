@@ -0,0 +1,193 @@
+-- WALLET TRANSACTION PIN
+-- PINs are stored as salted bcrypt hashes and only ever checked server-side.
+-- A successful verify_wallet_pin() opens a short, single-use window that the
+-- next wallet debit consumes; repeated failures lock the wallet.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.wallet_pins (
+  user_id uuid references public.users(id) on delete cascade primary key,
+  pin_hash text not null,
+  failed_attempts integer not null default 0,
+  locked_until timestamptz,
+  verified_until timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- No policies: the table is reachable only through the functions below
+alter table public.wallet_pins enable row level security;
+
+create or replace function public.assert_valid_wallet_pin(p_pin text)
+returns void
+language plpgsql
+immutable
+as $$
+begin
+  if p_pin is null or p_pin !~ '^[0-9]{4}$' then
+    raise exception 'PIN must be exactly 4 digits';
+  end if;
+  if p_pin ~ '^(.)\1{3}$' or p_pin in ('1234', '4321') then
+    raise exception 'PIN is too easy to guess';
+  end if;
+end;
+$$;
+
+create or replace function public.wallet_pin_status()
+returns table (has_pin boolean, locked_until timestamptz, failed_attempts integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    exists (select 1 from public.wallet_pins where user_id = auth.uid()),
+    (select p.locked_until from public.wallet_pins p where p.user_id = auth.uid() and p.locked_until > now()),
+    coalesce((select p.failed_attempts from public.wallet_pins p where p.user_id = auth.uid()), 0);
+$$;
+
+-- Failures are recorded rather than raised so the attempt counter persists
+create or replace function public.verify_wallet_pin(p_pin text)
+returns table (ok boolean, attempts_left integer, locked_until timestamptz)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+#variable_conflict use_column
+declare
+  max_attempts constant integer := 5;
+  rec public.wallet_pins;
+begin
+  select * into rec from public.wallet_pins where user_id = auth.uid() for update;
+  if not found then
+    raise exception 'Wallet PIN has not been set up';
+  end if;
+
+  if rec.locked_until > now() then
+    return query select false, 0, rec.locked_until;
+    return;
+  end if;
+
+  if rec.pin_hash = crypt(coalesce(p_pin, ''), rec.pin_hash) then
+    update public.wallet_pins
+    set failed_attempts = 0, locked_until = null, verified_until = now() + interval '2 minutes'
+    where user_id = rec.user_id;
+    return query select true, max_attempts, null::timestamptz;
+    return;
+  end if;
+
+  rec.failed_attempts := rec.failed_attempts + 1;
+  if rec.failed_attempts >= max_attempts then
+    update public.wallet_pins
+    set failed_attempts = 0, locked_until = now() + interval '30 minutes', verified_until = null
+    where user_id = rec.user_id
+    returning wallet_pins.locked_until into rec.locked_until;
+    return query select false, 0, rec.locked_until;
+  else
+    update public.wallet_pins
+    set failed_attempts = rec.failed_attempts, verified_until = null
+    where user_id = rec.user_id;
+    return query select false, max_attempts - rec.failed_attempts, null::timestamptz;
+  end if;
+end;
+$$;
+
+-- Uses up the window opened by verify_wallet_pin()
+create or replace function public.consume_wallet_pin_verification(p_user uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.wallet_pins
+  set verified_until = null
+  where user_id = p_user and verified_until > now() and (locked_until is null or locked_until <= now());
+
+  if not found then
+    raise exception 'Wallet PIN verification required';
+  end if;
+end;
+$$;
+
+-- First-time setup, or a change right after verifying the current PIN
+create or replace function public.set_wallet_pin(p_new_pin text)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  perform public.assert_valid_wallet_pin(p_new_pin);
+
+  if exists (select 1 from public.wallet_pins where user_id = auth.uid()) then
+    perform public.consume_wallet_pin_verification(auth.uid());
+    update public.wallet_pins
+    set pin_hash = crypt(p_new_pin, gen_salt('bf')), failed_attempts = 0, locked_until = null, updated_at = now()
+    where user_id = auth.uid();
+  else
+    insert into public.wallet_pins (user_id, pin_hash)
+    values (auth.uid(), crypt(p_new_pin, gen_salt('bf')));
+  end if;
+end;
+$$;
+
+-- Forgotten PIN: only from a session opened by the password recovery link
+create or replace function public.reset_wallet_pin(p_new_pin text)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  if not exists (
+    select 1 from jsonb_array_elements(coalesce(auth.jwt() -> 'amr', '[]'::jsonb)) a
+    where a ->> 'method' = 'recovery'
+      and to_timestamp((a ->> 'timestamp')::bigint) > now() - interval '30 minutes'
+  ) then
+    raise exception 'Use the password recovery link to reset your wallet PIN';
+  end if;
+  perform public.assert_valid_wallet_pin(p_new_pin);
+
+  insert into public.wallet_pins (user_id, pin_hash)
+  values (auth.uid(), crypt(p_new_pin, gen_salt('bf')))
+  on conflict (user_id) do update
+  set pin_hash = excluded.pin_hash, failed_attempts = 0, locked_until = null, verified_until = null, updated_at = now();
+end;
+$$;
+
+-- Every debit the user initiates needs a fresh PIN verification.
+-- Service-role writes (webhooks, settlement) have no auth.uid() and pass through.
+create or replace function public.require_wallet_pin()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'completed'
+     and new.type in ('WITHDRAWAL', 'PAYMENT', 'TRANSFER', 'ESCROW_HOLD')
+     and auth.uid() is not null
+     and auth.uid() = new.user_id then
+    perform public.consume_wallet_pin_verification(new.user_id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_require_pin on public.transactions;
+create trigger transactions_require_pin
+  before insert on public.transactions
+  for each row execute function public.require_wallet_pin();
+
+revoke execute on function public.consume_wallet_pin_verification(uuid) from public, anon, authenticated;
+grant execute on function public.wallet_pin_status() to authenticated;
+grant execute on function public.verify_wallet_pin(text) to authenticated;
+grant execute on function public.set_wallet_pin(text) to authenticated;
+grant execute on function public.reset_wallet_pin(text) to authenticated;
@@ -0,0 +1,103 @@
+-- PAYMENT WEBHOOK EVENT LOG
+-- Every verified provider callback is stored once per (provider, event_id).
+-- Replays return 'duplicate' without touching the transaction again.
+
+create table if not exists public.webhook_events (
+  id uuid default gen_random_uuid() primary key,
+  provider text not null, -- paystack, mtn, hubtel
+  event_id text not null,
+  reference text,
+  status text, -- Normalised gateway status: success, failed, pending
+  amount numeric,
+  currency text,
+  payload jsonb not null,
+  transaction_id uuid references public.transactions(id),
+  outcome text check (outcome in ('completed', 'failed', 'flagged', 'ignored', 'unmatched')),
+  detail text,
+  received_at timestamptz default now(),
+  processed_at timestamptz,
+  unique (provider, event_id)
+);
+
+create index if not exists webhook_events_reference_idx on public.webhook_events(reference);
+-- A reference names one transaction per type (a transfer or conversion shares it between its two legs)
+drop index if exists public.transactions_provider_reference_idx;
+create unique index if not exists transactions_provider_reference_idx
+  on public.transactions(type, provider_reference) where provider_reference is not null;
+
+-- Service role only
+alter table public.webhook_events enable row level security;
+
+create or replace function public.apply_payment_webhook(
+  p_provider text,
+  p_event_id text,
+  p_reference text,
+  p_status text,
+  p_amount numeric,
+  p_currency text,
+  p_payload jsonb
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ev public.webhook_events;
+  tx public.transactions;
+  result text;
+  note text;
+begin
+  insert into public.webhook_events (provider, event_id, reference, status, amount, currency, payload)
+  values (p_provider, p_event_id, p_reference, p_status, p_amount, upper(p_currency), p_payload)
+  on conflict (provider, event_id) do nothing
+  returning * into ev;
+
+  if ev.id is null then
+    select * into ev from public.webhook_events where provider = p_provider and event_id = p_event_id for update;
+    if ev.processed_at is not null then
+      return 'duplicate';
+    end if;
+  end if;
+
+  -- Deposits are all collected through MTN MoMo; payouts go out through MoMo Disbursement
+  -- for MTN wallets and Paystack Transfers for everything else. Nothing is sent via Hubtel.
+  select * into tx from public.transactions
+  where provider_reference = p_reference
+    and (
+      (p_provider = 'mtn' and (type = 'DEPOSIT' or (type = 'WITHDRAWAL' and provider = 'MTN')))
+      or (p_provider = 'paystack' and type = 'WITHDRAWAL' and provider <> 'MTN')
+    )
+  for update;
+
+  if not found then
+    result := 'unmatched';
+  elsif tx.status <> 'pending' then
+    result := 'ignored';
+    note := 'Transaction already ' || tx.status;
+  elsif p_status = 'pending' then
+    result := 'ignored';
+  elsif p_status = 'failed' then
+    update public.transactions set status = 'failed' where id = tx.id;
+    result := 'failed';
+  elsif p_amount is null
+     or round(p_amount, 2) <> round(tx.amount, 2)
+     or upper(p_currency) <> upper(coalesce(tx.currency, 'GHS')) then
+    -- Never credit a wallet with an amount we didn't ask for; leave it for review
+    update public.transactions set status = 'flagged' where id = tx.id;
+    result := 'flagged';
+    note := format('Expected %s %s, provider reported %s %s', tx.amount, coalesce(tx.currency, 'GHS'), p_amount, upper(p_currency));
+  else
+    update public.transactions set status = 'completed' where id = tx.id;
+    result := 'completed';
+  end if;
+
+  update public.webhook_events
+  set outcome = result, detail = note, transaction_id = tx.id, processed_at = now()
+  where id = ev.id;
+
+  return result;
+end;
+$$;
+
+revoke execute on function public.apply_payment_webhook(text, text, text, text, numeric, text, jsonb) from public, anon, authenticated;
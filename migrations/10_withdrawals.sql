@@ -0,0 +1,235 @@
+-- WITHDRAWALS (Cash-out to Mobile Money and bank accounts)
+-- A request reserves amount + fee in the ledger and stays 'pending' while the
+-- payout-dispatch function sends it to the provider. The provider webhook then
+-- completes it (funds leave via clearing) or fails it (reservation is refunded).
+-- payout-dispatch itself fails a withdrawal only when the provider refuses it outright;
+-- after a timeout it stays pending until the webhook or an admin settles it.
+
+alter table public.ledger_accounts drop constraint if exists ledger_accounts_kind_check;
+alter table public.ledger_accounts add constraint ledger_accounts_kind_check
+  check (kind in ('wallet', 'clearing', 'escrow', 'loans', 'payments', 'payouts', 'fees'));
+
+alter table public.transactions add column if not exists fee numeric not null default 0;
+alter table public.transactions add column if not exists account_name text;
+alter table public.transactions add column if not exists payout_dispatched_at timestamptz; -- Set once by payout-dispatch
+
+-- Fees and limits per channel. Fees are always above zero, so every posting is non-zero.
+create or replace function public.withdrawal_channel(p_provider text)
+returns text
+language sql
+immutable
+as $$
+  select case when p_provider in ('MTN', 'Telecel', 'AirtelTigo') then 'momo' else 'bank' end;
+$$;
+
+create or replace function public.withdrawal_fee(p_provider text, p_amount numeric)
+returns numeric
+language sql
+immutable
+as $$
+  select case public.withdrawal_channel(p_provider)
+    when 'momo' then round(greatest(p_amount * 0.01, 0.50), 2) -- 1%, min GHS 0.50
+    else 5.00                                                   -- Flat GHS 5 per bank transfer
+  end;
+$$;
+
+create or replace function public.withdrawal_daily_limit(p_provider text)
+returns numeric
+language sql
+immutable
+as $$
+  select case public.withdrawal_channel(p_provider) when 'momo' then 5000 else 20000 end::numeric;
+$$;
+
+-- What the confirmation screen shows before the PIN step
+create or replace function public.withdrawal_quote(p_amount numeric, p_provider text)
+returns table (amount numeric, fee numeric, total numeric, daily_limit numeric, used_today numeric, remaining_today numeric, balance numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  used numeric;
+  lim numeric := public.withdrawal_daily_limit(p_provider);
+  f numeric := public.withdrawal_fee(p_provider, p_amount);
+begin
+  select coalesce(sum(t.amount), 0) into used
+  from public.transactions t
+  where t.user_id = auth.uid()
+    and t.type = 'WITHDRAWAL'
+    and t.status in ('pending', 'completed', 'flagged')
+    and public.withdrawal_channel(t.provider) = public.withdrawal_channel(p_provider)
+    and t.created_at >= date_trunc('day', now());
+
+  return query select p_amount, f, p_amount + f, lim, used, greatest(lim - used, 0), public.wallet_balance(auth.uid());
+end;
+$$;
+
+create or replace function public.request_withdrawal(p_amount numeric, p_provider text, p_account_number text, p_account_name text)
+returns public.transactions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me public.users;
+  q record;
+  entry uuid;
+  tx public.transactions;
+begin
+  if p_amount is null or p_amount < 1 then
+    raise exception 'Minimum withdrawal is GHS 1.00';
+  end if;
+  if p_provider not in ('MTN', 'Telecel', 'AirtelTigo', 'GCB Bank', 'Ecobank', 'Fidelity', 'Stanbic', 'Zenith', 'Absa') then
+    raise exception 'Unsupported payout provider %', p_provider;
+  end if;
+  if coalesce(btrim(p_account_number), '') = '' then
+    raise exception 'Account number is required';
+  end if;
+
+  select * into me from public.users where id = auth.uid();
+  if not found then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- Serialise requests per user so the daily limit can't be raced
+  perform pg_advisory_xact_lock(hashtext('withdrawal:' || me.id::text));
+  select * into q from public.withdrawal_quote(p_amount, p_provider);
+  if q.amount > q.remaining_today then
+    raise exception 'Daily withdrawal limit reached. You can withdraw up to GHS % more today', q.remaining_today;
+  end if;
+
+  -- Reserve amount + fee; post_journal_entry rejects it if the balance doesn't cover it
+  entry := public.post_journal_entry(
+    'WITHDRAWAL',
+    'Withdrawal to ' || p_provider || ' ' || p_account_number,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.ledger_wallet_account(me.id), 'amount', -q.total),
+      jsonb_build_object('account_id', public.ledger_system_account('payouts'), 'amount', q.amount),
+      jsonb_build_object('account_id', public.ledger_system_account('fees'), 'amount', q.fee)
+    )
+  );
+
+  insert into public.transactions (user_id, amount, fee, currency, type, status, provider, provider_reference, phone_number, account_name, description, journal_entry_id)
+  values (me.id, q.amount, q.fee, 'GHS', 'WITHDRAWAL', 'pending', p_provider, 'WDL-' || replace(gen_random_uuid()::text, '-', ''),
+          btrim(p_account_number), coalesce(nullif(btrim(p_account_name), ''), me.name), 'Withdrawal to ' || p_provider || ' ' || btrim(p_account_number), entry)
+  returning * into tx;
+
+  return tx;
+end;
+$$;
+
+-- Settle the reservation when the payout succeeds or fails
+create or replace function public.settle_withdrawal()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.type <> 'WITHDRAWAL' or old.status <> 'pending' or new.status = old.status or new.journal_entry_id is null then
+    return new;
+  end if;
+
+  if new.status = 'completed' then
+    perform public.post_journal_entry(
+      'WITHDRAWAL_SETTLED',
+      'Payout confirmed for ' || new.provider_reference,
+      jsonb_build_array(
+        jsonb_build_object('account_id', public.ledger_system_account('payouts'), 'amount', -new.amount),
+        jsonb_build_object('account_id', public.ledger_system_account('clearing'), 'amount', new.amount)
+      )
+    );
+  elsif new.status = 'failed' then
+    perform public.post_journal_entry(
+      'WITHDRAWAL_REVERSED',
+      'Payout failed for ' || new.provider_reference,
+      jsonb_build_array(
+        jsonb_build_object('account_id', public.ledger_system_account('payouts'), 'amount', -new.amount),
+        jsonb_build_object('account_id', public.ledger_system_account('fees'), 'amount', -new.fee),
+        jsonb_build_object('account_id', public.ledger_wallet_account(new.user_id), 'amount', new.amount + new.fee)
+      )
+    );
+  end if;
+  -- 'flagged' keeps the funds reserved until someone reviews it
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_settle_withdrawal on public.transactions;
+create trigger transactions_settle_withdrawal
+  after update of status on public.transactions
+  for each row execute function public.settle_withdrawal();
+
+-- Withdrawals now only go through request_withdrawal
+create or replace function public.wallet_debit(p_type text, p_amount numeric, p_description text)
+returns public.transactions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me public.users;
+  tx public.transactions;
+begin
+  if p_type <> 'PAYMENT' then
+    raise exception 'Unsupported wallet debit %', p_type;
+  end if;
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be positive';
+  end if;
+
+  select * into me from public.users where id = auth.uid();
+  if not found then
+    raise exception 'Not authenticated';
+  end if;
+
+  insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description)
+  values (me.id, p_amount, 'GHS', p_type, 'completed', 'Wallet', 'TRX-' || replace(gen_random_uuid()::text, '-', ''), coalesce(me.phone, 'N/A'), p_description)
+  returning * into tx;
+
+  return tx;
+end;
+$$;
+
+-- Pending withdrawals already move money, so they need the PIN too
+create or replace function public.require_wallet_pin()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (new.status = 'completed' or new.type = 'WITHDRAWAL')
+     and new.type in ('WITHDRAWAL', 'PAYMENT', 'TRANSFER', 'ESCROW_HOLD')
+     and auth.uid() is not null
+     and auth.uid() = new.user_id then
+    perform public.consume_wallet_pin_verification(new.user_id);
+  end if;
+  return new;
+end;
+$$;
+
+-- Every 15 minutes, dispatch withdrawals whose payout-dispatch call never arrived. Needs the
+-- project_url and service_role_key Vault secrets (see migrations/13_bill_payments.sql).
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+select cron.schedule(
+  'sweep-withdrawals',
+  '*/15 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/payout-dispatch',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{"action": "sweep"}'::jsonb
+  );
+  $$
+);
+
+revoke execute on function public.settle_withdrawal() from public, anon, authenticated;
+grant execute on function public.withdrawal_quote(numeric, text) to authenticated;
+grant execute on function public.request_withdrawal(numeric, text, text, text) to authenticated;
@@ -0,0 +1,247 @@
+-- LINKED PAYOUT ACCOUNTS
+-- Mobile Money wallets and bank accounts a user can deposit from and withdraw to.
+-- Rows are created by the account-verify function once the provider confirms the
+-- account holder's name, or left 'pending' until the user enters the code sent
+-- with a small test deposit (networks without a name lookup).
+
+create table if not exists public.linked_accounts (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.users(id) on delete cascade not null,
+  type text not null check (type in ('MOMO', 'BANK')),
+  provider text not null,
+  account_number text not null,
+  account_name text,
+  status text not null default 'pending' check (status in ('pending', 'verified')),
+  verification_method text check (verification_method in ('name_lookup', 'micro_deposit')),
+  is_default boolean not null default false,
+  verified_at timestamptz,
+  created_at timestamptz default now(),
+  unique (user_id, provider, account_number)
+);
+
+create unique index if not exists linked_accounts_one_default_idx on public.linked_accounts(user_id) where is_default;
+
+-- Reads and removal only; creating and verifying go through account-verify and the functions below
+alter table public.linked_accounts enable row level security;
+
+drop policy if exists "Users view their linked accounts" on public.linked_accounts;
+create policy "Users view their linked accounts" on public.linked_accounts
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users remove their linked accounts" on public.linked_accounts;
+create policy "Users remove their linked accounts" on public.linked_accounts
+  for delete using (auth.uid() = user_id);
+
+-- Test deposit codes, bcrypt hashed. No policies: only reachable through the functions below
+create table if not exists public.linked_account_codes (
+  account_id uuid references public.linked_accounts(id) on delete cascade primary key,
+  code_hash text not null,
+  attempts integer not null default 0,
+  sent_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+alter table public.linked_account_codes enable row level security;
+
+-- Every test deposit sent, kept by account number so deleting and re-adding an account
+-- doesn't reset its limits. Each one costs payout float. No policies.
+create table if not exists public.linked_account_test_deposits (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.users(id) on delete cascade not null,
+  provider text not null,
+  account_number text not null,
+  sent_at timestamptz not null default now()
+);
+
+create index if not exists linked_account_test_deposits_user_idx on public.linked_account_test_deposits(user_id, sent_at);
+create index if not exists linked_account_test_deposits_account_idx on public.linked_account_test_deposits(provider, account_number, sent_at);
+
+alter table public.linked_account_test_deposits enable row level security;
+
+-- Called by account-verify (service role): returns the plain code to send with the test deposit.
+-- At most one a minute, 5 a day per user and 3 a day per account number, whoever adds it.
+create or replace function public.issue_linked_account_otp(p_account uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  acct public.linked_accounts;
+  code text;
+begin
+  select * into acct from public.linked_accounts where id = p_account and status = 'pending' for update;
+  if not found then
+    raise exception 'Account is not awaiting verification';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('test-deposit:' || acct.user_id::text));
+  perform pg_advisory_xact_lock(hashtext('test-deposit:' || acct.provider || ':' || acct.account_number));
+  if exists (select 1 from public.linked_account_test_deposits
+             where user_id = acct.user_id and sent_at > now() - interval '1 minute') then
+    raise exception 'Please wait a minute before requesting another code';
+  end if;
+  if (select count(*) from public.linked_account_test_deposits
+      where user_id = acct.user_id and sent_at > now() - interval '1 day') >= 5 then
+    raise exception 'Too many verification deposits today. Try again tomorrow.';
+  end if;
+  if (select count(*) from public.linked_account_test_deposits
+      where provider = acct.provider and account_number = acct.account_number and sent_at > now() - interval '1 day') >= 3 then
+    raise exception 'Too many verification deposits to this account today. Try again tomorrow.';
+  end if;
+
+  insert into public.linked_account_test_deposits (user_id, provider, account_number)
+  values (acct.user_id, acct.provider, acct.account_number);
+
+  code := lpad(((('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::bigint) % 1000000)::text, 6, '0');
+
+  insert into public.linked_account_codes (account_id, code_hash, expires_at)
+  values (p_account, crypt(code, gen_salt('bf')), now() + interval '30 minutes')
+  on conflict (account_id) do update
+    set code_hash = excluded.code_hash, attempts = 0, sent_at = now(), expires_at = excluded.expires_at;
+
+  return code;
+end;
+$$;
+
+-- Failures are recorded rather than raised so the attempt counter persists
+create or replace function public.confirm_linked_account(p_account uuid, p_code text)
+returns table (ok boolean, attempts_left integer)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+#variable_conflict use_column
+declare
+  max_attempts constant integer := 5;
+  rec public.linked_account_codes;
+begin
+  select c.* into rec
+  from public.linked_account_codes c
+  join public.linked_accounts a on a.id = c.account_id
+  where c.account_id = p_account and a.user_id = auth.uid() and a.status = 'pending'
+  for update of c;
+
+  if not found or rec.expires_at < now() or rec.attempts >= max_attempts then
+    raise exception 'This code has expired. Request a new one.';
+  end if;
+
+  if rec.code_hash = crypt(coalesce(p_code, ''), rec.code_hash) then
+    update public.linked_accounts set status = 'verified', verified_at = now() where id = p_account;
+    delete from public.linked_account_codes where account_id = p_account;
+    return query select true, max_attempts;
+  else
+    update public.linked_account_codes set attempts = attempts + 1 where account_id = p_account;
+    return query select false, max_attempts - rec.attempts - 1;
+  end if;
+end;
+$$;
+
+create or replace function public.set_default_linked_account(p_account uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.linked_accounts where id = p_account and user_id = auth.uid() and status = 'verified') then
+    raise exception 'Only verified accounts can be the default';
+  end if;
+
+  update public.linked_accounts set is_default = false where user_id = auth.uid() and is_default and id <> p_account;
+  update public.linked_accounts set is_default = true where id = p_account;
+end;
+$$;
+
+-- The first verified account becomes the default, and removing the default promotes the newest one left
+create or replace function public.maintain_default_linked_account()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  owner uuid := coalesce(new.user_id, old.user_id);
+begin
+  if not exists (select 1 from public.linked_accounts where user_id = owner and is_default) then
+    update public.linked_accounts set is_default = true
+    where id = (
+      select id from public.linked_accounts
+      where user_id = owner and status = 'verified'
+      order by verified_at desc
+      limit 1
+    );
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists linked_accounts_default on public.linked_accounts;
+create trigger linked_accounts_default
+  after insert or delete or update of status on public.linked_accounts
+  for each row execute function public.maintain_default_linked_account();
+
+-- Withdrawals only go to the caller's own verified linked accounts; the account number is
+-- taken from the row, never from the client.
+drop function if exists public.request_withdrawal(numeric, text, text, text);
+
+create or replace function public.request_withdrawal(p_amount numeric, p_linked_account_id uuid)
+returns public.transactions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me public.users;
+  acct public.linked_accounts;
+  q record;
+  entry uuid;
+  tx public.transactions;
+begin
+  if p_amount is null or p_amount < 1 then
+    raise exception 'Minimum withdrawal is GHS 1.00';
+  end if;
+
+  select * into me from public.users where id = auth.uid();
+  if not found then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into acct from public.linked_accounts
+  where id = p_linked_account_id and user_id = me.id and status = 'verified';
+  if not found then
+    raise exception 'Withdrawals can only go to one of your verified linked accounts';
+  end if;
+
+  -- Serialise requests per user so the daily limit can't be raced
+  perform pg_advisory_xact_lock(hashtext('withdrawal:' || me.id::text));
+  select * into q from public.withdrawal_quote(p_amount, acct.provider);
+  if q.amount > q.remaining_today then
+    raise exception 'Daily withdrawal limit reached. You can withdraw up to GHS % more today', q.remaining_today;
+  end if;
+
+  -- Reserve amount + fee; post_journal_entry rejects it if the balance doesn't cover it
+  entry := public.post_journal_entry(
+    'WITHDRAWAL',
+    'Withdrawal to ' || acct.provider || ' ' || acct.account_number,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.ledger_wallet_account(me.id), 'amount', -q.total),
+      jsonb_build_object('account_id', public.ledger_system_account('payouts'), 'amount', q.amount),
+      jsonb_build_object('account_id', public.ledger_system_account('fees'), 'amount', q.fee)
+    )
+  );
+
+  insert into public.transactions (user_id, amount, fee, currency, type, status, provider, provider_reference, phone_number, account_name, description, journal_entry_id)
+  values (me.id, q.amount, q.fee, 'GHS', 'WITHDRAWAL', 'pending', acct.provider, 'WDL-' || replace(gen_random_uuid()::text, '-', ''),
+          acct.account_number, coalesce(acct.account_name, me.name), 'Withdrawal to ' || acct.provider || ' ' || acct.account_number, entry)
+  returning * into tx;
+
+  return tx;
+end;
+$$;
+
+revoke execute on function public.issue_linked_account_otp(uuid) from public, anon, authenticated;
+revoke execute on function public.maintain_default_linked_account() from public, anon, authenticated;
+grant execute on function public.confirm_linked_account(uuid, text) to authenticated;
+grant execute on function public.set_default_linked_account(uuid) to authenticated;
+grant execute on function public.request_withdrawal(numeric, uuid) to authenticated;
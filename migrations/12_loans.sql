@@ -0,0 +1,676 @@
+-- LOANS
+-- Loan products, applications scored against the applicant's history, amortized
+-- repayment schedules, interest accrual, automatic wallet-debit collection and
+-- overdue penalties. Money only moves through post_journal_entry:
+--   disbursement  wallet +P           loans -P
+--   accrual       loans -interest     interest +interest   (as each installment falls due)
+--   penalty       loans -penalty      fees +penalty        (once per late installment)
+--   repayment     wallet -x           loans +x
+-- so the loans account carries what borrowers owe, as a negative balance.
+
+alter table public.ledger_accounts drop constraint if exists ledger_accounts_kind_check;
+alter table public.ledger_accounts add constraint ledger_accounts_kind_check
+  check (kind in ('wallet', 'clearing', 'escrow', 'loans', 'payments', 'payouts', 'fees', 'interest'));
+
+create table if not exists public.loan_products (
+  id text primary key,
+  name text not null,
+  description text,
+  monthly_rate numeric not null check (monthly_rate >= 0),
+  terms integer[] not null, -- Allowed terms in months
+  min_amount numeric not null check (min_amount > 0),
+  max_amount numeric not null check (max_amount >= min_amount),
+  penalty_rate numeric not null default 0.05, -- Share of the late amount, charged once per installment
+  grace_days integer not null default 3,
+  active boolean not null default true
+);
+
+insert into public.loan_products (id, name, description, monthly_rate, terms, min_amount, max_amount, penalty_rate, grace_days) values
+  ('quick_cash', 'Quick Cash', 'Short-term cash for urgent needs', 0.05, '{1,3,6}', 50, 2000, 0.05, 3),
+  ('farm_inputs', 'Farm Inputs', 'Seeds, fertiliser and equipment hire, repaid over the season', 0.035, '{3,6,9,12}', 200, 20000, 0.05, 7)
+on conflict (id) do nothing;
+
+create table if not exists public.loans (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.users(id) not null,
+  product_id text references public.loan_products(id) not null,
+  principal numeric not null check (principal > 0),
+  monthly_rate numeric not null, -- Copied from the product when applying
+  term_months integer not null check (term_months > 0),
+  purpose text,
+  status text not null default 'pending' check (status in ('pending', 'rejected', 'active', 'repaid', 'defaulted')),
+  credit_score integer,
+  credit_limit numeric,
+  decision_reason text,
+  decided_by uuid references public.users(id),
+  decided_at timestamptz,
+  disbursement_transaction_id uuid references public.transactions(id),
+  disbursed_at timestamptz,
+  closed_at timestamptz,
+  created_at timestamptz default now()
+);
+
+create table if not exists public.loan_installments (
+  id bigint generated by default as identity primary key,
+  loan_id uuid references public.loans(id) on delete cascade not null,
+  seq integer not null,
+  due_date date not null,
+  principal_due numeric not null,
+  interest_due numeric not null,
+  penalty_due numeric not null default 0,
+  paid_amount numeric not null default 0,
+  status text not null default 'scheduled' check (status in ('scheduled', 'due', 'overdue', 'paid')),
+  accrued_at timestamptz,
+  penalised_at timestamptz,
+  paid_at timestamptz,
+  unique (loan_id, seq)
+);
+
+-- One open application or loan at a time
+create unique index if not exists loans_one_open_idx on public.loans(user_id) where status in ('pending', 'active');
+create index if not exists loans_status_idx on public.loans(status);
+create index if not exists loan_installments_due_idx on public.loan_installments(due_date) where status <> 'paid';
+
+-- Staff roles. users.type is picked at sign-up and only chooses the dashboard the app shows,
+-- so decisions are checked against this table, which only the service role can write.
+create table if not exists public.staff_roles (
+  user_id uuid references public.users(id) on delete cascade primary key,
+  role text not null check (role in ('admin', 'agent')),
+  granted_at timestamptz default now()
+);
+
+alter table public.staff_roles enable row level security;
+
+drop policy if exists "Users view own staff role" on public.staff_roles;
+create policy "Users view own staff role" on public.staff_roles for select using (auth.uid() = user_id);
+
+create or replace function public.is_staff()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.staff_roles where user_id = auth.uid());
+$$;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.staff_roles where user_id = auth.uid() and role = 'admin');
+$$;
+
+-- A user can't change their own account type once the profile exists
+create or replace function public.protect_user_type()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.type is distinct from old.type and auth.uid() is not null then
+    raise exception 'Account type cannot be changed';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists users_protect_type on public.users;
+create trigger users_protect_type
+  before update of type on public.users
+  for each row execute function public.protect_user_type();
+
+-- Reads only; applications, decisions and repayments go through the functions below
+alter table public.loan_products enable row level security;
+alter table public.loans enable row level security;
+alter table public.loan_installments enable row level security;
+
+drop policy if exists "Anyone can view loan products" on public.loan_products;
+create policy "Anyone can view loan products" on public.loan_products for select using (true);
+
+drop policy if exists "Borrowers and staff view loans" on public.loans;
+create policy "Borrowers and staff view loans" on public.loans
+  for select using (auth.uid() = user_id or public.is_staff());
+
+drop policy if exists "Borrowers and staff view installments" on public.loan_installments;
+create policy "Borrowers and staff view installments" on public.loan_installments
+  for select using (exists (
+    select 1 from public.loans l
+    where l.id = loan_installments.loan_id and (l.user_id = auth.uid() or public.is_staff())
+  ));
+
+-- Loans are no longer requested by inserting a pending LOAN transaction, and deposits are
+-- opened by the deposit-request function, so clients insert no transactions at all
+drop policy if exists "Users request deposits and loans" on public.transactions;
+drop policy if exists "Users request deposits" on public.transactions;
+
+-- CREDIT SCORE (300-850) and pre-approved limit.
+-- Draws on 90 days of completed wallet activity, 180 days of delivered marketplace
+-- sales, review ratings, time on the platform and past loans. Wallet-to-wallet transfers
+-- are left out (two accounts can pass the same money back and forth), and sales are the
+-- escrow releases actually paid out, not order totals.
+create or replace function public.credit_score(p_user uuid)
+returns table (score integer, credit_limit numeric, factors jsonb)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  inflow numeric;
+  activity integer;
+  sales numeric;
+  avg_rating numeric;
+  review_count integer;
+  repaid_count integer;
+  default_count integer;
+  overdue_count integer;
+  age_days integer;
+  monthly_income numeric;
+  s numeric;
+  lim numeric;
+begin
+  select coalesce(sum(t.amount) filter (where t.type = 'DEPOSIT'), 0), count(*)
+  into inflow, activity
+  from public.transactions t
+  where t.user_id = p_user and t.status = 'completed' and t.currency = 'GHS'
+    and t.type not in ('TRANSFER', 'TRANSFER_IN')
+    and t.created_at >= now() - interval '90 days';
+
+  select coalesce(sum(t.amount), 0) into sales
+  from public.transactions t
+  where t.user_id = p_user and t.type = 'ESCROW_RELEASE' and t.status = 'completed' and t.currency = 'GHS'
+    and t.created_at >= now() - interval '180 days';
+
+  select avg(r.rating), count(*) into avg_rating, review_count
+  from public.user_reviews r
+  where r.target_user_id = p_user;
+
+  select count(*) filter (where l.status = 'repaid'), count(*) filter (where l.status = 'defaulted')
+  into repaid_count, default_count
+  from public.loans l
+  where l.user_id = p_user;
+
+  select count(*) into overdue_count
+  from public.loan_installments i
+  join public.loans l on l.id = i.loan_id
+  where l.user_id = p_user and i.status = 'overdue';
+
+  select greatest(current_date - u.created_at::date, 0) into age_days
+  from public.users u
+  where u.id = p_user;
+
+  s := 300
+    + least(150, inflow / 20)           -- GHS 3,000 received in 90 days maxes this out
+    + least(75, activity * 3)
+    + least(150, sales / 40)            -- GHS 6,000 delivered in 180 days
+    + least(50, coalesce(age_days, 0) / 4)
+    + case when review_count > 0 then (avg_rating - 3) * 50 * least(review_count, 5) / 5.0 else 0 end
+    + least(100, repaid_count * 40)
+    - default_count * 200
+    - overdue_count * 50;
+  s := greatest(300, least(850, round(s)));
+
+  -- Up to 3x monthly income, scaling with the score above 450
+  monthly_income := inflow / 3 + sales / 6;
+  lim := case
+    when s < 500 then 0
+    else least(20000, greatest(100, floor(monthly_income * (s - 450) / 400 * 3 / 10) * 10))
+  end;
+  -- New or thin histories are cheap to build up, so only small loans skip review
+  if coalesce(age_days, 0) < 90 or activity < 10 then
+    lim := least(lim, 500);
+  end if;
+
+  return query select s::integer, lim, jsonb_build_object(
+    'inflow_90d', inflow,
+    'transactions_90d', activity,
+    'sales_180d', sales,
+    'avg_rating', round(avg_rating, 1),
+    'reviews', review_count,
+    'days_on_platform', age_days,
+    'loans_repaid', repaid_count,
+    'loans_defaulted', default_count,
+    'installments_overdue', overdue_count
+  );
+end;
+$$;
+
+create or replace function public.my_credit_score()
+returns table (score integer, credit_limit numeric, factors jsonb)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from public.credit_score(auth.uid());
+$$;
+
+-- Equal monthly payments: P * r / (1 - (1 + r)^-n); the last installment absorbs rounding
+create or replace function public.build_loan_schedule(p_loan uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  l public.loans;
+  payment numeric;
+  remaining numeric;
+  interest numeric;
+  principal_part numeric;
+begin
+  select * into l from public.loans where id = p_loan;
+  remaining := l.principal;
+  payment := case
+    when l.monthly_rate = 0 then round(l.principal / l.term_months, 2)
+    else round(l.principal * l.monthly_rate / (1 - power(1 + l.monthly_rate, -l.term_months)), 2)
+  end;
+
+  for k in 1..l.term_months loop
+    interest := round(remaining * l.monthly_rate, 2);
+    principal_part := case when k = l.term_months then remaining else least(remaining, payment - interest) end;
+
+    insert into public.loan_installments (loan_id, seq, due_date, principal_due, interest_due)
+    values (l.id, k, (current_date + make_interval(months => k))::date, principal_part, interest);
+
+    remaining := remaining - principal_part;
+  end loop;
+end;
+$$;
+
+create or replace function public.disburse_loan(p_loan uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  l public.loans;
+  borrower public.users;
+  product public.loan_products;
+  tx_id uuid;
+begin
+  select * into l from public.loans where id = p_loan for update;
+  if not found or l.status <> 'pending' then
+    raise exception 'Loan is not awaiting disbursement';
+  end if;
+  select * into borrower from public.users where id = l.user_id;
+  select * into product from public.loan_products where id = l.product_id;
+
+  perform public.build_loan_schedule(l.id);
+
+  -- Posted by transactions_post_ledger: wallet +principal, loans -principal
+  insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description)
+  values (l.user_id, l.principal, 'GHS', 'LOAN', 'completed', 'Wallet', 'LN-' || replace(gen_random_uuid()::text, '-', ''),
+          coalesce(borrower.phone, 'N/A'), product.name || ' loan (' || l.term_months || ' mo)')
+  returning id into tx_id;
+
+  update public.loans
+  set status = 'active', disbursement_transaction_id = tx_id, disbursed_at = now()
+  where id = l.id;
+end;
+$$;
+
+-- Approval rules: under 500 is declined, within the pre-approved limit is disbursed
+-- straight away, anything larger waits for an admin.
+create or replace function public.apply_for_loan(p_product text, p_amount numeric, p_term integer, p_purpose text)
+returns public.loans
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me uuid := auth.uid();
+  product public.loan_products;
+  cs record;
+  l public.loans;
+begin
+  if me is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into product from public.loan_products where id = p_product and active;
+  if not found then
+    raise exception 'Unknown loan product';
+  end if;
+  if p_term is null or not (p_term = any(product.terms)) then
+    raise exception 'Choose a term of % months', array_to_string(product.terms, ', ');
+  end if;
+  if p_amount is null or p_amount < product.min_amount or p_amount > product.max_amount then
+    raise exception 'Amount must be between GHS % and GHS %', product.min_amount, product.max_amount;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('loan:' || me::text));
+  if exists (select 1 from public.loans where user_id = me and status in ('pending', 'active', 'defaulted')) then
+    raise exception 'You already have an open loan';
+  end if;
+
+  select * into cs from public.credit_score(me);
+
+  insert into public.loans (user_id, product_id, principal, monthly_rate, term_months, purpose, credit_score, credit_limit)
+  values (me, product.id, p_amount, product.monthly_rate, p_term, nullif(btrim(p_purpose), ''), cs.score, cs.credit_limit)
+  returning * into l;
+
+  if cs.score < 500 then
+    update public.loans
+    set status = 'rejected', decision_reason = 'Credit score below 500', decided_at = now()
+    where id = l.id;
+  elsif p_amount <= cs.credit_limit then
+    update public.loans set decision_reason = 'Within pre-approved limit', decided_at = now() where id = l.id;
+    perform public.disburse_loan(l.id);
+  else
+    update public.loans set decision_reason = 'Above pre-approved limit, awaiting review' where id = l.id;
+  end if;
+
+  select * into l from public.loans where id = l.id;
+  return l;
+end;
+$$;
+
+create or replace function public.decide_loan(p_loan uuid, p_approve boolean, p_reason text)
+returns public.loans
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  l public.loans;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can decide on loans';
+  end if;
+
+  update public.loans
+  set decided_by = auth.uid(), decided_at = now(), decision_reason = coalesce(nullif(btrim(p_reason), ''), decision_reason)
+  where id = p_loan and status = 'pending'
+  returning * into l;
+  if not found then
+    raise exception 'Loan is not awaiting a decision';
+  end if;
+
+  if p_approve then
+    perform public.disburse_loan(l.id);
+  else
+    update public.loans set status = 'rejected' where id = l.id;
+  end if;
+
+  select * into l from public.loans where id = l.id;
+  return l;
+end;
+$$;
+
+-- What the borrower owes today: principal still scheduled plus interest and penalties already accrued
+create or replace function public.loan_outstanding(p_loan uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(
+    i.principal_due - i.paid_amount
+    + case when i.accrued_at is not null then i.interest_due + i.penalty_due else 0 end
+  ), 0)
+  from public.loan_installments i
+  where i.loan_id = p_loan and i.status <> 'paid';
+$$;
+
+-- Applies a wallet payment to installments in order. Installments paid off before
+-- they fall due never accrue their interest. Returns the amount applied.
+create or replace function public.apply_loan_repayment(p_loan uuid, p_amount numeric, p_description text)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  l public.loans;
+  inst public.loan_installments;
+  remaining numeric := p_amount;
+  applied numeric := 0;
+  owed numeric;
+  part numeric;
+  entry uuid;
+  borrower public.users;
+begin
+  select * into l from public.loans where id = p_loan for update;
+  if not found or l.status not in ('active', 'defaulted') then
+    raise exception 'Loan is not active';
+  end if;
+
+  for inst in
+    select * from public.loan_installments
+    where loan_id = l.id and status <> 'paid'
+    order by seq
+    for update
+  loop
+    exit when remaining <= 0;
+    owed := inst.principal_due - inst.paid_amount
+      + case when inst.accrued_at is not null then inst.interest_due + inst.penalty_due else 0 end;
+    part := least(owed, remaining);
+    remaining := remaining - part;
+    applied := applied + part;
+
+    if part = owed then
+      update public.loan_installments
+      set paid_amount = paid_amount + part,
+          interest_due = case when accrued_at is null then 0 else interest_due end,
+          status = 'paid',
+          paid_at = now()
+      where id = inst.id;
+    else
+      update public.loan_installments set paid_amount = paid_amount + part where id = inst.id;
+    end if;
+  end loop;
+
+  if applied <= 0 then
+    return 0;
+  end if;
+
+  entry := public.post_journal_entry(
+    'LOAN_REPAYMENT',
+    p_description,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.ledger_wallet_account(l.user_id), 'amount', -applied),
+      jsonb_build_object('account_id', public.ledger_system_account('loans'), 'amount', applied)
+    )
+  );
+
+  select * into borrower from public.users where id = l.user_id;
+  insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description, journal_entry_id)
+  values (l.user_id, applied, 'GHS', 'LOAN_REPAYMENT', 'completed', 'Wallet', 'LNR-' || replace(gen_random_uuid()::text, '-', ''),
+          coalesce(borrower.phone, 'N/A'), p_description, entry);
+
+  if not exists (select 1 from public.loan_installments where loan_id = l.id and status <> 'paid') then
+    update public.loans set status = 'repaid', closed_at = now() where id = l.id;
+  end if;
+
+  return applied;
+end;
+$$;
+
+create or replace function public.repay_loan(p_loan uuid, p_amount numeric)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.loans where id = p_loan and user_id = auth.uid()) then
+    raise exception 'Loan not found';
+  end if;
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be positive';
+  end if;
+  return public.apply_loan_repayment(p_loan, p_amount, 'Loan repayment');
+end;
+$$;
+
+-- Daily servicing run: accrue interest on installments falling due, collect what is
+-- due from wallets, charge penalties after the grace period and mark defaults.
+create or replace function public.service_loans()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inst record;
+  lo record;
+  due numeric;
+  available numeric;
+  penalty numeric;
+begin
+  -- 1. Interest accrual
+  for inst in
+    select i.* from public.loan_installments i
+    join public.loans l on l.id = i.loan_id
+    where i.accrued_at is null and i.status <> 'paid' and i.due_date <= current_date and l.status in ('active', 'defaulted')
+    for update of i
+  loop
+    if inst.interest_due > 0 then
+      perform public.post_journal_entry(
+        'LOAN_INTEREST',
+        'Interest on loan ' || inst.loan_id || ', installment ' || inst.seq,
+        jsonb_build_array(
+          jsonb_build_object('account_id', public.ledger_system_account('loans'), 'amount', -inst.interest_due),
+          jsonb_build_object('account_id', public.ledger_system_account('interest'), 'amount', inst.interest_due)
+        )
+      );
+    end if;
+    update public.loan_installments set accrued_at = now(), status = 'due' where id = inst.id;
+  end loop;
+
+  -- 2. Automatic repayment from the wallet, as much as the balance covers
+  for lo in
+    select l.id, l.user_id from public.loans l
+    where l.status in ('active', 'defaulted')
+      and exists (select 1 from public.loan_installments i where i.loan_id = l.id and i.status in ('due', 'overdue'))
+  loop
+    select coalesce(sum(i.principal_due + i.interest_due + i.penalty_due - i.paid_amount), 0) into due
+    from public.loan_installments i
+    where i.loan_id = lo.id and i.status in ('due', 'overdue');
+    available := least(due, public.wallet_balance(lo.user_id));
+
+    if available > 0 then
+      begin
+        perform public.apply_loan_repayment(lo.id, available, 'Automatic loan repayment');
+      exception when others then
+        raise warning 'Loan % collection failed: %', lo.id, sqlerrm;
+      end;
+    end if;
+  end loop;
+
+  -- 3. One penalty per installment still unpaid after the grace period
+  for inst in
+    select i.*, p.penalty_rate from public.loan_installments i
+    join public.loans l on l.id = i.loan_id
+    join public.loan_products p on p.id = l.product_id
+    where i.status = 'due' and i.due_date + p.grace_days < current_date
+    for update of i
+  loop
+    penalty := round((inst.principal_due + inst.interest_due - inst.paid_amount) * inst.penalty_rate, 2);
+    if penalty > 0 then
+      perform public.post_journal_entry(
+        'LOAN_PENALTY',
+        'Late payment on loan ' || inst.loan_id || ', installment ' || inst.seq,
+        jsonb_build_array(
+          jsonb_build_object('account_id', public.ledger_system_account('loans'), 'amount', -penalty),
+          jsonb_build_object('account_id', public.ledger_system_account('fees'), 'amount', penalty)
+        )
+      );
+    end if;
+    update public.loan_installments set penalty_due = penalty, penalised_at = now(), status = 'overdue' where id = inst.id;
+  end loop;
+
+  -- 4. Default after 90 days overdue
+  update public.loans l set status = 'defaulted'
+  where l.status = 'active'
+    and exists (
+      select 1 from public.loan_installments i
+      where i.loan_id = l.id and i.status = 'overdue' and i.due_date < current_date - 90
+    );
+end;
+$$;
+
+-- Loan book for the admin dashboard
+create or replace function public.loan_book()
+returns table (
+  id uuid,
+  borrower_id uuid,
+  borrower_name text,
+  borrower_phone text,
+  product_name text,
+  principal numeric,
+  term_months integer,
+  monthly_rate numeric,
+  status text,
+  credit_score integer,
+  credit_limit numeric,
+  decision_reason text,
+  outstanding numeric,
+  next_due_date date,
+  days_overdue integer,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_staff() then
+    raise exception 'Not authorized';
+  end if;
+
+  return query
+  select
+    l.id, l.user_id, u.name, u.phone, p.name, l.principal, l.term_months, l.monthly_rate,
+    l.status, l.credit_score, l.credit_limit, l.decision_reason,
+    public.loan_outstanding(l.id),
+    (select min(i.due_date) from public.loan_installments i where i.loan_id = l.id and i.status <> 'paid'),
+    coalesce((select current_date - min(i.due_date) from public.loan_installments i where i.loan_id = l.id and i.status = 'overdue'), 0),
+    l.created_at
+  from public.loans l
+  join public.users u on u.id = l.user_id
+  join public.loan_products p on p.id = l.product_id
+  order by (l.status = 'pending') desc, l.created_at desc;
+end;
+$$;
+
+-- Manual repayments move money out of the wallet, so they need the PIN too
+create or replace function public.require_wallet_pin()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (new.status = 'completed' or new.type = 'WITHDRAWAL')
+     and new.type in ('WITHDRAWAL', 'PAYMENT', 'TRANSFER', 'ESCROW_HOLD', 'LOAN_REPAYMENT')
+     and auth.uid() is not null
+     and auth.uid() = new.user_id then
+    perform public.consume_wallet_pin_verification(new.user_id);
+  end if;
+  return new;
+end;
+$$;
+
+create extension if not exists pg_cron;
+select cron.schedule('service-loans', '30 0 * * *', $$select public.service_loans()$$);
+
+revoke execute on function public.credit_score(uuid) from public, anon, authenticated;
+revoke execute on function public.build_loan_schedule(uuid) from public, anon, authenticated;
+revoke execute on function public.disburse_loan(uuid) from public, anon, authenticated;
+revoke execute on function public.apply_loan_repayment(uuid, numeric, text) from public, anon, authenticated;
+revoke execute on function public.service_loans() from public, anon, authenticated;
+revoke execute on function public.loan_outstanding(uuid) from public, anon, authenticated;
+grant execute on function public.my_credit_score() to authenticated;
+grant execute on function public.apply_for_loan(text, numeric, integer, text) to authenticated;
+grant execute on function public.decide_loan(uuid, boolean, text) to authenticated;
+grant execute on function public.repay_loan(uuid, numeric) to authenticated;
+grant execute on function public.loan_book() to authenticated;
@@ -0,0 +1,241 @@
+-- BILL PAYMENTS (ECG, Ghana Water, DSTV, GOtv, school fees)
+-- The bill-payment function looks the customer up with the biller, debits the wallet
+-- through start_bill_payment, then pays the biller. A refused payment is refunded
+-- through fail_bill_payment. One the biller didn't clearly accept or refuse (a timeout, a 5xx)
+-- stays 'pending' until it is reconciled with the biller's records and completed or failed
+-- by the service role. Saved billers can repeat weekly or monthly.
+
+create table if not exists public.saved_billers (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.users(id) on delete cascade not null,
+  biller_id text not null,
+  account_number text not null,
+  customer_name text,
+  nickname text,
+  plan_code text,                 -- TV bouquet to renew
+  recurring_amount numeric check (recurring_amount > 0),
+  recurring_frequency text check (recurring_frequency in ('weekly', 'monthly')),
+  next_payment_on date,
+  last_payment_status text check (last_payment_status in ('completed', 'pending', 'failed')),
+  last_payment_error text,
+  created_at timestamptz default now(),
+  unique (user_id, biller_id, account_number),
+  check ((recurring_frequency is null) = (next_payment_on is null))
+);
+
+create index if not exists saved_billers_due_idx on public.saved_billers(next_payment_on) where recurring_frequency is not null;
+
+create table if not exists public.bill_payments (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.users(id) on delete cascade not null,
+  biller_id text not null,
+  account_number text not null,
+  customer_name text,
+  amount numeric not null check (amount > 0),
+  fee numeric not null default 0 check (fee >= 0),
+  plan_code text,
+  status text not null default 'pending' check (status in ('pending', 'completed', 'failed')),
+  token text,                     -- e.g. ECG prepaid token, shown on the receipt
+  biller_reference text,
+  details jsonb not null default '{}'::jsonb,
+  failure_reason text,
+  transaction_id uuid references public.transactions(id),
+  refund_transaction_id uuid references public.transactions(id),
+  saved_biller_id uuid references public.saved_billers(id) on delete set null,
+  recurring boolean not null default false,
+  created_at timestamptz default now(),
+  completed_at timestamptz
+);
+
+create index if not exists bill_payments_user_idx on public.bill_payments(user_id, created_at desc);
+
+-- Reads (and removing saved billers) only; everything else goes through bill-payment
+alter table public.saved_billers enable row level security;
+alter table public.bill_payments enable row level security;
+
+drop policy if exists "Users view their saved billers" on public.saved_billers;
+create policy "Users view their saved billers" on public.saved_billers
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users remove their saved billers" on public.saved_billers;
+create policy "Users remove their saved billers" on public.saved_billers
+  for delete using (auth.uid() = user_id);
+
+drop policy if exists "Users view their bill payments" on public.bill_payments;
+create policy "Users view their bill payments" on public.bill_payments
+  for select using (auth.uid() = user_id);
+
+-- Called by bill-payment (service role). Debits amount + fee and records the pending payment.
+-- Payments the user makes need a verified PIN; recurring ones were authorised when set up.
+create or replace function public.start_bill_payment(
+  p_user uuid,
+  p_biller text,
+  p_biller_name text,
+  p_account text,
+  p_customer_name text,
+  p_amount numeric,
+  p_fee numeric,
+  p_plan_code text,
+  p_saved_biller uuid,
+  p_require_pin boolean
+)
+returns public.bill_payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me public.users;
+  descr text := p_biller_name || ' - ' || p_account;
+  entry uuid;
+  tx public.transactions;
+  bill public.bill_payments;
+begin
+  if p_amount is null or p_amount <= 0 or p_fee is null or p_fee < 0 then
+    raise exception 'Invalid bill amount';
+  end if;
+
+  select * into me from public.users where id = p_user;
+  if not found then
+    raise exception 'User not found';
+  end if;
+
+  if p_require_pin then
+    perform public.consume_wallet_pin_verification(p_user);
+  end if;
+
+  -- post_journal_entry rejects it if the balance doesn't cover amount + fee
+  entry := public.post_journal_entry(
+    'PAYMENT',
+    descr,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.ledger_wallet_account(p_user), 'amount', -(p_amount + p_fee)),
+      jsonb_build_object('account_id', public.ledger_system_account('payments'), 'amount', p_amount)
+    ) || case when p_fee > 0
+      then jsonb_build_array(jsonb_build_object('account_id', public.ledger_system_account('fees'), 'amount', p_fee))
+      else '[]'::jsonb
+    end
+  );
+
+  insert into public.transactions (user_id, amount, fee, currency, type, status, provider, provider_reference, phone_number, description, journal_entry_id)
+  values (p_user, p_amount, p_fee, 'GHS', 'PAYMENT', 'completed', p_biller_name, 'BIL-' || replace(gen_random_uuid()::text, '-', ''),
+          coalesce(me.phone, 'N/A'), descr, entry)
+  returning * into tx;
+
+  insert into public.bill_payments (user_id, biller_id, account_number, customer_name, amount, fee, plan_code, transaction_id, saved_biller_id, recurring)
+  values (p_user, p_biller, p_account, p_customer_name, p_amount, p_fee, p_plan_code, tx.id, p_saved_biller, not p_require_pin)
+  returning * into bill;
+
+  return bill;
+end;
+$$;
+
+create or replace function public.complete_bill_payment(p_id uuid, p_biller_reference text, p_token text, p_details jsonb)
+returns public.bill_payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  bill public.bill_payments;
+begin
+  update public.bill_payments
+  set status = 'completed', biller_reference = p_biller_reference, token = p_token,
+      details = coalesce(p_details, '{}'::jsonb), completed_at = now()
+  where id = p_id and status = 'pending'
+  returning * into bill;
+
+  if not found then
+    raise exception 'Bill payment is not pending';
+  end if;
+  return bill;
+end;
+$$;
+
+-- The biller refused it: return amount + fee to the wallet as a PAYMENT_REFUND credit
+create or replace function public.fail_bill_payment(p_id uuid, p_reason text)
+returns public.bill_payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  bill public.bill_payments;
+  original public.transactions;
+  entry uuid;
+  refund public.transactions;
+begin
+  select * into bill from public.bill_payments where id = p_id and status = 'pending' for update;
+  if not found then
+    raise exception 'Bill payment is not pending';
+  end if;
+  select * into original from public.transactions where id = bill.transaction_id;
+
+  entry := public.post_journal_entry(
+    'PAYMENT_REFUND',
+    'Refund: ' || original.description,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.ledger_system_account('payments'), 'amount', -bill.amount),
+      jsonb_build_object('account_id', public.ledger_wallet_account(bill.user_id), 'amount', bill.amount + bill.fee)
+    ) || case when bill.fee > 0
+      then jsonb_build_array(jsonb_build_object('account_id', public.ledger_system_account('fees'), 'amount', -bill.fee))
+      else '[]'::jsonb
+    end
+  );
+
+  insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description, journal_entry_id)
+  values (bill.user_id, bill.amount + bill.fee, 'GHS', 'PAYMENT_REFUND', 'completed', original.provider, 'RFD-' || original.provider_reference,
+          original.phone_number, 'Refund: ' || original.description, entry)
+  returning * into refund;
+
+  update public.bill_payments
+  set status = 'failed', failure_reason = p_reason, refund_transaction_id = refund.id
+  where id = p_id
+  returning * into bill;
+
+  return bill;
+end;
+$$;
+
+create or replace function public.stop_recurring_bill(p_saved uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.saved_billers
+  set recurring_amount = null, recurring_frequency = null, next_payment_on = null
+  where id = p_saved and user_id = auth.uid();
+
+  if not found then
+    raise exception 'Saved biller not found';
+  end if;
+end;
+$$;
+
+-- Daily run of due recurring payments. The function URL and service key are read from Vault:
+--   select vault.create_secret('https://<project>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+create extension if not exists pg_net;
+select cron.schedule(
+  'recurring-bills',
+  '0 7 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/bill-payment',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{"action": "run_recurring"}'::jsonb
+  );
+  $$
+);
+
+revoke execute on function public.start_bill_payment(uuid, text, text, text, text, numeric, numeric, text, uuid, boolean) from public, anon, authenticated;
+revoke execute on function public.complete_bill_payment(uuid, text, text, jsonb) from public, anon, authenticated;
+revoke execute on function public.fail_bill_payment(uuid, text) from public, anon, authenticated;
+grant execute on function public.stop_recurring_bill(uuid) to authenticated;
+
+alter publication supabase_realtime add table public.bill_payments;
@@ -0,0 +1,450 @@
+-- INSURANCE (Crop and health cover)
+-- Policies are bought from the wallet and renewed by a monthly premium auto-debit.
+-- Claims carry evidence (uploaded files such as pest diagnosis photos, and weather
+-- report snapshots) and wait in an admin queue. Money only moves through post_journal_entry:
+--   premium       wallet -premium     insurance +premium
+--   claim payout  insurance -amount   wallet +amount
+
+alter table public.ledger_accounts drop constraint if exists ledger_accounts_kind_check;
+alter table public.ledger_accounts add constraint ledger_accounts_kind_check
+  check (kind in ('wallet', 'clearing', 'escrow', 'loans', 'payments', 'payouts', 'fees', 'interest', 'insurance'));
+
+create table if not exists public.insurance_products (
+  id text primary key,
+  name text not null,
+  category text not null check (category in ('crop', 'health')),
+  description text,
+  monthly_premium numeric not null check (monthly_premium > 0),
+  coverage_amount numeric not null check (coverage_amount > 0),
+  term_months integer not null default 12,
+  waiting_days integer not null default 14, -- Incidents this soon after the start aren't covered
+  perils text[] not null,
+  terms text, -- Policy wording printed on the policy document
+  active boolean not null default true
+);
+
+insert into public.insurance_products (id, name, category, description, monthly_premium, coverage_amount, term_months, waiting_days, perils, terms) values
+  ('crop_basic', 'Crop Shield Basic', 'crop', 'Covers drought & pests', 15, 2000, 12, 14, '{drought,pests}',
+   'Pays for loss of the insured crop caused by drought or pest infestation on the insured farm, up to the sum insured per policy year. Losses must be reported within 30 days with supporting evidence.'),
+  ('crop_pro', 'Crop Shield Pro', 'crop', 'Full harvest protection', 45, 8000, 12, 14, '{drought,flood,pests,disease,fire,storm}',
+   'Pays for loss of the insured crop from drought, flood, pests, disease, fire or storm on the insured farm, up to the sum insured per policy year. Losses must be reported within 30 days with supporting evidence.'),
+  ('health_fam', 'Farmer Health', 'health', 'Medical & accident cover', 30, 5000, 12, 30, '{illness,accident,hospitalisation}',
+   'Pays medical bills for illness, accidents and hospital stays of the insured person, up to the sum insured per policy year. Claims need receipts or a medical report.')
+on conflict (id) do nothing;
+
+create table if not exists public.insurance_policies (
+  id uuid default gen_random_uuid() primary key,
+  policy_number text not null unique,
+  user_id uuid references public.users(id) on delete cascade not null,
+  product_id text references public.insurance_products(id) not null,
+  status text not null default 'active' check (status in ('active', 'lapsed', 'cancelled', 'expired')),
+  monthly_premium numeric not null,
+  coverage_amount numeric not null,
+  claimed_amount numeric not null default 0, -- Paid out so far; the rest of the cover is still available
+  start_date date not null default current_date,
+  end_date date not null,
+  next_premium_due date,
+  insured_name text not null,
+  farm_location text,  -- Crop policies
+  insured_crop text,
+  farm_size_acres numeric check (farm_size_acres > 0),
+  cancelled_at timestamptz,
+  created_at timestamptz default now()
+);
+
+create index if not exists insurance_policies_user_idx on public.insurance_policies(user_id);
+create index if not exists insurance_policies_premium_idx on public.insurance_policies(next_premium_due) where status = 'active';
+
+create table if not exists public.insurance_premiums (
+  id bigint generated by default as identity primary key,
+  policy_id uuid references public.insurance_policies(id) on delete cascade not null,
+  due_date date not null,
+  amount numeric not null,
+  status text not null check (status in ('paid', 'failed')),
+  transaction_id uuid references public.transactions(id),
+  created_at timestamptz default now()
+);
+
+create table if not exists public.insurance_claims (
+  id uuid default gen_random_uuid() primary key,
+  claim_number text not null unique,
+  policy_id uuid references public.insurance_policies(id) on delete cascade not null,
+  user_id uuid references public.users(id) on delete cascade not null,
+  peril text not null,
+  incident_date date not null,
+  description text not null,
+  amount_claimed numeric not null check (amount_claimed > 0),
+  status text not null default 'submitted' check (status in ('submitted', 'under_review', 'rejected', 'paid')),
+  amount_paid numeric,
+  decision_notes text,
+  reviewed_by uuid references public.users(id),
+  decided_at timestamptz,
+  payout_transaction_id uuid references public.transactions(id),
+  created_at timestamptz default now()
+);
+
+create index if not exists insurance_claims_status_idx on public.insurance_claims(status);
+
+-- File name and URL are copied so reviewers can open them without access to the claimant's user_files
+create table if not exists public.insurance_claim_evidence (
+  id bigint generated by default as identity primary key,
+  claim_id uuid references public.insurance_claims(id) on delete cascade not null,
+  kind text not null check (kind in ('file', 'weather')),
+  user_file_id uuid references public.user_files(id) on delete set null,
+  file_url text,
+  file_name text,
+  weather_report jsonb, -- WeatherReport snapshot for the insured location
+  note text,
+  created_at timestamptz default now(),
+  check ((kind = 'file') = (file_url is not null) and (kind = 'weather') = (weather_report is not null))
+);
+
+-- Reads only; buying, claiming and adjudicating go through the functions below
+alter table public.insurance_products enable row level security;
+alter table public.insurance_policies enable row level security;
+alter table public.insurance_premiums enable row level security;
+alter table public.insurance_claims enable row level security;
+alter table public.insurance_claim_evidence enable row level security;
+
+drop policy if exists "Anyone can view insurance products" on public.insurance_products;
+create policy "Anyone can view insurance products" on public.insurance_products for select using (true);
+
+drop policy if exists "Policyholders and staff view policies" on public.insurance_policies;
+create policy "Policyholders and staff view policies" on public.insurance_policies
+  for select using (auth.uid() = user_id or public.is_staff());
+
+drop policy if exists "Policyholders and staff view premiums" on public.insurance_premiums;
+create policy "Policyholders and staff view premiums" on public.insurance_premiums
+  for select using (exists (
+    select 1 from public.insurance_policies p
+    where p.id = insurance_premiums.policy_id and (p.user_id = auth.uid() or public.is_staff())
+  ));
+
+drop policy if exists "Claimants and staff view claims" on public.insurance_claims;
+create policy "Claimants and staff view claims" on public.insurance_claims
+  for select using (auth.uid() = user_id or public.is_staff());
+
+drop policy if exists "Claimants and staff view evidence" on public.insurance_claim_evidence;
+create policy "Claimants and staff view evidence" on public.insurance_claim_evidence
+  for select using (exists (
+    select 1 from public.insurance_claims c
+    where c.id = insurance_claim_evidence.claim_id and (c.user_id = auth.uid() or public.is_staff())
+  ));
+
+-- user_files had RLS on but no policies, so uploads were never tracked; claims need their ids
+drop policy if exists "Users manage their files" on public.user_files;
+create policy "Users manage their files" on public.user_files
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Debits one month's premium; raises 'Insufficient wallet balance' if the wallet can't cover it.
+-- Called by the policyholder (PIN checked by require_wallet_pin) or the daily job (no PIN).
+create or replace function public.charge_insurance_premium(p_policy uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  pol public.insurance_policies;
+  product public.insurance_products;
+  holder public.users;
+  entry uuid;
+  tx_id uuid;
+begin
+  select * into pol from public.insurance_policies where id = p_policy for update;
+  select * into product from public.insurance_products where id = pol.product_id;
+  select * into holder from public.users where id = pol.user_id;
+
+  entry := public.post_journal_entry(
+    'INSURANCE_PREMIUM',
+    product.name || ' premium, policy ' || pol.policy_number,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.ledger_wallet_account(pol.user_id), 'amount', -pol.monthly_premium),
+      jsonb_build_object('account_id', public.ledger_system_account('insurance'), 'amount', pol.monthly_premium)
+    )
+  );
+
+  insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description, journal_entry_id)
+  values (pol.user_id, pol.monthly_premium, 'GHS', 'PAYMENT', 'completed', 'Insurance', 'INS-' || replace(gen_random_uuid()::text, '-', ''),
+          coalesce(holder.phone, 'N/A'), 'Insurance: ' || product.name || ' (' || pol.policy_number || ')', entry)
+  returning id into tx_id;
+
+  insert into public.insurance_premiums (policy_id, due_date, amount, status, transaction_id)
+  values (pol.id, coalesce(pol.next_premium_due, current_date), pol.monthly_premium, 'paid', tx_id);
+
+  update public.insurance_policies
+  set next_premium_due = case
+        when coalesce(next_premium_due, current_date) + interval '1 month' < end_date
+        then (coalesce(next_premium_due, current_date) + interval '1 month')::date
+      end,
+      status = 'active'
+  where id = pol.id;
+end;
+$$;
+
+create or replace function public.buy_insurance_policy(p_product text, p_farm_location text, p_crop text, p_acres numeric)
+returns public.insurance_policies
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me public.users;
+  product public.insurance_products;
+  pol public.insurance_policies;
+begin
+  select * into me from public.users where id = auth.uid();
+  if not found then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into product from public.insurance_products where id = p_product and active;
+  if not found then
+    raise exception 'Unknown insurance product';
+  end if;
+  if product.category = 'crop' and (coalesce(btrim(p_farm_location), '') = '' or coalesce(btrim(p_crop), '') = '') then
+    raise exception 'Crop cover needs the farm location and crop';
+  end if;
+  if exists (select 1 from public.insurance_policies where user_id = me.id and product_id = p_product and status = 'active'
+             and (product.category = 'health' or lower(insured_crop) = lower(btrim(p_crop)) and lower(farm_location) = lower(btrim(p_farm_location)))) then
+    raise exception 'You already have an active % policy for this', product.name;
+  end if;
+
+  insert into public.insurance_policies (policy_number, user_id, product_id, monthly_premium, coverage_amount, start_date, end_date, next_premium_due,
+                                         insured_name, farm_location, insured_crop, farm_size_acres)
+  values ('POL-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 10)), me.id, product.id, product.monthly_premium, product.coverage_amount,
+          current_date, (current_date + make_interval(months => product.term_months))::date, current_date, me.name,
+          case when product.category = 'crop' then btrim(p_farm_location) end,
+          case when product.category = 'crop' then btrim(p_crop) end,
+          case when product.category = 'crop' then p_acres end)
+  returning * into pol;
+
+  -- First premium now; the policy is rolled back with it if the wallet can't pay
+  perform public.charge_insurance_premium(pol.id);
+
+  select * into pol from public.insurance_policies where id = pol.id;
+  return pol;
+end;
+$$;
+
+create or replace function public.cancel_insurance_policy(p_policy uuid)
+returns public.insurance_policies
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  pol public.insurance_policies;
+begin
+  if exists (select 1 from public.insurance_claims where policy_id = p_policy and status in ('submitted', 'under_review')) then
+    raise exception 'This policy has a claim in progress';
+  end if;
+
+  update public.insurance_policies
+  set status = 'cancelled', cancelled_at = now(), next_premium_due = null
+  where id = p_policy and user_id = auth.uid() and status in ('active', 'lapsed')
+  returning * into pol;
+
+  if not found then
+    raise exception 'Policy cannot be cancelled';
+  end if;
+  return pol;
+end;
+$$;
+
+-- Daily: collect due premiums, lapse policies unpaid for 30 days, expire finished ones
+create or replace function public.service_insurance()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  pol record;
+begin
+  update public.insurance_policies
+  set status = 'expired', next_premium_due = null
+  where status in ('active', 'lapsed') and end_date < current_date;
+
+  for pol in
+    select p.id, p.next_premium_due, p.monthly_premium from public.insurance_policies p
+    where p.status in ('active', 'lapsed') and p.next_premium_due <= current_date
+  loop
+    begin
+      perform public.charge_insurance_premium(pol.id);
+    exception when others then
+      insert into public.insurance_premiums (policy_id, due_date, amount, status)
+      select pol.id, pol.next_premium_due, pol.monthly_premium, 'failed'
+      where not exists (select 1 from public.insurance_premiums where policy_id = pol.id and due_date = pol.next_premium_due and status = 'failed');
+
+      if pol.next_premium_due < current_date - 30 then
+        update public.insurance_policies set status = 'lapsed' where id = pol.id and status = 'active';
+      end if;
+    end;
+  end loop;
+end;
+$$;
+
+-- Evidence items: { "kind": "file", "user_file_id": "...", "note": "..." }
+--             or { "kind": "weather", "weather_report": {...}, "note": "..." }
+create or replace function public.add_claim_evidence(p_claim uuid, p_evidence jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  item jsonb;
+  f public.user_files;
+begin
+  if not exists (select 1 from public.insurance_claims where id = p_claim and user_id = auth.uid() and status in ('submitted', 'under_review')) then
+    raise exception 'Evidence can only be added to your open claims';
+  end if;
+
+  for item in select * from jsonb_array_elements(coalesce(p_evidence, '[]'::jsonb))
+  loop
+    if item->>'kind' = 'file' then
+      select * into f from public.user_files where id = (item->>'user_file_id')::uuid and user_id = auth.uid();
+      if not found then
+        raise exception 'Evidence file not found';
+      end if;
+      insert into public.insurance_claim_evidence (claim_id, kind, user_file_id, file_url, file_name, note)
+      values (p_claim, 'file', f.id, f.file_url, f.file_name, coalesce(item->>'note', f.ai_summary));
+    elsif item->>'kind' = 'weather' and jsonb_typeof(item->'weather_report') = 'object' then
+      insert into public.insurance_claim_evidence (claim_id, kind, weather_report, note)
+      values (p_claim, 'weather', item->'weather_report', item->>'note');
+    else
+      raise exception 'Unsupported evidence';
+    end if;
+  end loop;
+end;
+$$;
+
+create or replace function public.file_insurance_claim(p_policy uuid, p_peril text, p_incident_date date, p_description text, p_amount numeric, p_evidence jsonb)
+returns public.insurance_claims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  pol public.insurance_policies;
+  product public.insurance_products;
+  claim public.insurance_claims;
+begin
+  select * into pol from public.insurance_policies where id = p_policy and user_id = auth.uid();
+  if not found then
+    raise exception 'Policy not found';
+  end if;
+  select * into product from public.insurance_products where id = pol.product_id;
+
+  if pol.status not in ('active', 'expired') then
+    raise exception 'This policy is % and cannot be claimed on', pol.status;
+  end if;
+  if p_incident_date is null or p_incident_date > current_date
+     or p_incident_date < pol.start_date + product.waiting_days or p_incident_date > pol.end_date then
+    raise exception 'The incident date is outside the cover period (cover starts % after the first % days)', pol.start_date, product.waiting_days;
+  end if;
+  if p_incident_date < current_date - 30 then
+    raise exception 'Claims must be made within 30 days of the incident';
+  end if;
+  if not (p_peril = any(product.perils)) then
+    raise exception '% is not covered by %', p_peril, product.name;
+  end if;
+  if coalesce(btrim(p_description), '') = '' then
+    raise exception 'Describe what happened';
+  end if;
+  if p_amount is null or p_amount <= 0 or p_amount > pol.coverage_amount - pol.claimed_amount then
+    raise exception 'You can claim up to GHS % on this policy', pol.coverage_amount - pol.claimed_amount;
+  end if;
+
+  insert into public.insurance_claims (claim_number, policy_id, user_id, peril, incident_date, description, amount_claimed)
+  values ('CLM-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 10)), pol.id, pol.user_id, p_peril, p_incident_date, btrim(p_description), p_amount)
+  returning * into claim;
+
+  perform public.add_claim_evidence(claim.id, p_evidence);
+  return claim;
+end;
+$$;
+
+-- Admins move claims through review; approving pays the claim into the wallet
+create or replace function public.adjudicate_insurance_claim(p_claim uuid, p_decision text, p_amount numeric, p_notes text)
+returns public.insurance_claims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  claim public.insurance_claims;
+  pol public.insurance_policies;
+  holder public.users;
+  entry uuid;
+  tx_id uuid;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can adjudicate claims';
+  end if;
+
+  select * into claim from public.insurance_claims where id = p_claim and status in ('submitted', 'under_review') for update;
+  if not found then
+    raise exception 'Claim is not open';
+  end if;
+  select * into pol from public.insurance_policies where id = claim.policy_id for update;
+
+  if p_decision = 'under_review' then
+    update public.insurance_claims
+    set status = 'under_review', reviewed_by = auth.uid(), decision_notes = coalesce(nullif(btrim(p_notes), ''), decision_notes)
+    where id = claim.id returning * into claim;
+
+  elsif p_decision = 'rejected' then
+    if coalesce(btrim(p_notes), '') = '' then
+      raise exception 'Give a reason for rejecting the claim';
+    end if;
+    update public.insurance_claims
+    set status = 'rejected', reviewed_by = auth.uid(), decision_notes = btrim(p_notes), decided_at = now()
+    where id = claim.id returning * into claim;
+
+  elsif p_decision = 'approved' then
+    if p_amount is null or p_amount <= 0 or p_amount > least(claim.amount_claimed, pol.coverage_amount - pol.claimed_amount) then
+      raise exception 'Approve between GHS 0 and GHS %', least(claim.amount_claimed, pol.coverage_amount - pol.claimed_amount);
+    end if;
+    select * into holder from public.users where id = claim.user_id;
+
+    entry := public.post_journal_entry(
+      'INSURANCE_CLAIM',
+      'Claim ' || claim.claim_number || ' on policy ' || pol.policy_number,
+      jsonb_build_array(
+        jsonb_build_object('account_id', public.ledger_system_account('insurance'), 'amount', -p_amount),
+        jsonb_build_object('account_id', public.ledger_wallet_account(claim.user_id), 'amount', p_amount)
+      )
+    );
+
+    insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description, journal_entry_id)
+    values (claim.user_id, p_amount, 'GHS', 'INSURANCE_CLAIM', 'completed', 'Insurance', claim.claim_number,
+            coalesce(holder.phone, 'N/A'), 'Insurance claim ' || claim.claim_number, entry)
+    returning id into tx_id;
+
+    update public.insurance_policies set claimed_amount = claimed_amount + p_amount where id = pol.id;
+    update public.insurance_claims
+    set status = 'paid', amount_paid = p_amount, reviewed_by = auth.uid(), decision_notes = nullif(btrim(p_notes), ''),
+        decided_at = now(), payout_transaction_id = tx_id
+    where id = claim.id returning * into claim;
+
+  else
+    raise exception 'Unknown decision %', p_decision;
+  end if;
+
+  return claim;
+end;
+$$;
+
+select cron.schedule('service-insurance', '45 0 * * *', $$select public.service_insurance()$$);
+
+revoke execute on function public.charge_insurance_premium(uuid) from public, anon, authenticated;
+revoke execute on function public.service_insurance() from public, anon, authenticated;
+grant execute on function public.buy_insurance_policy(text, text, text, numeric) to authenticated;
+grant execute on function public.cancel_insurance_policy(uuid) to authenticated;
+grant execute on function public.file_insurance_claim(uuid, text, date, text, numeric, jsonb) to authenticated;
+grant execute on function public.add_claim_evidence(uuid, jsonb) to authenticated;
+grant execute on function public.adjudicate_insurance_claim(uuid, text, numeric, text) to authenticated;
+
+alter publication supabase_realtime add table public.insurance_claims;
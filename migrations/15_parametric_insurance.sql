@@ -0,0 +1,396 @@
+-- PARAMETRIC INSURANCE (Weather-index cover)
+-- Index policies pay out when rainfall at the insured farm crosses a threshold, with no
+-- loss assessment. The weather-observations function stores daily rainfall per 0.1° grid
+-- cell; evaluate_parametric_triggers() checks every trigger against it each day and records
+-- each decision, fired or not, in parametric_trigger_evaluations as the audit trail.
+-- A fired trigger files a 'parametric' claim and pays it straight away.
+
+alter table public.insurance_products add column if not exists parametric boolean not null default false;
+-- Triggers created for each new policy: [{ index, window_days, threshold_mm, payout_share }]
+alter table public.insurance_products add column if not exists index_defaults jsonb not null default '[]'::jsonb;
+
+insert into public.insurance_products (id, name, category, description, monthly_premium, coverage_amount, term_months, waiting_days, perils, terms, parametric, index_defaults) values
+  ('rain_index', 'Rainfall Index Cover', 'crop', 'Automatic payout on drought or flooding rain', 20, 3000, 12, 14, '{drought,flood}',
+   'Pays automatically when rainfall measured at the insured farm location falls below the drought threshold or exceeds the flood threshold over the stated period. No claim form is needed; payouts are based on weather data alone and do not depend on the actual loss.',
+   true,
+   '[{"index": "drought", "window_days": 30, "threshold_mm": 40, "payout_share": 0.5},
+     {"index": "excess_rain", "window_days": 3, "threshold_mm": 150, "payout_share": 0.3}]'::jsonb)
+on conflict (id) do nothing;
+
+alter table public.insurance_policies add column if not exists latitude numeric check (latitude between -90 and 90);
+alter table public.insurance_policies add column if not exists longitude numeric check (longitude between -180 and 180);
+
+create table if not exists public.parametric_triggers (
+  id uuid default gen_random_uuid() primary key,
+  policy_id uuid references public.insurance_policies(id) on delete cascade not null,
+  index text not null check (index in ('drought', 'excess_rain')), -- Total rainfall below / above the threshold
+  window_days integer not null check (window_days between 1 and 120),
+  threshold_mm numeric not null check (threshold_mm >= 0),
+  payout_amount numeric not null check (payout_amount > 0),
+  created_at timestamptz default now()
+);
+
+-- Daily rainfall per grid cell (latitude/longitude rounded to 0.1°)
+create table if not exists public.weather_observations (
+  grid_lat numeric(4, 1) not null,
+  grid_lon numeric(4, 1) not null,
+  observed_on date not null,
+  rainfall_mm numeric not null check (rainfall_mm >= 0),
+  temp_max numeric,
+  source text not null,
+  recorded_at timestamptz not null default now(),
+  primary key (grid_lat, grid_lon, observed_on)
+);
+
+create table if not exists public.parametric_trigger_evaluations (
+  id bigint generated by default as identity primary key,
+  trigger_id uuid references public.parametric_triggers(id) on delete cascade not null,
+  policy_id uuid references public.insurance_policies(id) on delete cascade not null,
+  evaluated_on date not null, -- Last day of the window
+  window_start date not null,
+  observed_days integer not null,
+  index_value numeric,        -- Total rainfall over the window (mm)
+  threshold_mm numeric not null,
+  outcome text not null check (outcome in ('fired', 'not_met', 'insufficient_data', 'waiting_period', 'cooldown', 'cover_exhausted', 'error')),
+  claim_id uuid,
+  details jsonb not null default '{}'::jsonb, -- Daily readings, grid cell and the rule applied
+  created_at timestamptz default now(),
+  unique (trigger_id, evaluated_on)
+);
+
+alter table public.insurance_claims add column if not exists source text not null default 'manual' check (source in ('manual', 'parametric'));
+alter table public.insurance_claims add column if not exists trigger_evaluation_id bigint references public.parametric_trigger_evaluations(id);
+
+-- Reads only; the daily jobs write these
+alter table public.parametric_triggers enable row level security;
+alter table public.weather_observations enable row level security;
+alter table public.parametric_trigger_evaluations enable row level security;
+
+drop policy if exists "Policyholders and staff view triggers" on public.parametric_triggers;
+create policy "Policyholders and staff view triggers" on public.parametric_triggers
+  for select using (exists (
+    select 1 from public.insurance_policies p
+    where p.id = parametric_triggers.policy_id and (p.user_id = auth.uid() or public.is_staff())
+  ));
+
+drop policy if exists "Anyone can view weather observations" on public.weather_observations;
+create policy "Anyone can view weather observations" on public.weather_observations for select using (true);
+
+drop policy if exists "Policyholders and staff view trigger evaluations" on public.parametric_trigger_evaluations;
+create policy "Policyholders and staff view trigger evaluations" on public.parametric_trigger_evaluations
+  for select using (exists (
+    select 1 from public.insurance_policies p
+    where p.id = parametric_trigger_evaluations.policy_id and (p.user_id = auth.uid() or public.is_staff())
+  ));
+
+-- Index cover only pays on its triggers
+create or replace function public.reject_manual_parametric_claims()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.source = 'manual' and exists (
+    select 1 from public.insurance_policies p join public.insurance_products pr on pr.id = p.product_id
+    where p.id = new.policy_id and pr.parametric
+  ) then
+    raise exception 'Index cover pays automatically when a weather trigger fires; no claim is needed';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists insurance_claims_parametric on public.insurance_claims;
+create trigger insurance_claims_parametric
+  before insert on public.insurance_claims
+  for each row execute function public.reject_manual_parametric_claims();
+
+-- Pays an open claim into the claimant's wallet
+create or replace function public.pay_insurance_claim(p_claim uuid, p_amount numeric, p_notes text)
+returns public.insurance_claims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  claim public.insurance_claims;
+  pol public.insurance_policies;
+  holder public.users;
+  entry uuid;
+  tx_id uuid;
+begin
+  select * into claim from public.insurance_claims where id = p_claim and status in ('submitted', 'under_review') for update;
+  if not found then
+    raise exception 'Claim is not open';
+  end if;
+  select * into pol from public.insurance_policies where id = claim.policy_id for update;
+  if p_amount is null or p_amount <= 0 or p_amount > least(claim.amount_claimed, pol.coverage_amount - pol.claimed_amount) then
+    raise exception 'Approve between GHS 0 and GHS %', least(claim.amount_claimed, pol.coverage_amount - pol.claimed_amount);
+  end if;
+  select * into holder from public.users where id = claim.user_id;
+
+  entry := public.post_journal_entry(
+    'INSURANCE_CLAIM',
+    'Claim ' || claim.claim_number || ' on policy ' || pol.policy_number,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.ledger_system_account('insurance'), 'amount', -p_amount),
+      jsonb_build_object('account_id', public.ledger_wallet_account(claim.user_id), 'amount', p_amount)
+    )
+  );
+
+  insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description, journal_entry_id)
+  values (claim.user_id, p_amount, 'GHS', 'INSURANCE_CLAIM', 'completed', 'Insurance', claim.claim_number,
+          coalesce(holder.phone, 'N/A'), 'Insurance claim ' || claim.claim_number, entry)
+  returning id into tx_id;
+
+  update public.insurance_policies set claimed_amount = claimed_amount + p_amount where id = pol.id;
+  update public.insurance_claims
+  set status = 'paid', amount_paid = p_amount, reviewed_by = auth.uid(), decision_notes = nullif(btrim(p_notes), ''),
+      decided_at = now(), payout_transaction_id = tx_id
+  where id = claim.id returning * into claim;
+
+  return claim;
+end;
+$$;
+
+create or replace function public.adjudicate_insurance_claim(p_claim uuid, p_decision text, p_amount numeric, p_notes text)
+returns public.insurance_claims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  claim public.insurance_claims;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can adjudicate claims';
+  end if;
+
+  if p_decision = 'approved' then
+    return public.pay_insurance_claim(p_claim, p_amount, p_notes);
+  end if;
+
+  select * into claim from public.insurance_claims where id = p_claim and status in ('submitted', 'under_review') for update;
+  if not found then
+    raise exception 'Claim is not open';
+  end if;
+
+  if p_decision = 'under_review' then
+    update public.insurance_claims
+    set status = 'under_review', reviewed_by = auth.uid(), decision_notes = coalesce(nullif(btrim(p_notes), ''), decision_notes)
+    where id = claim.id returning * into claim;
+  elsif p_decision = 'rejected' then
+    if coalesce(btrim(p_notes), '') = '' then
+      raise exception 'Give a reason for rejecting the claim';
+    end if;
+    update public.insurance_claims
+    set status = 'rejected', reviewed_by = auth.uid(), decision_notes = btrim(p_notes), decided_at = now()
+    where id = claim.id returning * into claim;
+  else
+    raise exception 'Unknown decision %', p_decision;
+  end if;
+
+  return claim;
+end;
+$$;
+
+-- Index cover needs the farm's coordinates, and gets its triggers from the product.
+-- It pays per policy on the weather in a 0.1° grid cell, so a user can hold one policy per
+-- crop in a cell, covering at most 100 acres across the cell in total.
+drop function if exists public.buy_insurance_policy(text, text, text, numeric);
+create or replace function public.buy_insurance_policy(p_product text, p_farm_location text, p_crop text, p_acres numeric,
+                                                       p_latitude numeric default null, p_longitude numeric default null)
+returns public.insurance_policies
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me public.users;
+  product public.insurance_products;
+  pol public.insurance_policies;
+begin
+  select * into me from public.users where id = auth.uid();
+  if not found then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into product from public.insurance_products where id = p_product and active;
+  if not found then
+    raise exception 'Unknown insurance product';
+  end if;
+  if product.category = 'crop' and (coalesce(btrim(p_farm_location), '') = '' or coalesce(btrim(p_crop), '') = '') then
+    raise exception 'Crop cover needs the farm location and crop';
+  end if;
+  if product.parametric and (p_latitude is null or p_longitude is null) then
+    raise exception 'Index cover needs the GPS location of the farm';
+  end if;
+  if product.parametric and not coalesce(p_acres > 0, false) then
+    raise exception 'Index cover needs the farm size';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('insurance:' || me.id::text));
+  if product.parametric then
+    if exists (select 1 from public.insurance_policies where user_id = me.id and product_id = p_product and status = 'active'
+               and round(latitude, 1) = round(p_latitude, 1) and round(longitude, 1) = round(p_longitude, 1)
+               and lower(insured_crop) = lower(btrim(p_crop))) then
+      raise exception 'You already have an active % policy for % in this area', product.name, btrim(p_crop);
+    end if;
+    if (select coalesce(sum(p.farm_size_acres), 0) from public.insurance_policies p
+        join public.insurance_products pr on pr.id = p.product_id
+        where p.user_id = me.id and p.status = 'active' and pr.parametric
+          and round(p.latitude, 1) = round(p_latitude, 1) and round(p.longitude, 1) = round(p_longitude, 1)) + p_acres > 100 then
+      raise exception 'Index cover is limited to 100 acres per area';
+    end if;
+  elsif exists (select 1 from public.insurance_policies where user_id = me.id and product_id = p_product and status = 'active'
+                and (product.category = 'health' or lower(insured_crop) = lower(btrim(p_crop)) and lower(farm_location) = lower(btrim(p_farm_location)))) then
+    raise exception 'You already have an active % policy for this', product.name;
+  end if;
+
+  insert into public.insurance_policies (policy_number, user_id, product_id, monthly_premium, coverage_amount, start_date, end_date, next_premium_due,
+                                         insured_name, farm_location, insured_crop, farm_size_acres, latitude, longitude)
+  values ('POL-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 10)), me.id, product.id, product.monthly_premium, product.coverage_amount,
+          current_date, (current_date + make_interval(months => product.term_months))::date, current_date, me.name,
+          case when product.category = 'crop' then btrim(p_farm_location) end,
+          case when product.category = 'crop' then btrim(p_crop) end,
+          case when product.category = 'crop' then p_acres end,
+          p_latitude, p_longitude)
+  returning * into pol;
+
+  if product.parametric then
+    insert into public.parametric_triggers (policy_id, index, window_days, threshold_mm, payout_amount)
+    select pol.id, d->>'index', (d->>'window_days')::integer, (d->>'threshold_mm')::numeric,
+           round(product.coverage_amount * (d->>'payout_share')::numeric, 2)
+    from jsonb_array_elements(product.index_defaults) d;
+  end if;
+
+  -- First premium now; the policy is rolled back with it if the wallet can't pay
+  perform public.charge_insurance_premium(pol.id);
+
+  select * into pol from public.insurance_policies where id = pol.id;
+  return pol;
+end;
+$$;
+
+-- Grid cells the weather-observations function should fetch
+create or replace function public.parametric_grid_cells()
+returns table (grid_lat numeric, grid_lon numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select distinct round(p.latitude, 1), round(p.longitude, 1)
+  from public.insurance_policies p
+  join public.parametric_triggers t on t.policy_id = p.id
+  where p.status = 'active' and p.latitude is not null;
+$$;
+
+-- Evaluates every trigger of active index policies for the window ending p_on (yesterday by default).
+-- A window needs 80% of its days observed. A trigger fires at most once per window length.
+create or replace function public.evaluate_parametric_triggers(p_on date default current_date - 1)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t record;
+  window_start date;
+  days integer;
+  total numeric;
+  readings jsonb;
+  breached boolean;
+  remaining numeric;
+  result text;
+  eval_id bigint;
+  claim public.insurance_claims;
+  fired integer := 0;
+begin
+  for t in
+    select tr.*, p.user_id, p.policy_number, p.start_date, p.coverage_amount, p.claimed_amount,
+           round(p.latitude, 1) as grid_lat, round(p.longitude, 1) as grid_lon, pr.waiting_days
+    from public.parametric_triggers tr
+    join public.insurance_policies p on p.id = tr.policy_id
+    join public.insurance_products pr on pr.id = p.product_id
+    where p.status = 'active' and p.latitude is not null and p.end_date >= p_on
+      and not exists (select 1 from public.parametric_trigger_evaluations e where e.trigger_id = tr.id and e.evaluated_on = p_on)
+  loop
+    window_start := p_on - t.window_days + 1;
+
+    select count(*), coalesce(sum(o.rainfall_mm), 0),
+           coalesce(jsonb_agg(jsonb_build_object('date', o.observed_on, 'rainfall_mm', o.rainfall_mm, 'source', o.source) order by o.observed_on), '[]'::jsonb)
+    into days, total, readings
+    from public.weather_observations o
+    where o.grid_lat = t.grid_lat and o.grid_lon = t.grid_lon and o.observed_on between window_start and p_on;
+
+    breached := case t.index when 'drought' then total < t.threshold_mm else total > t.threshold_mm end;
+    remaining := t.coverage_amount - t.claimed_amount;
+
+    result := case
+      when window_start < t.start_date + t.waiting_days then 'waiting_period'
+      when days < ceil(t.window_days * 0.8) then 'insufficient_data'
+      when not breached then 'not_met'
+      when exists (select 1 from public.parametric_trigger_evaluations e
+                   where e.trigger_id = t.id and e.outcome = 'fired' and e.evaluated_on > p_on - t.window_days) then 'cooldown'
+      when remaining <= 0 then 'cover_exhausted'
+      else 'fired'
+    end;
+
+    insert into public.parametric_trigger_evaluations (trigger_id, policy_id, evaluated_on, window_start, observed_days, index_value, threshold_mm, outcome, details)
+    values (t.id, t.policy_id, p_on, window_start, days, case when days > 0 then total end, t.threshold_mm, result,
+            jsonb_build_object(
+              'rule', case t.index when 'drought' then 'rainfall below ' else 'rainfall above ' end || t.threshold_mm || 'mm over ' || t.window_days || ' days',
+              'grid', jsonb_build_object('lat', t.grid_lat, 'lon', t.grid_lon),
+              'readings', readings))
+    returning id into eval_id;
+
+    if result = 'fired' then
+      begin
+        insert into public.insurance_claims (claim_number, policy_id, user_id, peril, incident_date, description, amount_claimed, source, trigger_evaluation_id)
+        values ('CLM-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 10)), t.policy_id, t.user_id,
+                case t.index when 'drought' then 'drought' else 'flood' end, p_on,
+                format('Automatic payout: %s mm of rain from %s to %s (trigger: %s %s mm)', total, window_start, p_on,
+                       case t.index when 'drought' then 'below' else 'above' end, t.threshold_mm),
+                least(t.payout_amount, remaining), 'parametric', eval_id)
+        returning * into claim;
+
+        claim := public.pay_insurance_claim(claim.id, claim.amount_claimed, 'Paid automatically by weather index trigger');
+        update public.parametric_trigger_evaluations set claim_id = claim.id where id = eval_id;
+        fired := fired + 1;
+      exception when others then
+        update public.parametric_trigger_evaluations
+        set outcome = 'error', details = details || jsonb_build_object('error', sqlerrm)
+        where id = eval_id;
+      end;
+    end if;
+  end loop;
+
+  return fired;
+end;
+$$;
+
+-- Observations are fetched at 05:00 (see migrations/13_bill_payments.sql for the Vault secrets),
+-- triggers evaluated at 06:00
+select cron.schedule(
+  'weather-observations',
+  '0 5 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/weather-observations',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+select cron.schedule('parametric-triggers', '0 6 * * *', $$select public.evaluate_parametric_triggers()$$);
+
+revoke execute on function public.reject_manual_parametric_claims() from public, anon, authenticated;
+revoke execute on function public.pay_insurance_claim(uuid, numeric, text) from public, anon, authenticated;
+revoke execute on function public.parametric_grid_cells() from public, anon, authenticated;
+revoke execute on function public.evaluate_parametric_triggers(date) from public, anon, authenticated;
+grant execute on function public.buy_insurance_policy(text, text, text, numeric, numeric, numeric) to authenticated;
@@ -0,0 +1,188 @@
+-- SIGNED PAYMENT QR CODES
+-- A payment QR carries "AGROPAY1.<payload>.<signature>": the payload is base64url JSON
+--   { v: 1, p: payee user id, m: merchant id, a: amount, r: reference, x: expiry (unix), n: nonce }
+-- and the signature an HMAC-SHA256 of it with the 'qr_signing_key' Vault secret, so a code
+-- can't be altered to pay someone else or a different amount.
+-- Static codes (no amount) are printed once and reused; dynamic codes fix the amount and
+-- reference (e.g. for an invoice), expire, and can only be paid once.
+--
+-- Create the signing key once per project:
+--   select vault.create_secret(encode(extensions.gen_random_bytes(32), 'hex'), 'qr_signing_key');
+
+create table if not exists public.payment_qr_redemptions (
+  nonce text primary key,
+  payee_id uuid references public.users(id) on delete cascade not null,
+  payer_id uuid references public.users(id) on delete cascade not null,
+  transaction_id uuid references public.transactions(id) not null,
+  reference text,
+  created_at timestamptz default now()
+);
+
+-- No policies: written and read only through the functions below
+alter table public.payment_qr_redemptions enable row level security;
+
+create or replace function public.b64url_encode(p_data bytea)
+returns text
+language sql
+immutable
+as $$
+  select translate(encode(p_data, 'base64'), E'+/=\n', '-_');
+$$;
+
+create or replace function public.b64url_decode(p_text text)
+returns bytea
+language sql
+immutable
+as $$
+  select decode(rpad(translate(p_text, '-_', '+/'), (ceil(length(p_text) / 4.0) * 4)::integer, '='), 'base64');
+$$;
+
+create or replace function public.payment_qr_signature(p_payload text)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  secret text;
+begin
+  select decrypted_secret into secret from vault.decrypted_secrets where name = 'qr_signing_key';
+  if secret is null then
+    raise exception 'QR signing key is not configured';
+  end if;
+  return public.b64url_encode(extensions.hmac(p_payload, secret, 'sha256'));
+end;
+$$;
+
+-- Code for the caller's wallet. Without an amount it is a static code; with one it is a
+-- single-use code that expires after p_expires_minutes (30 by default).
+create or replace function public.create_payment_qr(p_amount numeric default null, p_reference text default null, p_expires_minutes integer default null)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me public.users;
+  body jsonb;
+  payload text;
+begin
+  select * into me from public.users where id = auth.uid();
+  if not found then
+    raise exception 'Not authenticated';
+  end if;
+  if p_amount is not null and (p_amount <= 0 or p_amount <> round(p_amount, 2)) then
+    raise exception 'Amount must be positive, in pesewas at most';
+  end if;
+  if length(coalesce(p_reference, '')) > 64 then
+    raise exception 'Reference must be 64 characters or fewer';
+  end if;
+
+  body := jsonb_strip_nulls(jsonb_build_object(
+    'v', 1,
+    'p', me.id,
+    'm', me.merchant_id,
+    'a', p_amount,
+    'r', nullif(btrim(p_reference), ''),
+    'x', case
+           when p_expires_minutes is not null then extract(epoch from now() + make_interval(mins => p_expires_minutes))::bigint
+           when p_amount is not null then extract(epoch from now() + interval '30 minutes')::bigint
+         end,
+    'n', case when p_amount is not null then replace(gen_random_uuid()::text, '-', '') end
+  ));
+
+  payload := public.b64url_encode(convert_to(body::text, 'utf8'));
+  return 'AGROPAY1.' || payload || '.' || public.payment_qr_signature(payload);
+end;
+$$;
+
+-- Verified contents of a scanned code; raises if it is forged, expired or already paid
+create or replace function public.payment_qr_claims(p_code text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  parts text[] := string_to_array(btrim(coalesce(p_code, '')), '.');
+  body jsonb;
+begin
+  if array_length(parts, 1) <> 3 or parts[1] <> 'AGROPAY1' or parts[3] <> public.payment_qr_signature(parts[2]) then
+    raise exception 'This is not a valid AgroWallet payment code';
+  end if;
+  body := convert_from(public.b64url_decode(parts[2]), 'utf8')::jsonb;
+
+  if body ? 'x' and (body->>'x')::bigint < extract(epoch from now()) then
+    raise exception 'This payment code has expired. Ask the payee for a new one';
+  end if;
+  if body ? 'n' and exists (select 1 from public.payment_qr_redemptions where nonce = body->>'n') then
+    raise exception 'This payment code has already been paid';
+  end if;
+  return body;
+end;
+$$;
+
+create or replace function public.read_payment_qr(p_code text)
+returns table (id uuid, name text, phone text, merchant_id text, amount numeric, reference text, expires_at timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  body jsonb := public.payment_qr_claims(p_code);
+begin
+  return query
+    select u.id, u.name, '•••' || right(u.phone, 4), u.merchant_id,
+           (body->>'a')::numeric, body->>'r', to_timestamp((body->>'x')::bigint)
+    from public.users u where u.id = (body->>'p')::uuid;
+end;
+$$;
+
+-- Pays a scanned code from the caller's wallet (PIN enforced by the transfer). A code with
+-- an amount is paid exactly that amount; the payee sees the reference on their side.
+create or replace function public.pay_payment_qr(p_code text, p_amount numeric)
+returns public.transactions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  body jsonb := public.payment_qr_claims(p_code);
+  payee public.users;
+  tx public.transactions;
+begin
+  if body ? 'a' and p_amount is distinct from (body->>'a')::numeric then
+    raise exception 'This code is for GHS % exactly', body->>'a';
+  end if;
+  select * into payee from public.users where id = (body->>'p')::uuid;
+  if not found then
+    raise exception 'Recipient not found';
+  end if;
+
+  tx := public.wallet_transfer(payee.id, p_amount,
+    'QR payment to ' || payee.name || coalesce(' · ' || (body->>'r'), ''));
+
+  if body ? 'r' then
+    update public.transactions
+    set description = description || ' · ' || (body->>'r')
+    where provider_reference = tx.provider_reference and type = 'TRANSFER_IN';
+  end if;
+
+  if body ? 'n' then
+    -- The primary key also stops two payments racing for the same code
+    insert into public.payment_qr_redemptions (nonce, payee_id, payer_id, transaction_id, reference)
+    values (body->>'n', payee.id, tx.user_id, tx.id, body->>'r');
+  end if;
+
+  return tx;
+end;
+$$;
+
+revoke execute on function public.payment_qr_signature(text) from public, anon, authenticated;
+revoke execute on function public.payment_qr_claims(text) from public, anon, authenticated;
+grant execute on function public.create_payment_qr(numeric, text, integer) to authenticated;
+grant execute on function public.read_payment_qr(text) to authenticated;
+grant execute on function public.pay_payment_qr(text, numeric) to authenticated;
@@ -0,0 +1,182 @@
+-- MERCHANT INVOICES (Payment requests)
+-- A seller asks for a set amount, optionally from a specific buyer and for a marketplace item
+-- or an equipment booking. The invoice is shared as a link (also rendered as a QR code) or a
+-- chat message, and paid from the buyer's wallet with pay_invoice(). Both sides see the
+-- status change in realtime.
+
+create table if not exists public.invoices (
+  id uuid default gen_random_uuid() primary key,
+  invoice_number text not null unique,
+  merchant_id uuid references public.users(id) on delete cascade not null,
+  payer_id uuid references public.users(id), -- Null: anyone with the link can pay
+  amount numeric not null check (amount > 0),
+  currency text not null default 'GHS',
+  description text not null,
+  item_id uuid references public.marketplace(id) on delete set null,
+  booking_id uuid references public.equipment_bookings(id) on delete set null,
+  status text not null default 'open' check (status in ('open', 'paid', 'cancelled')),
+  due_date date,
+  paid_by uuid references public.users(id),
+  paid_at timestamptz,
+  transaction_id uuid references public.transactions(id),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create index if not exists invoices_merchant_idx on public.invoices(merchant_id, created_at desc);
+create index if not exists invoices_payer_idx on public.invoices(payer_id) where payer_id is not null;
+
+-- Link-only invoices are opened through get_invoice(); the table itself is visible to the
+-- merchant, the named payer and whoever paid it
+alter table public.invoices enable row level security;
+
+drop policy if exists "Invoice parties can view invoices" on public.invoices;
+create policy "Invoice parties can view invoices" on public.invoices
+  for select using (auth.uid() in (merchant_id, payer_id, paid_by));
+
+create or replace function public.create_invoice(p_amount numeric, p_description text, p_payer uuid default null,
+                                                 p_item uuid default null, p_booking uuid default null, p_due_date date default null)
+returns public.invoices
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me public.users;
+  booking public.equipment_bookings;
+  payer uuid := p_payer;
+  inv public.invoices;
+begin
+  select * into me from public.users where id = auth.uid();
+  if not found then
+    raise exception 'Not authenticated';
+  end if;
+  if p_amount is null or p_amount <= 0 or p_amount <> round(p_amount, 2) then
+    raise exception 'Amount must be positive, in pesewas at most';
+  end if;
+  if coalesce(btrim(p_description), '') = '' then
+    raise exception 'Describe what the invoice is for';
+  end if;
+  if payer = me.id then
+    raise exception 'You cannot invoice yourself';
+  end if;
+  if p_due_date is not null and p_due_date < current_date then
+    raise exception 'Due date cannot be in the past';
+  end if;
+
+  if p_item is not null and not exists (select 1 from public.marketplace where id = p_item and user_id = me.id) then
+    raise exception 'You can only invoice for your own listings';
+  end if;
+  if p_booking is not null then
+    select * into booking from public.equipment_bookings where id = p_booking and owner_id = me.id;
+    if not found then
+      raise exception 'You can only invoice for bookings of your own equipment';
+    end if;
+    if booking.status in ('declined', 'cancelled') then
+      raise exception 'This booking was %', booking.status;
+    end if;
+    -- A booking invoice is always addressed to the renter
+    payer := booking.renter_id;
+  end if;
+
+  insert into public.invoices (invoice_number, merchant_id, payer_id, amount, description, item_id, booking_id, due_date)
+  values ('INV-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 10)), me.id, payer, p_amount, btrim(p_description),
+          p_item, p_booking, p_due_date)
+  returning * into inv;
+
+  return inv;
+end;
+$$;
+
+-- An invoice as shown to whoever opened its link, with the merchant's public details
+create or replace function public.get_invoice(p_invoice_number text)
+returns table (id uuid, invoice_number text, merchant_id uuid, merchant_name text, merchant_code text, payer_id uuid, amount numeric,
+               currency text, description text, item_id uuid, item_title text, booking_id uuid, status text, due_date date,
+               paid_by uuid, paid_at timestamptz, created_at timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+    select i.id, i.invoice_number, i.merchant_id, u.name, u.merchant_id, i.payer_id, i.amount,
+           i.currency, i.description, i.item_id, m.title, i.booking_id, i.status, i.due_date,
+           i.paid_by, i.paid_at, i.created_at
+    from public.invoices i
+    join public.users u on u.id = i.merchant_id
+    left join public.marketplace m on m.id = i.item_id
+    where i.invoice_number = upper(btrim(p_invoice_number))
+      -- Invoices addressed to someone else stay private
+      and (i.payer_id is null or auth.uid() in (i.merchant_id, i.payer_id, i.paid_by));
+end;
+$$;
+
+-- Pays an invoice from the caller's wallet (PIN enforced by the transfer)
+create or replace function public.pay_invoice(p_invoice uuid)
+returns public.invoices
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inv public.invoices;
+  tx public.transactions;
+begin
+  select * into inv from public.invoices where id = p_invoice for update;
+  if not found or (inv.payer_id is not null and inv.payer_id <> auth.uid()) then
+    raise exception 'Invoice not found';
+  end if;
+  if inv.status <> 'open' then
+    raise exception 'This invoice is %', inv.status;
+  end if;
+  if inv.merchant_id = auth.uid() then
+    raise exception 'You cannot pay your own invoice';
+  end if;
+
+  tx := public.wallet_transfer(inv.merchant_id, inv.amount, 'Invoice ' || inv.invoice_number || ': ' || inv.description);
+
+  -- The merchant's side names the invoice too
+  update public.transactions
+  set description = description || ' for invoice ' || inv.invoice_number
+  where provider_reference = tx.provider_reference and type = 'TRANSFER_IN';
+
+  update public.invoices
+  set status = 'paid', paid_by = tx.user_id, paid_at = now(), transaction_id = tx.id, updated_at = now()
+  where id = inv.id
+  returning * into inv;
+
+  return inv;
+end;
+$$;
+
+create or replace function public.cancel_invoice(p_invoice uuid)
+returns public.invoices
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inv public.invoices;
+begin
+  update public.invoices
+  set status = 'cancelled', updated_at = now()
+  where id = p_invoice and merchant_id = auth.uid() and status = 'open'
+  returning * into inv;
+  if not found then
+    raise exception 'Only open invoices you issued can be cancelled';
+  end if;
+  return inv;
+end;
+$$;
+
+grant execute on function public.create_invoice(numeric, text, uuid, uuid, uuid, date) to authenticated;
+grant execute on function public.get_invoice(text) to authenticated;
+grant execute on function public.pay_invoice(uuid) to authenticated;
+grant execute on function public.cancel_invoice(uuid) to authenticated;
+
+alter publication supabase_realtime add table public.invoices;
@@ -0,0 +1,78 @@
+-- WALLET STATEMENTS
+-- Statements are built from the ledger rather than the transactions list, so the opening
+-- and closing balances always reconcile with the postings in between.
+
+create index if not exists ledger_postings_account_time_idx on public.ledger_postings(account_id, created_at);
+
+-- The caller's wallet statement for [p_from, p_to] (calendar days, Africa/Accra = UTC)
+create or replace function public.wallet_statement(p_from date, p_to date)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  me public.users;
+  account uuid;
+  opening numeric;
+  lines jsonb;
+begin
+  select * into me from public.users where id = auth.uid();
+  if not found then
+    raise exception 'Not authenticated';
+  end if;
+  if p_from is null or p_to is null or p_to < p_from then
+    raise exception 'Choose a valid statement period';
+  end if;
+  if p_to - p_from > 366 then
+    raise exception 'Statements cover at most a year';
+  end if;
+
+  select id into account from public.ledger_accounts where kind = 'wallet' and user_id = me.id and currency = 'GHS';
+
+  select coalesce(sum(amount), 0) into opening
+  from public.ledger_postings
+  where account_id = account and created_at < p_from::timestamptz;
+
+  select coalesce(jsonb_agg(line order by posted_at, posting_id), '[]'::jsonb) into lines
+  from (
+    select p.created_at as posted_at, p.id as posting_id, jsonb_build_object(
+      'posted_at', p.created_at,
+      'kind', e.kind,
+      'description', coalesce(t.description, e.description, e.kind),
+      'reference', t.provider_reference,
+      'amount', p.amount,
+      'balance', opening + sum(p.amount) over (order by p.created_at, p.id)
+    ) as line
+    from public.ledger_postings p
+    join public.journal_entries e on e.id = p.entry_id
+    left join lateral (
+      select tx.description, tx.provider_reference from public.transactions tx
+      where tx.journal_entry_id = e.id and tx.user_id = me.id
+      order by tx.created_at
+      limit 1
+    ) t on true
+    where p.account_id = account
+      and p.created_at >= p_from::timestamptz
+      and p.created_at < (p_to + 1)::timestamptz
+  ) s;
+
+  return jsonb_build_object(
+    'account_holder', me.name,
+    'phone', me.phone,
+    'merchant_id', me.merchant_id,
+    'currency', 'GHS',
+    'period_from', p_from,
+    'period_to', p_to,
+    'opening_balance', opening,
+    'total_in', coalesce((select sum((l->>'amount')::numeric) from jsonb_array_elements(lines) l where (l->>'amount')::numeric > 0), 0),
+    'total_out', coalesce((select -sum((l->>'amount')::numeric) from jsonb_array_elements(lines) l where (l->>'amount')::numeric < 0), 0),
+    'closing_balance', opening + coalesce((select sum((l->>'amount')::numeric) from jsonb_array_elements(lines) l), 0),
+    'generated_at', now(),
+    'lines', lines
+  );
+end;
+$$;
+
+grant execute on function public.wallet_statement(date, date) to authenticated;
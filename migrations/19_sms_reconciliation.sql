@@ -0,0 +1,191 @@
+-- PAYMENT SMS RECONCILIATION
+-- When a deposit's webhook is late or lost, the payer can paste the network's confirmation SMS.
+-- The app extracts amount, reference and phone (regex first, Gemini as a fallback) and
+-- reconcile_payment_sms() matches them against the caller's pending deposits:
+--   reference, or amount + phone, match    -> SMS queued for admin review
+--   same SMS or network transaction again  -> rejected as a duplicate
+-- The SMS text comes from the client, so it never changes the deposit by itself: the deposit
+-- stays pending, so a late webhook can still settle it, and staff approve the match after
+-- checking the payment on the provider's side.
+-- Every accepted SMS is kept in payment_sms with what it matched.
+
+create table if not exists public.payment_sms (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.users(id) on delete cascade not null,
+  network text not null check (network in ('MTN', 'Telecel', 'AirtelTigo', 'unknown')),
+  parser text not null check (parser in ('regex', 'gemini')),
+  raw_text text not null,
+  raw_hash text not null unique, -- sha256 of the whitespace/case-normalised text
+  network_txn_id text,
+  amount numeric,
+  reference text,
+  phone text,
+  transaction_id uuid references public.transactions(id),
+  outcome text not null check (outcome in ('flagged', 'unmatched')),
+  detail text,
+  review_decision text check (review_decision in ('approved', 'rejected')),
+  reviewed_by uuid references public.users(id),
+  review_notes text,
+  reviewed_at timestamptz,
+  created_at timestamptz default now()
+);
+
+-- One network transaction can only ever settle one deposit
+create unique index if not exists payment_sms_network_txn_idx on public.payment_sms(network, network_txn_id) where network_txn_id is not null;
+create index if not exists payment_sms_review_idx on public.payment_sms(created_at desc) where outcome = 'flagged' and review_decision is null;
+
+alter table public.payment_sms enable row level security;
+
+drop policy if exists "Users and staff view payment SMS" on public.payment_sms;
+create policy "Users and staff view payment SMS" on public.payment_sms
+  for select using (auth.uid() = user_id or public.is_staff());
+
+create or replace function public.reconcile_payment_sms(p_raw text, p_network text, p_parser text, p_amount numeric,
+                                                        p_reference text, p_phone text, p_network_txn_id text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me uuid := auth.uid();
+  hash text;
+  earlier public.payment_sms;
+  tx public.transactions;
+  sms_phone text := nullif(public.normalize_gh_phone(p_phone), '');
+  sms_reference text := nullif(upper(btrim(p_reference)), '');
+  txn_id text := nullif(btrim(p_network_txn_id), '');
+  mismatches text[] := '{}';
+  result text := 'flagged';
+  note text;
+begin
+  if me is null then
+    raise exception 'Not authenticated';
+  end if;
+  if coalesce(btrim(p_raw), '') = '' then
+    raise exception 'Paste the payment SMS';
+  end if;
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Could not read an amount from this SMS';
+  end if;
+
+  -- 1. Replays: the same text, or another SMS for the same network transaction
+  hash := encode(extensions.digest(lower(regexp_replace(btrim(p_raw), '\s+', ' ', 'g')), 'sha256'), 'hex');
+  select * into earlier from public.payment_sms
+  where raw_hash = hash or (txn_id is not null and network = coalesce(p_network, 'unknown') and network_txn_id = txn_id)
+  limit 1;
+  if found then
+    return jsonb_build_object('outcome', 'duplicate', 'transaction_id', earlier.transaction_id,
+      'detail', 'This payment was already submitted on ' || to_char(earlier.created_at at time zone 'UTC', 'YYYY-MM-DD HH24:MI'));
+  end if;
+
+  -- 2. Match by reference (the SMS may cut it short)
+  if sms_reference is not null and length(sms_reference) >= 8 then
+    select * into tx from public.transactions
+    where user_id = me and type = 'DEPOSIT' and upper(provider_reference) like sms_reference || '%'
+    order by created_at desc
+    limit 1
+    for update;
+
+    if found and tx.status <> 'pending' then
+      return jsonb_build_object('outcome', 'duplicate', 'transaction_id', tx.id,
+        'detail', 'Deposit ' || tx.provider_reference || ' is already ' || tx.status);
+    end if;
+  end if;
+
+  -- One open review per deposit
+  if tx.id is not null and exists (select 1 from public.payment_sms
+                                   where transaction_id = tx.id and outcome = 'flagged' and review_decision is null) then
+    return jsonb_build_object('outcome', 'duplicate', 'transaction_id', tx.id,
+      'detail', 'Deposit ' || tx.provider_reference || ' is already awaiting review');
+  end if;
+
+  if tx.id is not null then
+    if round(p_amount, 2) <> round(tx.amount, 2) then
+      mismatches := mismatches || format('amount GHS %s, expected GHS %s', p_amount, tx.amount);
+    end if;
+    if sms_phone is null then
+      mismatches := mismatches || 'no phone number in SMS'::text;
+    elsif sms_phone <> public.normalize_gh_phone(tx.phone_number) then
+      mismatches := mismatches || format('phone %s, expected %s', sms_phone, tx.phone_number);
+    end if;
+
+    if cardinality(mismatches) = 0 then
+      note := 'Reference, amount and phone matched';
+    else
+      note := 'Reference matched; ' || array_to_string(mismatches, '; ');
+    end if;
+  else
+    -- 3. Near match: no usable reference, but a recent pending deposit for the same amount and phone
+    select * into tx from public.transactions
+    where user_id = me and type = 'DEPOSIT' and status = 'pending'
+      and round(amount, 2) = round(p_amount, 2)
+      and sms_phone is not null and public.normalize_gh_phone(phone_number) = sms_phone
+      and created_at > now() - interval '3 days'
+      and not exists (select 1 from public.payment_sms s
+                      where s.transaction_id = transactions.id and s.outcome = 'flagged' and s.review_decision is null)
+    order by created_at desc
+    limit 1
+    for update;
+
+    if found then
+      note := 'Amount and phone matched without a reference';
+    else
+      result := 'unmatched';
+      note := 'No pending deposit matches this SMS';
+    end if;
+  end if;
+
+  insert into public.payment_sms (user_id, network, parser, raw_text, raw_hash, network_txn_id, amount, reference, phone,
+                                  transaction_id, outcome, detail)
+  values (me, coalesce(p_network, 'unknown'), p_parser, btrim(p_raw), hash, txn_id, p_amount, sms_reference, sms_phone,
+          tx.id, result, note);
+
+  return jsonb_build_object('outcome', result, 'transaction_id', tx.id, 'detail', note);
+end;
+$$;
+
+-- Admin decision on a flagged SMS match, taken after finding the payment in the provider's
+-- records. Approving completes the deposit for the amount it was requested for, never the
+-- amount the SMS reports; rejecting leaves the deposit pending for its webhook.
+create or replace function public.review_payment_sms(p_sms uuid, p_approve boolean, p_notes text)
+returns public.payment_sms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  sms public.payment_sms;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can review payment SMS';
+  end if;
+
+  select * into sms from public.payment_sms where id = p_sms and outcome = 'flagged' and review_decision is null for update;
+  if not found then
+    raise exception 'This SMS is not awaiting review';
+  end if;
+  if not p_approve and coalesce(btrim(p_notes), '') = '' then
+    raise exception 'Give a reason for rejecting the payment';
+  end if;
+
+  if p_approve then
+    update public.transactions set status = 'completed'
+    where id = sms.transaction_id and status = 'pending';
+    if not found then
+      raise exception 'The deposit is no longer pending. Reject the SMS instead.';
+    end if;
+  end if;
+
+  update public.payment_sms
+  set review_decision = case when p_approve then 'approved' else 'rejected' end,
+      reviewed_by = auth.uid(), review_notes = nullif(btrim(p_notes), ''), reviewed_at = now()
+  where id = sms.id
+  returning * into sms;
+
+  return sms;
+end;
+$$;
+
+grant execute on function public.reconcile_payment_sms(text, text, text, numeric, text, text, text) to authenticated;
+grant execute on function public.review_payment_sms(uuid, boolean, text) to authenticated;
@@ -0,0 +1,388 @@
+-- FRAUD AND ANOMALY RULES
+-- Outgoing wallet transactions (transfers, withdrawals, payments including bills, and
+-- currency conversions) are screened as they are written, with amounts compared in GHS.
+-- Any rule hit is recorded in fraud_flags and the transaction is set to 'flagged':
+--   transfers and conversions have already moved money and can be reversed by an admin;
+--   payments have already left the wallet, so the flag is for review only;
+--   withdrawals are held before payout until an admin approves or reverses them.
+-- Provider webhooks that report a different amount (migration 09) land in the same queue.
+-- Thresholds live in fraud_rules.params and can be tuned without a migration.
+
+create table if not exists public.fraud_rules (
+  id text primary key,
+  name text not null,
+  description text,
+  severity text not null default 'medium' check (severity in ('low', 'medium', 'high')),
+  params jsonb not null default '{}',
+  enabled boolean not null default true,
+  updated_at timestamptz default now()
+);
+
+insert into public.fraud_rules (id, name, description, severity, params) values
+  ('velocity', 'Velocity limit', 'Too many outgoing transactions in a short window, or too much in a day',
+   'medium', '{"max_count": 5, "window_minutes": 60, "max_amount_24h": 5000}'),
+  ('unusual_amount', 'Unusual amount', 'Much larger than the user''s recent outgoing transactions',
+   'medium', '{"multiplier": 5, "min_history": 5, "min_amount": 200, "history_days": 90}'),
+  ('new_recipients', 'Many new recipients', 'Transfers to several first-time recipients in a day',
+   'medium', '{"max_new": 3, "window_hours": 24}'),
+  ('failed_pins', 'Repeated failed PINs', 'Wrong PIN entered several times shortly before the transaction',
+   'high', '{"max_failures": 3, "window_minutes": 60}'),
+  ('webhook_amount_mismatch', 'Webhook amount mismatch', 'The payment provider reported a different amount or currency than requested',
+   'high', '{}')
+on conflict (id) do nothing;
+
+create table if not exists public.fraud_flags (
+  id uuid default gen_random_uuid() primary key,
+  transaction_id uuid references public.transactions(id) on delete cascade not null,
+  user_id uuid references public.users(id) on delete cascade not null,
+  rule_id text references public.fraud_rules(id) not null,
+  severity text not null,
+  details jsonb not null default '{}',
+  status text not null default 'open' check (status in ('open', 'approved', 'reversed')),
+  reviewed_by uuid references public.users(id),
+  review_notes text,
+  reviewed_at timestamptz,
+  created_at timestamptz default now(),
+  unique (transaction_id, rule_id)
+);
+
+create index if not exists fraud_flags_open_idx on public.fraud_flags(created_at) where status = 'open';
+
+-- Failed PIN attempts, kept after a successful verify resets the counter
+create table if not exists public.wallet_security_events (
+  id bigint generated by default as identity primary key,
+  user_id uuid references public.users(id) on delete cascade not null,
+  kind text not null check (kind in ('pin_failed', 'pin_locked')),
+  created_at timestamptz default now()
+);
+
+create index if not exists wallet_security_events_user_idx on public.wallet_security_events(user_id, created_at desc);
+
+-- Staff read; everything is written by the functions below
+alter table public.fraud_rules enable row level security;
+alter table public.fraud_flags enable row level security;
+alter table public.wallet_security_events enable row level security;
+
+drop policy if exists "Staff view fraud rules" on public.fraud_rules;
+create policy "Staff view fraud rules" on public.fraud_rules for select using (public.is_staff());
+
+drop policy if exists "Staff view fraud flags" on public.fraud_flags;
+create policy "Staff view fraud flags" on public.fraud_flags for select using (public.is_staff());
+
+drop policy if exists "Staff view wallet security events" on public.wallet_security_events;
+create policy "Staff view wallet security events" on public.wallet_security_events for select using (public.is_staff());
+
+create or replace function public.log_wallet_pin_failure()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.locked_until is distinct from old.locked_until and new.locked_until > now() then
+    insert into public.wallet_security_events (user_id, kind) values (new.user_id, 'pin_locked');
+  elsif new.failed_attempts > old.failed_attempts then
+    insert into public.wallet_security_events (user_id, kind) values (new.user_id, 'pin_failed');
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists wallet_pins_log_failures on public.wallet_pins;
+create trigger wallet_pins_log_failures
+  after update on public.wallet_pins
+  for each row execute function public.log_wallet_pin_failure();
+
+-- Params of an enabled rule, or null when it is switched off
+create or replace function public.fraud_rule_params(p_rule text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select params from public.fraud_rules where id = p_rule and enabled;
+$$;
+
+-- Rule thresholds are in GHS. fx_rate() only exists once wallets hold other currencies
+-- (migration 21); until then every amount is GHS and it is never called. An amount in a
+-- currency without a rate is compared as is.
+create or replace function public.fraud_amount_ghs(p_amount numeric, p_currency text)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  r numeric;
+begin
+  if coalesce(p_currency, 'GHS') = 'GHS' then
+    return p_amount;
+  end if;
+  select rate into r from public.fx_rate(p_currency, 'GHS');
+  return p_amount * coalesce(r, 1);
+end;
+$$;
+
+-- Rules that the transaction breaks: [{ "rule": id, "details": {...} }]
+create or replace function public.fraud_rule_hits(p_tx public.transactions)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  outgoing constant text[] := array['TRANSFER', 'WITHDRAWAL', 'PAYMENT', 'FX_OUT'];
+  amount_ghs numeric := public.fraud_amount_ghs(p_tx.amount, p_tx.currency);
+  hits jsonb := '[]';
+  params jsonb;
+  n integer;
+  total numeric;
+  average numeric;
+  since timestamptz;
+begin
+  -- Velocity: count in the window and value over 24 hours
+  params := public.fraud_rule_params('velocity');
+  if params is not null then
+    select count(*) filter (where created_at > now() - make_interval(mins => (params->>'window_minutes')::int)),
+           coalesce(sum(public.fraud_amount_ghs(amount, currency)), 0)
+    into n, total
+    from public.transactions
+    where user_id = p_tx.user_id and type = any(outgoing) and status <> 'failed'
+      and created_at > now() - interval '24 hours';
+
+    if n > (params->>'max_count')::int or total > (params->>'max_amount_24h')::numeric then
+      hits := hits || jsonb_build_array(jsonb_build_object('rule', 'velocity', 'details', jsonb_build_object(
+        'count_in_window', n, 'window_minutes', params->'window_minutes', 'max_count', params->'max_count',
+        'amount_24h', total, 'max_amount_24h', params->'max_amount_24h')));
+    end if;
+  end if;
+
+  -- Unusual amount compared with the user's own history
+  params := public.fraud_rule_params('unusual_amount');
+  if params is not null then
+    select count(*), avg(public.fraud_amount_ghs(amount, currency)) into n, average
+    from public.transactions
+    where user_id = p_tx.user_id and id <> p_tx.id and type = any(outgoing) and status in ('completed', 'pending')
+      and created_at > now() - make_interval(days => (params->>'history_days')::int);
+
+    if n >= (params->>'min_history')::int and amount_ghs >= (params->>'min_amount')::numeric
+       and amount_ghs > (params->>'multiplier')::numeric * average then
+      hits := hits || jsonb_build_array(jsonb_build_object('rule', 'unusual_amount', 'details', jsonb_build_object(
+        'amount', p_tx.amount, 'currency', p_tx.currency, 'amount_ghs', round(amount_ghs, 2), 'average_ghs', round(average, 2),
+        'history_count', n, 'multiplier', params->'multiplier')));
+    end if;
+  end if;
+
+  -- Many first-time recipients; only checked when this recipient is new too
+  params := public.fraud_rule_params('new_recipients');
+  if params is not null and p_tx.type = 'TRANSFER' and p_tx.counterparty_id is not null then
+    since := now() - make_interval(hours => (params->>'window_hours')::int);
+    if not exists (select 1 from public.transactions
+                   where user_id = p_tx.user_id and type = 'TRANSFER' and counterparty_id = p_tx.counterparty_id and created_at <= since) then
+      select count(distinct t.counterparty_id) into n
+      from public.transactions t
+      where t.user_id = p_tx.user_id and t.type = 'TRANSFER' and t.created_at > since
+        and not exists (select 1 from public.transactions e
+                        where e.user_id = t.user_id and e.type = 'TRANSFER' and e.counterparty_id = t.counterparty_id and e.created_at <= since);
+
+      if n > (params->>'max_new')::int then
+        hits := hits || jsonb_build_array(jsonb_build_object('rule', 'new_recipients', 'details', jsonb_build_object(
+          'new_recipients', n, 'window_hours', params->'window_hours', 'max_new', params->'max_new')));
+      end if;
+    end if;
+  end if;
+
+  -- Wrong PINs shortly before the transaction
+  params := public.fraud_rule_params('failed_pins');
+  if params is not null then
+    select count(*) into n
+    from public.wallet_security_events
+    where user_id = p_tx.user_id and created_at > now() - make_interval(mins => (params->>'window_minutes')::int);
+
+    if n >= (params->>'max_failures')::int then
+      hits := hits || jsonb_build_array(jsonb_build_object('rule', 'failed_pins', 'details', jsonb_build_object(
+        'failed_attempts', n, 'window_minutes', params->'window_minutes')));
+    end if;
+  end if;
+
+  return hits;
+end;
+$$;
+
+create or replace function public.screen_wallet_transaction()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  hits jsonb := public.fraud_rule_hits(new);
+begin
+  if jsonb_array_length(hits) = 0 then
+    return null;
+  end if;
+
+  insert into public.fraud_flags (transaction_id, user_id, rule_id, severity, details)
+  select new.id, new.user_id, r.id, r.severity, h->'details'
+  from jsonb_array_elements(hits) h
+  join public.fraud_rules r on r.id = h->>'rule'
+  on conflict (transaction_id, rule_id) do nothing;
+
+  update public.transactions set status = 'flagged' where id = new.id;
+  return null;
+end;
+$$;
+
+drop trigger if exists transactions_screen_fraud on public.transactions;
+create trigger transactions_screen_fraud
+  after insert on public.transactions
+  for each row
+  when (new.type in ('TRANSFER', 'WITHDRAWAL', 'PAYMENT', 'FX_OUT') and new.status in ('pending', 'completed'))
+  execute function public.screen_wallet_transaction();
+
+-- apply_payment_webhook() already flags the deposit; this puts it in the review queue
+create or replace function public.flag_webhook_mismatch()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.fraud_flags (transaction_id, user_id, rule_id, severity, details)
+  select tx.id, tx.user_id, 'webhook_amount_mismatch', 'high', jsonb_build_object(
+    'provider', new.provider, 'event_id', new.event_id, 'expected_amount', tx.amount, 'reported_amount', new.amount,
+    'reported_currency', new.currency, 'detail', new.detail)
+  from public.transactions tx
+  where tx.id = new.transaction_id
+  on conflict (transaction_id, rule_id) do nothing;
+  return null;
+end;
+$$;
+
+drop trigger if exists webhook_events_flag_mismatch on public.webhook_events;
+create trigger webhook_events_flag_mismatch
+  after update of outcome on public.webhook_events
+  for each row
+  when (new.outcome = 'flagged' and new.transaction_id is not null)
+  execute function public.flag_webhook_mismatch();
+
+-- Flagged withdrawals keep their reservation; reversing one refunds it like a failed payout
+create or replace function public.settle_withdrawal()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.type <> 'WITHDRAWAL' or old.status not in ('pending', 'flagged') or new.status = old.status or new.journal_entry_id is null then
+    return new;
+  end if;
+
+  if new.status = 'completed' then
+    perform public.post_journal_entry(
+      'WITHDRAWAL_SETTLED',
+      'Payout confirmed for ' || new.provider_reference,
+      jsonb_build_array(
+        jsonb_build_object('account_id', public.ledger_system_account('payouts'), 'amount', -new.amount),
+        jsonb_build_object('account_id', public.ledger_system_account('clearing'), 'amount', new.amount)
+      )
+    );
+  elsif new.status = 'failed' then
+    perform public.post_journal_entry(
+      'WITHDRAWAL_REVERSED',
+      'Payout failed for ' || new.provider_reference,
+      jsonb_build_array(
+        jsonb_build_object('account_id', public.ledger_system_account('payouts'), 'amount', -new.amount),
+        jsonb_build_object('account_id', public.ledger_system_account('fees'), 'amount', -new.fee),
+        jsonb_build_object('account_id', public.ledger_wallet_account(new.user_id), 'amount', new.amount + new.fee)
+      )
+    );
+  end if;
+  -- 'flagged' keeps the funds reserved until someone reviews it
+  return new;
+end;
+$$;
+
+-- Admin decision on a flagged transaction.
+--   approve: transfers, payments, conversions and deposits complete; withdrawals go back to
+--            'pending' for payout
+--   reverse: transfers and conversions are undone with reversing journal entries (the
+--            recipient must still hold the money); deposits fail; withdrawals are refunded
+create or replace function public.review_flagged_transaction(p_transaction uuid, p_action text, p_notes text)
+returns public.transactions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  tx public.transactions;
+  leg public.transactions;
+  lines jsonb;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can review flagged transactions';
+  end if;
+  if p_action not in ('approve', 'reverse') then
+    raise exception 'Unknown review action %', p_action;
+  end if;
+
+  select * into tx from public.transactions where id = p_transaction and status = 'flagged' for update;
+  if not found then
+    raise exception 'This transaction is not flagged';
+  end if;
+
+  if p_action = 'approve' then
+    update public.transactions
+    set status = case when type = 'WITHDRAWAL' then 'pending' else 'completed' end
+    where id = tx.id
+    returning * into tx;
+  else
+    if coalesce(btrim(p_notes), '') = '' then
+      raise exception 'Give a reason for reversing the transaction';
+    end if;
+
+    if tx.type = 'TRANSFER' then
+      select jsonb_agg(jsonb_build_object('account_id', account_id, 'amount', -amount)) into lines
+      from public.ledger_postings where entry_id = tx.journal_entry_id;
+      perform public.post_journal_entry('REVERSAL', 'Reversal of ' || tx.provider_reference || ': ' || btrim(p_notes), lines);
+
+      -- Both sides of the transfer
+      update public.transactions set status = 'refunded' where journal_entry_id = tx.journal_entry_id;
+      select * into tx from public.transactions where id = tx.id;
+    elsif tx.type = 'FX_OUT' then
+      -- Each leg of a conversion has its own entry in its own currency; both share the reference
+      for leg in
+        select * from public.transactions
+        where user_id = tx.user_id and provider_reference = tx.provider_reference and type in ('FX_OUT', 'FX_IN')
+      loop
+        select jsonb_agg(jsonb_build_object('account_id', account_id, 'amount', -amount)) into lines
+        from public.ledger_postings where entry_id = leg.journal_entry_id;
+        perform public.post_journal_entry('REVERSAL', 'Reversal of ' || tx.provider_reference || ': ' || btrim(p_notes), lines);
+      end loop;
+
+      update public.transactions set status = 'refunded'
+      where user_id = tx.user_id and provider_reference = tx.provider_reference and type in ('FX_OUT', 'FX_IN');
+      select * into tx from public.transactions where id = tx.id;
+    elsif tx.type in ('DEPOSIT', 'WITHDRAWAL') then
+      update public.transactions set status = 'failed' where id = tx.id returning * into tx;
+    else
+      raise exception '% transactions cannot be reversed here', tx.type;
+    end if;
+  end if;
+
+  update public.fraud_flags
+  set status = case when p_action = 'approve' then 'approved' else 'reversed' end,
+      reviewed_by = auth.uid(), review_notes = nullif(btrim(p_notes), ''), reviewed_at = now()
+  where transaction_id = tx.id and status = 'open';
+
+  return tx;
+end;
+$$;
+
+revoke execute on function public.fraud_amount_ghs(numeric, text) from public, anon, authenticated;
+revoke execute on function public.fraud_rule_hits(public.transactions) from public, anon, authenticated;
+revoke execute on function public.fraud_rule_params(text) from public, anon, authenticated;
+grant execute on function public.review_flagged_transaction(uuid, text, text) to authenticated;
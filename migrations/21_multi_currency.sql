@@ -0,0 +1,371 @@
+-- MULTI-CURRENCY WALLETS
+-- Besides GHS, wallets can hold XOF (Togo, Burkina Faso, Côte d'Ivoire) and NGN (Nigeria).
+-- Every currency has its own ledger wallet account, so balances never mix. Admins maintain
+-- the rates in fx_rates; convert_currency() moves money between a user's own balances
+-- with one journal entry per currency through the 'fx' system accounts.
+
+create table if not exists public.currencies (
+  code text primary key,
+  name text not null,
+  symbol text not null,
+  decimals integer not null default 2,
+  min_conversion numeric not null default 1 check (min_conversion > 0), -- Smallest amount fx_quote converts from
+  enabled boolean not null default true
+);
+
+insert into public.currencies (code, name, symbol, decimals, min_conversion) values
+  ('GHS', 'Ghana Cedi', 'GH₵', 2, 1),
+  ('XOF', 'West African CFA Franc', 'CFA', 0, 100),
+  ('NGN', 'Nigerian Naira', '₦', 2, 100)
+on conflict (code) do nothing;
+
+alter table public.users add column if not exists preferred_currency text not null default 'GHS' references public.currencies(code);
+
+-- Rate to convert 1 unit of base into quote. A missing direction uses the inverse of the
+-- other; pairs without GHS are crossed through GHS.
+create table if not exists public.fx_rates (
+  base text references public.currencies(code) not null,
+  quote text references public.currencies(code) not null,
+  rate numeric not null check (rate > 0),
+  updated_by uuid references public.users(id),
+  updated_at timestamptz default now(),
+  primary key (base, quote),
+  check (base <> quote)
+);
+
+-- Starting points only; set current rates from the admin dashboard
+insert into public.fx_rates (base, quote, rate) values
+  ('GHS', 'XOF', 38),
+  ('GHS', 'NGN', 100)
+on conflict (base, quote) do nothing;
+
+-- Rates are public so prices can be shown in any currency; changes go through set_fx_rate()
+alter table public.currencies enable row level security;
+alter table public.fx_rates enable row level security;
+
+drop policy if exists "Anyone can view currencies" on public.currencies;
+create policy "Anyone can view currencies" on public.currencies for select using (true);
+
+drop policy if exists "Anyone can view exchange rates" on public.fx_rates;
+create policy "Anyone can view exchange rates" on public.fx_rates for select using (true);
+
+alter table public.ledger_accounts drop constraint if exists ledger_accounts_kind_check;
+alter table public.ledger_accounts add constraint ledger_accounts_kind_check
+  check (kind in ('wallet', 'clearing', 'escrow', 'loans', 'payments', 'payouts', 'fees', 'interest', 'insurance', 'fx'));
+
+create or replace function public.fx_rate(p_from text, p_to text)
+returns table (rate numeric, updated_at timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  a record;
+  b record;
+begin
+  if p_from = p_to then
+    return query select 1::numeric, now();
+    return;
+  end if;
+
+  return query select r.rate, r.updated_at from public.fx_rates r where r.base = p_from and r.quote = p_to;
+  if found then return; end if;
+
+  return query select 1 / r.rate, r.updated_at from public.fx_rates r where r.base = p_to and r.quote = p_from;
+  if found then return; end if;
+
+  if p_from <> 'GHS' and p_to <> 'GHS' then
+    select * into a from public.fx_rate(p_from, 'GHS');
+    select * into b from public.fx_rate('GHS', p_to);
+    if a.rate is not null and b.rate is not null then
+      return query select a.rate * b.rate, least(a.updated_at, b.updated_at);
+    end if;
+  end if;
+end;
+$$;
+
+create or replace function public.fx_quote(p_from text, p_to text, p_amount numeric)
+returns table (from_currency text, to_currency text, amount numeric, rate numeric, converted numeric, rate_updated_at timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  fx record;
+  src public.currencies;
+  places integer;
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be positive';
+  end if;
+  select * into src from public.currencies where code = p_from and enabled;
+  if not found or not exists (select 1 from public.currencies where code = p_to and enabled) then
+    raise exception 'Unsupported currency';
+  end if;
+  if p_amount <> round(p_amount, src.decimals) then
+    raise exception '% amounts have at most % decimal places', p_from, src.decimals;
+  end if;
+  if p_amount < src.min_conversion then
+    raise exception 'The minimum to convert is % %', src.min_conversion, p_from;
+  end if;
+  select decimals into places from public.currencies where code = p_to;
+
+  select * into fx from public.fx_rate(p_from, p_to);
+  if fx.rate is null then
+    raise exception 'No exchange rate from % to %', p_from, p_to;
+  end if;
+
+  -- Always round down, so a round trip can never come back with more than it started with
+  return query select p_from, p_to, p_amount, round(fx.rate, 6), trunc(p_amount * round(fx.rate, 6), places), fx.updated_at;
+end;
+$$;
+
+-- Converts between the caller's own balances at the quoted rate (PIN enforced by the FX_OUT row).
+-- p_rate is the rate the user confirmed; if an admin changed it since, the conversion is refused.
+create or replace function public.convert_currency(p_from text, p_to text, p_amount numeric, p_rate numeric)
+returns public.transactions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me public.users;
+  q record;
+  ref text := 'FX-' || replace(gen_random_uuid()::text, '-', '');
+  note text;
+  out_entry uuid;
+  in_entry uuid;
+  tx public.transactions;
+begin
+  select * into me from public.users where id = auth.uid();
+  if not found then
+    raise exception 'Not authenticated';
+  end if;
+  if p_from = p_to then
+    raise exception 'Choose two different currencies';
+  end if;
+
+  select * into q from public.fx_quote(p_from, p_to, p_amount);
+  if q.rate <> round(p_rate, 6) then
+    raise exception 'The exchange rate has changed. Get a new quote.';
+  end if;
+  if q.converted <= 0 then
+    raise exception 'Amount is too small to convert';
+  end if;
+
+  note := format('Converted %s %s to %s %s at %s', p_amount, p_from, q.converted, p_to, q.rate);
+
+  out_entry := public.post_journal_entry('FX_OUT', note, jsonb_build_array(
+    jsonb_build_object('account_id', public.ledger_wallet_account(me.id, p_from), 'amount', -p_amount),
+    jsonb_build_object('account_id', public.ledger_system_account('fx', p_from), 'amount', p_amount)
+  ));
+  in_entry := public.post_journal_entry('FX_IN', note, jsonb_build_array(
+    jsonb_build_object('account_id', public.ledger_system_account('fx', p_to), 'amount', -q.converted),
+    jsonb_build_object('account_id', public.ledger_wallet_account(me.id, p_to), 'amount', q.converted)
+  ));
+
+  insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description, journal_entry_id)
+  values (me.id, p_amount, p_from, 'FX_OUT', 'completed', 'Wallet', ref, coalesce(me.phone, 'N/A'), note, out_entry);
+
+  insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description, journal_entry_id)
+  values (me.id, q.converted, p_to, 'FX_IN', 'completed', 'Wallet', ref, coalesce(me.phone, 'N/A'), note, in_entry)
+  returning * into tx;
+
+  return tx;
+end;
+$$;
+
+create or replace function public.set_fx_rate(p_base text, p_quote text, p_rate numeric)
+returns public.fx_rates
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  fx public.fx_rates;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can set exchange rates';
+  end if;
+  if p_rate is null or p_rate <= 0 then
+    raise exception 'Rate must be positive';
+  end if;
+
+  insert into public.fx_rates (base, quote, rate, updated_by, updated_at)
+  values (p_base, p_quote, p_rate, auth.uid(), now())
+  on conflict (base, quote) do update set rate = excluded.rate, updated_by = excluded.updated_by, updated_at = excluded.updated_at
+  returning * into fx;
+  return fx;
+end;
+$$;
+
+-- The caller's balance in every enabled currency
+create or replace function public.wallet_balances()
+returns table (currency text, balance numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.code, coalesce(a.balance, 0)
+  from public.currencies c
+  left join public.ledger_accounts a on a.kind = 'wallet' and a.user_id = auth.uid() and a.currency = c.code
+  where c.enabled
+  order by c.code <> 'GHS', c.code;
+$$;
+
+-- Conversions move money out of the wallet, so FX_OUT needs the PIN too
+create or replace function public.require_wallet_pin()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (new.status = 'completed' or new.type = 'WITHDRAWAL')
+     and new.type in ('WITHDRAWAL', 'PAYMENT', 'TRANSFER', 'ESCROW_HOLD', 'LOAN_REPAYMENT', 'FX_OUT')
+     and auth.uid() is not null
+     and auth.uid() = new.user_id then
+    perform public.consume_wallet_pin_verification(new.user_id);
+  end if;
+  return new;
+end;
+$$;
+
+-- Transfers in any wallet currency (existing three-argument calls stay in GHS)
+drop function if exists public.wallet_transfer(uuid, numeric, text);
+create or replace function public.wallet_transfer(p_recipient uuid, p_amount numeric, p_description text, p_currency text default 'GHS')
+returns public.transactions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  sender public.users;
+  recipient public.users;
+  entry uuid;
+  ref text := 'TRF-' || replace(gen_random_uuid()::text, '-', '');
+  tx public.transactions;
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be positive';
+  end if;
+  if not exists (select 1 from public.currencies where code = p_currency and enabled) then
+    raise exception 'Unsupported currency %', p_currency;
+  end if;
+
+  select * into sender from public.users where id = auth.uid();
+  if not found then
+    raise exception 'Not authenticated';
+  end if;
+  select * into recipient from public.users where id = p_recipient;
+  if not found then
+    raise exception 'Recipient not found';
+  end if;
+  if recipient.id = sender.id then
+    raise exception 'You cannot transfer to yourself';
+  end if;
+
+  entry := public.post_journal_entry(
+    'TRANSFER',
+    p_description,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.ledger_wallet_account(sender.id, p_currency), 'amount', -p_amount),
+      jsonb_build_object('account_id', public.ledger_wallet_account(recipient.id, p_currency), 'amount', p_amount)
+    )
+  );
+
+  insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description, journal_entry_id, counterparty_id)
+  values (recipient.id, p_amount, p_currency, 'TRANSFER_IN', 'completed', 'Wallet', ref, coalesce(recipient.phone, 'N/A'),
+          'Received from ' || sender.name, entry, sender.id);
+
+  insert into public.transactions (user_id, amount, currency, type, status, provider, provider_reference, phone_number, description, journal_entry_id, counterparty_id)
+  values (sender.id, p_amount, p_currency, 'TRANSFER', 'completed', 'Wallet', ref, coalesce(sender.phone, 'N/A'), p_description, entry, recipient.id)
+  returning * into tx;
+
+  return tx;
+end;
+$$;
+
+-- Statements per currency
+drop function if exists public.wallet_statement(date, date);
+create or replace function public.wallet_statement(p_from date, p_to date, p_currency text default 'GHS')
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  me public.users;
+  account uuid;
+  opening numeric;
+  lines jsonb;
+begin
+  select * into me from public.users where id = auth.uid();
+  if not found then
+    raise exception 'Not authenticated';
+  end if;
+  if p_from is null or p_to is null or p_to < p_from then
+    raise exception 'Choose a valid statement period';
+  end if;
+  if p_to - p_from > 366 then
+    raise exception 'Statements cover at most a year';
+  end if;
+
+  select id into account from public.ledger_accounts where kind = 'wallet' and user_id = me.id and currency = p_currency;
+
+  select coalesce(sum(amount), 0) into opening
+  from public.ledger_postings
+  where account_id = account and created_at < p_from::timestamptz;
+
+  select coalesce(jsonb_agg(line order by posted_at, posting_id), '[]'::jsonb) into lines
+  from (
+    select p.created_at as posted_at, p.id as posting_id, jsonb_build_object(
+      'posted_at', p.created_at,
+      'kind', e.kind,
+      'description', coalesce(t.description, e.description, e.kind),
+      'reference', t.provider_reference,
+      'amount', p.amount,
+      'balance', opening + sum(p.amount) over (order by p.created_at, p.id)
+    ) as line
+    from public.ledger_postings p
+    join public.journal_entries e on e.id = p.entry_id
+    left join lateral (
+      select tx.description, tx.provider_reference from public.transactions tx
+      where tx.journal_entry_id = e.id and tx.user_id = me.id
+      order by tx.created_at
+      limit 1
+    ) t on true
+    where p.account_id = account
+      and p.created_at >= p_from::timestamptz
+      and p.created_at < (p_to + 1)::timestamptz
+  ) s;
+
+  return jsonb_build_object(
+    'account_holder', me.name,
+    'phone', me.phone,
+    'merchant_id', me.merchant_id,
+    'currency', p_currency,
+    'period_from', p_from,
+    'period_to', p_to,
+    'opening_balance', opening,
+    'total_in', coalesce((select sum((l->>'amount')::numeric) from jsonb_array_elements(lines) l where (l->>'amount')::numeric > 0), 0),
+    'total_out', coalesce((select -sum((l->>'amount')::numeric) from jsonb_array_elements(lines) l where (l->>'amount')::numeric < 0), 0),
+    'closing_balance', opening + coalesce((select sum((l->>'amount')::numeric) from jsonb_array_elements(lines) l), 0),
+    'generated_at', now(),
+    'lines', lines
+  );
+end;
+$$;
+
+grant execute on function public.fx_rate(text, text) to anon, authenticated;
+grant execute on function public.fx_quote(text, text, numeric) to anon, authenticated;
+grant execute on function public.convert_currency(text, text, numeric, numeric) to authenticated;
+grant execute on function public.set_fx_rate(text, text, numeric) to authenticated;
+grant execute on function public.wallet_balances() to authenticated;
+grant execute on function public.wallet_transfer(uuid, numeric, text, text) to authenticated;
+grant execute on function public.wallet_statement(date, date, text) to authenticated;
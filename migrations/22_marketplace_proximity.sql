@@ -0,0 +1,46 @@
+-- Proximity search for marketplace listings: a PostGIS point kept in step with
+-- location_lat/location_lng, and an RPC that filters by radius and sorts by distance.
+
+create extension if not exists postgis with schema extensions;
+
+-- ---------------------------------------------------------------------------
+-- 1. Listing position as geography, derived from the existing lat/lng columns
+-- ---------------------------------------------------------------------------
+alter table public.marketplace add column if not exists location extensions.geography(Point, 4326)
+  generated always as (
+    case when location_lat is not null and location_lng is not null
+      then extensions.st_setsrid(extensions.st_makepoint(location_lng::float8, location_lat::float8), 4326)::extensions.geography
+    end
+  ) stored;
+
+create index if not exists marketplace_location_idx on public.marketplace using gist (location);
+
+-- ---------------------------------------------------------------------------
+-- 2. Listings around a point, nearest first
+-- ---------------------------------------------------------------------------
+-- Rows are returned as the listing's own columns plus distance_km, so the client gets the
+-- same shape as `select *`. Listings without a location come last, and are left out once
+-- a radius is given. Runs as the caller so marketplace RLS still applies.
+create or replace function public.marketplace_nearby(
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_km numeric default null,
+  p_limit int default 200
+)
+returns setof jsonb
+language sql stable
+set search_path = public, extensions
+as $$
+  with origin as (
+    select st_setsrid(st_makepoint(p_lng, p_lat), 4326)::geography as point
+  )
+  select (to_jsonb(m) - 'location')
+         || jsonb_build_object('distance_km', round((st_distance(m.location, o.point) / 1000)::numeric, 2))
+  from public.marketplace m, origin o
+  where p_radius_km is null
+     or st_dwithin(m.location, o.point, p_radius_km * 1000)
+  order by m.location <-> o.point nulls last, m.created_at desc
+  limit least(greatest(coalesce(p_limit, 200), 1), 500);
+$$;
+
+grant execute on function public.marketplace_nearby(double precision, double precision, numeric, int) to anon, authenticated;
@@ -0,0 +1,61 @@
+-- Map view: bounding-box queries for marketplace and equipment listings.
+-- Equipment gets the same generated PostGIS point as the marketplace (22_marketplace_proximity.sql);
+-- its `location` column is already the free-text place name, hence location_point.
+
+create extension if not exists postgis with schema extensions;
+
+-- ---------------------------------------------------------------------------
+-- 1. Equipment position as geography
+-- ---------------------------------------------------------------------------
+alter table public.equipment add column if not exists location_point extensions.geography(Point, 4326)
+  generated always as (
+    case when location_lat is not null and location_lng is not null
+      then extensions.st_setsrid(extensions.st_makepoint(location_lng::float8, location_lat::float8), 4326)::extensions.geography
+    end
+  ) stored;
+
+create index if not exists equipment_location_point_idx on public.equipment using gist (location_point);
+
+-- ---------------------------------------------------------------------------
+-- 2. Listings inside the visible map area, newest first
+-- ---------------------------------------------------------------------------
+-- Same row shape as `select *`. Capped so a zoomed-out map can't pull the whole table;
+-- both run as the caller so table RLS still applies.
+create or replace function public.marketplace_in_bounds(
+  p_south double precision,
+  p_west double precision,
+  p_north double precision,
+  p_east double precision,
+  p_limit int default 500
+)
+returns setof jsonb
+language sql stable
+set search_path = public, extensions
+as $$
+  select to_jsonb(m) - 'location'
+  from public.marketplace m
+  where st_intersects(m.location, st_makeenvelope(p_west, p_south, p_east, p_north, 4326)::geography)
+  order by m.created_at desc
+  limit least(greatest(coalesce(p_limit, 500), 1), 1000);
+$$;
+
+create or replace function public.equipment_in_bounds(
+  p_south double precision,
+  p_west double precision,
+  p_north double precision,
+  p_east double precision,
+  p_limit int default 500
+)
+returns setof jsonb
+language sql stable
+set search_path = public, extensions
+as $$
+  select to_jsonb(e) - 'location_point'
+  from public.equipment e
+  where st_intersects(e.location_point, st_makeenvelope(p_west, p_south, p_east, p_north, 4326)::geography)
+  order by e.created_at desc
+  limit least(greatest(coalesce(p_limit, 500), 1), 1000);
+$$;
+
+grant execute on function public.marketplace_in_bounds(double precision, double precision, double precision, double precision, int) to anon, authenticated;
+grant execute on function public.equipment_in_bounds(double precision, double precision, double precision, double precision, int) to anon, authenticated;
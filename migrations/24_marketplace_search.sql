@@ -0,0 +1,248 @@
+-- Server-side marketplace search: full-text over title, usage instructions and storage
+-- recommendations, typo tolerance through trigrams, Twi/English synonyms, and facets for
+-- category, price, region and seller rating with paging.
+
+create extension if not exists pg_trgm with schema extensions;
+create extension if not exists postgis with schema extensions;
+
+-- ---------------------------------------------------------------------------
+-- 1. Region, for the region facet
+-- ---------------------------------------------------------------------------
+alter table public.marketplace add column if not exists region text;
+
+-- Best effort for existing listings: the region or one of its main towns in location_name
+update public.marketplace m
+   set region = r.region
+  from (values
+    ('Greater Accra', 'Accra|Tema|Madina|Ashaiman'),
+    ('Ashanti', 'Kumasi|Obuasi|Ejisu|Mampong'),
+    ('Northern', 'Tamale|Yendi|Savelugu'),
+    ('Western', 'Takoradi|Sekondi|Tarkwa'),
+    ('Central', 'Cape Coast|Kasoa|Winneba'),
+    ('Eastern', 'Koforidua|Nkawkaw|Akosombo'),
+    ('Volta', 'Ho|Hohoe|Keta'),
+    ('Bono', 'Sunyani|Berekum|Dormaa'),
+    ('Bono East', 'Techiman|Kintampo'),
+    ('Ahafo', 'Goaso|Bechem'),
+    ('Upper East', 'Bolgatanga|Navrongo|Bawku'),
+    ('Upper West', 'Wa|Lawra|Tumu'),
+    ('Savannah', 'Damongo|Salaga|Bole'),
+    ('North East', 'Nalerigu|Walewale'),
+    ('Oti', 'Dambai|Nkwanta'),
+    ('Western North', 'Sefwi Wiawso|Bibiani')
+  ) as r(region, towns)
+ where m.region is null
+   and m.location_name ~* ('\m(' || r.region || '|' || r.towns || ')\M');
+
+create index if not exists marketplace_region_idx on public.marketplace (region);
+
+-- ---------------------------------------------------------------------------
+-- 2. Search document and indexes
+-- ---------------------------------------------------------------------------
+alter table public.marketplace add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(category, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(usage_instructions, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(storage_recommendations, '')), 'C')
+  ) stored;
+
+create index if not exists marketplace_search_vector_idx on public.marketplace using gin (search_vector);
+create index if not exists marketplace_title_trgm_idx on public.marketplace using gin (lower(title) extensions.gin_trgm_ops);
+
+-- ---------------------------------------------------------------------------
+-- 3. Synonyms: local names and English variants, looked up both ways
+-- ---------------------------------------------------------------------------
+create table if not exists public.search_synonyms (
+  term text primary key,      -- lower case, as typed
+  expansion text not null,    -- what it means in listing titles
+  language text not null default 'tw'
+);
+
+alter table public.search_synonyms enable row level security;
+drop policy if exists "Synonyms are public" on public.search_synonyms;
+create policy "Synonyms are public" on public.search_synonyms for select using (true);
+
+insert into public.search_synonyms (term, expansion, language) values
+  ('aburo', 'maize', 'tw'),
+  ('bankye', 'cassava', 'tw'),
+  ('bayere', 'yam', 'tw'),
+  ('borode', 'plantain', 'tw'),
+  ('kwadu', 'banana', 'tw'),
+  ('nkatie', 'groundnut', 'tw'),
+  ('emo', 'rice', 'tw'),
+  ('ntoosi', 'tomato', 'tw'),
+  ('nkuruma', 'okra', 'tw'),
+  ('mako', 'pepper', 'tw'),
+  ('abe', 'palm', 'tw'),
+  ('kookoo', 'cocoa', 'tw'),
+  ('kosua', 'egg', 'tw'),
+  ('akoko', 'chicken', 'tw'),
+  ('aponkye', 'goat', 'tw'),
+  ('odwan', 'sheep', 'tw'),
+  ('nantwie', 'cattle', 'tw'),
+  ('corn', 'maize', 'en'),
+  ('peanut', 'groundnut', 'en'),
+  ('fowl', 'chicken', 'en'),
+  ('poultry', 'chicken', 'en'),
+  ('manure', 'fertilizer', 'en'),
+  ('fertiliser', 'fertilizer', 'en'),
+  ('cutlass', 'machete', 'en')
+on conflict (term) do nothing;
+
+-- ---------------------------------------------------------------------------
+-- 4. Query text -> tsquery
+-- ---------------------------------------------------------------------------
+-- Every word must match (as a prefix, so results follow typing), either as written or as one of
+-- its synonyms. Synonym terms are matched loosely so "abro" still finds "aburo".
+create or replace function public.marketplace_search_query(p_query text)
+returns tsquery
+language plpgsql stable
+set search_path = public, extensions
+as $$
+declare
+  word text;
+  alternative text;
+  word_query tsquery;
+  result tsquery;
+begin
+  for word in
+    select distinct w from regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') w where length(w) > 1
+  loop
+    word_query := to_tsquery('english', quote_literal(word) || ':*');
+    for alternative in
+      select s.expansion from public.search_synonyms s where s.term = word or similarity(s.term, word) >= 0.5
+      union
+      select s.term from public.search_synonyms s where s.expansion = word
+    loop
+      word_query := word_query || case
+        when alternative ~ '\s' then phraseto_tsquery('english', alternative)
+        else to_tsquery('english', quote_literal(alternative) || ':*')
+      end;
+    end loop;
+    result := case when result is null then word_query else result && word_query end;
+  end loop;
+  return result;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- 5. Search with facets
+-- ---------------------------------------------------------------------------
+-- Returns { total, items, facets }. Each facet counts the matches under every other active
+-- filter, so picking a category still shows how many listings the other categories have.
+-- Prices are GHS; the price range is half-open [min, max) to match the facet buckets.
+create or replace function public.search_marketplace(
+  p_query text default null,
+  p_category text default null,
+  p_min_price numeric default null,
+  p_max_price numeric default null,
+  p_region text default null,
+  p_min_rating numeric default null,
+  p_lat double precision default null,
+  p_lng double precision default null,
+  p_radius_km numeric default null,
+  p_sort text default 'relevance',
+  p_limit int default 24,
+  p_offset int default 0
+)
+returns jsonb
+language plpgsql stable
+set search_path = public, extensions
+as $$
+declare
+  needle text := nullif(lower(trim(coalesce(p_query, ''))), '');
+  q tsquery := public.marketplace_search_query(p_query);
+  origin geography;
+  page_size int := least(greatest(coalesce(p_limit, 24), 1), 100);
+  result jsonb;
+begin
+  if coalesce(p_sort, 'relevance') not in ('relevance', 'newest', 'nearest', 'price_asc', 'price_desc') then
+    raise exception 'Unknown sort order %', p_sort;
+  end if;
+  if p_lat is not null and p_lng is not null then
+    origin := st_setsrid(st_makepoint(p_lng, p_lat), 4326)::geography;
+  end if;
+
+  with seller_ratings as (
+    select target_user_id, round(avg(rating)::numeric, 1) as rating
+    from public.user_reviews
+    group by target_user_id
+  ),
+  matched as (
+    select m.*,
+           sr.rating as seller_rating,
+           case when origin is not null and m.location is not null
+             then round((st_distance(m.location, origin) / 1000)::numeric, 2) end as distance_km,
+           case when needle is null then 0
+             else coalesce(ts_rank(m.search_vector, q), 0) + word_similarity(needle, lower(coalesce(m.title, ''))) end as search_rank
+    from public.marketplace m
+    left join seller_ratings sr on sr.target_user_id = m.user_id
+    where (needle is null
+           or (q is not null and m.search_vector @@ q)
+           or word_similarity(needle, lower(coalesce(m.title, ''))) >= 0.4)
+      and (origin is null or p_radius_km is null or st_dwithin(m.location, origin, p_radius_km * 1000))
+  ),
+  filtered as (
+    select matched.*,
+           (p_category is null or category = p_category) as by_category,
+           ((p_min_price is null or price >= p_min_price) and (p_max_price is null or price < p_max_price)) as by_price,
+           (p_region is null or region = p_region) as by_region,
+           (p_min_rating is null or seller_rating >= p_min_rating) as by_rating
+    from matched
+  ),
+  page as (
+    select *, row_number() over (order by
+      case when p_sort = 'nearest' then distance_km end asc nulls last,
+      case when p_sort = 'price_asc' then price end asc,
+      case when p_sort = 'price_desc' then price end desc,
+      case when coalesce(p_sort, 'relevance') = 'relevance' then search_rank end desc,
+      created_at desc, id
+    ) as row_position
+    from filtered
+    where by_category and by_price and by_region and by_rating
+    order by row_position
+    limit page_size offset greatest(coalesce(p_offset, 0), 0)
+  )
+  select jsonb_build_object(
+    'total', (select count(*) from filtered where by_category and by_price and by_region and by_rating),
+    'items', coalesce((
+      select jsonb_agg(to_jsonb(p) - array['location', 'search_vector', 'search_rank', 'row_position', 'by_category', 'by_price', 'by_region', 'by_rating'] order by p.row_position)
+      from page p
+    ), '[]'::jsonb),
+    'facets', jsonb_build_object(
+      'category', coalesce((
+        select jsonb_agg(jsonb_build_object('value', category, 'count', n) order by n desc)
+        from (select category, count(*) as n from filtered
+              where by_price and by_region and by_rating and category is not null group by category) c
+      ), '[]'::jsonb),
+      'price', coalesce((
+        select jsonb_agg(jsonb_build_object('value', bucket, 'count', n))
+        from (select case when price < 50 then 'under_50'
+                          when price < 200 then '50_200'
+                          when price < 500 then '200_500'
+                          else '500_plus' end as bucket,
+                     count(*) as n
+              from filtered where by_category and by_region and by_rating and price is not null group by 1) b
+      ), '[]'::jsonb),
+      'region', coalesce((
+        select jsonb_agg(jsonb_build_object('value', region, 'count', n) order by n desc)
+        from (select region, count(*) as n from filtered
+              where by_category and by_price and by_rating and region is not null group by region) r
+      ), '[]'::jsonb),
+      'rating', (
+        select jsonb_build_array(
+          jsonb_build_object('value', '4', 'count', count(*) filter (where seller_rating >= 4)),
+          jsonb_build_object('value', '3', 'count', count(*) filter (where seller_rating >= 3))
+        )
+        from filtered where by_category and by_price and by_region
+      )
+    )
+  ) into result;
+
+  return result;
+end;
+$$;
+
+grant execute on function public.marketplace_search_query(text) to anon, authenticated;
+grant execute on function public.search_marketplace(text, text, numeric, numeric, text, numeric, double precision, double precision, numeric, text, int, int) to anon, authenticated;
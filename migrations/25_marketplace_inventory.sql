@@ -0,0 +1,178 @@
+-- Inventory for marketplace listings: stock on hand, unit of measure, minimum order quantity
+-- and bulk price tiers ("40 x 100kg bag of maize at GHS 750/bag, GHS 700/bag from 10").
+-- Placing an order takes the items out of stock; cancelling it puts them back.
+
+-- ---------------------------------------------------------------------------
+-- 1. Listing columns
+-- ---------------------------------------------------------------------------
+-- stock_quantity is null for listings that don't track stock (tools, services, old listings).
+-- price stays the price of one unit; price_tiers holds [{ "min_quantity": 10, "unit_price": 700 }, ...].
+alter table public.marketplace add column if not exists stock_quantity integer check (stock_quantity >= 0);
+alter table public.marketplace add column if not exists unit text;
+alter table public.marketplace add column if not exists min_order_quantity integer not null default 1 check (min_order_quantity >= 1);
+alter table public.marketplace add column if not exists price_tiers jsonb not null default '[]'::jsonb
+  check (jsonb_typeof(price_tiers) = 'array');
+alter table public.marketplace add column if not exists sold_out boolean
+  generated always as (stock_quantity is not null and stock_quantity = 0) stored;
+
+-- Order lines keep the unit they were bought in, and whether they took stock
+alter table public.order_items add column if not exists unit text;
+alter table public.order_items add column if not exists stock_reserved boolean not null default false;
+
+-- ---------------------------------------------------------------------------
+-- 2. Price tiers
+-- ---------------------------------------------------------------------------
+-- Tiers are stored sorted by min_quantity; each starts at a higher quantity and is cheaper than the one before.
+create or replace function public.normalize_marketplace_inventory()
+returns trigger
+language plpgsql
+as $$
+declare
+  tier jsonb;
+  previous_price numeric;
+  previous_quantity int := 1;
+begin
+  if new.price_tiers is null then
+    new.price_tiers := '[]'::jsonb;
+  end if;
+
+  for tier in select * from jsonb_array_elements(new.price_tiers) loop
+    if jsonb_typeof(tier->'min_quantity') is distinct from 'number'
+       or jsonb_typeof(tier->'unit_price') is distinct from 'number' then
+      raise exception 'Each price tier needs a min_quantity and a unit_price';
+    end if;
+  end loop;
+
+  select coalesce(jsonb_agg(jsonb_build_object('min_quantity', t->'min_quantity', 'unit_price', t->'unit_price')
+                            order by (t->>'min_quantity')::numeric), '[]'::jsonb) into new.price_tiers
+  from jsonb_array_elements(new.price_tiers) t;
+
+  previous_price := new.price;
+  for tier in select * from jsonb_array_elements(new.price_tiers) loop
+    if (tier->>'min_quantity')::numeric <> trunc((tier->>'min_quantity')::numeric)
+       or (tier->>'min_quantity')::numeric <= previous_quantity then
+      raise exception 'Price tier quantities must be whole numbers above %', previous_quantity;
+    end if;
+    if (tier->>'unit_price')::numeric < 0 or (tier->>'unit_price')::numeric >= previous_price then
+      raise exception 'Each price tier must be cheaper than the one before it';
+    end if;
+    previous_quantity := (tier->>'min_quantity')::int;
+    previous_price := (tier->>'unit_price')::numeric;
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists marketplace_normalize_inventory on public.marketplace;
+create trigger marketplace_normalize_inventory
+  before insert or update of price, price_tiers on public.marketplace
+  for each row execute function public.normalize_marketplace_inventory();
+
+-- Unit price for a quantity: the highest tier the quantity reaches, otherwise the listed price
+create or replace function public.marketplace_unit_price(p_price numeric, p_tiers jsonb, p_quantity int)
+returns numeric
+language sql immutable
+as $$
+  select coalesce((
+    select (t->>'unit_price')::numeric
+    from jsonb_array_elements(coalesce(p_tiers, '[]'::jsonb)) t
+    where (t->>'min_quantity')::int <= p_quantity
+    order by (t->>'min_quantity')::int desc
+    limit 1
+  ), p_price);
+$$;
+
+-- ---------------------------------------------------------------------------
+-- 3. Taking stock when an order line is added
+-- ---------------------------------------------------------------------------
+-- The listing row is locked so two buyers can't both take the last bags. The unit price is
+-- the listing's tier for the quantity; sync_order_total (03_orders.sql) then carries it into
+-- the order total, so escrow holds what the tiers actually charge. Triggers fire in name order,
+-- so this runs after order_items_price and the tier price wins.
+create or replace function public.reserve_order_item_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  listing public.marketplace;
+  o public.orders;
+begin
+  new.stock_reserved := false;
+  select * into o from public.orders where id = new.order_id;
+  if o.payment_status <> 'unpaid' then
+    raise exception 'Items cannot be added to an order that has been paid';
+  end if;
+  if new.item_id is null then
+    return new;
+  end if;
+
+  select * into listing from public.marketplace where id = new.item_id for update;
+  if not found then
+    raise exception 'Listing not found';
+  end if;
+  if listing.user_id is distinct from o.seller_id then
+    raise exception 'Listing does not belong to the seller of this order';
+  end if;
+  if new.quantity < listing.min_order_quantity then
+    raise exception 'The minimum order for % is % %', listing.title, listing.min_order_quantity, coalesce(listing.unit, 'units');
+  end if;
+  if listing.stock_quantity is not null then
+    if listing.stock_quantity = 0 then
+      raise exception '% is sold out', listing.title;
+    end if;
+    if listing.stock_quantity < new.quantity then
+      raise exception 'Only % % of % left', listing.stock_quantity, coalesce(listing.unit, 'units'), listing.title;
+    end if;
+
+    update public.marketplace set stock_quantity = stock_quantity - new.quantity where id = listing.id;
+    new.stock_reserved := true;
+  end if;
+
+  new.title := coalesce(new.title, listing.title);
+  new.unit := listing.unit;
+  new.unit_price := public.marketplace_unit_price(listing.price, listing.price_tiers, new.quantity);
+  return new;
+end;
+$$;
+
+drop trigger if exists order_items_reserve_stock on public.order_items;
+create trigger order_items_reserve_stock
+  before insert on public.order_items
+  for each row execute function public.reserve_order_item_stock();
+
+-- ---------------------------------------------------------------------------
+-- 4. Returning stock when an order is cancelled
+-- ---------------------------------------------------------------------------
+create or replace function public.restock_cancelled_order()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status <> 'Cancelled' or old.status = 'Cancelled' then
+    return new;
+  end if;
+
+  update public.marketplace m
+     set stock_quantity = m.stock_quantity + oi.quantity
+    from public.order_items oi
+   where oi.order_id = new.id
+     and oi.stock_reserved
+     and m.id = oi.item_id
+     and m.stock_quantity is not null;
+
+  update public.order_items set stock_reserved = false where order_id = new.id and stock_reserved;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_restock_on_cancel on public.orders;
+create trigger orders_restock_on_cancel
+  after update of status on public.orders
+  for each row execute function public.restock_cancelled_order();
+
+grant execute on function public.marketplace_unit_price(numeric, jsonb, int) to anon, authenticated;
@@ -0,0 +1,304 @@
+-- BUYER REQUESTS (reverse marketplace / request for quotation)
+-- Aggregators and processors post demand ("20 tonnes Soyabean in Tamale by March"), farmers
+-- and sellers answer with quotes, and the buyer accepts one, which turns it into an order.
+-- Sellers with matching listings near the buyer get a row in buy_request_matches, which the
+-- app listens to for notifications.
+
+create extension if not exists postgis with schema extensions;
+
+-- ---------------------------------------------------------------------------
+-- 1. Tables
+-- ---------------------------------------------------------------------------
+create table if not exists public.buy_requests (
+  id uuid default gen_random_uuid() primary key,
+  buyer_id uuid references public.users(id) not null,
+  -- Values of the Crop enum in types.ts
+  crop text not null check (crop in (
+    'Maize', 'Cassava', 'Yam', 'Cocoa', 'Rice', 'Tomato', 'Pepper', 'Okro', 'Eggplant', 'Plantain', 'Banana',
+    'Kpakpo Shito', 'Onion', 'Orange', 'Ginger', 'Sorghum', 'Soyabean', 'Millet',
+    'Cow', 'Goat', 'Sheep', 'Chicken', 'Guinea Fowl', 'Turkey', 'Pig', 'Snail', 'Rabbit', 'Tilapia/Catfish', 'Eggs'
+  )),
+  quantity integer not null check (quantity > 0),
+  unit text not null,
+  target_price numeric check (target_price >= 0), -- GHS per unit, optional
+  needed_by date,
+  location_name text,
+  region text,
+  location_lat float,
+  location_lng float,
+  location extensions.geography(Point, 4326) generated always as (
+    case when location_lat is not null and location_lng is not null
+      then extensions.st_setsrid(extensions.st_makepoint(location_lng, location_lat), 4326)::extensions.geography
+    end
+  ) stored,
+  notes text,
+  status text not null default 'open' check (status in ('open', 'awarded', 'closed')),
+  accepted_quote_id uuid,
+  order_id uuid references public.orders(id),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists public.buy_request_quotes (
+  id uuid default gen_random_uuid() primary key,
+  request_id uuid references public.buy_requests(id) on delete cascade not null,
+  seller_id uuid references public.users(id) not null,
+  unit_price numeric not null check (unit_price > 0), -- GHS per unit of the request
+  quantity integer not null check (quantity > 0),
+  delivery_date date,
+  note text,
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'declined', 'withdrawn')),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Sellers near the buyer with listings for the requested crop
+create table if not exists public.buy_request_matches (
+  request_id uuid references public.buy_requests(id) on delete cascade not null,
+  seller_id uuid references public.users(id) not null,
+  distance_km numeric, -- Null when matched by region
+  created_at timestamptz default now(),
+  primary key (request_id, seller_id)
+);
+
+create index if not exists buy_requests_buyer_idx on public.buy_requests(buyer_id);
+create index if not exists buy_requests_open_idx on public.buy_requests(crop, created_at desc) where status = 'open';
+create index if not exists buy_request_quotes_request_idx on public.buy_request_quotes(request_id);
+create index if not exists buy_request_quotes_seller_idx on public.buy_request_quotes(seller_id);
+create index if not exists buy_request_matches_seller_idx on public.buy_request_matches(seller_id);
+
+-- One live quote per seller per request; a withdrawn quote can be replaced
+create unique index if not exists buy_request_quotes_one_pending
+  on public.buy_request_quotes(request_id, seller_id) where status = 'pending';
+
+-- ---------------------------------------------------------------------------
+-- 2. Quotes: checked on the way in, then only the status moves
+-- ---------------------------------------------------------------------------
+create or replace function public.prepare_buy_request_quote()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.buy_requests;
+begin
+  select * into r from public.buy_requests where id = new.request_id;
+  if not found then
+    raise exception 'Request not found';
+  end if;
+  if r.status <> 'open' then
+    raise exception 'This request is no longer taking quotes';
+  end if;
+  if r.buyer_id = new.seller_id then
+    raise exception 'You cannot quote on your own request';
+  end if;
+  if new.quantity > r.quantity then
+    raise exception 'The buyer asked for % %; quote for that much or less', r.quantity, r.unit;
+  end if;
+  new.status := 'pending';
+  return new;
+end;
+$$;
+
+drop trigger if exists buy_request_quotes_prepare on public.buy_request_quotes;
+create trigger buy_request_quotes_prepare
+  before insert on public.buy_request_quotes
+  for each row execute function public.prepare_buy_request_quote();
+
+-- pending -> withdrawn (seller); pending -> accepted | declined only through accept_buy_request_quote
+create or replace function public.enforce_quote_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = old.status then
+    return old;
+  end if;
+
+  if not (
+       (old.status = 'pending' and new.status = 'withdrawn' and auth.uid() = old.seller_id)
+    or (old.status = 'pending' and new.status in ('accepted', 'declined') and coalesce(current_setting('app.rfq_award', true), '') = 'on')
+  ) then
+    raise exception 'Invalid quote transition % -> %', old.status, new.status;
+  end if;
+
+  old.status := new.status;
+  old.updated_at := now();
+  return old;
+end;
+$$;
+
+drop trigger if exists buy_request_quotes_transition on public.buy_request_quotes;
+create trigger buy_request_quotes_transition
+  before update on public.buy_request_quotes
+  for each row execute function public.enforce_quote_transition();
+
+-- open -> closed (buyer); open -> awarded only through accept_buy_request_quote.
+-- The buyer can edit the details of an open request; who posted it, its status, the accepted
+-- quote and the order only change through those transitions. Quotes are priced per unit of
+-- what was asked for, so crop, unit and quantity are fixed once a seller has quoted.
+create or replace function public.enforce_buy_request_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('app.rfq_award', true), '') = 'on' then
+    new.updated_at := now();
+    return new;
+  end if;
+
+  if old.status <> 'open' then
+    raise exception 'This request is no longer open';
+  end if;
+  if new.status <> old.status and not (new.status = 'closed' and auth.uid() = old.buyer_id) then
+    raise exception 'Invalid request transition % -> %', old.status, new.status;
+  end if;
+  if (new.crop, new.unit, new.quantity) is distinct from (old.crop, old.unit, old.quantity)
+     and exists (select 1 from public.buy_request_quotes where request_id = old.id and status = 'pending') then
+    raise exception 'Sellers have already quoted on this request. Close it and post a new one to change the crop, unit or quantity';
+  end if;
+
+  new.buyer_id := old.buyer_id;
+  new.accepted_quote_id := old.accepted_quote_id;
+  new.order_id := old.order_id;
+  new.created_at := old.created_at;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists buy_requests_transition on public.buy_requests;
+create trigger buy_requests_transition
+  before update on public.buy_requests
+  for each row execute function public.enforce_buy_request_transition();
+
+-- ---------------------------------------------------------------------------
+-- 3. Matching sellers nearby
+-- ---------------------------------------------------------------------------
+-- A seller matches when one of their listings mentions the crop (directly or through
+-- search_synonyms) and lies within 50 km of the buyer, or in the same region when the
+-- buyer gave no position.
+create or replace function public.match_buy_request_sellers()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  insert into public.buy_request_matches (request_id, seller_id, distance_km)
+  select new.id, m.user_id,
+         round((min(st_distance(m.location, new.location)) / 1000)::numeric, 1)
+  from public.marketplace m
+  where m.user_id is not null
+    and m.user_id <> new.buyer_id
+    and coalesce(m.sold_out, false) = false
+    and (m.title ~* ('\m(' || replace(new.crop, '/', '|') || ')')
+         or m.search_vector @@ public.marketplace_search_query(new.crop))
+    and case
+          when new.location is not null then st_dwithin(m.location, new.location, 50000)
+          else new.region is not null and m.region = new.region
+        end
+  group by m.user_id
+  on conflict do nothing;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists buy_requests_match_sellers on public.buy_requests;
+create trigger buy_requests_match_sellers
+  after insert on public.buy_requests
+  for each row execute function public.match_buy_request_sellers();
+
+-- ---------------------------------------------------------------------------
+-- 4. Accepting a quote
+-- ---------------------------------------------------------------------------
+-- Creates a Processing order for the quoted quantity and price, accepts the quote, declines
+-- the others and closes the request. Payment then follows the normal order flow (escrow_hold).
+create or replace function public.accept_buy_request_quote(p_quote_id uuid)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  q public.buy_request_quotes;
+  r public.buy_requests;
+  o public.orders;
+begin
+  select * into q from public.buy_request_quotes where id = p_quote_id for update;
+  if not found then
+    raise exception 'Quote not found';
+  end if;
+
+  select * into r from public.buy_requests where id = q.request_id for update;
+  if r.buyer_id <> auth.uid() then
+    raise exception 'Only the buyer can accept a quote';
+  end if;
+  if r.status <> 'open' then
+    raise exception 'This request is no longer open';
+  end if;
+  if q.status <> 'pending' then
+    raise exception 'This quote is no longer available';
+  end if;
+
+  insert into public.orders (buyer_id, seller_id, status, total, currency, delivery_note)
+  values (r.buyer_id, q.seller_id, 'Processing', q.unit_price * q.quantity, 'GHS',
+          concat_ws(' · ', 'Buyer request', r.location_name, 'needed by ' || to_char(coalesce(q.delivery_date, r.needed_by), 'DD Mon YYYY')))
+  returning * into o;
+
+  -- The line has no listing: its price is the accepted quote
+  perform set_config('app.trusted_order_line', 'on', true);
+  insert into public.order_items (order_id, item_id, title, quantity, unit_price, unit)
+  values (o.id, null, r.crop, q.quantity, q.unit_price, r.unit);
+  perform set_config('app.trusted_order_line', 'off', true);
+
+  perform set_config('app.rfq_award', 'on', true);
+  update public.buy_request_quotes
+     set status = case when id = q.id then 'accepted' else 'declined' end
+   where request_id = r.id and status = 'pending';
+  update public.buy_requests
+     set status = 'awarded', accepted_quote_id = q.id, order_id = o.id
+   where id = r.id;
+  perform set_config('app.rfq_award', 'off', true);
+
+  select * into o from public.orders where id = o.id;
+  return o;
+end;
+$$;
+
+grant execute on function public.accept_buy_request_quote(uuid) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- 5. RLS
+-- ---------------------------------------------------------------------------
+alter table public.buy_requests enable row level security;
+alter table public.buy_request_quotes enable row level security;
+alter table public.buy_request_matches enable row level security;
+
+drop policy if exists "Buyer requests are public" on public.buy_requests;
+create policy "Buyer requests are public" on public.buy_requests for select using (true);
+drop policy if exists "Buyers post requests" on public.buy_requests;
+create policy "Buyers post requests" on public.buy_requests for insert
+  with check (auth.uid() = buyer_id and status = 'open' and accepted_quote_id is null and order_id is null);
+drop policy if exists "Buyers update own requests" on public.buy_requests;
+create policy "Buyers update own requests" on public.buy_requests for update using (auth.uid() = buyer_id);
+
+-- A quote is seen by the seller who sent it and the buyer it was sent to
+drop policy if exists "Participants view quotes" on public.buy_request_quotes;
+create policy "Participants view quotes" on public.buy_request_quotes for select using (
+  auth.uid() = seller_id
+  or exists (select 1 from public.buy_requests r where r.id = request_id and r.buyer_id = auth.uid())
+);
+drop policy if exists "Sellers send quotes" on public.buy_request_quotes;
+create policy "Sellers send quotes" on public.buy_request_quotes for insert with check (auth.uid() = seller_id);
+drop policy if exists "Sellers update own quotes" on public.buy_request_quotes;
+create policy "Sellers update own quotes" on public.buy_request_quotes for update using (auth.uid() = seller_id);
+
+drop policy if exists "Sellers view own matches" on public.buy_request_matches;
+create policy "Sellers view own matches" on public.buy_request_matches for select using (auth.uid() = seller_id);
+
+-- REALTIME
+alter publication supabase_realtime add table public.buy_request_quotes;
+alter publication supabase_realtime add table public.buy_request_matches;
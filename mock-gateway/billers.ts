@@ -0,0 +1,130 @@
+// Local stand-in for the ECG, Ghana Water, MultiChoice (DSTV/GOtv) and school fees APIs used by
+// the bill-payment function's biller adapters, for development and end-to-end testing.
+//
+//   deno run --allow-net --allow-env mock-gateway/billers.ts      (or: npm run mock:billers)
+//
+// Any well-formed number is a valid customer, with a name and balance derived from its digits.
+// Numbers ending in 0000 are unknown to the biller, and payments to numbers ending in 9999 are
+// refused (so the wallet refund path can be exercised).
+//
+// Env:
+//   PORT    default 8788
+
+declare const Deno: any;
+
+const PORT = Number(Deno.env.get('PORT') ?? 8788);
+
+const NAMES = ['Kwame Mensah', 'Akosua Boateng', 'Yaw Owusu', 'Ama Asante', 'Kofi Agyeman', 'Efua Danso', 'Kojo Appiah', 'Abena Osei'];
+const TV_PLANS: Record<string, { code: string; name: string; price: number }[]> = {
+  dstv: [
+    { code: 'DSTV_PADI', name: 'DStv Padi', price: 75 },
+    { code: 'DSTV_FAMILY', name: 'DStv Family', price: 120 },
+    { code: 'DSTV_COMPACT', name: 'DStv Compact', price: 225 },
+    { code: 'DSTV_PREMIUM', name: 'DStv Premium', price: 620 },
+  ],
+  gotv: [
+    { code: 'GOTV_SMALLIE', name: 'GOtv Smallie', price: 40 },
+    { code: 'GOTV_JINJA', name: 'GOtv Jinja', price: 75 },
+    { code: 'GOTV_MAX', name: 'GOtv Max', price: 120 },
+  ],
+};
+
+// Balances paid down by this session's payments
+const paidTowards = new Map<string, number>();
+const seen = new Set<string>();
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const seed = (id: string) => [...id].reduce((sum, c) => sum * 31 + c.charCodeAt(0), 7) >>> 0;
+const nameFor = (id: string) => NAMES[seed(id) % NAMES.length];
+const receiptNo = (prefix: string) => `${prefix}${Date.now().toString().slice(-8)}${Math.floor(Math.random() * 90 + 10)}`;
+const balanceFor = (key: string, base: number) => Math.max(0, Math.round((base - (paidTowards.get(key) ?? 0)) * 100) / 100);
+
+const unknown = (id: string) => id.endsWith('0000');
+const refused = (id: string) => id.endsWith('9999');
+
+const readPayment = async (req: Request, idField: string) => {
+  const body = await req.json().catch(() => null);
+  const id = String(body?.[idField] ?? '');
+  const amount = Number(body?.amount);
+  if (!id || !(amount > 0) || !body?.reference) return { error: json({ error: `${idField}, amount and reference are required` }, 400) };
+  if (unknown(id)) return { error: json({ error: 'Customer not found' }, 404) };
+  if (refused(id)) return { error: json({ error: 'Payment declined by biller' }, 422) };
+  // Same reference twice is a retry, not a second payment
+  if (seen.has(body.reference)) return { error: json({ error: 'Duplicate reference' }, 409) };
+  seen.add(body.reference);
+  console.log(`[pay] ${id} GHS ${amount.toFixed(2)} ref ${body.reference}`);
+  return { id, amount, body };
+};
+
+const addDays = (days: number) => new Date(Date.now() + days * 86400000).toISOString().slice(0, 10);
+
+Deno.serve({ port: PORT }, async (req: Request) => {
+  const { pathname } = new URL(req.url);
+  let m: RegExpMatchArray | null;
+
+  // ECG prepaid
+  if (req.method === 'GET' && (m = pathname.match(/^\/ecg\/meters\/(\d+)$/))) {
+    if (unknown(m[1])) return json({ error: 'Meter not found' }, 404);
+    return json({ meter: m[1], customer_name: nameFor(m[1]), tariff: seed(m[1]) % 3 ? 'Residential' : 'Non-Residential', district: 'Accra East' });
+  }
+  if (req.method === 'POST' && pathname === '/ecg/vend') {
+    const p = await readPayment(req, 'meter');
+    if (p.error) return p.error;
+    const token = Array.from({ length: 20 }, () => Math.floor(Math.random() * 10)).join('').replace(/(\d{4})(?=\d)/g, '$1-');
+    return json({ transaction_id: receiptNo('ECG'), token, units_kwh: Math.round((p.amount / 1.48) * 10) / 10 });
+  }
+
+  // Ghana Water postpaid
+  if (req.method === 'GET' && (m = pathname.match(/^\/gwcl\/accounts\/(\d+)$/))) {
+    if (unknown(m[1])) return json({ error: 'Account not found' }, 404);
+    return json({ account: m[1], customer_name: nameFor(m[1]), balance: balanceFor(`gwcl:${m[1]}`, 40 + (seed(m[1]) % 260)), address: `House ${seed(m[1]) % 90 + 1}, Kumasi` });
+  }
+  if (req.method === 'POST' && pathname === '/gwcl/payments') {
+    const p = await readPayment(req, 'account');
+    if (p.error) return p.error;
+    const key = `gwcl:${p.id}`;
+    paidTowards.set(key, (paidTowards.get(key) ?? 0) + p.amount);
+    return json({ receipt_no: receiptNo('GW'), balance: balanceFor(key, 40 + (seed(p.id) % 260)) });
+  }
+
+  // MultiChoice (DSTV / GOtv)
+  if (req.method === 'GET' && (m = pathname.match(/^\/multichoice\/(dstv|gotv)\/smartcards\/(\d+)$/))) {
+    if (unknown(m[2])) return json({ error: 'Smartcard not found' }, 404);
+    const plans = TV_PLANS[m[1]];
+    return json({ smartcard: m[2], customer_name: nameFor(m[2]), current_plan: plans[seed(m[2]) % plans.length].code, plans, due_date: addDays(seed(m[2]) % 20) });
+  }
+  if (req.method === 'POST' && (m = pathname.match(/^\/multichoice\/(dstv|gotv)\/renew$/))) {
+    const p = await readPayment(req, 'smartcard');
+    if (p.error) return p.error;
+    const plan = TV_PLANS[m[1]].find(pl => pl.code === p.body.plan_code);
+    if (!plan) return json({ error: 'Unknown plan' }, 400);
+    if (plan.price !== p.amount) return json({ error: `${plan.name} costs GHS ${plan.price}` }, 422);
+    return json({ transaction_id: receiptNo('MC'), expires_on: addDays(30) });
+  }
+
+  // School fees
+  if (req.method === 'GET' && (m = pathname.match(/^\/schoolfees\/students\/([A-Z]{2,6}-\d{3,8})$/))) {
+    if (unknown(m[1])) return json({ error: 'Student not found' }, 404);
+    return json({
+      student_id: m[1],
+      student_name: nameFor(m[1]),
+      school: `${m[1].split('-')[0]} Senior High School`,
+      class: `Form ${seed(m[1]) % 3 + 1}`,
+      term: 'Term 1',
+      outstanding: balanceFor(`school:${m[1]}`, 500 + (seed(m[1]) % 1500)),
+    });
+  }
+  if (req.method === 'POST' && pathname === '/schoolfees/payments') {
+    const p = await readPayment(req, 'student_id');
+    if (p.error) return p.error;
+    const key = `school:${p.id}`;
+    paidTowards.set(key, (paidTowards.get(key) ?? 0) + p.amount);
+    return json({ receipt_no: receiptNo('SCH'), outstanding: balanceFor(key, 500 + (seed(p.id) % 1500)) });
+  }
+
+  return json({ error: 'Not found' }, 404);
+});
+
+console.log(`Mock biller service on http://localhost:${PORT}`);
@@ -0,0 +1,213 @@
+// Local stand-in for the MTN MoMo Collection and Disbursement APIs, for development and end-to-end testing.
+//
+//   deno run --allow-net --allow-env mock-gateway/server.ts      (or: npm run mock:gateway)
+//
+// It accepts requesttopay (deposit) and transfer (withdrawal) calls like the real API, then
+// delivers the MoMo callback to the real payment-webhook function, so both flow through
+// signature checks, the webhook event log and the ledger exactly as in production.
+//
+// Outcome per request, first match wins:
+//   1. X-Mock-Outcome header: success | insufficient_funds | declined | timeout | amount_mismatch
+//   2. Payer/payee number ending in 0001 (insufficient_funds), 0002 (declined), 0003 (timeout), 0004 (amount_mismatch)
+//   3. MOCK_OUTCOME env / POST /__mock/outcome { "outcome": "..." }   (default: success)
+//
+// Env:
+//   PORT                 default 8787
+//   WEBHOOK_URL          default http://localhost:54321/functions/v1/payment-webhook
+//   MTN_CALLBACK_TOKEN   must match the webhook function's MTN_CALLBACK_TOKEN
+//   MOCK_DELAY_MS        time until the payer "approves", default 3000
+//   MOCK_TIMEOUT_MS      time until an unanswered prompt expires, default 30000
+//   MOCK_HOLDER_NAME     name returned by the account holder lookup, default "Mock Holder <last 4 digits>"
+
+declare const Deno: any;
+
+type Outcome = 'success' | 'insufficient_funds' | 'declined' | 'timeout' | 'amount_mismatch';
+type MomoStatus = 'PENDING' | 'SUCCESSFUL' | 'FAILED';
+
+type Product = 'collection' | 'disbursement';
+
+interface MomoRequest {
+  product: Product;
+  referenceId: string;
+  externalId: string;
+  amount: string;
+  currency: string;
+  party: { partyIdType: string; partyId: string }; // Payer for collections, payee for disbursements
+  payerMessage: string;
+  payeeNote: string;
+  outcome: Outcome;
+  status: MomoStatus;
+  reason?: string;
+  financialTransactionId?: string;
+  callbackUrl: string;
+  createdAt: string;
+}
+
+const OUTCOMES: Outcome[] = ['success', 'insufficient_funds', 'declined', 'timeout', 'amount_mismatch'];
+
+const MAGIC_SUFFIXES: Record<string, Outcome> = {
+  '0001': 'insufficient_funds',
+  '0002': 'declined',
+  '0003': 'timeout',
+  '0004': 'amount_mismatch',
+};
+
+const PORT = Number(Deno.env.get('PORT') ?? 8787);
+const WEBHOOK_URL = Deno.env.get('WEBHOOK_URL') ?? 'http://localhost:54321/functions/v1/payment-webhook';
+const CALLBACK_TOKEN = Deno.env.get('MTN_CALLBACK_TOKEN') ?? '';
+const DELAY_MS = Number(Deno.env.get('MOCK_DELAY_MS') ?? 3000);
+const TIMEOUT_MS = Number(Deno.env.get('MOCK_TIMEOUT_MS') ?? 30000);
+
+let defaultOutcome: Outcome = OUTCOMES.includes(Deno.env.get('MOCK_OUTCOME')) ? Deno.env.get('MOCK_OUTCOME') : 'success';
+const requests = new Map<string, MomoRequest>();
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, content-type, x-reference-id, x-target-environment, x-callback-url, x-mock-outcome, ocp-apim-subscription-key',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const pickOutcome = (req: Request, partyNumber: string): Outcome => {
+  const requested = req.headers.get('x-mock-outcome') as Outcome | null;
+  if (requested && OUTCOMES.includes(requested)) return requested;
+  return MAGIC_SUFFIXES[partyNumber.slice(-4)] ?? defaultOutcome;
+};
+
+// Shape of GET requesttopay/{id} / transfer/{id} and of the callback body
+const toMomoBody = (r: MomoRequest) => ({
+  financialTransactionId: r.financialTransactionId,
+  externalId: r.externalId,
+  amount: r.outcome === 'amount_mismatch' && r.status === 'SUCCESSFUL' ? (parseFloat(r.amount) - 1).toFixed(2) : r.amount,
+  currency: r.currency,
+  [r.product === 'collection' ? 'payer' : 'payee']: r.party,
+  payerMessage: r.payerMessage,
+  payeeNote: r.payeeNote,
+  status: r.status,
+  ...(r.reason ? { reason: r.reason } : {}),
+});
+
+const sendCallback = async (r: MomoRequest) => {
+  const url = new URL(r.callbackUrl);
+  url.searchParams.set('provider', 'mtn');
+  if (CALLBACK_TOKEN) url.searchParams.set('token', CALLBACK_TOKEN);
+
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toMomoBody(r)),
+    });
+    console.log(`[callback] ${r.externalId} ${r.status} -> ${res.status} ${await res.text()}`);
+  } catch (error) {
+    console.error(`[callback] ${r.externalId} failed:`, error);
+  }
+};
+
+const settle = (r: MomoRequest) => {
+  switch (r.outcome) {
+    case 'success':
+    case 'amount_mismatch':
+      r.status = 'SUCCESSFUL';
+      r.financialTransactionId = String(Math.floor(1e9 + Math.random() * 9e9));
+      break;
+    case 'insufficient_funds':
+      r.status = 'FAILED';
+      r.reason = 'NOT_ENOUGH_FUNDS';
+      break;
+    case 'declined':
+      r.status = 'FAILED';
+      r.reason = r.product === 'collection' ? 'APPROVAL_REJECTED' : 'PAYEE_NOT_FOUND';
+      break;
+    case 'timeout':
+      r.status = 'FAILED';
+      r.reason = 'EXPIRED';
+      break;
+  }
+  sendCallback(r);
+};
+
+const handleRequest = async (req: Request, product: Product) => {
+  const partyKey = product === 'collection' ? 'payer' : 'payee';
+  const referenceId = req.headers.get('x-reference-id');
+  if (!referenceId) return json({ code: 'RESOURCE_NOT_FOUND', message: 'X-Reference-Id header is required' }, 400);
+  if (requests.has(referenceId)) return json({ code: 'RESOURCE_ALREADY_EXIST', message: 'Duplicated reference id' }, 409);
+
+  const body = await req.json().catch(() => null);
+  const party = body?.[partyKey];
+  if (!body?.amount || !body?.externalId || !party?.partyId) {
+    return json({ code: 'INVALID_INPUT', message: `amount, externalId and ${partyKey}.partyId are required` }, 400);
+  }
+
+  const r: MomoRequest = {
+    product,
+    referenceId,
+    externalId: String(body.externalId),
+    amount: String(body.amount),
+    currency: String(body.currency || 'GHS'),
+    party: { partyIdType: party.partyIdType || 'MSISDN', partyId: String(party.partyId) },
+    payerMessage: body.payerMessage || '',
+    payeeNote: body.payeeNote || '',
+    outcome: pickOutcome(req, String(party.partyId)),
+    status: 'PENDING',
+    callbackUrl: req.headers.get('x-callback-url') || WEBHOOK_URL,
+    createdAt: new Date().toISOString(),
+  };
+  requests.set(referenceId, r);
+  console.log(`[${product}] ${r.externalId} ${r.currency} ${r.amount} ${partyKey} ${r.party.partyId} -> ${r.outcome}`);
+
+  setTimeout(() => settle(r), r.outcome === 'timeout' ? TIMEOUT_MS : DELAY_MS);
+
+  // Like the real API: accepted, result arrives later
+  return new Response(null, { status: 202, headers: corsHeaders });
+};
+
+Deno.serve({ port: PORT }, async (req: Request) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const { pathname } = new URL(req.url);
+
+  if (req.method === 'POST' && pathname === '/collection/v1_0/requesttopay') {
+    return handleRequest(req, 'collection');
+  }
+  if (req.method === 'POST' && pathname === '/disbursement/v1_0/transfer') {
+    return handleRequest(req, 'disbursement');
+  }
+
+  // Account holder lookup used to verify linked accounts; 0002 is an unknown number
+  const holderMatch = pathname.match(/^\/(collection|disbursement)\/v1_0\/accountholder\/msisdn\/(\d+)\/basicuserinfo$/);
+  if (req.method === 'GET' && holderMatch) {
+    if (holderMatch[2].endsWith('0002')) return json({ code: 'RESOURCE_NOT_FOUND', message: 'Account holder not found.' }, 404);
+    const holderName = Deno.env.get('MOCK_HOLDER_NAME');
+    if (holderName) return json({ name: holderName, sub: holderMatch[2] });
+    return json({ given_name: 'Mock', family_name: `Holder ${holderMatch[2].slice(-4)}`, sub: holderMatch[2] });
+  }
+
+  // Any credentials are accepted
+  if (req.method === 'POST' && /^\/(collection|disbursement)\/token\/?$/.test(pathname)) {
+    return json({ access_token: crypto.randomUUID(), token_type: 'access_token', expires_in: 3600 });
+  }
+
+  const statusMatch = pathname.match(/^\/(collection\/v1_0\/requesttopay|disbursement\/v1_0\/transfer)\/([^/]+)$/);
+  if (req.method === 'GET' && statusMatch) {
+    const r = requests.get(statusMatch[2]);
+    return r ? json(toMomoBody(r)) : json({ code: 'RESOURCE_NOT_FOUND', message: 'Requested resource was not found.' }, 404);
+  }
+
+  if (req.method === 'GET' && pathname === '/__mock/requests') {
+    return json([...requests.values()]);
+  }
+
+  if (req.method === 'POST' && pathname === '/__mock/outcome') {
+    const { outcome } = await req.json().catch(() => ({}));
+    if (!OUTCOMES.includes(outcome)) return json({ error: `outcome must be one of ${OUTCOMES.join(', ')}` }, 400);
+    defaultOutcome = outcome;
+    return json({ outcome });
+  }
+
+  return json({ error: 'Not found' }, 404);
+});
+
+console.log(`Mock MoMo gateway on http://localhost:${PORT} (default outcome: ${defaultOutcome}, webhook: ${WEBHOOK_URL})`);
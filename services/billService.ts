@@ -0,0 +1,79 @@
+import { supabase } from './supabase';
+import type { BillAccount, BillQuote, BillPayment, SavedBiller } from '../types';
+
+export interface PayBillOptions {
+    planCode?: string | null;
+    save?: boolean;
+    nickname?: string;
+    recurring?: 'weekly' | 'monthly' | null; // Only applies to saved billers
+}
+
+// supabase.functions.invoke hides the function's error body behind a generic message.
+// A refused payment comes back as a 502 carrying the failed (refunded) payment.
+const invokeBillPayment = async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('bill-payment', { body });
+    if (error) {
+        const details = await (error as any).context?.json?.().catch(() => null);
+        if (details?.payment) return details;
+        throw new Error(details?.error || error.message);
+    }
+    return data;
+};
+
+/**
+ * Validates a customer, meter, smartcard or student number with the biller and returns
+ * the account holder's name, amount due and (for TV) the available bouquets.
+ */
+export const lookupBill = async (billerId: string, accountNumber: string): Promise<BillAccount> => {
+    const { account } = await invokeBillPayment({ action: 'lookup', biller_id: billerId, account_number: accountNumber });
+    return account as BillAccount;
+};
+
+/**
+ * Amount and convenience fee to confirm before paying. TV renewals are priced by bouquet.
+ */
+export const quoteBill = async (billerId: string, accountNumber: string, amount: number, planCode?: string | null): Promise<BillQuote> => {
+    const { quote } = await invokeBillPayment({ action: 'quote', biller_id: billerId, account_number: accountNumber, amount, plan_code: planCode ?? null });
+    return quote as BillQuote;
+};
+
+/**
+ * Pays a bill from the wallet. Needs a verified PIN. If the biller refuses the payment it is
+ * refunded and returned with status 'failed'; a completed one carries the receipt token, if any.
+ * If the biller doesn't answer clearly it comes back 'pending' and stays debited until reconciled.
+ */
+export const payBill = async (billerId: string, accountNumber: string, amount: number, options: PayBillOptions = {}): Promise<BillPayment> => {
+    const { payment } = await invokeBillPayment({
+        action: 'pay',
+        biller_id: billerId,
+        account_number: accountNumber,
+        amount,
+        plan_code: options.planCode ?? null,
+        save: !!options.save,
+        nickname: options.nickname,
+        recurring: options.recurring ?? null
+    });
+    return payment as BillPayment;
+};
+
+export const getSavedBillers = async (): Promise<SavedBiller[]> => {
+    const { data, error } = await supabase.from('saved_billers').select('*').order('created_at', { ascending: true });
+    if (error) {
+        console.error("Error fetching saved billers:", JSON.stringify(error));
+        return [];
+    }
+    return data as SavedBiller[];
+};
+
+export const removeSavedBiller = async (savedBillerId: string) => {
+    const { error } = await supabase.from('saved_billers').delete().eq('id', savedBillerId);
+    if (error) throw error;
+};
+
+/**
+ * Cancels a saved biller's recurring payment but keeps it saved.
+ */
+export const stopRecurringBill = async (savedBillerId: string) => {
+    const { error } = await supabase.rpc('stop_recurring_bill', { p_saved: savedBillerId });
+    if (error) throw error;
+};
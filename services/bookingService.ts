@@ -0,0 +1,137 @@
+import { supabase } from './supabase';
+import type { User, EquipmentItem, EquipmentBooking, BookedRange, BookingStatus } from '../types';
+
+// --- Date helpers (bookings use local calendar days as YYYY-MM-DD) ---
+
+export const toDateKey = (date: Date) => {
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+};
+
+const fromDateKey = (key: string) => {
+    const [y, m, d] = key.split('-').map(Number);
+    return new Date(y, m - 1, d);
+};
+
+export const formatDateKey = (key: string) => fromDateKey(key).toLocaleDateString();
+
+/**
+ * Number of days in an inclusive range, e.g. Mon..Wed = 3.
+ */
+export const countBookingDays = (start: string, end: string) =>
+    Math.round((fromDateKey(end).getTime() - fromDateKey(start).getTime()) / 86400000) + 1;
+
+export const computeBookingTotal = (pricePerDay: number, start: string, end: string) =>
+    countBookingDays(start, end) * pricePerDay;
+
+/**
+ * Inclusive range overlap. YYYY-MM-DD strings compare correctly as text.
+ */
+export const rangesOverlap = (aStart: string, aEnd: string, bStart: string, bEnd: string) =>
+    aStart <= bEnd && bStart <= aEnd;
+
+export const isDateBooked = (dateKey: string, ranges: BookedRange[]) =>
+    ranges.some(r => dateKey >= r.start_date && dateKey <= r.end_date);
+
+// --- Queries ---
+
+/**
+ * Dates already held (pending or accepted) for a piece of equipment.
+ */
+export const getBookedRanges = async (equipmentId: string): Promise<BookedRange[]> => {
+    const { data, error } = await supabase.rpc('equipment_booked_ranges', { p_equipment_id: equipmentId });
+    if (error) {
+        console.error("Error fetching availability:", JSON.stringify(error));
+        return [];
+    }
+    return (data as BookedRange[]) || [];
+};
+
+/**
+ * Requests a booking. Overlaps are checked here for a friendly message, but the
+ * exclusion constraint on `equipment_bookings` is what actually prevents them.
+ * The total is recomputed server-side from the listing's price_per_day.
+ */
+export const createBooking = async (renter: User, item: EquipmentItem, startDate: string, endDate: string, note?: string): Promise<EquipmentBooking> => {
+    if (!renter.uid) throw new Error('You must be logged in to book equipment.');
+    if (item.user_id === renter.uid) throw new Error('You cannot book your own equipment.');
+    if (endDate < startDate) throw new Error('End date must be on or after the start date.');
+    if (startDate < toDateKey(new Date())) throw new Error('Bookings cannot start in the past.');
+    if (countBookingDays(toDateKey(new Date()), startDate) > 366) throw new Error('Bookings can start at most a year ahead.');
+    if (countBookingDays(startDate, endDate) > 90) throw new Error('Bookings can be at most 90 days.');
+
+    const existing = await getBookedRanges(item.id);
+    if (existing.some(r => rangesOverlap(startDate, endDate, r.start_date, r.end_date))) {
+        throw new Error('Some of those dates are already booked. Please pick another range.');
+    }
+
+    const { data, error } = await supabase.from('equipment_bookings').insert([{
+        equipment_id: item.id,
+        renter_id: renter.uid,
+        owner_id: item.user_id,
+        start_date: startDate,
+        end_date: endDate,
+        days: countBookingDays(startDate, endDate),
+        price_per_day: item.price_per_day,
+        total: computeBookingTotal(item.price_per_day, startDate, endDate),
+        note: note || null
+    }]).select().single();
+
+    if (error) {
+        // 23P01 = exclusion_violation (someone booked the same dates first)
+        if (error.code === '23P01') throw new Error('Those dates were just booked by someone else.');
+        throw error;
+    }
+    return data as EquipmentBooking;
+};
+
+const fetchBookings = async (userId: string, role: 'owner' | 'renter'): Promise<EquipmentBooking[]> => {
+    const { data, error } = await supabase
+        .from('equipment_bookings')
+        .select('*, equipment(name)')
+        .eq(role === 'owner' ? 'owner_id' : 'renter_id', userId)
+        .order('start_date', { ascending: true });
+
+    if (error) {
+        console.error(`Error fetching ${role} bookings:`, JSON.stringify(error));
+        return [];
+    }
+
+    const rows = data || [];
+    const partyIds = [...new Set(rows.map((b: any) => role === 'owner' ? b.renter_id : b.owner_id))];
+    const names = new Map<string, string>();
+    if (partyIds.length > 0) {
+        const { data: usersData } = await supabase.from('users').select('id, name').in('id', partyIds);
+        usersData?.forEach((u: any) => names.set(u.id, u.name));
+    }
+
+    return rows.map((b: any) => ({
+        ...b,
+        equipment_name: b.equipment?.name || 'Equipment',
+        counterparty_name: names.get(role === 'owner' ? b.renter_id : b.owner_id) || 'Unknown User'
+    }));
+};
+
+/**
+ * Booking requests on equipment the user owns.
+ */
+export const getOwnerBookings = (userId: string) => fetchBookings(userId, 'owner');
+
+/**
+ * Bookings the user has made as a renter.
+ */
+export const getRenterBookings = (userId: string) => fetchBookings(userId, 'renter');
+
+/**
+ * Owner accepts/declines a pending request, or renter cancels.
+ */
+export const updateBookingStatus = async (bookingId: string, status: BookingStatus) => {
+    const { error } = await supabase
+        .from('equipment_bookings')
+        .update({ status })
+        .eq('id', bookingId);
+
+    if (error) throw error;
+};
@@ -0,0 +1,172 @@
+import { supabase } from './supabase';
+import type { User, Order, BuyRequest, BuyRequestQuote, Crop } from '../types';
+
+export type NewBuyRequest = Pick<BuyRequest, 'crop' | 'quantity' | 'unit' | 'target_price' | 'needed_by' | 'location_name' | 'region' | 'location_lat' | 'location_lng' | 'notes'>;
+
+export type NewQuote = Pick<BuyRequestQuote, 'unit_price' | 'quantity' | 'delivery_date' | 'note'>;
+
+const getUserNames = async (ids: string[]) => {
+    const names = new Map<string, string>();
+    const unique = [...new Set(ids)];
+    if (unique.length > 0) {
+        const { data } = await supabase.from('users').select('id, name').in('id', unique);
+        data?.forEach((u: any) => names.set(u.id, u.name));
+    }
+    return names;
+};
+
+const withBuyerNames = async (rows: any[]): Promise<BuyRequest[]> => {
+    const names = await getUserNames(rows.map(r => r.buyer_id));
+    return rows.map(r => ({ ...r, buyer_name: names.get(r.buyer_id) || 'Unknown Buyer' }));
+};
+
+/**
+ * Open requests on the board, newest first, optionally for one crop.
+ */
+export const getOpenBuyRequests = async (crop?: Crop | null): Promise<BuyRequest[]> => {
+    let query = supabase.from('buy_requests').select('*').eq('status', 'open').order('created_at', { ascending: false });
+    if (crop) query = query.eq('crop', crop);
+
+    const { data, error } = await query;
+    if (error) {
+        console.error("Error fetching buyer requests:", JSON.stringify(error));
+        return [];
+    }
+    return withBuyerNames(data || []);
+};
+
+/**
+ * Requests the user has posted, in every status.
+ */
+export const getMyBuyRequests = async (userId: string): Promise<BuyRequest[]> => {
+    const { data, error } = await supabase.from('buy_requests').select('*').eq('buyer_id', userId).order('created_at', { ascending: false });
+    if (error) {
+        console.error("Error fetching my requests:", JSON.stringify(error));
+        return [];
+    }
+    return withBuyerNames(data || []);
+};
+
+export const getBuyRequest = async (requestId: string): Promise<BuyRequest | null> => {
+    const { data, error } = await supabase.from('buy_requests').select('*').eq('id', requestId).maybeSingle();
+    if (error) {
+        console.error("Error fetching request:", JSON.stringify(error));
+        return null;
+    }
+    return data as BuyRequest | null;
+};
+
+/**
+ * Posts a request. Sellers with matching listings nearby are matched (and notified) by the database.
+ */
+export const createBuyRequest = async (buyer: User, request: NewBuyRequest): Promise<BuyRequest> => {
+    if (!buyer.uid) throw new Error('You must be logged in to post a request.');
+    if (!Number.isInteger(request.quantity) || request.quantity < 1) throw new Error('Quantity must be at least 1.');
+
+    const { data, error } = await supabase.from('buy_requests').insert([{
+        ...request,
+        buyer_id: buyer.uid,
+        status: 'open'
+    }]).select().single();
+
+    if (error) throw error;
+    return { ...data, buyer_name: buyer.name } as BuyRequest;
+};
+
+/**
+ * Stops taking quotes without accepting any.
+ */
+export const closeBuyRequest = async (requestId: string) => {
+    const { error } = await supabase.from('buy_requests').update({ status: 'closed' }).eq('id', requestId);
+    if (error) throw error;
+};
+
+/**
+ * Quotes on one of the buyer's requests, cheapest first, with each seller's average rating.
+ */
+export const getQuotesForRequest = async (requestId: string): Promise<BuyRequestQuote[]> => {
+    const { data, error } = await supabase
+        .from('buy_request_quotes')
+        .select('*')
+        .eq('request_id', requestId)
+        .order('unit_price', { ascending: true });
+
+    if (error) {
+        console.error("Error fetching quotes:", JSON.stringify(error));
+        return [];
+    }
+
+    const rows = data || [];
+    const sellerIds = rows.map((q: any) => q.seller_id);
+    const names = await getUserNames(sellerIds);
+    const ratings = new Map<string, number[]>();
+    if (sellerIds.length > 0) {
+        const { data: reviews } = await supabase.from('user_reviews').select('target_user_id, rating').in('target_user_id', [...new Set(sellerIds)]);
+        reviews?.forEach((r: any) => ratings.set(r.target_user_id, [...(ratings.get(r.target_user_id) || []), r.rating]));
+    }
+
+    return rows.map((q: any) => {
+        const scores = ratings.get(q.seller_id);
+        return {
+            ...q,
+            seller_name: names.get(q.seller_id) || 'Unknown Seller',
+            seller_rating: scores ? scores.reduce((a, b) => a + b, 0) / scores.length : null
+        };
+    });
+};
+
+/**
+ * Quotes the user has sent as a seller, with the request each one answers.
+ */
+export const getMyQuotes = async (userId: string): Promise<BuyRequestQuote[]> => {
+    const { data, error } = await supabase
+        .from('buy_request_quotes')
+        .select('*, request:buy_requests(*)')
+        .eq('seller_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error("Error fetching my quotes:", JSON.stringify(error));
+        return [];
+    }
+    return (data || []) as BuyRequestQuote[];
+};
+
+/**
+ * Sends a quote on an open request. A seller has one pending quote per request;
+ * withdraw it to send a new one.
+ */
+export const submitQuote = async (seller: User, request: BuyRequest, quote: NewQuote): Promise<BuyRequestQuote> => {
+    if (!seller.uid) throw new Error('You must be logged in to send a quote.');
+    if (request.buyer_id === seller.uid) throw new Error('You cannot quote on your own request.');
+    if (!(quote.unit_price > 0)) throw new Error('Enter your price per unit.');
+    if (!Number.isInteger(quote.quantity) || quote.quantity < 1) throw new Error('Quantity must be at least 1.');
+    if (quote.quantity > request.quantity) throw new Error(`The buyer asked for ${request.quantity} ${request.unit}.`);
+
+    const { data, error } = await supabase.from('buy_request_quotes').insert([{
+        ...quote,
+        request_id: request.id,
+        seller_id: seller.uid
+    }]).select().single();
+
+    if (error) {
+        if (error.code === '23505') throw new Error('You already have a pending quote on this request.');
+        throw error;
+    }
+    return data as BuyRequestQuote;
+};
+
+export const withdrawQuote = async (quoteId: string) => {
+    const { error } = await supabase.from('buy_request_quotes').update({ status: 'withdrawn' }).eq('id', quoteId);
+    if (error) throw error;
+};
+
+/**
+ * Accepts a quote: the `accept_buy_request_quote` function creates a Processing order for
+ * the quoted quantity and price, declines the other quotes and marks the request awarded.
+ */
+export const acceptQuote = async (quoteId: string): Promise<Order> => {
+    const { data, error } = await supabase.rpc('accept_buy_request_quote', { p_quote_id: quoteId });
+    if (error) throw error;
+    return { ...data, items: [] } as Order;
+};
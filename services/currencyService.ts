@@ -0,0 +1,83 @@
+import { supabase } from './supabase';
+import type { Currency, FxQuote, FxRate, Transaction, WalletBalance } from '../types';
+
+export const BASE_CURRENCY = 'GHS';
+
+export const getCurrencies = async (): Promise<Currency[]> => {
+    const { data, error } = await supabase.from('currencies').select('*').eq('enabled', true).order('code');
+    if (error) {
+        console.error("Error fetching currencies:", JSON.stringify(error));
+        return [];
+    }
+    return data as Currency[];
+};
+
+export const getFxRates = async (): Promise<FxRate[]> => {
+    const { data, error } = await supabase.from('fx_rates').select('*').order('base').order('quote');
+    if (error) {
+        console.error("Error fetching exchange rates:", JSON.stringify(error));
+        return [];
+    }
+    return (data || []).map(r => ({ ...r, rate: Number(r.rate) })) as FxRate[];
+};
+
+/**
+ * Rate for 1 unit of `from` in `to`, resolved like the database's fx_rate(): the direct
+ * pair, else the inverse, else crossed through GHS. Null if there is no way to convert.
+ */
+export const findFxRate = (rates: FxRate[], from: string, to: string): number | null => {
+    if (from === to) return 1;
+    const direct = rates.find(r => r.base === from && r.quote === to);
+    if (direct) return direct.rate;
+    const inverse = rates.find(r => r.base === to && r.quote === from);
+    if (inverse) return 1 / inverse.rate;
+    if (from !== BASE_CURRENCY && to !== BASE_CURRENCY) {
+        const a = findFxRate(rates, from, BASE_CURRENCY);
+        const b = findFxRate(rates, BASE_CURRENCY, to);
+        if (a !== null && b !== null) return a * b;
+    }
+    return null;
+};
+
+/**
+ * The user's balance in every enabled currency, GHS first.
+ */
+export const getWalletBalances = async (): Promise<WalletBalance[]> => {
+    const { data, error } = await supabase.rpc('wallet_balances');
+    if (error) {
+        console.error("Error fetching balances:", JSON.stringify(error));
+        return [];
+    }
+    return (data || []).map((b: WalletBalance) => ({ ...b, balance: Number(b.balance) }));
+};
+
+export const getFxQuote = async (from: string, to: string, amount: number): Promise<FxQuote> => {
+    const { data, error } = await supabase.rpc('fx_quote', { p_from: from, p_to: to, p_amount: amount });
+    if (error) throw error;
+    const quote = (data as FxQuote[])[0];
+    return { ...quote, rate: Number(quote.rate), converted: Number(quote.converted) };
+};
+
+/**
+ * Converts between the user's own balances at a quoted rate. Needs a verified PIN; fails if the
+ * rate changed since the quote.
+ */
+export const convertCurrency = async (quote: FxQuote): Promise<Transaction> => {
+    const { data, error } = await supabase.rpc('convert_currency', {
+        p_from: quote.from_currency,
+        p_to: quote.to_currency,
+        p_amount: quote.amount,
+        p_rate: quote.rate
+    });
+    if (error) throw error;
+    return data as Transaction;
+};
+
+/**
+ * Creates or updates the rate for a pair. Admins only.
+ */
+export const setFxRate = async (base: string, quote: string, rate: number): Promise<FxRate> => {
+    const { data, error } = await supabase.rpc('set_fx_rate', { p_base: base, p_quote: quote, p_rate: rate });
+    if (error) throw error;
+    return data as FxRate;
+};
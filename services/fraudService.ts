@@ -0,0 +1,56 @@
+import { supabase } from './supabase';
+import type { FlaggedTransaction, FraudFlag, FraudRuleId, Transaction } from '../types';
+
+export const FRAUD_RULE_LABELS: Record<FraudRuleId, string> = {
+    velocity: 'Velocity limit',
+    unusual_amount: 'Unusual amount',
+    new_recipients: 'Many new recipients',
+    failed_pins: 'Repeated failed PINs',
+    webhook_amount_mismatch: 'Webhook amount mismatch'
+};
+
+/**
+ * Fraud flags grouped by transaction, oldest first. Staff only.
+ */
+export const getFraudQueue = async (status: FraudFlag['status'] | 'all' = 'open'): Promise<FlaggedTransaction[]> => {
+    let query = supabase
+        .from('fraud_flags')
+        .select('*, users!fraud_flags_user_id_fkey(name, phone), transactions(*)')
+        .order('created_at', { ascending: true })
+        .limit(200);
+    if (status !== 'all') query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const grouped = new Map<string, FlaggedTransaction>();
+    (data as FraudFlag[]).forEach(flag => {
+        const entry = grouped.get(flag.transaction_id);
+        if (entry) entry.flags.push(flag);
+        else if (flag.transactions) grouped.set(flag.transaction_id, { transaction: flag.transactions, holder: flag.users ?? null, flags: [flag] });
+    });
+    return [...grouped.values()];
+};
+
+/**
+ * Approves or reverses a flagged transaction. Admins only. An approved withdrawal is
+ * handed to the payout provider straight away.
+ */
+export const reviewFlaggedTransaction = async (transactionId: string, action: 'approve' | 'reverse', notes: string): Promise<Transaction> => {
+    const { data, error } = await supabase.rpc('review_flagged_transaction', {
+        p_transaction: transactionId,
+        p_action: action,
+        p_notes: notes
+    });
+    if (error) throw error;
+
+    const tx = data as Transaction;
+    if (tx.type === 'WITHDRAWAL' && tx.status === 'pending') {
+        const { error: dispatchError } = await supabase.functions.invoke('payout-dispatch', { body: { transaction_id: tx.id } });
+        if (dispatchError) {
+            console.error("Payout dispatch failed:", JSON.stringify(dispatchError));
+            throw new Error('Approved, but the payout could not be sent to the provider. Rejected payouts are refunded to the wallet.');
+        }
+    }
+    return tx;
+};
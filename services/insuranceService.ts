@@ -0,0 +1,194 @@
+import { supabase } from './supabase';
+import { escapeHtml, openPrintableDocument } from '../utils';
+import type { InsuranceProduct, InsurancePolicy, InsuranceClaim, ClaimEvidenceInput, GeoLocation, ParametricTrigger, TriggerEvaluation } from '../types';
+
+export const getInsuranceProducts = async (): Promise<InsuranceProduct[]> => {
+    const { data, error } = await supabase.from('insurance_products').select('*').eq('active', true).order('monthly_premium');
+    if (error) {
+        console.error("Error fetching insurance products:", JSON.stringify(error));
+        return [];
+    }
+    return data as InsuranceProduct[];
+};
+
+/**
+ * The user's policies with their product, newest first.
+ */
+export const getMyPolicies = async (userId: string): Promise<InsurancePolicy[]> => {
+    const { data, error } = await supabase
+        .from('insurance_policies')
+        .select('*, insurance_products(*)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error("Error fetching insurance policies:", JSON.stringify(error));
+        return [];
+    }
+    return data as InsurancePolicy[];
+};
+
+/**
+ * Buys a policy and pays the first month's premium from the wallet. Needs a verified PIN.
+ * Later premiums are debited automatically each month. Index cover needs the farm's GPS location.
+ */
+export const buyInsurancePolicy = async (
+    productId: string,
+    farmLocation: string,
+    crop: string,
+    acres: number | null,
+    farmGps: GeoLocation | null = null
+): Promise<InsurancePolicy> => {
+    const { data, error } = await supabase.rpc('buy_insurance_policy', {
+        p_product: productId,
+        p_farm_location: farmLocation,
+        p_crop: crop,
+        p_acres: acres,
+        p_latitude: farmGps?.latitude ?? null,
+        p_longitude: farmGps?.longitude ?? null
+    });
+    if (error) throw error;
+    return data as InsurancePolicy;
+};
+
+/**
+ * Stops cover and the premium auto-debit. Premiums already paid are not refunded.
+ */
+export const cancelInsurancePolicy = async (policyId: string): Promise<InsurancePolicy> => {
+    const { data, error } = await supabase.rpc('cancel_insurance_policy', { p_policy: policyId });
+    if (error) throw error;
+    return data as InsurancePolicy;
+};
+
+/**
+ * Rainfall triggers on the given index policies, each with its most recent evaluation.
+ */
+export const getPolicyTriggers = async (policyIds: string[]): Promise<(ParametricTrigger & { latest: TriggerEvaluation | null })[]> => {
+    if (policyIds.length === 0) return [];
+    const { data, error } = await supabase
+        .from('parametric_triggers')
+        .select('*, parametric_trigger_evaluations(*)')
+        .in('policy_id', policyIds)
+        .order('evaluated_on', { referencedTable: 'parametric_trigger_evaluations', ascending: false })
+        .limit(1, { referencedTable: 'parametric_trigger_evaluations' });
+
+    if (error) {
+        console.error("Error fetching parametric triggers:", JSON.stringify(error));
+        return [];
+    }
+    return (data ?? []).map(({ parametric_trigger_evaluations, ...trigger }: any) => ({
+        ...trigger,
+        latest: parametric_trigger_evaluations?.[0] ?? null
+    }));
+};
+
+/**
+ * Every evaluation of a policy's triggers, newest first: the audit trail behind its automatic payouts.
+ */
+export const getTriggerEvaluations = async (policyId: string, limit = 60): Promise<TriggerEvaluation[]> => {
+    const { data, error } = await supabase
+        .from('parametric_trigger_evaluations')
+        .select('*')
+        .eq('policy_id', policyId)
+        .order('evaluated_on', { ascending: false })
+        .limit(limit);
+    if (error) throw error;
+    return data as TriggerEvaluation[];
+};
+
+export const getMyClaims = async (userId: string): Promise<InsuranceClaim[]> => {
+    const { data, error } = await supabase
+        .from('insurance_claims')
+        .select('*, insurance_claim_evidence(*)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error("Error fetching insurance claims:", JSON.stringify(error));
+        return [];
+    }
+    return data as InsuranceClaim[];
+};
+
+/**
+ * Files a claim with its evidence: uploaded files (see `uploadUserFile`) and weather report snapshots.
+ */
+export const fileInsuranceClaim = async (
+    policyId: string,
+    peril: string,
+    incidentDate: string,
+    description: string,
+    amount: number,
+    evidence: ClaimEvidenceInput[]
+): Promise<InsuranceClaim> => {
+    const { data, error } = await supabase.rpc('file_insurance_claim', {
+        p_policy: policyId,
+        p_peril: peril,
+        p_incident_date: incidentDate,
+        p_description: description,
+        p_amount: amount,
+        p_evidence: evidence
+    });
+    if (error) throw error;
+    return data as InsuranceClaim;
+};
+
+/**
+ * Claims with their policy, claimant and evidence, oldest open claim first. Admins and agents only.
+ */
+export const getClaimsQueue = async (): Promise<InsuranceClaim[]> => {
+    const { data, error } = await supabase
+        .from('insurance_claims')
+        .select('*, users!insurance_claims_user_id_fkey(name, phone), insurance_policies(*, insurance_products(*)), insurance_claim_evidence(*), parametric_trigger_evaluations!insurance_claims_trigger_evaluation_id_fkey(*)')
+        .order('created_at', { ascending: true });
+    if (error) throw error;
+    return data as InsuranceClaim[];
+};
+
+/**
+ * Moves a claim to review, rejects it, or approves it and pays the amount into the claimant's wallet. Admins only.
+ */
+export const adjudicateClaim = async (claimId: string, decision: 'under_review' | 'approved' | 'rejected', amount: number | null, notes: string): Promise<InsuranceClaim> => {
+    const { data, error } = await supabase.rpc('adjudicate_insurance_claim', {
+        p_claim: claimId,
+        p_decision: decision,
+        p_amount: amount,
+        p_notes: notes
+    });
+    if (error) throw error;
+    return data as InsuranceClaim;
+};
+
+/**
+ * Opens the policy schedule in a new window, ready to print or save as PDF.
+ */
+export const openPolicyDocument = (policy: InsurancePolicy) => {
+    const product = policy.insurance_products;
+    const rows: [string, unknown][] = [
+        ['Policy number', policy.policy_number],
+        ['Policyholder', policy.insured_name],
+        ['Product', product?.name],
+        ['Status', policy.status],
+        ['Period of cover', `${new Date(policy.start_date).toLocaleDateString()} to ${new Date(policy.end_date).toLocaleDateString()}`],
+        ['Sum insured', `GHS ${Number(policy.coverage_amount).toFixed(2)}`],
+        ['Monthly premium', `GHS ${Number(policy.monthly_premium).toFixed(2)}, debited from the AgroWallet`],
+        ['Waiting period', `${product?.waiting_days ?? 0} days from the start of cover`],
+        ['Insured perils', product?.perils.join(', ')],
+        ...(policy.insured_crop ? [
+            ['Insured crop', policy.insured_crop],
+            ['Farm location', policy.farm_location],
+            ['Farm size', policy.farm_size_acres ? `${policy.farm_size_acres} acres` : '-'],
+        ] as [string, unknown][] : []),
+        ...(product?.parametric ? [
+            ['Farm GPS location', `${policy.latitude}, ${policy.longitude}`],
+            ['Index triggers', product.index_defaults.map(d =>
+                `${d.index === 'drought' ? 'under' : 'over'} ${d.threshold_mm}mm of rain in ${d.window_days} days pays ${Math.round(d.payout_share * 100)}% of the sum insured`
+            ).join('; ')],
+        ] as [string, unknown][] : []),
+    ];
+
+    openPrintableDocument(policy.policy_number, `<h1>Policy Schedule</h1><p>AgroSourcing Ghana Insurance</p>
+<table>${rows.map(([label, value]) => `<tr><td class="label">${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join('')}</table>
+<h3>Policy wording</h3><p>${escapeHtml(product?.terms)}</p>
+<p class="muted">Issued ${new Date(policy.created_at).toLocaleString()}. Cover lapses if premiums are unpaid for 30 days.</p>`);
+};
@@ -0,0 +1,131 @@
+import { supabase } from './supabase';
+import type { Invoice } from '../types';
+
+export interface CreateInvoiceOptions {
+    payerId?: string | null;   // Leave empty to let anyone with the link pay
+    itemId?: string | null;    // Marketplace listing the invoice is for
+    bookingId?: string | null; // Equipment booking; the invoice goes to its renter
+    dueDate?: string | null;   // YYYY-MM-DD
+}
+
+const INVOICE_SELECT = '*, payer:users!invoices_payer_id_fkey(name), item:marketplace(title)';
+
+// Flattens the embedded payer and item names
+const toInvoice = ({ payer, item, ...row }: any): Invoice => ({
+    ...row,
+    payer_name: payer?.name ?? null,
+    item_title: item?.title ?? null
+});
+
+/**
+ * Link that opens the invoice in the wallet, ready to pay. Also what the invoice QR code holds.
+ */
+export const getInvoiceLink = (invoiceNumber: string) =>
+    `${window.location.origin}${window.location.pathname}?invoice=${encodeURIComponent(invoiceNumber)}`;
+
+/**
+ * Invoice number from a shared link or scanned invoice QR, or null if it isn't one.
+ */
+export const parseInvoiceLink = (text: string): string | null => {
+    try {
+        const number = new URL(text.trim()).searchParams.get('invoice');
+        return number && /^INV-[0-9A-F]{10}$/i.test(number) ? number.toUpperCase() : null;
+    } catch {
+        return null;
+    }
+};
+
+export const createInvoice = async (amount: number, description: string, options: CreateInvoiceOptions = {}): Promise<Invoice> => {
+    const { data, error } = await supabase.rpc('create_invoice', {
+        p_amount: amount,
+        p_description: description,
+        p_payer: options.payerId || null,
+        p_item: options.itemId || null,
+        p_booking: options.bookingId || null,
+        p_due_date: options.dueDate || null
+    });
+    if (error) throw error;
+    return data as Invoice;
+};
+
+/**
+ * Invoices the merchant has issued, newest first.
+ */
+export const getIssuedInvoices = async (merchantId: string): Promise<Invoice[]> => {
+    const { data, error } = await supabase
+        .from('invoices')
+        .select(INVOICE_SELECT)
+        .eq('merchant_id', merchantId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error("Error fetching issued invoices:", JSON.stringify(error));
+        return [];
+    }
+    return (data || []).map(toInvoice);
+};
+
+/**
+ * Invoices addressed to or paid by the user, newest first.
+ */
+export const getReceivedInvoices = async (userId: string): Promise<Invoice[]> => {
+    const { data, error } = await supabase
+        .from('invoices')
+        .select('*, merchant:users!invoices_merchant_id_fkey(name, merchant_id), item:marketplace(title)')
+        .or(`payer_id.eq.${userId},paid_by.eq.${userId}`)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error("Error fetching invoices:", JSON.stringify(error));
+        return [];
+    }
+    return (data || []).map(({ merchant, item, ...row }: any) => ({
+        ...row,
+        merchant_name: merchant?.name,
+        merchant_code: merchant?.merchant_id ?? null,
+        item_title: item?.title ?? null
+    }));
+};
+
+/**
+ * Opens an invoice by number, e.g. from a shared link. Null if it doesn't exist or is addressed to someone else.
+ */
+export const getInvoice = async (invoiceNumber: string): Promise<Invoice | null> => {
+    const { data, error } = await supabase.rpc('get_invoice', { p_invoice_number: invoiceNumber });
+    if (error) {
+        console.error("Error fetching invoice:", JSON.stringify(error));
+        return null;
+    }
+    return (data as Invoice[])?.[0] || null;
+};
+
+/**
+ * Pays an invoice from the wallet. Needs a verified PIN.
+ */
+export const payInvoice = async (invoiceId: string): Promise<Invoice> => {
+    const { data, error } = await supabase.rpc('pay_invoice', { p_invoice: invoiceId });
+    if (error) throw error;
+    return data as Invoice;
+};
+
+export const cancelInvoice = async (invoiceId: string): Promise<Invoice> => {
+    const { data, error } = await supabase.rpc('cancel_invoice', { p_invoice: invoiceId });
+    if (error) throw error;
+    return data as Invoice;
+};
+
+/**
+ * Sends the invoice link to the payer as a chat message, in the conversation about the
+ * linked item or booking if there is one.
+ */
+export const sendInvoiceInChat = async (invoice: Invoice, senderId: string, chatItemId?: string | null) => {
+    if (!invoice.payer_id) throw new Error('Choose who the invoice is for before sending it in chat.');
+    const { error } = await supabase.from('chats').insert([{
+        sender_id: senderId,
+        receiver_id: invoice.payer_id,
+        item_id: chatItemId || invoice.item_id || invoice.invoice_number,
+        message_text: `Invoice ${invoice.invoice_number} for GHS ${Number(invoice.amount).toFixed(2)}: ${invoice.description}. Pay here: ${getInvoiceLink(invoice.invoice_number)}`,
+        is_read: false
+    }]);
+    if (error) throw error;
+};
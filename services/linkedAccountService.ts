@@ -0,0 +1,73 @@
+import { supabase } from './supabase';
+import type { LinkedAccount } from '../types';
+
+export interface LinkAccountResult {
+    account: LinkedAccount;
+    needs_code: boolean; // A test deposit with a code was sent instead of a name lookup
+}
+
+// supabase.functions.invoke hides the function's error body behind a generic message
+const invokeAccountVerify = async (body: Record<string, unknown>): Promise<LinkAccountResult> => {
+    const { data, error } = await supabase.functions.invoke('account-verify', { body });
+    if (error) {
+        const details = await (error as any).context?.json?.().catch(() => null);
+        throw new Error(details?.error || error.message);
+    }
+    return data as LinkAccountResult;
+};
+
+/**
+ * The user's payout accounts, default first.
+ */
+export const getLinkedAccounts = async (): Promise<LinkedAccount[]> => {
+    const { data, error } = await supabase
+        .from('linked_accounts')
+        .select('*')
+        .order('is_default', { ascending: false })
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error("Error fetching linked accounts:", JSON.stringify(error));
+        return [];
+    }
+    return data as LinkedAccount[];
+};
+
+/**
+ * Links a MoMo wallet or bank account. It is verified straight away when the provider
+ * can look up the account holder's name; otherwise a small test deposit carries a code
+ * to confirm with `confirmLinkedAccount`.
+ */
+export const linkAccount = async (provider: string, accountNumber: string) =>
+    invokeAccountVerify({ action: 'link', provider, account_number: accountNumber });
+
+/**
+ * Sends a fresh code for an account still awaiting verification.
+ */
+export const resendLinkedAccountCode = async (accountId: string) =>
+    invokeAccountVerify({ action: 'resend', account_id: accountId });
+
+/**
+ * Checks the code from the test deposit. Five wrong codes expire it.
+ */
+export const confirmLinkedAccount = async (accountId: string, code: string): Promise<{ ok: boolean; attempts_left: number }> => {
+    const { data, error } = await supabase.rpc('confirm_linked_account', { p_account: accountId, p_code: code });
+    if (error) throw error;
+    return (data as { ok: boolean; attempts_left: number }[])[0];
+};
+
+/**
+ * The account preselected for deposits and withdrawals. Must be verified.
+ */
+export const setDefaultLinkedAccount = async (accountId: string) => {
+    const { error } = await supabase.rpc('set_default_linked_account', { p_account: accountId });
+    if (error) throw error;
+};
+
+/**
+ * Removes an account. If it was the default, the newest verified account takes over.
+ */
+export const removeLinkedAccount = async (accountId: string) => {
+    const { error } = await supabase.from('linked_accounts').delete().eq('id', accountId);
+    if (error) throw error;
+};
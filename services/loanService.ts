@@ -0,0 +1,102 @@
+import { supabase } from './supabase';
+import type { Loan, LoanProduct, LoanInstallment, CreditScore, LoanBookEntry } from '../types';
+
+/**
+ * Equal monthly payment for a loan, matching `build_loan_schedule` in the database.
+ */
+export const getMonthlyPayment = (principal: number, monthlyRate: number, termMonths: number): number => {
+    if (monthlyRate === 0) return Math.round((principal / termMonths) * 100) / 100;
+    const payment = principal * monthlyRate / (1 - Math.pow(1 + monthlyRate, -termMonths));
+    return Math.round(payment * 100) / 100;
+};
+
+/**
+ * What is owed today: unpaid principal plus interest and penalties that have already accrued.
+ * Paying off early skips the interest of installments not yet due.
+ */
+export const getLoanOutstanding = (installments: LoanInstallment[]): number =>
+    installments
+        .filter(i => i.status !== 'paid')
+        .reduce((sum, i) => sum + i.principal_due - i.paid_amount + (i.accrued_at ? i.interest_due + i.penalty_due : 0), 0);
+
+export const getLoanProducts = async (): Promise<LoanProduct[]> => {
+    const { data, error } = await supabase.from('loan_products').select('*').eq('active', true).order('min_amount');
+    if (error) {
+        console.error("Error fetching loan products:", JSON.stringify(error));
+        return [];
+    }
+    return data as LoanProduct[];
+};
+
+/**
+ * The signed-in user's credit score and pre-approved limit.
+ */
+export const getCreditScore = async (): Promise<CreditScore | null> => {
+    const { data, error } = await supabase.rpc('my_credit_score');
+    if (error) {
+        console.error("Error fetching credit score:", JSON.stringify(error));
+        return null;
+    }
+    return (data as CreditScore[])[0] ?? null;
+};
+
+/**
+ * The user's loans with their repayment schedules, newest first.
+ */
+export const getMyLoans = async (userId: string): Promise<Loan[]> => {
+    const { data, error } = await supabase
+        .from('loans')
+        .select('*, loan_installments(*)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .order('seq', { referencedTable: 'loan_installments', ascending: true });
+
+    if (error) {
+        console.error("Error fetching loans:", JSON.stringify(error));
+        return [];
+    }
+    return data as Loan[];
+};
+
+/**
+ * Applies for a loan. Within the pre-approved limit it is disbursed to the wallet
+ * immediately; larger amounts stay pending until an admin decides.
+ */
+export const applyForLoan = async (productId: string, amount: number, termMonths: number, purpose: string): Promise<Loan> => {
+    const { data, error } = await supabase.rpc('apply_for_loan', {
+        p_product: productId,
+        p_amount: amount,
+        p_term: termMonths,
+        p_purpose: purpose
+    });
+    if (error) throw error;
+    return data as Loan;
+};
+
+/**
+ * Pays towards a loan from the wallet, oldest installment first. Needs a verified PIN.
+ * Returns the amount applied, which is capped at what is owed.
+ */
+export const repayLoan = async (loanId: string, amount: number): Promise<number> => {
+    const { data, error } = await supabase.rpc('repay_loan', { p_loan: loanId, p_amount: amount });
+    if (error) throw error;
+    return data as number;
+};
+
+/**
+ * All loans with borrower, balance and arrears. Admins and agents only.
+ */
+export const getLoanBook = async (): Promise<LoanBookEntry[]> => {
+    const { data, error } = await supabase.rpc('loan_book');
+    if (error) throw error;
+    return data as LoanBookEntry[];
+};
+
+/**
+ * Approves (and disburses) or rejects a pending application. Admins only.
+ */
+export const decideLoan = async (loanId: string, approve: boolean, reason: string): Promise<Loan> => {
+    const { data, error } = await supabase.rpc('decide_loan', { p_loan: loanId, p_approve: approve, p_reason: reason });
+    if (error) throw error;
+    return data as Loan;
+};
@@ -0,0 +1,66 @@
+import { supabase } from './supabase';
+import type { EquipmentItem, GeoLocation, MapBounds, MarketplaceItem } from '../types';
+
+// Raster tiles for the listing maps. Point MAP_TILE_URL (in .env.local) at a self-hosted
+// tile server, e.g. http://tiles.local/styles/basic/{z}/{x}/{y}.png; OpenStreetMap otherwise.
+export const TILE_PROVIDER = {
+    url: process.env.MAP_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: process.env.MAP_TILE_ATTRIBUTION || '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: Number(process.env.MAP_TILE_MAX_ZOOM) || 19
+};
+
+// Centre of Ghana, until the user's position is known
+export const DEFAULT_MAP_CENTER: GeoLocation = { latitude: 7.95, longitude: -1.03 };
+
+const boundsParams = (bounds: MapBounds) => ({
+    p_south: bounds.south,
+    p_west: bounds.west,
+    p_north: bounds.north,
+    p_east: bounds.east
+});
+
+/**
+ * Marketplace listings inside the visible map area, newest first.
+ */
+export const getMarketplaceInBounds = async (bounds: MapBounds): Promise<MarketplaceItem[]> => {
+    const { data, error } = await supabase.rpc('marketplace_in_bounds', boundsParams(bounds));
+    if (error) throw error;
+    return (data || []) as MarketplaceItem[];
+};
+
+/**
+ * Equipment listings inside the visible map area, newest first.
+ */
+export const getEquipmentInBounds = async (bounds: MapBounds): Promise<EquipmentItem[]> => {
+    const { data, error } = await supabase.rpc('equipment_in_bounds', boundsParams(bounds));
+    if (error) throw error;
+    return (data || []) as EquipmentItem[];
+};
+
+export interface PointCluster<T> {
+    lat: number;
+    lng: number;
+    items: T[];
+}
+
+/**
+ * Groups points that land in the same screen cell. `project` is the map's own
+ * coordinate-to-pixel projection, so clusters split up as the user zooms in.
+ */
+export const clusterPoints = <T extends { lat: number; lng: number }>(
+    points: T[],
+    project: (lat: number, lng: number) => { x: number; y: number },
+    cellSize = 60
+): PointCluster<T>[] => {
+    const cells = new Map<string, T[]>();
+    for (const point of points) {
+        const { x, y } = project(point.lat, point.lng);
+        const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+        cells.set(key, [...(cells.get(key) || []), point]);
+    }
+    return [...cells.values()].map(items => ({
+        lat: items.reduce((sum, p) => sum + p.lat, 0) / items.length,
+        lng: items.reduce((sum, p) => sum + p.lng, 0) / items.length,
+        items
+    }));
+};
@@ -0,0 +1,97 @@
+import { supabase } from './supabase';
+import { Crop } from '../types';
+import type { MarketplaceItem, MarketplaceSearchFilters, MarketplaceSearchResult } from '../types';
+
+export const SEARCH_RADII_KM = [5, 10, 25, 50, 100];
+
+export const MARKETPLACE_PAGE_SIZE = 24;
+
+export const GHANA_REGIONS = [
+    'Ahafo', 'Ashanti', 'Bono', 'Bono East', 'Central', 'Eastern', 'Greater Accra', 'North East',
+    'Northern', 'Oti', 'Savannah', 'Upper East', 'Upper West', 'Volta', 'Western', 'Western North'
+];
+
+// Price facet buckets in GHS; the values match the buckets search_marketplace counts
+export const PRICE_BUCKETS: { value: string; min: number | null; max: number | null }[] = [
+    { value: 'under_50', min: null, max: 50 },
+    { value: '50_200', min: 50, max: 200 },
+    { value: '200_500', min: 200, max: 500 },
+    { value: '500_plus', min: 500, max: null }
+];
+
+// Configuration for Standard Units and Baselines (2025/2026 Market Context)
+export const COMMODITY_STANDARDS: Record<Crop, { baselinePrice: number, unit: string }> = {
+    [Crop.Maize]: { baselinePrice: 750, unit: "100kg bag" },
+    [Crop.Cassava]: { baselinePrice: 280, unit: "Maxi bag (90kg+)" },
+    [Crop.Yam]: { baselinePrice: 2200, unit: "100 tubers (Medium/Large)" },
+    [Crop.Cocoa]: { baselinePrice: 2587, unit: "64kg bag" },
+    [Crop.Rice]: { baselinePrice: 950, unit: "50kg bag (Standard)" },
+    [Crop.Tomato]: { baselinePrice: 3500, unit: "Crate (Large)" },
+    [Crop.Pepper]: { baselinePrice: 1200, unit: "Maxi bag" },
+    [Crop.Okro]: { baselinePrice: 450, unit: "Basket (Standard)" },
+    [Crop.Eggplant]: { baselinePrice: 350, unit: "Bag" },
+    [Crop.Plantain]: { baselinePrice: 120, unit: "Bunch (Large)" },
+    [Crop.Banana]: { baselinePrice: 150, unit: "Carton" },
+    [Crop.KpakpoShito]: { baselinePrice: 800, unit: "Bucket/Small Bag" },
+    [Crop.Onion]: { baselinePrice: 1500, unit: "Maxi bag" },
+    [Crop.Orange]: { baselinePrice: 300, unit: "100 fruits" },
+    [Crop.Ginger]: { baselinePrice: 1100, unit: "Bag" },
+    [Crop.Sorghum]: { baselinePrice: 800, unit: "100kg bag" },
+    [Crop.Soyabean]: { baselinePrice: 900, unit: "100kg bag" },
+    [Crop.Millet]: { baselinePrice: 800, unit: "100kg bag" },
+    
+    // Livestock
+    [Crop.Cow]: { baselinePrice: 9000, unit: "Live Animal (Medium/Large)" },
+    [Crop.Goat]: { baselinePrice: 1100, unit: "Live Animal (Adult)" },
+    [Crop.Sheep]: { baselinePrice: 1800, unit: "Live Animal (Adult)" },
+    [Crop.Chicken]: { baselinePrice: 150, unit: "Live Bird (Layer/Broiler)" },
+    [Crop.GuineaFowl]: { baselinePrice: 180, unit: "Live Bird" },
+    [Crop.Turkey]: { baselinePrice: 650, unit: "Live Bird" },
+    [Crop.Pig]: { baselinePrice: 2200, unit: "Live Animal (Adult)" },
+    [Crop.Snail]: { baselinePrice: 400, unit: "Crate/Pack (Large)" },
+    [Crop.Rabbit]: { baselinePrice: 250, unit: "Live Animal" },
+    [Crop.Fish]: { baselinePrice: 70, unit: "Kg (Fresh Tilapia)" },
+    [Crop.Eggs]: { baselinePrice: 85, unit: "Crate (Large 30pcs)" },
+};
+
+// Units a listing's stock and price can be given in: the market-standard units above plus a few generic ones
+export const LISTING_UNITS = [...new Set([...Object.values(COMMODITY_STANDARDS).map(s => s.unit), 'kg', 'Tonne', 'Bag', 'Crate', 'Piece'])];
+
+/**
+ * One page of marketplace search results with facet counts. Matches title, usage and
+ * storage text with typo tolerance and Twi/English synonyms; distance_km is set when an
+ * origin is given.
+ */
+export const searchMarketplace = async (filters: MarketplaceSearchFilters, offset = 0): Promise<MarketplaceSearchResult> => {
+    const price = PRICE_BUCKETS.find(b => b.value === filters.priceBucket);
+    const { data, error } = await supabase.rpc('search_marketplace', {
+        p_query: filters.query.trim() || null,
+        p_category: filters.category,
+        p_min_price: price?.min ?? null,
+        p_max_price: price?.max ?? null,
+        p_region: filters.region,
+        p_min_rating: filters.minRating,
+        p_lat: filters.origin?.latitude ?? null,
+        p_lng: filters.origin?.longitude ?? null,
+        p_radius_km: filters.origin ? filters.radiusKm : null,
+        p_sort: filters.sort,
+        p_limit: MARKETPLACE_PAGE_SIZE,
+        p_offset: offset
+    });
+    if (error) throw error;
+    return data as MarketplaceSearchResult;
+};
+
+export const formatDistance = (km: number) =>
+    km < 1 ? `${Math.round(km * 1000)} m` : `${km < 10 ? km.toFixed(1) : Math.round(km)} km`;
+
+/**
+ * Price of one unit when buying `quantity`: the highest bulk tier reached, otherwise the
+ * listed price. Mirrors `marketplace_unit_price`, which sets the price actually charged.
+ */
+export const getUnitPrice = (item: MarketplaceItem, quantity: number) => {
+    const tier = [...(item.price_tiers || [])]
+        .sort((a, b) => b.min_quantity - a.min_quantity)
+        .find(t => t.min_quantity <= quantity);
+    return tier ? tier.unit_price : item.price;
+};
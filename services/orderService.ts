@@ -0,0 +1,135 @@
+import { supabase } from './supabase';
+import type { User, MarketplaceItem, Order, OrderStatus } from '../types';
+import { getUnitPrice } from './marketplaceService';
+
+export type OrderRole = 'buyer' | 'seller';
+
+/**
+ * Allowed status moves per role. Mirrors the `enforce_order_transition` trigger,
+ * which is the real gate; this copy only decides which buttons to render.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, { to: OrderStatus; by: OrderRole[]; label: string }[]> = {
+    Processing: [
+        { to: 'Shipped', by: ['seller'], label: 'Mark Shipped' },
+        { to: 'Cancelled', by: ['buyer', 'seller'], label: 'Cancel Order' },
+    ],
+    Shipped: [
+        { to: 'Delivered', by: ['buyer'], label: 'Confirm Delivery' },
+        { to: 'Disputed', by: ['buyer'], label: 'Raise Dispute' },
+    ],
+    Disputed: [
+        { to: 'Delivered', by: ['buyer'], label: 'Resolve as Delivered' },
+        { to: 'Cancelled', by: ['seller'], label: 'Accept & Cancel' },
+    ],
+    Delivered: [],
+    Cancelled: [],
+};
+
+export const getAvailableTransitions = (status: OrderStatus, role: OrderRole) =>
+    ORDER_TRANSITIONS[status].filter(t => t.by.includes(role));
+
+const mapOrder = (row: any, names: Map<string, string>, role: OrderRole): Order => ({
+    ...row,
+    items: row.order_items || [],
+    counterparty_name: names.get(role === 'buyer' ? row.seller_id : row.buyer_id) || 'Unknown User'
+});
+
+const fetchOrders = async (userId: string, role: OrderRole): Promise<Order[]> => {
+    const { data, error } = await supabase
+        .from('orders')
+        .select('*, order_items(*)')
+        .eq(role === 'buyer' ? 'buyer_id' : 'seller_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error(`Error fetching ${role} orders:`, JSON.stringify(error));
+        return [];
+    }
+
+    const rows = data || [];
+    const partyIds = [...new Set(rows.map((o: any) => role === 'buyer' ? o.seller_id : o.buyer_id))];
+    const names = new Map<string, string>();
+    if (partyIds.length > 0) {
+        const { data: usersData } = await supabase.from('users').select('id, name').in('id', partyIds);
+        usersData?.forEach((u: any) => names.set(u.id, u.name));
+    }
+
+    return rows.map((o: any) => mapOrder(o, names, role));
+};
+
+/**
+ * Orders the user placed as a buyer.
+ */
+export const getBuyerOrders = (userId: string) => fetchOrders(userId, 'buyer');
+
+/**
+ * Orders received by the user as a seller.
+ */
+export const getSellerOrders = (userId: string) => fetchOrders(userId, 'seller');
+
+/**
+ * Creates an order (status 'Processing') for a single marketplace listing. The database
+ * takes the quantity out of stock and prices the line at the listing's bulk tier.
+ */
+export const createOrder = async (buyer: User, item: MarketplaceItem, quantity: number, deliveryNote?: string): Promise<Order> => {
+    if (!buyer.uid) throw new Error('You must be logged in to place an order.');
+    if (item.user_id === buyer.uid) throw new Error('You cannot buy your own listing.');
+    if (!Number.isInteger(quantity) || quantity < 1) throw new Error('Quantity must be at least 1.');
+    if (item.sold_out) throw new Error(`${item.title} is sold out.`);
+    if (quantity < (item.min_order_quantity || 1)) throw new Error(`The minimum order is ${item.min_order_quantity} ${item.unit || 'units'}.`);
+    if (item.stock_quantity != null && quantity > item.stock_quantity) throw new Error(`Only ${item.stock_quantity} ${item.unit || 'units'} left.`);
+
+    const unitPrice = getUnitPrice(item, quantity);
+    const total = unitPrice * quantity;
+
+    const { data: order, error } = await supabase.from('orders').insert([{
+        buyer_id: buyer.uid,
+        seller_id: item.user_id,
+        status: 'Processing',
+        total,
+        currency: 'GHS',
+        delivery_note: deliveryNote || null,
+        created_at: new Date().toISOString()
+    }]).select().single();
+
+    if (error) throw error;
+
+    const lineItem = {
+        order_id: order.id,
+        item_id: item.id,
+        title: item.title,
+        quantity,
+        unit_price: unitPrice
+    };
+
+    // Stock may have run out, or the price changed, since the listing was loaded
+    const { data: savedItem, error: itemError } = await supabase.from('order_items').insert([lineItem]).select().single();
+    if (itemError) {
+        // Roll back the empty order header so it doesn't linger as Processing
+        await supabase.from('orders').update({ status: 'Cancelled' }).eq('id', order.id);
+        throw itemError;
+    }
+
+    return {
+        ...order,
+        total: savedItem.quantity * savedItem.unit_price,
+        items: [savedItem],
+        counterparty_name: item.seller_name
+    } as Order;
+};
+
+/**
+ * Moves an order to a new status. The database trigger rejects moves that
+ * the caller's role is not allowed to make.
+ */
+export const updateOrderStatus = async (orderId: string, status: OrderStatus) => {
+    const { data, error } = await supabase
+        .from('orders')
+        .update({ status })
+        .eq('id', orderId)
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+};
@@ -1,49 +1,32 @@
 
 import { supabase } from './supabase';
-import type { User } from '../types';
+import type { User, Transaction, WalletRecipient, WithdrawalQuote } from '../types';
 
 /**
- * Initiates a payment request.
- * In a real-world scenario, this would call a Paystack/MTN API which triggers a USSD prompt on the user's phone.
- * Since we can't do that here, we simulate it.
+ * Transaction types that add to the holder's wallet balance. Everything else debits.
  */
-export const initiatePayment = async (user: User, amount: number, provider: string, phoneNumber: string) => {
-    // 1. Log the 'pending' transaction in Supabase
-    const { data, error } = await supabase.from('transactions').insert([{
-        user_id: user.uid,
-        amount: amount,
-        currency: 'GHS',
-        type: 'DEPOSIT',
-        status: 'pending',
-        provider: provider, // 'MTN Mobile Money' etc.
-        provider_reference: `SIM-${Date.now()}`, // Simulated Reference
-        phone_number: phoneNumber,
-        created_at: new Date().toISOString(),
-        description: 'Wallet Top-up'
-    }]).select().single();
+export const CREDIT_TRANSACTION_TYPES: Transaction['type'][] = ['DEPOSIT', 'LOAN', 'TRANSFER_IN', 'ESCROW_RELEASE', 'ESCROW_REFUND', 'PAYMENT_REFUND', 'INSURANCE_CLAIM', 'FX_IN'];
 
-    if (error) throw error;
-
-    // 2. Simulate the Webhook delay (The "Server-Side" action)
-    // In production, the Edge Function (payment-webhook) would be called by MTN/Paystack.
-    // Here, we simulate that external call after 3 seconds.
-    setTimeout(async () => {
-        if (data?.id) {
-            await simulateWebhookSuccess(data.id);
-        }
-    }, 3000);
-
-    return data;
-};
+export const isCreditTransaction = (tx: Pick<Transaction, 'type'>) => CREDIT_TRANSACTION_TYPES.includes(tx.type);
 
 /**
- * Simulates the external webhook hitting our backend to confirm payment.
- * This is strictly for demonstration purposes. In production, this logic lives in the Edge Function.
+ * Initiates a wallet top-up.
+ * The deposit-request function logs a 'pending' deposit and asks the gateway to prompt
+ * the payer. The deposit is completed (or failed/flagged) only when the provider's
+ * webhook reports back.
  */
-const simulateWebhookSuccess = async (transactionId: string) => {
-    await supabase.from('transactions')
-        .update({ status: 'completed' })
-        .eq('id', transactionId);
+export const initiatePayment = async (user: User, amount: number, provider: string, phoneNumber: string): Promise<Transaction> => {
+    if (!user.uid) throw new Error('You must be logged in to top up.');
+
+    const { data, error } = await supabase.functions.invoke('deposit-request', {
+        body: { amount, provider, phone_number: phoneNumber }
+    });
+    if (error) {
+        // supabase.functions.invoke hides the function's error body behind a generic message
+        const details = await (error as any).context?.json?.().catch(() => null);
+        throw new Error(details?.error || error.message);
+    }
+    return data.transaction as Transaction;
 };
 
 /**
@@ -78,33 +61,100 @@ export const getAllTransactions = async () => {
 };
 
 /**
- * Calculates current wallet balance from transaction history.
- * Secure approach: Calculate on server or via aggregation query.
- * Here we aggregate client-side from the transactions table.
+ * Reads the wallet balance from the user's ledger account.
+ * Balances are maintained by the database as journal entries are posted,
+ * so the client never aggregates transactions itself.
  */
 export const getWalletBalance = async (userId: string): Promise<number> => {
     const { data, error } = await supabase
-        .from('transactions')
-        .select('amount, type, status')
+        .from('ledger_accounts')
+        .select('balance')
+        .eq('kind', 'wallet')
         .eq('user_id', userId)
-        .eq('status', 'completed');
+        .eq('currency', 'GHS')
+        .maybeSingle();
 
     if (error) {
-        // Fix: Stringify error to avoid [object Object] output
-        console.error("Error calculating balance:", JSON.stringify(error));
+        console.error("Error fetching balance:", JSON.stringify(error));
         return 0;
     }
 
-    let balance = 0;
-    if (data) {
-        data.forEach((tx: any) => {
-            if (tx.type === 'DEPOSIT' || tx.type === 'LOAN') {
-                balance += tx.amount;
-            } else if (tx.type === 'WITHDRAWAL' || tx.type === 'PAYMENT' || tx.type === 'TRANSFER') {
-                balance -= tx.amount;
-            }
-        });
+    return Number(data?.balance ?? 0);
+};
+
+/**
+ * Debits the wallet for a bill or premium.
+ * The `wallet_debit` function rejects the debit if the balance doesn't cover it.
+ */
+export const debitWallet = async (type: 'PAYMENT', amount: number, description: string): Promise<Transaction> => {
+    const { data, error } = await supabase.rpc('wallet_debit', { p_type: type, p_amount: amount, p_description: description });
+    if (error) throw error;
+    return data as Transaction;
+};
+
+/**
+ * Fee, total debit and what's left of today's limit for a withdrawal, shown before the PIN step.
+ */
+export const getWithdrawalQuote = async (amount: number, provider: string): Promise<WithdrawalQuote> => {
+    const { data, error } = await supabase.rpc('withdrawal_quote', { p_amount: amount, p_provider: provider }).single();
+    if (error) throw error;
+    return data as WithdrawalQuote;
+};
+
+/**
+ * Cashes out to one of the user's verified linked accounts. `request_withdrawal` reserves
+ * amount + fee, then the payout-dispatch function sends it to the provider. The
+ * transaction stays pending until the provider webhook completes or fails it;
+ * a failed payout refunds the reservation.
+ */
+export const requestWithdrawal = async (amount: number, linkedAccountId: string): Promise<Transaction> => {
+    const { data, error } = await supabase.rpc('request_withdrawal', {
+        p_amount: amount,
+        p_linked_account_id: linkedAccountId
+    });
+    if (error) throw error;
+
+    const tx = data as Transaction;
+    const { data: dispatch, error: dispatchError } = await supabase.functions.invoke('payout-dispatch', { body: { transaction_id: tx.id } });
+    if (dispatchError) {
+        console.error("Payout dispatch failed:", JSON.stringify(dispatchError));
+        throw new Error('The withdrawal could not be sent to the provider. Rejected payouts are refunded to your wallet.');
+    }
+    // Held by the fraud rules until an admin reviews it
+    return dispatch?.held ? { ...tx, status: 'flagged' } : tx;
+};
+
+/**
+ * Resolves a transfer recipient from a phone number, merchant ID (AGRO-PAY-...) or wallet ID.
+ */
+export const resolveWalletRecipient = async (query: string): Promise<WalletRecipient | null> => {
+    if (!query.trim()) return null;
+
+    const { data, error } = await supabase.rpc('resolve_wallet_recipient', { p_query: query });
+    if (error) {
+        console.error("Error resolving recipient:", JSON.stringify(error));
+        return null;
     }
+    return (data as WalletRecipient[])?.[0] || null;
+};
+
+/**
+ * Moves funds to another wallet. Sender debit and recipient credit are one
+ * journal entry, so either both happen or neither does.
+ */
+export const transferFunds = async (recipientId: string, amount: number, description: string): Promise<Transaction> => {
+    const { data, error } = await supabase.rpc('wallet_transfer', { p_recipient: recipientId, p_amount: amount, p_description: description });
+    if (error) throw error;
+    return data as Transaction;
+};
 
-    return balance;
+/**
+ * Pays an order from the buyer's wallet by moving the total into escrow.
+ * The `escrow_hold` function checks ownership and balance server-side; release
+ * to the seller and refunds happen automatically as the order status changes.
+ */
+export const payOrderFromWallet = async (orderId: string): Promise<Transaction> => {
+    const { data, error } = await supabase.rpc('escrow_hold', { p_order_id: orderId });
+    if (error) throw error;
+    return data as Transaction;
 };
@@ -0,0 +1,80 @@
+import QRCode from 'qrcode';
+import jsQR from 'jsqr';
+import { supabase } from './supabase';
+import type { Transaction, PaymentQrDetails } from '../types';
+
+export const PAYMENT_QR_PREFIX = 'AGROPAY1.';
+
+export const isPaymentQr = (text: string) => text.trim().startsWith(PAYMENT_QR_PREFIX);
+
+/**
+ * Signed payment code for the current user's wallet. Without an amount it is a static code
+ * that can be printed and reused; with an amount it is a single-use code that expires.
+ */
+export const createPaymentQr = async (options: { amount?: number | null; reference?: string; expiresInMinutes?: number } = {}): Promise<string> => {
+    const { data, error } = await supabase.rpc('create_payment_qr', {
+        p_amount: options.amount ?? null,
+        p_reference: options.reference || null,
+        p_expires_minutes: options.expiresInMinutes ?? null
+    });
+    if (error) throw error;
+    return data as string;
+};
+
+/**
+ * Checks a scanned code's signature and expiry and returns the payee and what to pay.
+ */
+export const readPaymentQr = async (code: string): Promise<PaymentQrDetails> => {
+    const { data, error } = await supabase.rpc('read_payment_qr', { p_code: code.trim() });
+    if (error) throw error;
+    const details = (data as PaymentQrDetails[])?.[0];
+    if (!details) throw new Error('The payee of this code no longer has a wallet.');
+    return details;
+};
+
+/**
+ * Pays a scanned code from the wallet. Needs a verified PIN.
+ */
+export const payPaymentQr = async (code: string, amount: number): Promise<Transaction> => {
+    const { data, error } = await supabase.rpc('pay_payment_qr', { p_code: code.trim(), p_amount: amount });
+    if (error) throw error;
+    return data as Transaction;
+};
+
+export const renderQrDataUrl = (text: string, size = 256) =>
+    QRCode.toDataURL(text, { width: size, margin: 2, errorCorrectionLevel: 'M' });
+
+/**
+ * Decodes a QR code from a video frame or image, or returns null if there isn't one.
+ */
+export const decodeQr = (source: HTMLVideoElement | HTMLImageElement, canvas: HTMLCanvasElement = document.createElement('canvas')): string | null => {
+    const width = source instanceof HTMLVideoElement ? source.videoWidth : source.naturalWidth;
+    const height = source instanceof HTMLVideoElement ? source.videoHeight : source.naturalHeight;
+    if (!width || !height) return null;
+
+    // Large photos are scaled down; jsQR is slow on full camera resolution
+    const scale = Math.min(1, 1024 / Math.max(width, height));
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    const image = context.getImageData(0, 0, canvas.width, canvas.height);
+    return jsQR(image.data, image.width, image.height, { inversionAttempts: 'attemptBoth' })?.data || null;
+};
+
+export const decodeQrFromFile = (file: File): Promise<string | null> =>
+    new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const image = new Image();
+        image.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(decodeQr(image));
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('Could not open that image.'));
+        };
+        image.src = url;
+    });
@@ -0,0 +1,136 @@
+import { supabase } from './supabase';
+import { parsePaymentSMS } from './geminiService';
+import type { MomoNetwork, ParsedPaymentSms, PaymentSms, SmsReconciliationResult } from '../types';
+
+const AMOUNT = String.raw`GH(?:S|C|¢)\s?([\d,]+(?:\.\d{1,2})?)`;
+
+interface SmsFormat {
+    network: Exclude<MomoNetwork, 'unknown'>;
+    detect: RegExp;
+    amount: RegExp;
+    txnId: RegExp;
+}
+
+// Confirmation formats as the networks send them, e.g.
+//   Telecel:    "0000012345678 Confirmed. GHS50.00 sent to AGROSOURCING on ... Reference: DEP-..."
+//   AirtelTigo: "Trans ID: 123456789. You have sent GHS 50.00 to AGROSOURCING 0271234567. Ref: DEP-..."
+//   MTN:        "Your payment of GHS 50.00 to AGROSOURCING has been completed ... Financial Transaction Id: 12345678901. External Transaction Id: DEP-..."
+// Telecel and AirtelTigo come first: their messages can name an MTN payee.
+const SMS_FORMATS: SmsFormat[] = [
+    {
+        network: 'Telecel',
+        detect: /Telecel|Vodafone Cash|^\s*\d{9,}\s+Confirmed/i,
+        amount: new RegExp(`Confirmed\\.?\\s+${AMOUNT}`, 'i'),
+        txnId: /^\s*(\d{9,})\s+Confirmed/i
+    },
+    {
+        network: 'AirtelTigo',
+        detect: /AirtelTigo|AT ?Money|\btigo\b/i,
+        amount: new RegExp(`(?:sent|received|paid|payment of)\\s+${AMOUNT}`, 'i'),
+        txnId: /Trans(?:action)?\.? ?ID[:.]?\s*(\d{6,})/i
+    },
+    {
+        network: 'MTN',
+        detect: /\bMTN\b|MoMo|Financial Transaction Id/i,
+        amount: new RegExp(`(?:payment (?:of|received for)|sent|received|paid|transferred)\\s+${AMOUNT}`, 'i'),
+        txnId: /(?:Financial )?Transaction I[Dd][:.]?\s*(\d{8,})/
+    }
+];
+
+const toAmount = (value?: string) => {
+    const amount = value ? parseFloat(value.replace(/,/g, '')) : NaN;
+    return amount > 0 ? amount : null;
+};
+
+const findReference = (text: string) =>
+    // Our own deposit references first, then whatever the network labels as the reference
+    text.match(/\bDEP-[0-9a-f-]{8,36}/i)?.[0]
+        ?? text.match(/\b(?:External Transaction Id|Reference|Ref)[:.]?\s*([A-Za-z0-9][\w-]{3,})/i)?.[1]
+        ?? null;
+
+const findPhone = (text: string) => {
+    const match = text.match(/(?:\+?233|\b0)([235]\d{8})\b/);
+    return match ? `0${match[1]}` : null;
+};
+
+/**
+ * Reads a mobile money confirmation SMS with the known MTN, Telecel and AirtelTigo formats.
+ * Null if the network or amount can't be recognised.
+ */
+export const parseMomoSms = (text: string): ParsedPaymentSms | null => {
+    const format = SMS_FORMATS.find(f => f.detect.test(text));
+    const amount = format && toAmount(text.match(format.amount)?.[1]);
+    if (!format || !amount) return null;
+
+    return {
+        network: format.network,
+        parser: 'regex',
+        amount,
+        reference: findReference(text),
+        phone: findPhone(text),
+        network_txn_id: text.match(format.txnId)?.[1] ?? null
+    };
+};
+
+/**
+ * Regex parser first; Gemini only for formats it doesn't know.
+ */
+export const extractPaymentSms = async (text: string): Promise<ParsedPaymentSms> => {
+    const parsed = parseMomoSms(text);
+    if (parsed) return parsed;
+
+    const extracted = await parsePaymentSMS(text);
+    return {
+        network: 'unknown',
+        parser: 'gemini',
+        amount: toAmount(String(extracted.amount ?? '')),
+        reference: extracted.provider_reference?.trim() || null,
+        phone: extracted.phone_number?.trim() || null,
+        network_txn_id: null
+    };
+};
+
+/**
+ * Matches a pasted payment SMS against the user's pending deposits. A match is queued for
+ * staff to confirm with the provider; replayed SMS come back as 'duplicate'.
+ */
+export const reconcilePaymentSms = async (text: string): Promise<SmsReconciliationResult> => {
+    const parsed = await extractPaymentSms(text);
+    if (!parsed.amount) throw new Error('Could not read an amount from this SMS.');
+
+    const { data, error } = await supabase.rpc('reconcile_payment_sms', {
+        p_raw: text,
+        p_network: parsed.network,
+        p_parser: parsed.parser,
+        p_amount: parsed.amount,
+        p_reference: parsed.reference,
+        p_phone: parsed.phone,
+        p_network_txn_id: parsed.network_txn_id
+    });
+    if (error) throw error;
+    return { ...data, parsed } as SmsReconciliationResult;
+};
+
+/**
+ * SMS matches flagged for review, oldest first. Staff only.
+ */
+export const getPaymentSmsQueue = async (): Promise<PaymentSms[]> => {
+    const { data, error } = await supabase
+        .from('payment_sms')
+        .select('*, users!payment_sms_user_id_fkey(name, phone), transactions(amount, provider_reference, phone_number, status, created_at)')
+        .eq('outcome', 'flagged')
+        .is('review_decision', null)
+        .order('created_at', { ascending: true });
+    if (error) throw error;
+    return data as PaymentSms[];
+};
+
+/**
+ * Approves (completes the deposit for its requested amount) or rejects a flagged SMS match.
+ * Rejecting leaves the deposit pending. Admins only.
+ */
+export const reviewPaymentSms = async (smsId: string, approve: boolean, notes: string): Promise<PaymentSms> => {
+    const { data, error } = await supabase.rpc('review_payment_sms', { p_sms: smsId, p_approve: approve, p_notes: notes });
+    if (error) throw error;
+    return data as PaymentSms;
+};
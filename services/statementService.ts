@@ -0,0 +1,119 @@
+import { supabase } from './supabase';
+import { isCreditTransaction } from './paymentService';
+import { escapeHtml, openPrintableDocument, downloadCsv } from '../utils';
+import type { Order, Transaction, User, WalletStatement } from '../types';
+import type { OrderRole } from './orderService';
+
+const money = (amount: number, currency = 'GHS') => `${currency} ${Number(amount).toFixed(2)}`;
+
+const detailRows = (rows: [string, unknown][]) =>
+    `<table>${rows.map(([label, value]) => `<tr><td class="label">${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`;
+
+/**
+ * First and last day of a calendar month given as YYYY-MM (what <input type="month"> returns).
+ */
+export const monthPeriod = (month: string) => {
+    const [year, m] = month.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year, m, 0)).getUTCDate();
+    return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, '0')}` };
+};
+
+/**
+ * The user's wallet statement for a period, built from the ledger so opening balance,
+ * lines and closing balance always reconcile.
+ */
+export const getWalletStatement = async (from: string, to: string, currency = 'GHS'): Promise<WalletStatement> => {
+    const { data, error } = await supabase.rpc('wallet_statement', { p_from: from, p_to: to, p_currency: currency });
+    if (error) throw error;
+    return data as WalletStatement;
+};
+
+/**
+ * Opens the statement as a printable document (save as PDF from the print dialog).
+ */
+export const openStatementDocument = (statement: WalletStatement) => {
+    const c = statement.currency;
+    openPrintableDocument(`Statement ${statement.period_from} to ${statement.period_to}`, `<h1>Wallet Statement</h1><p>AgroSourcing Ghana</p>
+${detailRows([
+        ['Account holder', statement.account_holder],
+        ['Phone', statement.phone || '—'],
+        ['Merchant ID', statement.merchant_id || '—'],
+        ['Period', `${statement.period_from} to ${statement.period_to}`],
+        ['Opening balance', money(statement.opening_balance, c)],
+        ['Money in', money(statement.total_in, c)],
+        ['Money out', money(statement.total_out, c)],
+        ['Closing balance', money(statement.closing_balance, c)]
+    ])}
+<table><tr><th>Date</th><th>Description</th><th>Reference</th><th class="num">Amount</th><th class="num">Balance</th></tr>
+${statement.lines.length === 0 ? '<tr><td colspan="5" class="muted">No wallet activity in this period.</td></tr>' : statement.lines.map(line => `<tr>
+<td>${escapeHtml(new Date(line.posted_at).toLocaleString())}</td><td>${escapeHtml(line.description)}</td><td>${escapeHtml(line.reference || '')}</td>
+<td class="num">${Number(line.amount) > 0 ? '+' : ''}${Number(line.amount).toFixed(2)}</td><td class="num">${Number(line.balance).toFixed(2)}</td></tr>`).join('')}
+</table>
+<p class="muted">Generated ${escapeHtml(new Date(statement.generated_at).toLocaleString())} from the AgroSourcing wallet ledger.</p>`);
+};
+
+export const downloadStatementCsv = (statement: WalletStatement) => {
+    downloadCsv(`wallet-statement-${statement.period_from}-to-${statement.period_to}.csv`, [
+        ['Date', 'Type', 'Description', 'Reference', 'Amount', 'Balance'],
+        [statement.period_from, '', 'Opening balance', '', '', Number(statement.opening_balance).toFixed(2)],
+        ...statement.lines.map(line => [
+            new Date(line.posted_at).toISOString(), line.kind, line.description, line.reference || '',
+            Number(line.amount).toFixed(2), Number(line.balance).toFixed(2)
+        ]),
+        [statement.period_to, '', 'Closing balance', '', '', Number(statement.closing_balance).toFixed(2)]
+    ]);
+};
+
+/**
+ * Printable receipt for a single wallet transaction.
+ */
+export const openTransactionReceipt = (tx: Transaction, holder: User) => {
+    const credit = isCreditTransaction(tx);
+    openPrintableDocument(`Receipt ${tx.provider_reference || tx.id}`, `<h1>Transaction Receipt</h1><p>AgroSourcing Ghana Wallet</p>
+${detailRows([
+        ['Reference', tx.provider_reference || tx.id],
+        ['Date', new Date(tx.created_at).toLocaleString()],
+        ['Account holder', holder.name],
+        ['Description', tx.description || tx.type],
+        ['Type', tx.type.replace(/_/g, ' ')],
+        ['Amount', `${credit ? '+' : '-'} ${money(tx.amount, tx.currency)}`],
+        ...(tx.fee ? [['Fee', money(tx.fee, tx.currency)] as [string, unknown]] : []),
+        ['Channel', [tx.provider, tx.phone_number].filter(Boolean).join(' ') || '—'],
+        ['Status', tx.status]
+    ])}
+<p class="muted">Transaction ID ${escapeHtml(tx.id)}</p>`);
+};
+
+export const downloadTransactionsCsv = (transactions: Transaction[]) => {
+    downloadCsv(`wallet-transactions-${new Date().toISOString().slice(0, 10)}.csv`, [
+        ['Date', 'Type', 'Description', 'Reference', 'Amount', 'Fee', 'Status'],
+        ...transactions.map(tx => [
+            new Date(tx.created_at).toISOString(), tx.type, tx.description || '', tx.provider_reference || '',
+            (isCreditTransaction(tx) ? tx.amount : -tx.amount).toFixed(2), Number(tx.fee || 0).toFixed(2), tx.status
+        ])
+    ]);
+};
+
+/**
+ * Printable receipt for a marketplace order, from the buyer's or the seller's side.
+ */
+export const openOrderReceipt = (order: Order, role: OrderRole, viewerName?: string) => {
+    const buyer = role === 'buyer' ? viewerName : order.counterparty_name;
+    const seller = role === 'seller' ? viewerName : order.counterparty_name;
+    const reference = `#${order.id.slice(0, 8).toUpperCase()}`;
+    openPrintableDocument(`Order ${reference}`, `<h1>Order Receipt</h1><p>AgroSourcing Ghana Marketplace</p>
+${detailRows([
+        ['Order', reference],
+        ['Date', new Date(order.created_at).toLocaleString()],
+        ['Buyer', buyer || '—'],
+        ['Seller', seller || '—'],
+        ['Status', order.status],
+        ['Payment', order.payment_status === 'unpaid' || !order.payment_status ? 'Pay on delivery' : `Paid from wallet (${order.payment_status})`]
+    ])}
+<table><tr><th>Item</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr>
+${order.items.map(item => `<tr><td>${escapeHtml(item.title)}</td><td class="num">${escapeHtml(item.quantity)}</td>
+<td class="num">${Number(item.unit_price).toFixed(2)}</td><td class="num">${(item.quantity * item.unit_price).toFixed(2)}</td></tr>`).join('')}
+<tr><th colspan="3">Total</th><th class="num">${escapeHtml(money(order.total, order.currency))}</th></tr></table>
+${order.delivery_note ? `<p>Delivery note: ${escapeHtml(order.delivery_note)}</p>` : ''}
+<p class="muted">Order ID ${escapeHtml(order.id)}</p>`);
+};
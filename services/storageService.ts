@@ -30,6 +30,7 @@ export const uploadUserFile = async (
             case 'pest-diagnosis': subfolder = 'diagnosis'; break;
             case 'marketplace': subfolder = 'market'; break;
             case 'forum': subfolder = 'forum'; break;
+            case 'insurance-claim': subfolder = 'claims'; break;
         }
         storagePath = `${userId}/${subfolder}/${timestamp}_${safeFileName}`;
     }
@@ -0,0 +1,69 @@
+import { supabase } from './supabase';
+
+export interface WalletPinStatus {
+    has_pin: boolean;
+    locked_until: string | null;
+    failed_attempts: number;
+}
+
+export interface PinVerification {
+    ok: boolean;
+    attempts_left: number;
+    locked_until: string | null;
+}
+
+/**
+ * Same rules as `assert_valid_wallet_pin` in the database, for instant feedback.
+ */
+export const getPinProblem = (pin: string): string | null => {
+    if (!/^\d{4}$/.test(pin)) return 'PIN must be exactly 4 digits.';
+    if (/^(\d)\1{3}$/.test(pin) || pin === '1234' || pin === '4321') return 'PIN is too easy to guess.';
+    return null;
+};
+
+/**
+ * Whether the user has a PIN yet, and whether the wallet is locked.
+ */
+export const getWalletPinStatus = async (): Promise<WalletPinStatus> => {
+    const { data, error } = await supabase.rpc('wallet_pin_status');
+    if (error) throw error;
+    return (data as WalletPinStatus[])[0];
+};
+
+/**
+ * Checks the PIN server-side. A successful check authorises the next wallet debit
+ * (for two minutes); failures count towards a temporary lockout.
+ */
+export const verifyWalletPin = async (pin: string): Promise<PinVerification> => {
+    const { data, error } = await supabase.rpc('verify_wallet_pin', { p_pin: pin });
+    if (error) throw error;
+    return (data as PinVerification[])[0];
+};
+
+/**
+ * First-time setup. Changing an existing PIN requires a successful
+ * `verifyWalletPin` with the current PIN just before.
+ */
+export const setWalletPin = async (newPin: string) => {
+    const { error } = await supabase.rpc('set_wallet_pin', { p_new_pin: newPin });
+    if (error) throw error;
+};
+
+/**
+ * Sets a new PIN without the old one. Only accepted from a session opened
+ * through the password recovery email.
+ */
+export const resetWalletPin = async (newPin: string) => {
+    const { error } = await supabase.rpc('reset_wallet_pin', { p_new_pin: newPin });
+    if (error) throw error;
+};
+
+/**
+ * Emails a recovery link; following it lets the user choose a new password and PIN.
+ */
+export const sendWalletPinResetLink = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email.trim().toLowerCase(), {
+        redirectTo: window.location.origin,
+    });
+    if (error) throw error;
+};
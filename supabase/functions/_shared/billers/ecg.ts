@@ -0,0 +1,38 @@
+import type { BillerAdapter } from './types.ts';
+import { billerFetch, feeFor, checkAmount } from './http.ts';
+
+// ECG prepaid vending: look the meter up, then vend a 20-digit token for the amount.
+export const createEcgAdapter = (baseUrl: string, apiKey: string): BillerAdapter => ({
+  id: 'ecg',
+  name: 'ECG Prepaid',
+  accountPattern: /^\d{11,13}$/,
+  accountHint: 'Meter number (11-13 digits)',
+
+  async lookup(meter) {
+    const data = await billerFetch(baseUrl, apiKey, `/ecg/meters/${meter}`);
+    return {
+      accountNumber: data.meter,
+      customerName: data.customer_name,
+      amountDue: null,
+      plans: [],
+      currentPlan: null,
+      minAmount: 5,
+      maxAmount: 2000,
+      details: { Tariff: data.tariff, District: data.district },
+    };
+  },
+
+  quote(account, amount) {
+    checkAmount(amount, account.minAmount, account.maxAmount);
+    return { amount, fee: feeFor(amount, { flat: 0.5 }), planCode: null };
+  },
+
+  async pay(account, quote, reference) {
+    const data = await billerFetch(baseUrl, apiKey, '/ecg/vend', { meter: account.accountNumber, amount: quote.amount, reference });
+    return {
+      billerReference: data.transaction_id,
+      token: data.token,
+      details: { Units: `${data.units_kwh} kWh` },
+    };
+  },
+});
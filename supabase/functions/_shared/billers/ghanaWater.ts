@@ -0,0 +1,34 @@
+import type { BillerAdapter } from './types.ts';
+import { billerFetch, feeFor, checkAmount } from './http.ts';
+
+// Ghana Water postpaid accounts: pay any amount towards the current balance.
+export const createGhanaWaterAdapter = (baseUrl: string, apiKey: string): BillerAdapter => ({
+  id: 'gwcl',
+  name: 'Ghana Water',
+  accountPattern: /^\d{10}$/,
+  accountHint: 'Account number (10 digits)',
+
+  async lookup(accountNumber) {
+    const data = await billerFetch(baseUrl, apiKey, `/gwcl/accounts/${accountNumber}`);
+    return {
+      accountNumber: data.account,
+      customerName: data.customer_name,
+      amountDue: Number(data.balance),
+      plans: [],
+      currentPlan: null,
+      minAmount: 1,
+      maxAmount: 5000,
+      details: { Address: data.address },
+    };
+  },
+
+  quote(account, amount) {
+    checkAmount(amount, account.minAmount, account.maxAmount);
+    return { amount, fee: feeFor(amount, { flat: 0.5 }), planCode: null };
+  },
+
+  async pay(account, quote, reference) {
+    const data = await billerFetch(baseUrl, apiKey, '/gwcl/payments', { account: account.accountNumber, amount: quote.amount, reference });
+    return { billerReference: data.receipt_no, token: null, details: { 'New Balance': `GHS ${Number(data.balance).toFixed(2)}` } };
+  },
+});
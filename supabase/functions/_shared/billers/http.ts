@@ -0,0 +1,29 @@
+import { BillerRejectedError } from './types.ts';
+
+// Biller APIs answer { error } with a 4xx when a number is unknown or a payment is refused
+export const billerFetch = async (baseUrl: string, apiKey: string, path: string, body?: unknown) => {
+  const res = await fetch(`${baseUrl}${path}`, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) {
+    const message = data?.error || `Biller request failed (${res.status})`;
+    throw res.status >= 500 ? new Error(message) : new BillerRejectedError(message);
+  }
+  return data;
+};
+
+// Flat convenience fee, or a percentage with bounds
+export const feeFor = (amount: number, rule: { flat?: number; rate?: number; min?: number; max?: number }) => {
+  const fee = rule.flat ?? amount * (rule.rate ?? 0);
+  return Math.round(Math.min(rule.max ?? Infinity, Math.max(rule.min ?? 0, fee)) * 100) / 100;
+};
+
+export const checkAmount = (amount: number, min: number, max: number) => {
+  if (!(amount >= min && amount <= max)) throw new Error(`Amount must be between GHS ${min} and GHS ${max}`);
+};
@@ -0,0 +1,25 @@
+import type { BillerAdapter } from './types.ts';
+import { createEcgAdapter } from './ecg.ts';
+import { createGhanaWaterAdapter } from './ghanaWater.ts';
+import { createMultichoiceAdapter } from './multichoice.ts';
+import { createSchoolFeesAdapter } from './schoolFees.ts';
+
+declare const Deno: any;
+
+export type { BillerAdapter, BillAccount, BillQuote, BillReceipt, BillPlan } from './types.ts';
+export { BillerRejectedError } from './types.ts';
+
+// Each biller's API defaults to the local stand-in (npm run mock:billers)
+const env = (name: string) => Deno.env.get(name) ?? '';
+const url = (name: string) => Deno.env.get(name) ?? 'http://localhost:8788';
+
+export const getBillerAdapter = (id: string): BillerAdapter | null => {
+  switch (id) {
+    case 'ecg': return createEcgAdapter(url('ECG_API_URL'), env('ECG_API_KEY'));
+    case 'gwcl': return createGhanaWaterAdapter(url('GWCL_API_URL'), env('GWCL_API_KEY'));
+    case 'dstv':
+    case 'gotv': return createMultichoiceAdapter(id, url('MULTICHOICE_API_URL'), env('MULTICHOICE_API_KEY'));
+    case 'school': return createSchoolFeesAdapter(url('SCHOOL_FEES_API_URL'), env('SCHOOL_FEES_API_KEY'));
+    default: return null;
+  }
+};
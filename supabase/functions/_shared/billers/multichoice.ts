@@ -0,0 +1,41 @@
+import type { BillerAdapter } from './types.ts';
+import { billerFetch, feeFor } from './http.ts';
+
+// DSTV and GOtv share MultiChoice's API; payments renew a bouquet at its listed price.
+export const createMultichoiceAdapter = (product: 'dstv' | 'gotv', baseUrl: string, apiKey: string): BillerAdapter => ({
+  id: product,
+  name: product === 'dstv' ? 'DSTV' : 'GOtv',
+  accountPattern: /^\d{10}$/,
+  accountHint: 'Smartcard / IUC number (10 digits)',
+
+  async lookup(smartcard) {
+    const data = await billerFetch(baseUrl, apiKey, `/multichoice/${product}/smartcards/${smartcard}`);
+    const plans = (data.plans || []).map((p: any) => ({ code: p.code, name: p.name, amount: Number(p.price) }));
+    return {
+      accountNumber: data.smartcard,
+      customerName: data.customer_name,
+      amountDue: null,
+      plans,
+      currentPlan: data.current_plan,
+      minAmount: Math.min(...plans.map((p: any) => p.amount)),
+      maxAmount: Math.max(...plans.map((p: any) => p.amount)),
+      details: { 'Due Date': data.due_date },
+    };
+  },
+
+  quote(account, _amount, planCode) {
+    const plan = account.plans.find(p => p.code === (planCode || account.currentPlan));
+    if (!plan) throw new Error('Choose a bouquet');
+    return { amount: plan.amount, fee: feeFor(plan.amount, { flat: 0.5 }), planCode: plan.code };
+  },
+
+  async pay(account, quote, reference) {
+    const data = await billerFetch(baseUrl, apiKey, `/multichoice/${product}/renew`, {
+      smartcard: account.accountNumber,
+      plan_code: quote.planCode,
+      amount: quote.amount,
+      reference,
+    });
+    return { billerReference: data.transaction_id, token: null, details: { 'Active Until': data.expires_on } };
+  },
+});
@@ -0,0 +1,34 @@
+import type { BillerAdapter } from './types.ts';
+import { billerFetch, feeFor, checkAmount } from './http.ts';
+
+// School fees collection: students are identified as SCHOOLCODE-NUMBER, e.g. ACH-20231.
+export const createSchoolFeesAdapter = (baseUrl: string, apiKey: string): BillerAdapter => ({
+  id: 'school',
+  name: 'School Fees',
+  accountPattern: /^[A-Z]{2,6}-\d{3,8}$/,
+  accountHint: 'Student ID, e.g. ACH-20231',
+
+  async lookup(studentId) {
+    const data = await billerFetch(baseUrl, apiKey, `/schoolfees/students/${studentId}`);
+    return {
+      accountNumber: data.student_id,
+      customerName: data.student_name,
+      amountDue: Number(data.outstanding),
+      plans: [],
+      currentPlan: null,
+      minAmount: 10,
+      maxAmount: Math.max(10, Number(data.outstanding)),
+      details: { School: data.school, Class: data.class, Term: data.term },
+    };
+  },
+
+  quote(account, amount) {
+    checkAmount(amount, account.minAmount, account.maxAmount);
+    return { amount, fee: feeFor(amount, { rate: 0.01, min: 1, max: 10 }), planCode: null };
+  },
+
+  async pay(account, quote, reference) {
+    const data = await billerFetch(baseUrl, apiKey, '/schoolfees/payments', { student_id: account.accountNumber, amount: quote.amount, reference });
+    return { billerReference: data.receipt_no, token: null, details: { Outstanding: `GHS ${Number(data.outstanding).toFixed(2)}` } };
+  },
+});
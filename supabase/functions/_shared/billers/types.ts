@@ -0,0 +1,43 @@
+export interface BillPlan {
+  code: string;
+  name: string;
+  amount: number;
+}
+
+// What the biller knows about a customer/meter number
+export interface BillAccount {
+  accountNumber: string;
+  customerName: string;
+  amountDue: number | null;  // Outstanding bill (postpaid), null for prepaid
+  plans: BillPlan[];         // Packages to choose from (TV), empty otherwise
+  currentPlan: string | null;
+  minAmount: number;
+  maxAmount: number;
+  details: Record<string, string>; // Shown on the confirmation screen, e.g. tariff or school
+}
+
+export interface BillQuote {
+  amount: number;
+  fee: number;
+  planCode: string | null;
+}
+
+export interface BillReceipt {
+  billerReference: string;
+  token: string | null;      // ECG prepaid token and similar
+  details: Record<string, string>;
+}
+
+// The biller answered with a refusal (4xx), so the payment certainly didn't go through.
+// Any other error from pay() leaves its outcome unknown.
+export class BillerRejectedError extends Error {}
+
+export interface BillerAdapter {
+  id: string;
+  name: string;
+  accountPattern: RegExp;
+  accountHint: string;
+  lookup(accountNumber: string): Promise<BillAccount>;
+  quote(account: BillAccount, amount: number, planCode?: string | null): BillQuote;
+  pay(account: BillAccount, quote: BillQuote, reference: string): Promise<BillReceipt>;
+}
@@ -0,0 +1,28 @@
+import type { PayoutAdapter } from './types.ts';
+import { createMomoDisbursementAdapter } from './momoDisbursement.ts';
+import { createPaystackTransferAdapter } from './paystackTransfer.ts';
+
+declare const Deno: any;
+
+export type { PayoutAdapter, PayoutRequest } from './types.ts';
+export { PayoutRejectedError } from './types.ts';
+
+// MTN wallets go through the MoMo Disbursement API; banks and the other networks through Paystack Transfers.
+// Both report back to payment-webhook, which completes or fails the withdrawal.
+export const getPayoutAdapter = (provider: string): PayoutAdapter => {
+  if (provider === 'MTN') {
+    const callbackUrl = new URL(`${Deno.env.get('SUPABASE_URL')}/functions/v1/payment-webhook`);
+    callbackUrl.searchParams.set('provider', 'mtn');
+    callbackUrl.searchParams.set('token', Deno.env.get('MTN_CALLBACK_TOKEN') ?? '');
+
+    return createMomoDisbursementAdapter({
+      baseUrl: Deno.env.get('MOMO_DISBURSEMENT_URL') ?? 'http://localhost:8787',
+      targetEnvironment: Deno.env.get('MOMO_TARGET_ENVIRONMENT') ?? 'sandbox',
+      subscriptionKey: Deno.env.get('MOMO_DISBURSEMENT_SUBSCRIPTION_KEY') ?? '',
+      apiUser: Deno.env.get('MOMO_DISBURSEMENT_API_USER') ?? '',
+      apiKey: Deno.env.get('MOMO_DISBURSEMENT_API_KEY') ?? '',
+      callbackUrl: callbackUrl.toString(),
+    });
+  }
+  return createPaystackTransferAdapter(Deno.env.get('PAYSTACK_SECRET_KEY') ?? '');
+};
@@ -0,0 +1,92 @@
+import { PayoutRejectedError } from './types.ts';
+import type { PayoutAdapter } from './types.ts';
+
+export interface MomoDisbursementConfig {
+  baseUrl: string;          // https://sandbox.momodeveloper.mtn.com, or the local mock gateway
+  targetEnvironment: string;
+  subscriptionKey: string;
+  apiUser: string;
+  apiKey: string;
+  callbackUrl: string;      // payment-webhook URL with ?provider=mtn&token=...
+}
+
+const toMsisdn = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.startsWith('0') ? `233${digits.slice(1)}` : digits;
+};
+
+// MTN MoMo Disbursement API: POST /disbursement/v1_0/transfer (202 Accepted, callback later)
+export const createMomoDisbursementAdapter = (config: MomoDisbursementConfig): PayoutAdapter => {
+  const getToken = async () => {
+    // The mock gateway doesn't need credentials
+    if (!config.apiUser) return null;
+    const res = await fetch(`${config.baseUrl}/disbursement/token/`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${config.apiUser}:${config.apiKey}`)}`,
+        'Ocp-Apim-Subscription-Key': config.subscriptionKey,
+      },
+    });
+    if (!res.ok) throw new Error(`MoMo token request failed (${res.status})`);
+    return (await res.json()).access_token as string;
+  };
+
+  const headers = async () => {
+    const token = await getToken();
+    return {
+      'X-Target-Environment': config.targetEnvironment,
+      'Ocp-Apim-Subscription-Key': config.subscriptionKey,
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+    };
+  };
+
+  return {
+    name: 'mtn',
+
+    async send(payout) {
+      // Without a token nothing was sent
+      let auth;
+      try {
+        auth = await headers();
+      } catch (error: any) {
+        throw new PayoutRejectedError(error.message);
+      }
+      const res = await fetch(`${config.baseUrl}/disbursement/v1_0/transfer`, {
+        method: 'POST',
+        headers: {
+          ...auth,
+          'Content-Type': 'application/json',
+          'X-Reference-Id': crypto.randomUUID(),
+          'X-Callback-Url': config.callbackUrl,
+        },
+        body: JSON.stringify({
+          amount: payout.amount.toFixed(2),
+          currency: 'GHS',
+          externalId: payout.reference,
+          payee: { partyIdType: 'MSISDN', partyId: toMsisdn(payout.accountNumber) },
+          payerMessage: payout.note || 'AgroWallet withdrawal',
+          payeeNote: payout.note || payout.reference,
+        }),
+      });
+
+      if (res.status !== 202) {
+        const body = await res.json().catch(() => null);
+        const message = body?.message || `MoMo disbursement rejected (${res.status})`;
+        // A 5xx may still have been queued; only a 4xx is a refusal
+        throw res.status >= 500 ? new Error(message) : new PayoutRejectedError(message);
+      }
+    },
+
+    // GET /disbursement/v1_0/accountholder/msisdn/{msisdn}/basicuserinfo
+    async resolveName(_provider, accountNumber) {
+      const res = await fetch(`${config.baseUrl}/disbursement/v1_0/accountholder/msisdn/${toMsisdn(accountNumber)}/basicuserinfo`, {
+        headers: await headers(),
+      });
+      if (res.status === 404) throw new Error('No MoMo wallet is registered to this number');
+      if (!res.ok) throw new Error(`MoMo account lookup failed (${res.status})`);
+
+      const info = await res.json();
+      return [info.given_name, info.family_name].filter(Boolean).join(' ') || info.name || null;
+    },
+  };
+};
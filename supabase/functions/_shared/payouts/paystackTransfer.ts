@@ -0,0 +1,92 @@
+import { PayoutRejectedError } from './types.ts';
+import type { PayoutAdapter } from './types.ts';
+
+// Paystack Transfers for bank accounts (GhIPSS) and the Telecel / AirtelTigo wallets.
+// https://paystack.com/docs/transfers/single-transfers
+// Results arrive as transfer.success / transfer.failed events on payment-webhook.
+
+// How our provider names appear in Paystack's bank list
+const PROVIDER_ALIASES: Record<string, string[]> = {
+  'Telecel': ['telecel', 'vodafone'],
+  'AirtelTigo': ['airteltigo', 'airtel', 'tigo'],
+  'GCB Bank': ['gcb'],
+  'Ecobank': ['ecobank'],
+  'Fidelity': ['fidelity'],
+  'Stanbic': ['stanbic'],
+  'Zenith': ['zenith'],
+  'Absa': ['absa', 'barclays'],
+};
+
+const MOBILE_MONEY = ['Telecel', 'AirtelTigo'];
+
+export const createPaystackTransferAdapter = (secretKey: string, baseUrl = 'https://api.paystack.co'): PayoutAdapter => {
+  const call = async (path: string, init?: RequestInit) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Authorization': `Bearer ${secretKey}`, 'Content-Type': 'application/json' },
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body?.status) {
+      const message = body?.message || `Paystack request failed (${res.status})`;
+      throw res.status >= 500 ? new Error(message) : new PayoutRejectedError(message);
+    }
+    return body.data;
+  };
+
+  // Bank codes are looked up rather than hard-coded so they stay current
+  const findBankCode = async (provider: string, type: 'ghipss' | 'mobile_money') => {
+    const banks: { name: string; code: string }[] = await call(`/bank?currency=GHS&type=${type}`);
+    const aliases = PROVIDER_ALIASES[provider] || [provider.toLowerCase()];
+    const bank = banks.find(b => aliases.some(alias => b.name.toLowerCase().includes(alias)));
+    if (!bank) throw new Error(`${provider} is not available for payouts`);
+    return bank.code;
+  };
+
+  return {
+    name: 'paystack',
+
+    async send(payout) {
+      // Nothing is paid out until /transfer, so any failure up to there is final
+      const type = MOBILE_MONEY.includes(payout.provider) ? 'mobile_money' : 'ghipss';
+      let recipient;
+      try {
+        recipient = await call('/transferrecipient', {
+          method: 'POST',
+          body: JSON.stringify({
+            type,
+            name: payout.accountName,
+            account_number: payout.accountNumber,
+            bank_code: await findBankCode(payout.provider, type),
+            currency: 'GHS',
+          }),
+        });
+      } catch (error: any) {
+        throw error instanceof PayoutRejectedError ? error : new PayoutRejectedError(error.message);
+      }
+
+      await call('/transfer', {
+        method: 'POST',
+        body: JSON.stringify({
+          source: 'balance',
+          amount: Math.round(payout.amount * 100), // Pesewas
+          recipient: recipient.recipient_code,
+          reference: payout.reference,
+          reason: payout.note || 'AgroWallet withdrawal',
+        }),
+      });
+    },
+
+    // Bank accounts always resolve; mobile money resolution isn't offered for every network
+    async resolveName(provider, accountNumber) {
+      const type = MOBILE_MONEY.includes(provider) ? 'mobile_money' : 'ghipss';
+      const bankCode = await findBankCode(provider, type);
+      try {
+        const account = await call(`/bank/resolve?account_number=${encodeURIComponent(accountNumber)}&bank_code=${bankCode}`);
+        return account.account_name || null;
+      } catch (error) {
+        if (type === 'mobile_money') return null;
+        throw new Error(`Could not verify this ${provider} account. Check the account number.`);
+      }
+    },
+  };
+};
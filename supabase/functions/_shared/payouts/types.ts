@@ -0,0 +1,22 @@
+export interface PayoutRequest {
+  reference: string;      // transactions.provider_reference, echoed back by the provider webhook
+  amount: number;         // GHS, excluding our fee
+  provider: string;       // MTN, Telecel, AirtelTigo or a bank name
+  accountNumber: string;
+  accountName: string;
+  note?: string;          // Shown to the recipient; defaults to "AgroWallet withdrawal"
+}
+
+// The provider refused the payout, or it never got as far as the transfer call, so no money moved.
+// Any other error from send() (a timeout, a 5xx) leaves the outcome to the provider webhook.
+export class PayoutRejectedError extends Error {}
+
+export interface PayoutAdapter {
+  name: string;
+  // Resolves once the provider has accepted the payout; the outcome arrives via payment-webhook.
+  // Throws PayoutRejectedError only when the payout certainly didn't go out.
+  send(payout: PayoutRequest): Promise<void>;
+  // Registered account holder name, or null where the provider has no lookup for this account type.
+  // Throws if the provider says the account doesn't exist.
+  resolveName(provider: string, accountNumber: string): Promise<string | null>;
+}
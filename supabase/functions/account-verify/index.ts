@@ -0,0 +1,147 @@
+// Follow this setup guide to deploy: https://supabase.com/docs/guides/functions/deploy
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { getPayoutAdapter } from "../_shared/payouts/index.ts"
+
+declare const Deno: any;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const NETWORKS = ['MTN', 'Telecel', 'AirtelTigo'];
+const BANKS = ['GCB Bank', 'Ecobank', 'Fidelity', 'Stanbic', 'Zenith', 'Absa'];
+
+// Sent with the code when a network has no name lookup. Paid from the payout float;
+// its callback has no matching transaction and is logged as 'unmatched'.
+// issue_linked_account_otp() caps how many go out per user and per account number.
+const TEST_DEPOSIT_AMOUNT = 0.10;
+
+// Lowercase words of a name, accents and punctuation removed
+const nameWords = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .replace(/[^a-z\s]/g, ' ').split(/\s+/).filter(w => w.length > 1);
+
+// Providers drop middle names and reorder them, so every word of the shorter name must be
+// in the longer one, and that has to be at least a first and last name where both have them.
+const namesMatch = (a: string, b: string) => {
+  const [shorter, longer] = [nameWords(a), nameWords(b)].sort((x, y) => x.length - y.length);
+  return shorter.length > 0 && shorter.length >= Math.min(2, longer.length) && shorter.every(w => longer.includes(w));
+};
+
+// Actions:
+//   { action: 'link', provider, account_number }   Verify by name lookup, else send a test deposit with a code
+//   { action: 'resend', account_id }               Send a new code for a pending account
+serve(async (req) => {
+  // 1. Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  // 2. Identify the caller from their session
+  // NOTE: Requires SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY env vars
+  const userClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+  )
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  const sendCode = async (account: any) => {
+    const { data: code, error } = await supabaseClient.rpc('issue_linked_account_otp', { p_account: account.id });
+    if (error) throw error;
+    await getPayoutAdapter(account.provider).send({
+      reference: `LAV-${crypto.randomUUID().replace(/-/g, '')}`,
+      amount: TEST_DEPOSIT_AMOUNT,
+      provider: account.provider,
+      accountNumber: account.account_number,
+      accountName: account.account_name || 'AgroWallet user',
+      note: `AgroWallet code ${code}`,
+    });
+  };
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    if (body.action === 'resend') {
+      const { data: account } = await supabaseClient.from('linked_accounts')
+        .select('*').eq('id', body.account_id).eq('user_id', user.id).eq('status', 'pending').maybeSingle();
+      if (!account) return json({ error: 'Account is not awaiting verification' }, 404);
+
+      await sendCode(account);
+      return json({ account, needs_code: true });
+    }
+
+    if (body.action !== 'link') {
+      return json({ error: 'Unknown action' }, 400);
+    }
+
+    // 3. Validate the account details
+    const provider = String(body.provider || '');
+    const accountNumber = String(body.account_number || '').replace(/\s/g, '');
+    const type = NETWORKS.includes(provider) ? 'MOMO' : BANKS.includes(provider) ? 'BANK' : null;
+    if (!type) {
+      return json({ error: 'Unsupported provider' }, 400);
+    }
+    if (type === 'MOMO' ? !/^0\d{9}$|^233\d{9}$/.test(accountNumber) : !/^\d{6,20}$/.test(accountNumber)) {
+      return json({ error: type === 'MOMO' ? 'Enter a valid mobile number' : 'Enter a valid account number' }, 400);
+    }
+
+    const { data: existing } = await supabaseClient.from('linked_accounts')
+      .select('*').eq('user_id', user.id).eq('provider', provider).eq('account_number', accountNumber).maybeSingle();
+    if (existing?.status === 'verified') {
+      return json({ error: 'This account is already linked' }, 409);
+    }
+
+    // 4. Ask the provider who owns the account; it has to be the user
+    const accountName = await getPayoutAdapter(provider).resolveName(provider, accountNumber);
+    if (accountName) {
+      const { data: profile } = await supabaseClient.from('users').select('name').eq('id', user.id).maybeSingle();
+      if (!namesMatch(accountName, profile?.name || '')) {
+        return json({ error: 'The name on this account does not match your profile name. Link an account in your own name.' }, 422);
+      }
+    }
+
+    const { data: account, error } = await supabaseClient.from('linked_accounts')
+      .upsert({
+        user_id: user.id,
+        type,
+        provider,
+        account_number: accountNumber,
+        account_name: accountName,
+        status: accountName ? 'verified' : 'pending',
+        verification_method: accountName ? 'name_lookup' : 'micro_deposit',
+        verified_at: accountName ? new Date().toISOString() : null,
+      }, { onConflict: 'user_id,provider,account_number' })
+      .select()
+      .single();
+    if (error) throw error;
+
+    // 5. No name lookup for this network: prove ownership with a code sent in a test deposit
+    if (!accountName) {
+      await sendCode(account);
+    }
+    return json({ account, needs_code: !accountName });
+
+  } catch (error: any) {
+    return json({ error: error.message }, 400);
+  }
+})
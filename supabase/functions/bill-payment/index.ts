@@ -0,0 +1,208 @@
+// Follow this setup guide to deploy: https://supabase.com/docs/guides/functions/deploy
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { getBillerAdapter, BillerRejectedError } from "../_shared/billers/index.ts"
+import type { BillerAdapter, BillReceipt } from "../_shared/billers/index.ts"
+
+declare const Deno: any;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const nextPaymentDate = (from: Date, frequency: 'weekly' | 'monthly') => {
+  const next = new Date(from);
+  if (frequency === 'weekly') next.setUTCDate(next.getUTCDate() + 7);
+  else next.setUTCMonth(next.getUTCMonth() + 1);
+  return next.toISOString().slice(0, 10);
+};
+
+const resolveBiller = (billerId: unknown, accountNumber: unknown) => {
+  const adapter = getBillerAdapter(String(billerId || ''));
+  if (!adapter) throw new Error('Unknown biller');
+  const account = String(accountNumber || '').replace(/\s/g, '').toUpperCase();
+  if (!adapter.accountPattern.test(account)) throw new Error(`Enter a valid ${adapter.accountHint.toLowerCase()}`);
+  return { adapter, account };
+};
+
+// Actions:
+//   { action: 'lookup', biller_id, account_number }                    Customer name, amount due and plans
+//   { action: 'quote', biller_id, account_number, amount, plan_code }  Amount and fee to confirm
+//   { action: 'pay', ...quote fields, save, nickname, recurring }      Debit the wallet (needs a verified PIN) and pay
+//   { action: 'run_recurring' }                                        Due saved billers; service role only (pg_cron)
+serve(async (req) => {
+  // 1. Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  // NOTE: Requires SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY env vars
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey);
+
+  // Debit, pay the biller, then complete or refund. Only a refusal is refunded: after a timeout
+  // or 5xx the biller may have taken the payment, so it stays pending until it is reconciled.
+  // Throws only before the wallet is debited.
+  const payBill = async (userId: string, adapter: BillerAdapter, accountNumber: string, amount: number, planCode: string | null,
+                         savedBillerId: string | null, requirePin: boolean) => {
+    const account = await adapter.lookup(accountNumber);
+    const quote = adapter.quote(account, amount, planCode);
+
+    const { data: bill, error } = await supabaseClient.rpc('start_bill_payment', {
+      p_user: userId,
+      p_biller: adapter.id,
+      p_biller_name: adapter.name,
+      p_account: account.accountNumber,
+      p_customer_name: account.customerName,
+      p_amount: quote.amount,
+      p_fee: quote.fee,
+      p_plan_code: quote.planCode,
+      p_saved_biller: savedBillerId,
+      p_require_pin: requirePin,
+    });
+    if (error) throw error;
+
+    let receipt: BillReceipt;
+    try {
+      receipt = await adapter.pay(account, quote, bill.id);
+    } catch (payError: any) {
+      if (!(payError instanceof BillerRejectedError)) {
+        console.error(`Bill payment ${bill.id} outcome unknown:`, payError.message);
+        return bill;
+      }
+      const { data: failed, error: failError } = await supabaseClient.rpc('fail_bill_payment', { p_id: bill.id, p_reason: payError.message });
+      if (failError) {
+        console.error(`Bill payment ${bill.id} refund failed:`, failError.message);
+        return bill;
+      }
+      return failed;
+    }
+
+    const { data: completed, error: completeError } = await supabaseClient.rpc('complete_bill_payment', {
+      p_id: bill.id,
+      p_biller_reference: receipt.billerReference,
+      p_token: receipt.token,
+      p_details: receipt.details,
+    });
+    if (completeError) {
+      console.error(`Bill payment ${bill.id} paid but not recorded:`, completeError.message);
+      return bill;
+    }
+    return completed;
+  };
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    // 2. Scheduled run: the caller must present the service role key itself
+    if (body.action === 'run_recurring') {
+      if (req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+        return json({ error: 'Not authorised' }, 401);
+      }
+
+      const today = new Date().toISOString().slice(0, 10);
+      const { data: due, error } = await supabaseClient.from('saved_billers')
+        .select('*').not('recurring_frequency', 'is', null).lte('next_payment_on', today);
+      if (error) throw error;
+
+      let paid = 0;
+      for (const saved of due ?? []) {
+        // payBill only throws before the debit, so nothing was charged
+        let status = 'failed';
+        let message: string | null = null;
+        try {
+          const adapter = getBillerAdapter(saved.biller_id);
+          if (!adapter) throw new Error('Biller is no longer available');
+          const bill = await payBill(saved.user_id, adapter, saved.account_number, Number(saved.recurring_amount), saved.plan_code, saved.id, false);
+          status = bill.status;
+          message = bill.failure_reason;
+        } catch (err: any) {
+          message = err.message;
+        }
+        if (status === 'completed') paid++;
+
+        // Failed payments aren't retried, and pending ones wait for reconciliation; the next one is scheduled either way
+        const next = nextPaymentDate(new Date(`${saved.next_payment_on}T00:00:00Z`), saved.recurring_frequency);
+        await supabaseClient.from('saved_billers').update({
+          last_payment_status: status,
+          last_payment_error: message,
+          next_payment_on: next > today ? next : nextPaymentDate(new Date(), saved.recurring_frequency),
+        }).eq('id', saved.id);
+      }
+      return json({ due: due?.length ?? 0, paid });
+    }
+
+    // 3. Everything else is on behalf of the signed-in user
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    )
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return json({ error: 'Not authenticated' }, 401);
+    }
+
+    const { adapter, account: accountNumber } = resolveBiller(body.biller_id, body.account_number);
+
+    if (body.action === 'lookup') {
+      return json({ account: await adapter.lookup(accountNumber) });
+    }
+
+    if (body.action === 'quote') {
+      const account = await adapter.lookup(accountNumber);
+      return json({ quote: adapter.quote(account, Number(body.amount), body.plan_code ?? null) });
+    }
+
+    if (body.action !== 'pay') {
+      return json({ error: 'Unknown action' }, 400);
+    }
+
+    // 4. Pay. A refusal by the biller comes back as a 'failed' payment that has been refunded,
+    // an unconfirmed one as 'pending'
+    const bill = await payBill(user.id, adapter, accountNumber, Number(body.amount), body.plan_code ?? null, null, true);
+    if (bill.status === 'failed') {
+      return json({ payment: bill }, 502);
+    }
+    if (bill.status === 'pending') {
+      return json({ payment: bill }, 202);
+    }
+
+    // 5. Save the biller only once a PIN-authorised payment went through, since recurring runs skip the PIN
+    if (body.save) {
+      const frequency = ['weekly', 'monthly'].includes(body.recurring) ? body.recurring : null;
+      const { data: saved, error } = await supabaseClient.from('saved_billers')
+        .upsert({
+          user_id: user.id,
+          biller_id: adapter.id,
+          account_number: bill.account_number,
+          customer_name: bill.customer_name,
+          nickname: body.nickname || null,
+          plan_code: bill.plan_code,
+          recurring_amount: frequency ? bill.amount : null,
+          recurring_frequency: frequency,
+          next_payment_on: frequency ? nextPaymentDate(new Date(), frequency) : null,
+        }, { onConflict: 'user_id,biller_id,account_number' })
+        .select()
+        .single();
+      if (error) throw error;
+
+      await supabaseClient.from('bill_payments').update({ saved_biller_id: saved.id }).eq('id', bill.id);
+      return json({ payment: { ...bill, saved_biller_id: saved.id } });
+    }
+    return json({ payment: bill });
+
+  } catch (error: any) {
+    return json({ error: error.message }, 400);
+  }
+})
@@ -0,0 +1,146 @@
+// Follow this setup guide to deploy: https://supabase.com/docs/guides/functions/deploy
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+declare const Deno: any;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const NETWORKS = ['MTN', 'Telecel', 'AirtelTigo'];
+
+// MoMo Collection API: https://sandbox.momodeveloper.mtn.com, or the local mock gateway
+const COLLECTION_URL = Deno.env.get('MOMO_COLLECTION_URL') ?? 'http://localhost:8787';
+
+const toMsisdn = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.startsWith('0') ? `233${digits.slice(1)}` : digits;
+};
+
+const collectionHeaders = async () => {
+  const subscriptionKey = Deno.env.get('MOMO_COLLECTION_SUBSCRIPTION_KEY') ?? '';
+  const apiUser = Deno.env.get('MOMO_COLLECTION_API_USER') ?? '';
+  const headers: Record<string, string> = {
+    'X-Target-Environment': Deno.env.get('MOMO_TARGET_ENVIRONMENT') ?? 'sandbox',
+    'Ocp-Apim-Subscription-Key': subscriptionKey,
+  };
+
+  // The mock gateway doesn't need credentials
+  if (apiUser) {
+    const res = await fetch(`${COLLECTION_URL}/collection/token/`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${apiUser}:${Deno.env.get('MOMO_COLLECTION_API_KEY') ?? ''}`)}`,
+        'Ocp-Apim-Subscription-Key': subscriptionKey,
+      },
+    });
+    if (!res.ok) throw new Error(`MoMo token request failed (${res.status})`);
+    headers['Authorization'] = `Bearer ${(await res.json()).access_token}`;
+  }
+  return headers;
+};
+
+// Body: { amount, provider, phone_number }
+// Logs a pending DEPOSIT and sends a MoMo "request to pay" prompt to the payer's phone.
+// The deposit is completed (or failed/flagged) only when payment-webhook hears back.
+serve(async (req) => {
+  // 1. Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  // 2. Identify the caller from their session
+  // NOTE: Requires SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY env vars
+  const userClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+  )
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+
+  // 3. Validate the request
+  const body = await req.json().catch(() => ({}));
+  const amount = Math.round(Number(body.amount) * 100) / 100;
+  const provider = String(body.provider || '');
+  const phoneNumber = String(body.phone_number || '').replace(/\s/g, '');
+  if (!(amount > 0)) {
+    return json({ error: 'Enter a valid amount' }, 400);
+  }
+  if (!NETWORKS.includes(provider)) {
+    return json({ error: 'Unsupported provider' }, 400);
+  }
+  if (!/^0\d{9}$|^233\d{9}$/.test(phoneNumber)) {
+    return json({ error: 'Enter a valid mobile number' }, 400);
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  // 4. Log the pending deposit; its reference is the externalId sent to the gateway
+  const { data: tx, error } = await supabaseClient.from('transactions').insert({
+    user_id: user.id,
+    amount,
+    currency: 'GHS',
+    type: 'DEPOSIT',
+    status: 'pending',
+    provider,
+    provider_reference: `DEP-${crypto.randomUUID()}`,
+    phone_number: phoneNumber,
+    description: 'Wallet Top-up',
+  }).select().single();
+  if (error) {
+    return json({ error: error.message }, 500);
+  }
+
+  // 5. Prompt the payer; the webhook settles the transaction
+  try {
+    const callbackUrl = new URL(`${Deno.env.get('SUPABASE_URL')}/functions/v1/payment-webhook`);
+    callbackUrl.searchParams.set('provider', 'mtn');
+    callbackUrl.searchParams.set('token', Deno.env.get('MTN_CALLBACK_TOKEN') ?? '');
+
+    const res = await fetch(`${COLLECTION_URL}/collection/v1_0/requesttopay`, {
+      method: 'POST',
+      headers: {
+        ...(await collectionHeaders()),
+        'Content-Type': 'application/json',
+        'X-Reference-Id': crypto.randomUUID(),
+        'X-Callback-Url': callbackUrl.toString(),
+      },
+      body: JSON.stringify({
+        amount: amount.toFixed(2),
+        currency: 'GHS',
+        externalId: tx.provider_reference,
+        payer: { partyIdType: 'MSISDN', partyId: toMsisdn(phoneNumber) },
+        payerMessage: 'Wallet Top-up',
+        payeeNote: 'Wallet Top-up',
+      }),
+    });
+
+    if (res.status !== 202) {
+      const rejection = await res.json().catch(() => null);
+      throw new Error(rejection?.message || `Payment gateway rejected the request (${res.status})`);
+    }
+  } catch (error: any) {
+    // Never prompted, so nothing can settle it
+    await supabaseClient.from('transactions').update({ status: 'failed' }).eq('id', tx.id);
+    return json({ error: error.message }, 502);
+  }
+
+  return json({ transaction: tx });
+})
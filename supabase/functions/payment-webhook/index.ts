@@ -1,6 +1,10 @@
 // Follow this setup guide to deploy: https://supabase.com/docs/guides/functions/deploy
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import type { ProviderAdapter } from "./providers/types.ts"
+import { createPaystackAdapter } from "./providers/paystack.ts"
+import { createMtnMomoAdapter } from "./providers/mtnMomo.ts"
+import { createHubtelAdapter } from "./providers/hubtel.ts"
 
 declare const Deno: any;
 
@@ -9,81 +13,77 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-serve(async (req) => {
-  // 1. Create Supabase Client with Admin Context
-  // NOTE: Requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY env vars to be set in your Supabase project
-  const supabaseClient = createClient(
-    Deno.env.get('SUPABASE_URL') ?? '',
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-  )
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+// Callback URLs registered with each provider:
+//   .../payment-webhook?provider=paystack
+//   .../payment-webhook?provider=mtn&token=<MTN_CALLBACK_TOKEN>
+//   .../payment-webhook?provider=hubtel&token=<HUBTEL_CALLBACK_TOKEN>
+const getAdapter = (req: Request): ProviderAdapter | null => {
+  const provider = new URL(req.url).searchParams.get('provider')
+    || (req.headers.get('x-paystack-signature') ? 'paystack' : '');
+
+  switch (provider) {
+    case 'paystack': return createPaystackAdapter(Deno.env.get('PAYSTACK_SECRET_KEY') ?? '');
+    case 'mtn': return createMtnMomoAdapter(Deno.env.get('MTN_CALLBACK_TOKEN') ?? '');
+    case 'hubtel': return createHubtelAdapter(Deno.env.get('HUBTEL_CALLBACK_TOKEN') ?? '');
+    default: return null;
+  }
+};
 
-  // 2. Handle CORS preflight
+serve(async (req) => {
+  // 1. Handle CORS preflight
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
 
-  try {
-    // 3. Parse Webhook Payload (e.g. from Paystack, MTN, etc.)
-    const payload = await req.json();
-    
-    // 4. Validate Signature (Crucial Security Step - Example for Paystack)
-    // const signature = req.headers.get('x-paystack-signature');
-    // if (!isValidSignature(signature, payload)) throw new Error("Invalid Signature");
+  // 2. Pick the provider adapter
+  const adapter = getAdapter(req);
+  if (!adapter) {
+    return json({ error: 'Unknown payment provider' }, 400);
+  }
 
-    // 5. Extract Details (Payment Reconciler Logic)
-    // Looking for 'external_id' and 'final_amount' as per reconciliation requirements
-    // Adapting generic payload extraction to support multiple formats
-    const data = payload.data || payload; 
-    
-    const reference = data.reference || data.external_id || data.provider_reference;
-    const amount = data.amount || data.final_amount; 
-    const gatewayStatus = data.status; // e.g. 'success', 'successful', 'completed'
+  // 3. Verify the signature against the raw body (before parsing anything)
+  const rawBody = await req.text();
+  if (!(await adapter.verify(req, rawBody))) {
+    return json({ error: 'Invalid signature' }, 401);
+  }
+
+  try {
+    // 4. Normalise the provider payload
+    const event = adapter.parse(rawBody);
 
-    if (!reference) {
-        throw new Error("Missing transaction reference/external_id");
-    }
+    // 5. Record and apply the event. `apply_payment_webhook` logs it in webhook_events,
+    // ignores replays, and flags the transaction if the amount or currency doesn't match.
+    // NOTE: Requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY env vars to be set in your Supabase project
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
 
-    // Determine if status should be 'completed'
-    // Common success codes: 'success', 'successful', 'completed', 'paid', '00'
-    const isSuccess = ['success', 'successful', 'completed', 'paid', '00'].includes(String(gatewayStatus).toLowerCase());
-    const newStatus = isSuccess ? 'completed' : 'failed';
+    const { data: outcome, error } = await supabaseClient.rpc('apply_payment_webhook', {
+      p_provider: event.provider,
+      p_event_id: event.eventId,
+      p_reference: event.reference,
+      p_status: event.status,
+      p_amount: event.amount,
+      p_currency: event.currency,
+      p_payload: event.raw,
+    });
 
-    if (newStatus === 'completed') {
-        // 6. Update Database securely
-        const { error } = await supabaseClient
-            .from('transactions')
-            .update({ 
-                status: 'completed',
-                // Optionally update amount if the final_amount differs (reconciliation)
-                // amount: amount 
-            })
-            .eq('provider_reference', reference);
+    if (error) throw error;
 
-        if (error) throw error;
-        
-        return new Response(JSON.stringify({ message: "Transaction reconciled", status: "completed" }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            status: 200,
-        });
-    } else {
-         // Mark as failed if explicitly failed
-         const { error } = await supabaseClient
-            .from('transactions')
-            .update({ status: 'failed' })
-            .eq('provider_reference', reference);
-            
-         if (error) throw error;
-         
-         return new Response(JSON.stringify({ message: "Transaction marked as failed" }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            status: 200,
-        });
-    }
+    // Always 200 once recorded, so providers stop retrying delivered events
+    return json({ message: 'Webhook processed', outcome });
 
   } catch (error: any) {
-    return new Response(JSON.stringify({ error: error.message }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 400,
-    })
+    return json({ error: error.message }, 400);
   }
-})
\ No newline at end of file
+})
@@ -0,0 +1,24 @@
+const encoder = new TextEncoder();
+
+export const hmacHex = async (algorithm: 'SHA-256' | 'SHA-512', secret: string, message: string) => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: algorithm }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Constant-time comparison so signatures can't be guessed byte by byte
+export const timingSafeEqual = (a: string, b: string) => {
+  if (!a || !b || a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+// MTN MoMo and Hubtel don't sign callbacks; we give them a callback URL carrying
+// a secret token (?token=...) and check it here.
+export const hasCallbackToken = (req: Request, expected: string) => {
+  const token = new URL(req.url).searchParams.get('token') || req.headers.get('x-callback-token') || '';
+  return timingSafeEqual(token, expected);
+};
@@ -0,0 +1,34 @@
+import type { ProviderAdapter, GatewayStatus } from './types.ts';
+import { hasCallbackToken } from './crypto.ts';
+
+// Hubtel online checkout callback.
+// { ResponseCode: "0000", Status: "Success", Data: { CheckoutId, ClientReference, Status, Amount, ... } }
+export const createHubtelAdapter = (callbackToken: string): ProviderAdapter => ({
+  name: 'hubtel',
+
+  async verify(req) {
+    return !!callbackToken && hasCallbackToken(req, callbackToken);
+  },
+
+  parse(rawBody) {
+    const payload = JSON.parse(rawBody);
+    const data = payload.Data || {};
+    if (!data.ClientReference) throw new Error('Hubtel callback has no ClientReference');
+
+    const raw = String(data.Status || payload.Status || '').toLowerCase();
+    const status: GatewayStatus =
+      payload.ResponseCode === '0000' && ['success', 'paid'].includes(raw) ? 'success'
+      : ['failed', 'cancelled', 'expired'].includes(raw) || (payload.ResponseCode && payload.ResponseCode !== '0000') ? 'failed'
+      : 'pending';
+
+    return {
+      provider: 'hubtel',
+      eventId: `${data.CheckoutId || data.ClientReference}:${raw}`,
+      reference: String(data.ClientReference),
+      status,
+      amount: Number(data.Amount),
+      currency: 'GHS', // Hubtel settles in cedis only
+      raw: payload,
+    };
+  },
+});
@@ -0,0 +1,34 @@
+import type { ProviderAdapter, GatewayStatus } from './types.ts';
+import { hasCallbackToken } from './crypto.ts';
+
+// MTN MoMo Collection "requesttopay" and Disbursement "transfer" callbacks.
+// { financialTransactionId, externalId, amount: "50", currency, payer|payee: {...}, status: "SUCCESSFUL" | "FAILED" | "PENDING", reason? }
+export const createMtnMomoAdapter = (callbackToken: string): ProviderAdapter => ({
+  name: 'mtn',
+
+  async verify(req) {
+    return !!callbackToken && hasCallbackToken(req, callbackToken);
+  },
+
+  parse(rawBody) {
+    const payload = JSON.parse(rawBody);
+    if (!payload.externalId) throw new Error('MoMo callback has no externalId');
+
+    const raw = String(payload.status || '').toUpperCase();
+    const status: GatewayStatus =
+      raw === 'SUCCESSFUL' ? 'success'
+      : ['FAILED', 'REJECTED', 'TIMEOUT', 'EXPIRED'].includes(raw) ? 'failed'
+      : 'pending';
+
+    return {
+      provider: 'mtn',
+      // The same request can report PENDING then SUCCESSFUL; each is its own event
+      eventId: `${payload.financialTransactionId || payload.externalId}:${raw}`,
+      reference: String(payload.externalId),
+      status,
+      amount: parseFloat(payload.amount),
+      currency: String(payload.currency || 'GHS'),
+      raw: payload,
+    };
+  },
+});
@@ -0,0 +1,35 @@
+import type { ProviderAdapter, GatewayStatus } from './types.ts';
+import { hmacHex, timingSafeEqual } from './crypto.ts';
+
+// https://paystack.com/docs/payments/webhooks
+// x-paystack-signature = HMAC-SHA512(raw body, secret key), hex encoded.
+export const createPaystackAdapter = (secretKey: string): ProviderAdapter => ({
+  name: 'paystack',
+
+  async verify(req, rawBody) {
+    if (!secretKey) return false;
+    const signature = req.headers.get('x-paystack-signature') || '';
+    return timingSafeEqual(signature, await hmacHex('SHA-512', secretKey, rawBody));
+  },
+
+  parse(rawBody) {
+    const payload = JSON.parse(rawBody);
+    const data = payload.data || {};
+    if (!data.reference) throw new Error('Paystack event has no reference');
+
+    const status: GatewayStatus =
+      data.status === 'success' ? 'success'
+      : ['failed', 'abandoned', 'reversed'].includes(data.status) ? 'failed'
+      : 'pending';
+
+    return {
+      provider: 'paystack',
+      eventId: `${payload.event}:${data.id ?? data.reference}`,
+      reference: String(data.reference),
+      status,
+      amount: Number(data.amount) / 100, // Paystack amounts are in pesewas
+      currency: String(data.currency || 'GHS'),
+      raw: payload,
+    };
+  },
+});
@@ -0,0 +1,19 @@
+// Normalised shape every provider callback is reduced to before it touches the database.
+
+export type GatewayStatus = 'success' | 'failed' | 'pending';
+
+export interface WebhookEvent {
+  provider: string;
+  eventId: string;    // Unique per provider; replays of the same callback share it
+  reference: string;  // Our transactions.provider_reference
+  status: GatewayStatus;
+  amount: number;     // Major units (GHS, not pesewas)
+  currency: string;
+  raw: unknown;
+}
+
+export interface ProviderAdapter {
+  name: string;
+  verify(req: Request, rawBody: string): Promise<boolean>;
+  parse(rawBody: string): WebhookEvent;
+}
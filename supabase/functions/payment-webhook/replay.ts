@@ -0,0 +1,53 @@
+// Replays a recorded provider payload against a running payment-webhook function.
+//
+//   deno run --allow-net --allow-env --allow-read replay.ts <fixture> [reference] [amount]
+//
+//   <fixture>   file name in ./fixtures without .json, e.g. paystack-charge-success
+//   [reference] provider_reference of a pending transaction (defaults to the fixture's)
+//   [amount]    amount in GHS to report; use a different value to exercise the 'flagged' path
+//
+// Env: WEBHOOK_URL (default: local `supabase functions serve` URL),
+//      PAYSTACK_SECRET_KEY, MTN_CALLBACK_TOKEN, HUBTEL_CALLBACK_TOKEN — same values the function uses.
+import { hmacHex } from "./providers/crypto.ts"
+
+declare const Deno: any;
+
+const WEBHOOK_URL = Deno.env.get('WEBHOOK_URL') ?? 'http://localhost:54321/functions/v1/payment-webhook';
+
+const [fixture, reference, amount] = Deno.args;
+if (!fixture) {
+  console.error('Usage: replay.ts <fixture> [reference] [amount]');
+  Deno.exit(1);
+}
+
+const provider = fixture.split('-')[0];
+const payload = JSON.parse(await Deno.readTextFile(new URL(`./fixtures/${fixture}.json`, import.meta.url)));
+
+// Point the payload at a real transaction, in each provider's own format
+if (provider === 'paystack') {
+  if (reference) payload.data.reference = reference;
+  if (amount) payload.data.amount = Math.round(parseFloat(amount) * 100);
+} else if (provider === 'mtn') {
+  if (reference) payload.externalId = reference;
+  if (amount) payload.amount = amount;
+} else if (provider === 'hubtel') {
+  if (reference) payload.Data.ClientReference = reference;
+  if (amount) payload.Data.Amount = parseFloat(amount);
+} else {
+  console.error(`Unknown provider prefix "${provider}"`);
+  Deno.exit(1);
+}
+
+const body = JSON.stringify(payload);
+const url = new URL(WEBHOOK_URL);
+url.searchParams.set('provider', provider);
+const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+if (provider === 'paystack') {
+  headers['x-paystack-signature'] = await hmacHex('SHA-512', Deno.env.get('PAYSTACK_SECRET_KEY') ?? '', body);
+} else {
+  url.searchParams.set('token', Deno.env.get(provider === 'mtn' ? 'MTN_CALLBACK_TOKEN' : 'HUBTEL_CALLBACK_TOKEN') ?? '');
+}
+
+const res = await fetch(url, { method: 'POST', headers, body });
+console.log(res.status, await res.text());
@@ -0,0 +1,140 @@
+// Follow this setup guide to deploy: https://supabase.com/docs/guides/functions/deploy
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { getPayoutAdapter, PayoutRejectedError } from "../_shared/payouts/index.ts"
+
+declare const Deno: any;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+// Hand a claimed withdrawal to the provider. Only an outright refusal fails it, which refunds the
+// reserved amount and fee; after a timeout or 5xx the payout may still go through, so it stays
+// pending for the webhook (or an admin) to settle.
+const dispatch = async (supabaseClient: any, tx: any) => {
+  try {
+    await getPayoutAdapter(tx.provider).send({
+      reference: tx.provider_reference,
+      amount: Number(tx.amount),
+      provider: tx.provider,
+      accountNumber: tx.phone_number,
+      accountName: tx.account_name,
+    });
+    return { dispatched: true };
+  } catch (error: any) {
+    if (!(error instanceof PayoutRejectedError)) {
+      console.error(`Payout ${tx.provider_reference} outcome unknown:`, error.message);
+      return { dispatched: true, uncertain: true };
+    }
+    await supabaseClient.from('transactions').update({ status: 'failed' }).eq('id', tx.id).eq('status', 'pending');
+    return { dispatched: false, error: error.message };
+  }
+};
+
+// Actions:
+//   { transaction_id }   Dispatch the caller's own withdrawal (or any, for admins)
+//   { action: 'sweep' }  Dispatch withdrawals left pending and never sent; service role only (pg_cron)
+serve(async (req) => {
+  // 1. Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  // NOTE: Requires SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY env vars
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey);
+  const body = await req.json().catch(() => ({}));
+
+  // 2. Sweep: the app dispatches right after request_withdrawal, but the call can be lost
+  // (closed tab, dropped connection). Claim each one the same way a user call would.
+  if (body.action === 'sweep') {
+    if (req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+      return json({ error: 'Not authorised' }, 401);
+    }
+
+    const { data: stale, error } = await supabaseClient
+      .from('transactions')
+      .update({ payout_dispatched_at: new Date().toISOString() })
+      .eq('type', 'WITHDRAWAL')
+      .eq('status', 'pending')
+      .is('payout_dispatched_at', null)
+      .lt('created_at', new Date(Date.now() - 15 * 60 * 1000).toISOString())
+      .select();
+    if (error) {
+      return json({ error: error.message }, 500);
+    }
+
+    let failed = 0;
+    for (const tx of stale ?? []) {
+      if (!(await dispatch(supabaseClient, tx)).dispatched) failed++;
+    }
+    return json({ swept: stale?.length ?? 0, failed });
+  }
+
+  // 3. Identify the caller from their session
+  const userClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+  )
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+
+  const { transaction_id } = body;
+  if (!transaction_id) {
+    return json({ error: 'transaction_id is required' }, 400);
+  }
+
+  // 4. Claim the withdrawal so a retried call can't pay it out twice.
+  // Admins dispatch withdrawals they approved after a fraud review.
+  const { data: staff } = await supabaseClient.from('staff_roles').select('role').eq('user_id', user.id).maybeSingle();
+  let claim = supabaseClient
+    .from('transactions')
+    .update({ payout_dispatched_at: new Date().toISOString() })
+    .eq('id', transaction_id)
+    .eq('type', 'WITHDRAWAL')
+    .eq('status', 'pending')
+    .is('payout_dispatched_at', null);
+  if (staff?.role !== 'admin') {
+    claim = claim.eq('user_id', user.id);
+  }
+  const { data: tx, error: claimError } = await claim.select().maybeSingle();
+
+  if (claimError) {
+    return json({ error: claimError.message }, 500);
+  }
+  if (!tx) {
+    // Flagged by the fraud rules: the payout waits for an admin
+    const { data: held } = await supabaseClient
+      .from('transactions')
+      .select('id')
+      .eq('id', transaction_id)
+      .eq('user_id', user.id)
+      .eq('status', 'flagged')
+      .maybeSingle();
+    if (held) {
+      return json({ message: 'Withdrawal held for review', held: true }, 202);
+    }
+    return json({ error: 'Withdrawal not found or already dispatched' }, 409);
+  }
+
+  // 5. Hand it to the provider
+  const result = await dispatch(supabaseClient, tx);
+  if (!result.dispatched) {
+    return json({ error: result.error }, 502);
+  }
+  return json({ message: 'Payout dispatched', reference: tx.provider_reference, uncertain: !!result.uncertain }, 202);
+})
@@ -0,0 +1,83 @@
+// Follow this setup guide to deploy: https://supabase.com/docs/guides/functions/deploy
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+declare const Deno: any;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+// Stores the last week of daily rainfall for every grid cell with active index cover, so
+// evaluate_parametric_triggers() can check the triggers. Service role only (pg_cron, 05:00).
+// Re-fetching overlapping days corrects readings the provider has since revised.
+serve(async (req) => {
+  // 1. Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  // NOTE: Requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY env vars.
+  // WEATHER_API_URL defaults to Open-Meteo's forecast API (no key needed).
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    return json({ error: 'Not authorised' }, 401);
+  }
+  const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey);
+  const weatherUrl = Deno.env.get('WEATHER_API_URL') ?? 'https://api.open-meteo.com/v1/forecast';
+
+  try {
+    // 2. Grid cells to fetch
+    const { data: cells, error } = await supabaseClient.rpc('parametric_grid_cells');
+    if (error) throw error;
+
+    // 3. Fetch and store each cell; one failing cell doesn't stop the rest
+    const today = new Date().toISOString().slice(0, 10);
+    let stored = 0;
+    const failed: string[] = [];
+    for (const cell of cells ?? []) {
+      const label = `${cell.grid_lat},${cell.grid_lon}`;
+      try {
+        const url = `${weatherUrl}?latitude=${cell.grid_lat}&longitude=${cell.grid_lon}` +
+          '&daily=precipitation_sum,temperature_2m_max&past_days=7&forecast_days=1&timezone=Africa%2FAccra';
+        const res = await fetch(url);
+        if (!res.ok) throw new Error(`Weather API responded ${res.status}`);
+        const { daily } = await res.json();
+
+        // Only completed days; today's total is still accumulating, and missing readings stay missing
+        const rows = (daily?.time ?? [])
+          .map((date: string, i: number) => ({
+            grid_lat: cell.grid_lat,
+            grid_lon: cell.grid_lon,
+            observed_on: date,
+            rainfall_mm: daily.precipitation_sum?.[i],
+            temp_max: daily.temperature_2m_max?.[i] ?? null,
+            source: 'open-meteo',
+            recorded_at: new Date().toISOString(),
+          }))
+          .filter((row: any) => row.observed_on < today && typeof row.rainfall_mm === 'number');
+        if (rows.length === 0) continue;
+
+        const { error: upsertError } = await supabaseClient.from('weather_observations')
+          .upsert(rows, { onConflict: 'grid_lat,grid_lon,observed_on' });
+        if (upsertError) throw upsertError;
+        stored += rows.length;
+      } catch (err: any) {
+        console.error(`Weather fetch failed for ${label}:`, err.message);
+        failed.push(label);
+      }
+    }
+
+    return json({ cells: cells?.length ?? 0, stored, failed });
+
+  } catch (error: any) {
+    return json({ error: error.message }, 400);
+  }
+})
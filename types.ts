@@ -10,6 +10,7 @@ export type View =
   | 'RENTAL' 
   | 'WALLET' 
   | 'ORDERS' 
+  | 'REQUESTS' 
   | 'ADMIN' 
   | 'PROFILE';
 
@@ -26,6 +27,7 @@ export interface User {
   merchant_id?: string;
   messaging_enabled?: boolean;
   network?: string; // Updated from momo_network
+  preferred_currency?: string; // Prices are shown in this currency; defaults to GHS
 }
 
 export interface GeoLocation {
@@ -34,6 +36,23 @@ export interface GeoLocation {
   address?: string; // Added optional address
 }
 
+export interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// A listing as the map shows it: a pin plus what its preview card needs
+export interface MapListing {
+  id: string;
+  lat: number;
+  lng: number;
+  title: string;
+  subtitle: string;
+  imageUrl?: string;
+}
+
 // Deprecated for new calls, kept for legacy if needed, but we are switching to WeatherReport
 export interface WeatherForecast {
   day: string;
@@ -160,6 +179,48 @@ export interface MarketplaceItem {
   userHasLiked?: boolean;
   merchant_id?: string | null;
   messaging_enabled?: boolean;
+  region?: string | null;
+  distance_km?: number | null; // Only set when searching from a location
+  seller_rating?: number | null; // Average review score, set by search
+  stock_quantity?: number | null; // Units on hand; null when the listing doesn't track stock
+  unit?: string | null; // Unit of measure `price` is quoted in, e.g. "100kg bag"
+  min_order_quantity?: number;
+  price_tiers?: PriceTier[]; // Bulk prices, sorted by min_quantity
+  sold_out?: boolean;
+}
+
+export interface PriceTier {
+  min_quantity: number;
+  unit_price: number;
+}
+
+export type MarketplaceSort = 'relevance' | 'newest' | 'nearest' | 'price_asc' | 'price_desc';
+
+export interface MarketplaceSearchFilters {
+  query: string;
+  category: string | null;
+  priceBucket: string | null; // One of the price facet values
+  region: string | null;
+  minRating: number | null;
+  origin: GeoLocation | null;
+  radiusKm: number | null;
+  sort: MarketplaceSort;
+}
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface MarketplaceSearchResult {
+  total: number;
+  items: MarketplaceItem[];
+  facets: {
+    category: FacetBucket[];
+    price: FacetBucket[];
+    region: FacetBucket[];
+    rating: FacetBucket[]; // value is the minimum average rating
+  };
 }
 
 export interface Message {
@@ -169,15 +230,6 @@ export interface Message {
   timestamp: string;
 }
 
-export interface SellerOrder {
-  id: string;
-  buyer_id: string;
-  item_id: string;
-  amount: number;
-  status: string;
-  created_at: string;
-}
-
 export interface ForumReply {
   id: number;
   author: string;
@@ -235,6 +287,31 @@ export interface EquipmentItem {
   created_at?: string; 
 }
 
+export type BookingStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'expired';
+
+export interface EquipmentBooking {
+  id: string;
+  equipment_id: string;
+  renter_id: string;
+  owner_id: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string;   // YYYY-MM-DD, inclusive
+  days: number;
+  price_per_day: number;
+  total: number;
+  status: BookingStatus;
+  note?: string | null;
+  created_at: string;
+  equipment_name?: string;
+  counterparty_name?: string; // Renter name for owners, owner name for renters
+}
+
+export interface BookedRange {
+  start_date: string;
+  end_date: string;
+  status: BookingStatus;
+}
+
 export interface Inquiry {
   id?: number;
   user_id?: string | null;
@@ -255,21 +332,398 @@ export interface Transaction {
   user_id: string;
   amount: number;
   currency: string;
-  type: 'DEPOSIT' | 'WITHDRAWAL' | 'LOAN' | 'PAYMENT' | 'TRANSFER';
+  type: 'DEPOSIT' | 'WITHDRAWAL' | 'LOAN' | 'LOAN_REPAYMENT' | 'PAYMENT' | 'TRANSFER' | 'TRANSFER_IN' | 'ESCROW_HOLD' | 'ESCROW_RELEASE' | 'ESCROW_REFUND' | 'PAYMENT_REFUND' | 'INSURANCE_CLAIM' | 'FX_OUT' | 'FX_IN';
   status: 'completed' | 'pending' | 'failed' | 'flagged' | 'refunded';
   provider: string;
   provider_reference: string;
   phone_number: string;
   description?: string;
+  order_id?: string | null;
+  journal_entry_id?: string | null;
+  counterparty_id?: string | null;
+  fee?: number;
+  account_name?: string | null;
+  created_at: string;
+}
+
+export interface WalletRecipient {
+  id: string;
+  name: string;
+  phone: string | null; // Masked, e.g. •••3456
+  merchant_id: string | null;
+}
+
+// Verified contents of a scanned payment QR (`read_payment_qr`)
+export interface PaymentQrDetails extends WalletRecipient {
+  amount: number | null;     // Fixed by the payee on dynamic codes
+  reference: string | null;  // e.g. an invoice number
+  expires_at: string | null;
+}
+
+export type InvoiceStatus = 'open' | 'paid' | 'cancelled';
+
+// Payment request from a seller. Link-only invoices (no payer_id) can be paid by anyone with the link
+export interface Invoice {
+  id: string;
+  invoice_number: string;
+  merchant_id: string;
+  payer_id: string | null;
+  amount: number;
+  currency: string;
+  description: string;
+  item_id: string | null;
+  booking_id: string | null;
+  status: InvoiceStatus;
+  due_date: string | null;
+  paid_by: string | null;
+  paid_at: string | null;
+  created_at: string;
+  merchant_name?: string; // From `get_invoice`
+  merchant_code?: string | null; // The merchant's AGRO-PAY ID
+  item_title?: string | null;
+  payer_name?: string | null;
+}
+
+export interface LinkedAccount {
+  id: string;
+  user_id: string;
+  type: 'MOMO' | 'BANK';
+  provider: string;
+  account_number: string;
+  account_name: string | null; // As registered with the provider, once verified by name lookup
+  status: 'pending' | 'verified';
+  verification_method: 'name_lookup' | 'micro_deposit' | null;
+  is_default: boolean;
+  verified_at: string | null;
+  created_at: string;
+}
+
+export interface WithdrawalQuote {
+  amount: number;
+  fee: number;
+  total: number; // Amount + fee, debited from the wallet
+  daily_limit: number;
+  used_today: number;
+  remaining_today: number;
+  balance: number;
+}
+
+export interface LoanProduct {
+  id: string;
+  name: string;
+  description: string | null;
+  monthly_rate: number;
+  terms: number[]; // Months
+  min_amount: number;
+  max_amount: number;
+  penalty_rate: number;
+  grace_days: number;
+  active: boolean;
+}
+
+export type LoanStatus = 'pending' | 'rejected' | 'active' | 'repaid' | 'defaulted';
+
+export interface Loan {
+  id: string;
+  user_id: string;
+  product_id: string;
+  principal: number;
+  monthly_rate: number;
+  term_months: number;
+  purpose: string | null;
+  status: LoanStatus;
+  credit_score: number | null;
+  credit_limit: number | null;
+  decision_reason: string | null;
+  decided_at: string | null;
+  disbursed_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+  loan_installments?: LoanInstallment[];
+}
+
+export interface LoanInstallment {
+  id: number;
+  loan_id: string;
+  seq: number;
+  due_date: string;
+  principal_due: number;
+  interest_due: number;
+  penalty_due: number;
+  paid_amount: number;
+  status: 'scheduled' | 'due' | 'overdue' | 'paid';
+  accrued_at: string | null;
+  paid_at: string | null;
+}
+
+export interface CreditScore {
+  score: number; // 300-850
+  credit_limit: number; // Pre-approved, disbursed without review
+  factors: Record<string, number | null>;
+}
+
+// Row of the admin loan book (`loan_book()`)
+export interface LoanBookEntry {
+  id: string;
+  borrower_id: string;
+  borrower_name: string;
+  borrower_phone: string | null;
+  product_name: string;
+  principal: number;
+  term_months: number;
+  monthly_rate: number;
+  status: LoanStatus;
+  credit_score: number | null;
+  credit_limit: number | null;
+  decision_reason: string | null;
+  outstanding: number;
+  next_due_date: string | null;
+  days_overdue: number;
   created_at: string;
 }
 
+export interface BillPlan {
+  code: string;
+  name: string;
+  amount: number;
+}
+
+// A customer/meter number as the biller knows it (`bill-payment` lookup)
+export interface BillAccount {
+  accountNumber: string;
+  customerName: string;
+  amountDue: number | null; // Postpaid balance; null for prepaid
+  plans: BillPlan[]; // TV bouquets, empty otherwise
+  currentPlan: string | null;
+  minAmount: number;
+  maxAmount: number;
+  details: Record<string, string>;
+}
+
+export interface BillQuote {
+  amount: number;
+  fee: number;
+  planCode: string | null;
+}
+
+export interface BillPayment {
+  id: string;
+  user_id: string;
+  biller_id: string;
+  account_number: string;
+  customer_name: string | null;
+  amount: number;
+  fee: number;
+  plan_code: string | null;
+  status: 'pending' | 'completed' | 'failed';
+  token: string | null; // e.g. ECG prepaid token
+  biller_reference: string | null;
+  details: Record<string, string>;
+  failure_reason: string | null;
+  transaction_id: string | null;
+  refund_transaction_id: string | null;
+  saved_biller_id: string | null;
+  recurring: boolean;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface SavedBiller {
+  id: string;
+  user_id: string;
+  biller_id: string;
+  account_number: string;
+  customer_name: string | null;
+  nickname: string | null;
+  plan_code: string | null;
+  recurring_amount: number | null;
+  recurring_frequency: 'weekly' | 'monthly' | null;
+  next_payment_on: string | null;
+  last_payment_status: 'completed' | 'pending' | 'failed' | null;
+  last_payment_error: string | null;
+  created_at: string;
+}
+
+export interface InsuranceProduct {
+  id: string;
+  name: string;
+  category: 'crop' | 'health';
+  description: string | null;
+  monthly_premium: number;
+  coverage_amount: number;
+  term_months: number;
+  waiting_days: number; // Incidents this soon after the start aren't covered
+  perils: string[];
+  terms: string | null; // Policy wording
+  active: boolean;
+  parametric: boolean; // Weather-index cover: pays automatically on its triggers, no claim form
+  index_defaults: { index: ParametricIndex; window_days: number; threshold_mm: number; payout_share: number }[];
+}
+
+export type ParametricIndex = 'drought' | 'excess_rain';
+
+// Rainfall rule on an index policy, e.g. under 40mm in 30 days
+export interface ParametricTrigger {
+  id: string;
+  policy_id: string;
+  index: ParametricIndex;
+  window_days: number;
+  threshold_mm: number;
+  payout_amount: number;
+  created_at: string;
+}
+
+// One daily check of a trigger: the audit trail behind every automatic payout (or none)
+export interface TriggerEvaluation {
+  id: number;
+  trigger_id: string;
+  policy_id: string;
+  evaluated_on: string;
+  window_start: string;
+  observed_days: number;
+  index_value: number | null; // Rainfall over the window (mm)
+  threshold_mm: number;
+  outcome: 'fired' | 'not_met' | 'insufficient_data' | 'waiting_period' | 'cooldown' | 'cover_exhausted' | 'error';
+  claim_id: string | null;
+  details: {
+    rule?: string;
+    grid?: { lat: number; lon: number };
+    readings?: { date: string; rainfall_mm: number; source: string }[];
+    error?: string;
+  };
+  created_at: string;
+}
+
+export interface InsurancePolicy {
+  id: string;
+  policy_number: string;
+  user_id: string;
+  product_id: string;
+  status: 'active' | 'lapsed' | 'cancelled' | 'expired';
+  monthly_premium: number;
+  coverage_amount: number;
+  claimed_amount: number;
+  start_date: string;
+  end_date: string;
+  next_premium_due: string | null;
+  insured_name: string;
+  farm_location: string | null;
+  insured_crop: string | null;
+  farm_size_acres: number | null;
+  latitude: number | null; // Farm GPS location, for index cover
+  longitude: number | null;
+  cancelled_at: string | null;
+  created_at: string;
+  insurance_products?: InsuranceProduct;
+}
+
+export type ClaimStatus = 'submitted' | 'under_review' | 'rejected' | 'paid';
+
+export interface ClaimEvidence {
+  id: number;
+  claim_id: string;
+  kind: 'file' | 'weather';
+  user_file_id: string | null;
+  file_url: string | null;
+  file_name: string | null;
+  weather_report: WeatherReport | null;
+  note: string | null;
+  created_at: string;
+}
+
+export interface InsuranceClaim {
+  id: string;
+  claim_number: string;
+  policy_id: string;
+  user_id: string;
+  peril: string;
+  incident_date: string;
+  description: string;
+  amount_claimed: number;
+  status: ClaimStatus;
+  amount_paid: number | null;
+  decision_notes: string | null;
+  decided_at: string | null;
+  source: 'manual' | 'parametric';
+  trigger_evaluation_id: number | null;
+  created_at: string;
+  insurance_policies?: InsurancePolicy;
+  insurance_claim_evidence?: ClaimEvidence[];
+  users?: { name: string; phone: string | null }; // Claimant, in the admin queue
+  parametric_trigger_evaluations?: TriggerEvaluation; // Decision behind a parametric claim
+}
+
+// Evidence sent with a claim (`file_insurance_claim`)
+export type ClaimEvidenceInput =
+  | { kind: 'file'; user_file_id: string; note?: string }
+  | { kind: 'weather'; weather_report: WeatherReport; note?: string };
+
+export type OrderStatus = 'Processing' | 'Shipped' | 'Delivered' | 'Cancelled' | 'Disputed';
+
+export type OrderPaymentStatus = 'unpaid' | 'held' | 'released' | 'refunded';
+
+export interface OrderItem {
+  id?: number;
+  order_id?: string;
+  item_id: string | null;
+  title: string;
+  quantity: number;
+  unit_price: number;
+  unit?: string | null;
+}
+
+export type BuyRequestStatus = 'open' | 'awarded' | 'closed';
+
+export type QuoteStatus = 'pending' | 'accepted' | 'declined' | 'withdrawn';
+
+export interface BuyRequest {
+  id: string;
+  buyer_id: string;
+  crop: Crop;
+  quantity: number;
+  unit: string;
+  target_price?: number | null; // GHS per unit
+  needed_by?: string | null; // YYYY-MM-DD
+  location_name?: string | null;
+  region?: string | null;
+  location_lat?: number | null;
+  location_lng?: number | null;
+  notes?: string | null;
+  status: BuyRequestStatus;
+  accepted_quote_id?: string | null;
+  order_id?: string | null;
+  created_at: string;
+  buyer_name?: string;
+}
+
+export interface BuyRequestQuote {
+  id: string;
+  request_id: string;
+  seller_id: string;
+  unit_price: number; // GHS per unit of the request
+  quantity: number;
+  delivery_date?: string | null;
+  note?: string | null;
+  status: QuoteStatus;
+  created_at: string;
+  seller_name?: string;
+  seller_rating?: number | null;
+  request?: BuyRequest; // Set on the seller's own quotes
+}
+
 export interface Order {
   id: string;
-  status: 'Processing' | 'Shipped' | 'Delivered';
-  date: string;
-  items: string[];
+  buyer_id: string;
+  seller_id: string;
+  status: OrderStatus;
+  payment_status?: OrderPaymentStatus;
   total: number;
+  currency: string;
+  delivery_note?: string | null;
+  created_at: string;
+  updated_at?: string;
+  items: OrderItem[];
+  counterparty_name?: string; // Seller name for buyers, buyer name for sellers
 }
 
 export interface UserFile {
@@ -279,7 +733,7 @@ export interface UserFile {
   storage_path: string;
   file_name: string;
   file_type: string;
-  context: 'admin-logo' | 'profile' | 'pest-diagnosis' | 'marketplace' | 'rental' | 'forum' | 'misc';
+  context: 'admin-logo' | 'profile' | 'pest-diagnosis' | 'marketplace' | 'rental' | 'forum' | 'insurance-claim' | 'misc';
   ai_summary?: string | null;
   notes?: string | null;
   created_at: string; // Standardized to snake_case
@@ -303,3 +757,121 @@ export interface Review {
     comment: string;
     created_at: string;
 }
+
+export interface StatementLine {
+  posted_at: string;
+  kind: string; // Journal entry kind, e.g. deposit, transfer, escrow_release
+  description: string;
+  reference: string | null;
+  amount: number; // Signed: money in is positive
+  balance: number; // Running balance after this line
+}
+
+export interface WalletStatement {
+  account_holder: string;
+  phone: string | null;
+  merchant_id: string | null;
+  currency: string;
+  period_from: string; // YYYY-MM-DD
+  period_to: string;
+  opening_balance: number;
+  total_in: number;
+  total_out: number;
+  closing_balance: number;
+  generated_at: string;
+  lines: StatementLine[];
+}
+
+export type MomoNetwork = 'MTN' | 'Telecel' | 'AirtelTigo' | 'unknown';
+
+export interface ParsedPaymentSms {
+  network: MomoNetwork;
+  parser: 'regex' | 'gemini';
+  amount: number | null;
+  reference: string | null;
+  phone: string | null;
+  network_txn_id: string | null;
+}
+
+export interface SmsReconciliationResult {
+  outcome: 'flagged' | 'unmatched' | 'duplicate';
+  transaction_id: string | null;
+  detail: string | null;
+  parsed: ParsedPaymentSms;
+}
+
+export interface PaymentSms {
+  id: string;
+  user_id: string;
+  network: MomoNetwork;
+  parser: 'regex' | 'gemini';
+  raw_text: string;
+  network_txn_id: string | null;
+  amount: number | null;
+  reference: string | null;
+  phone: string | null;
+  transaction_id: string | null;
+  outcome: 'completed' | 'flagged' | 'unmatched';
+  detail: string | null;
+  review_decision: 'approved' | 'rejected' | null;
+  review_notes: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  // Joined for the admin review queue
+  users?: { name: string; phone: string | null };
+  transactions?: Pick<Transaction, 'amount' | 'provider_reference' | 'phone_number' | 'status' | 'created_at'> | null;
+}
+
+export type FraudRuleId = 'velocity' | 'unusual_amount' | 'new_recipients' | 'failed_pins' | 'webhook_amount_mismatch';
+
+export interface FraudFlag {
+  id: string;
+  transaction_id: string;
+  user_id: string;
+  rule_id: FraudRuleId;
+  severity: 'low' | 'medium' | 'high';
+  details: Record<string, any>; // Readings the rule fired on, e.g. { count_in_window, max_count }
+  status: 'open' | 'approved' | 'reversed';
+  review_notes: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  // Joined for the admin review queue
+  users?: { name: string; phone: string | null };
+  transactions?: Transaction;
+}
+
+export interface FlaggedTransaction {
+  transaction: Transaction;
+  holder: { name: string; phone: string | null } | null;
+  flags: FraudFlag[];
+}
+
+export interface Currency {
+  code: string; // ISO 4217, e.g. GHS, XOF, NGN
+  name: string;
+  symbol: string;
+  decimals: number;
+  min_conversion: number; // Smallest amount that can be converted from this currency
+  enabled: boolean;
+}
+
+export interface FxRate {
+  base: string;
+  quote: string;
+  rate: number; // 1 base = rate quote
+  updated_at: string;
+}
+
+export interface FxQuote {
+  from_currency: string;
+  to_currency: string;
+  amount: number;
+  rate: number;
+  converted: number;
+  rate_updated_at: string;
+}
+
+export interface WalletBalance {
+  currency: string;
+  balance: number;
+}
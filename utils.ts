@@ -30,3 +30,36 @@ export const fileToDataUri = (file: File): Promise<string> => {
     reader.onerror = (error) => reject(error);
   });
 };
+
+export const escapeHtml = (value: unknown) =>
+  String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const DOCUMENT_STYLE = `body{font-family:sans-serif;max-width:720px;margin:40px auto;color:#1f2937}h1{color:#166534;margin-bottom:0}
+table{width:100%;border-collapse:collapse;margin:24px 0}td,th{padding:8px;border-bottom:1px solid #e5e7eb;text-align:left}
+td.label{color:#6b7280;width:40%}.num{text-align:right;white-space:nowrap}.muted{font-size:12px;color:#6b7280}`;
+
+/**
+ * Opens an HTML document (receipt, statement, policy schedule) in a new window and starts
+ * printing, where it can be saved as PDF. `body` must already be escaped.
+ */
+export const openPrintableDocument = (title: string, body: string) => {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('Allow pop-ups to view the document.');
+  win.document.write(`<!doctype html><html><head><title>${escapeHtml(title)}</title><style>${DOCUMENT_STYLE}</style></head><body>${body}</body></html>`);
+  win.document.close();
+  win.print();
+};
+
+/**
+ * Downloads rows as a CSV file (first row is the header). Quotes every field so amounts,
+ * commas and line breaks in descriptions survive spreadsheet imports.
+ */
+export const downloadCsv = (filename: string, rows: unknown[][]) => {
+  const csv = rows.map(row => row.map(cell => `"${String(cell ?? '').replace(/"/g, '""')}"`).join(',')).join('\r\n');
+  const url = URL.createObjectURL(new Blob(['﻿' + csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MAP_TILE_URL': JSON.stringify(env.MAP_TILE_URL || ''),
+        'process.env.MAP_TILE_ATTRIBUTION': JSON.stringify(env.MAP_TILE_ATTRIBUTION || ''),
+        'process.env.MAP_TILE_MAX_ZOOM': JSON.stringify(env.MAP_TILE_MAX_ZOOM || '')
       },
       resolve: {
         alias: {